@@ -61,6 +61,34 @@ function makeRelationRepoMock() {
   };
 }
 
+function makeDiagnosticRepoMock() {
+  return {
+    replaceFileDiagnostics: mock(() => {}),
+    getFileDiagnostics: mock(() => [] as any[]),
+    getAllDiagnostics: mock(() => [] as any[]),
+  };
+}
+
+function makeHistoryRepoMock() {
+  return {
+    appendHistory: mock(() => {}),
+    getByName: mock((_project: string, _name: string) => [] as any[]),
+    getSince: mock((_project: string, _since: string) => [] as any[]),
+  };
+}
+
+function makeSnapshotRepoMock() {
+  return {
+    getSnapshot: mock((name: string) => ({ name, ref: name, commit: 'c0ffee', createdAt: '2026-01-01T00:00:00.000Z' }) as any),
+    listSnapshots: mock(() => [] as any[]),
+    getSnapshotFiles: mock((_name: string) => [] as any[]),
+    getBlobSymbols: mock((_ids: readonly number[]) => [] as any[]),
+    getBlobRelations: mock((_ids: readonly number[]) => [] as any[]),
+    deleteSnapshot: mock((_name: string) => {}),
+    pruneBlobs: mock(() => {}),
+  };
+}
+
 function makeFileRepoMock() {
   return {
     upsertFile: mock(() => {}),
@@ -79,6 +107,26 @@ function makeParseCacheMock() {
   };
 }
 
+function historyRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    project: 'test-project',
+    filePath: 'src/a.ts',
+    name: 'run',
+    kind: 'function',
+    event: 'added',
+    previousName: null,
+    previousFilePath: null,
+    signature: null,
+    fingerprint: null,
+    bodyHash: null,
+    contentHash: null,
+    metaJson: null,
+    recordedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
 // ── Options factory ───────────────────────────────────────────────────────
 
 const PROJECT_ROOT = '/project';
@@ -90,6 +138,9 @@ function makeOptions(opts: {
   coordinator?: ReturnType<typeof makeCoordinatorMock>;
   symbolRepo?: ReturnType<typeof makeSymbolRepoMock>;
   relationRepo?: ReturnType<typeof makeRelationRepoMock>;
+  diagnosticRepo?: ReturnType<typeof makeDiagnosticRepoMock>;
+  historyRepo?: ReturnType<typeof makeHistoryRepoMock>;
+  snapshotRepo?: ReturnType<typeof makeSnapshotRepoMock>;
   existsSync?: (p: string) => boolean;
   projectRoot?: string;
 } = {}) {
@@ -98,6 +149,9 @@ function makeOptions(opts: {
   const coordinator = opts.coordinator ?? makeCoordinatorMock();
   const symbolRepo = opts.symbolRepo ?? makeSymbolRepoMock();
   const relationRepo = opts.relationRepo ?? makeRelationRepoMock();
+  const diagnosticRepo = opts.diagnosticRepo ?? makeDiagnosticRepoMock();
+  const historyRepo = opts.historyRepo ?? makeHistoryRepoMock();
+  const snapshotRepo = opts.snapshotRepo ?? makeSnapshotRepoMock();
 
   return {
     projectRoot: opts.projectRoot ?? PROJECT_ROOT,
@@ -109,6 +163,9 @@ function makeOptions(opts: {
       fileRepo: makeFileRepoMock(),
       symbolRepo,
       relationRepo,
+      diagnosticRepo,
+      historyRepo,
+      snapshotRepo,
       parseCache: makeParseCacheMock(),
     }),
     _acquireWatcherRoleFn: mock(async () => (opts.role ?? 'owner') as const),
@@ -120,9 +177,10 @@ function makeOptions(opts: {
     })) as any,
     _extractSymbolsFn: mock(() => []) as any,
     _extractRelationsFn: mock(() => []) as any,
-    _loadTsconfigPathsFn: mock((_root: string) => null) as any,
+    _loadTsconfigPathsForFileFn: mock((_filePath: string, _root: string) => null) as any,
     _symbolSearchFn: mock((_opts: any) => []) as any,
     _relationSearchFn: mock((_opts: any) => []) as any,
+    _indexSnapshotFn: mock(async (o: any) => ({ name: o.name, ref: o.ref, commit: 'c0ffee' })) as any,
     _db: db,
     _watcher: watcher,
     _coordinator: coordinator,
@@ -291,6 +349,32 @@ describe('CodeLedger', () => {
     await ledger.close();
   });
 
+  // [ED] getDependencies: specifier별 relation이 여러 개여도 파일은 한 번만 반환해야 한다
+  it('should return each dependency file once when several specifiers import from the same file', async () => {
+    const opts = makeOptions();
+    opts._relationSearchFn.mockReturnValue([
+      { type: 'imports', srcFilePath: 'src/a.ts', dstFilePath: 'src/b.ts', srcSymbolName: null, dstSymbolName: 'x' },
+      { type: 'imports', srcFilePath: 'src/a.ts', dstFilePath: 'src/b.ts', srcSymbolName: null, dstSymbolName: 'y' },
+    ]);
+    const ledger = await CodeLedger.open(opts);
+
+    expect(ledger.getDependencies('src/a.ts')).toEqual(['src/b.ts']);
+    await ledger.close();
+  });
+
+  // [ED] getDependents: specifier별 relation이 여러 개여도 파일은 한 번만 반환해야 한다
+  it('should return each dependent file once when a file imports several specifiers', async () => {
+    const opts = makeOptions();
+    opts._relationSearchFn.mockReturnValue([
+      { type: 'imports', srcFilePath: 'src/a.ts', dstFilePath: 'src/b.ts', srcSymbolName: null, dstSymbolName: 'x' },
+      { type: 'imports', srcFilePath: 'src/a.ts', dstFilePath: 'src/b.ts', srcSymbolName: null, dstSymbolName: 'y' },
+    ]);
+    const ledger = await CodeLedger.open(opts);
+
+    expect(ledger.getDependents('src/b.ts')).toEqual(['src/a.ts']);
+    await ledger.close();
+  });
+
   // [HP] getDependencies: project 명시 시 해당 project를 쿼리에 사용해야 한다
   it('should use the given project when getDependencies is called with a project argument', async () => {
     const opts = makeOptions();
@@ -375,6 +459,42 @@ describe('CodeLedger', () => {
     await ledger.close();
   });
 
+  // [HP] getAffected: project 생략 시 모든 workspace project의 imports를 합쳐야 한다
+  it('should include dependents from other workspace projects when getAffected is called without a project argument', async () => {
+    const relationRepo = makeRelationRepoMock();
+    relationRepo.getByType.mockImplementation(((project: string) => project === '@acme/web'
+      ? [{ srcFilePath: 'apps/web/src/app.ts', dstFilePath: 'packages/core/src/index.ts', type: 'imports', project: '@acme/web' }]
+      : []) as any);
+    const opts = makeOptions({ relationRepo });
+    opts._discoverProjectsFn = mock(async () => [
+      { dir: 'packages/core', project: '@acme/core' },
+      { dir: 'apps/web', project: '@acme/web' },
+    ]);
+    const ledger = await CodeLedger.open(opts);
+
+    const result = await ledger.getAffected(['packages/core/src/index.ts']);
+
+    expect(result).toEqual(['apps/web/src/app.ts']);
+    await ledger.close();
+  });
+
+  // [ED] getAffected: project 지정 시 해당 project의 imports만 사용해야 한다
+  it('should only read the given project when getAffected is called with a project argument', async () => {
+    const relationRepo = makeRelationRepoMock();
+    const opts = makeOptions({ relationRepo });
+    opts._discoverProjectsFn = mock(async () => [
+      { dir: 'packages/core', project: '@acme/core' },
+      { dir: 'apps/web', project: '@acme/web' },
+    ]);
+    const ledger = await CodeLedger.open(opts);
+
+    await ledger.getAffected([], '@acme/core');
+
+    expect(relationRepo.getByType).toHaveBeenCalledTimes(1);
+    expect(relationRepo.getByType).toHaveBeenCalledWith('@acme/core', 'imports');
+    await ledger.close();
+  });
+
   // [HP] hasCycle: 순환이 있을 때 true를 반환해야 한다
   it('should return true when hasCycle detects a circular dependency in the graph', async () => {
     const relationRepo = makeRelationRepoMock();
@@ -403,6 +523,108 @@ describe('CodeLedger', () => {
     await ledger.close();
   });
 
+  // [HP] getSupertypes / getSubtypes: 저장된 heritage relation으로 직접 상·하위 타입을 반환해야 한다
+  it('should return direct supertypes and subtypes from stored heritage relations when type hierarchy is queried', async () => {
+    const relationRepo = makeRelationRepoMock();
+    relationRepo.getByType.mockImplementation(((_project: string, type: string) => type === 'implements'
+      ? [{ srcFilePath: 'src/b.ts', srcSymbolName: 'SqlRepo', dstFilePath: 'src/a.ts', dstSymbolName: 'Repo', type: 'implements', project: 'test-project' }]
+      : []) as any);
+    const opts = makeOptions({ relationRepo });
+    const ledger = await CodeLedger.open(opts);
+
+    const supertypes = await ledger.getSupertypes('src/b.ts', 'SqlRepo');
+    const subtypes = await ledger.getSubtypes('src/a.ts', 'Repo');
+
+    expect(supertypes).toEqual([{ filePath: 'src/a.ts', symbolName: 'Repo', relation: 'implements' }]);
+    expect(subtypes).toEqual([{ filePath: 'src/b.ts', symbolName: 'SqlRepo', relation: 'implements' }]);
+    await ledger.close();
+  });
+
+  // [HP] getImplementations / getTypeHierarchy: 여러 workspace project의 relation을 합쳐야 한다
+  it('should resolve implementations and the inheritance tree across workspace projects when project is omitted', async () => {
+    const relationRepo = makeRelationRepoMock();
+    relationRepo.getByType.mockImplementation(((project: string, type: string) => {
+      if (project === '@acme/core' && type === 'extends') {
+        return [{ srcFilePath: 'packages/core/src/repo.ts', srcSymbolName: 'Repo', dstFilePath: 'packages/core/src/reader.ts', dstSymbolName: 'Reader', type, project }];
+      }
+      if (project === '@acme/web' && type === 'implements') {
+        return [{ srcFilePath: 'apps/web/src/web-repo.ts', srcSymbolName: 'WebRepo', dstFilePath: 'packages/core/src/repo.ts', dstSymbolName: 'Repo', type, project }];
+      }
+      return [];
+    }) as any);
+    const opts = makeOptions({ relationRepo });
+    opts._discoverProjectsFn = mock(async () => [
+      { dir: 'packages/core', project: '@acme/core' },
+      { dir: 'apps/web', project: '@acme/web' },
+    ]);
+    const ledger = await CodeLedger.open(opts);
+
+    const implementations = await ledger.getImplementations('packages/core/src/reader.ts', 'Reader');
+    const tree = await ledger.getTypeHierarchy('packages/core/src/repo.ts', 'Repo');
+
+    expect(implementations.map((n) => n.symbolName)).toEqual(['WebRepo']);
+    expect(tree.supertypes.children.map((n) => n.symbolName)).toEqual(['Reader']);
+    expect(tree.subtypes.children.map((n) => n.symbolName)).toEqual(['WebRepo']);
+    await ledger.close();
+  });
+
+  // [ED] getTypeHierarchy: project 지정 시 해당 project의 heritage relation만 읽어야 한다
+  it('should only read the given project when getTypeHierarchy is called with a project argument', async () => {
+    const relationRepo = makeRelationRepoMock();
+    const opts = makeOptions({ relationRepo });
+    const ledger = await CodeLedger.open(opts);
+
+    await ledger.getTypeHierarchy('src/a.ts', 'A', 'other');
+
+    expect(relationRepo.getByType.mock.calls).toEqual([['other', 'extends'], ['other', 'implements']] as any);
+    await ledger.close();
+  });
+
+  // [HP] getOverriddenMembers: overrides relation의 dst 멤버를 반환해야 한다
+  it('should return overridden base members from overrides relations when getOverriddenMembers is called', async () => {
+    const opts = makeOptions();
+    opts._relationSearchFn.mockReturnValue([
+      { type: 'overrides', srcFilePath: 'src/derived.ts', srcSymbolName: 'Derived.run', dstFilePath: 'src/base.ts', dstSymbolName: 'Base.run' },
+    ]);
+    const ledger = await CodeLedger.open(opts);
+
+    const result = ledger.getOverriddenMembers('src/derived.ts', 'Derived.run');
+
+    expect(result).toEqual([{ filePath: 'src/base.ts', symbolName: 'Base.run' }]);
+    expect(opts._relationSearchFn).toHaveBeenCalledWith(
+      expect.objectContaining({
+        query: expect.objectContaining({ srcFilePath: 'src/derived.ts', srcSymbolName: 'Derived.run', type: 'overrides', project: 'test-project' }),
+      }),
+    );
+    await ledger.close();
+  });
+
+  // [HP] getMemberImplementations: incoming overrides를 전이적으로 따라가야 한다
+  it('should follow incoming overrides transitively when getMemberImplementations is called', async () => {
+    const opts = makeOptions();
+    opts._relationSearchFn.mockImplementation(((o: any) => {
+      if (o.query.dstSymbolName === 'Repo.find') {
+        return [{ type: 'overrides', srcFilePath: 'src/sql.ts', srcSymbolName: 'SqlRepo.find', dstFilePath: 'src/repo.ts', dstSymbolName: 'Repo.find' }];
+      }
+      if (o.query.dstSymbolName === 'SqlRepo.find') {
+        return [{ type: 'overrides', srcFilePath: 'src/cached.ts', srcSymbolName: 'CachedRepo.find', dstFilePath: 'src/sql.ts', dstSymbolName: 'SqlRepo.find' }];
+      }
+      return [];
+    }) as any);
+    const ledger = await CodeLedger.open(opts);
+
+    const result = ledger.getMemberImplementations('src/repo.ts', 'Repo.find');
+
+    expect(result).toEqual([
+      { filePath: 'src/sql.ts', symbolName: 'SqlRepo.find' },
+      { filePath: 'src/cached.ts', symbolName: 'CachedRepo.find' },
+    ]);
+    expect(opts._relationSearchFn).toHaveBeenCalledWith(
+      expect.objectContaining({ query: expect.objectContaining({ type: 'overrides', project: undefined }) }),
+    );
+    await ledger.close();
+  });
+
   // [HP] parseSource(abs, text) → ParsedFile 반환 + parseCache 저장
   it('should return a ParsedFile and store it in parseCache when parseSource is called', async () => {
     const opts = makeOptions();
@@ -608,20 +830,46 @@ describe('CodeLedger', () => {
 
   // ── H-4: tsconfigPaths extractRelations 전달 ──────────────────────────────
 
-  // [HP] _loadTsconfigPathsFn 결과가 extractRelations에 전달된다
-  it('should pass tsconfigPaths from _loadTsconfigPathsFn to extractRelations fn', async () => {
+  // [HP] 파일별 _loadTsconfigPathsForFileFn 결과가 extractRelations에 전달된다
+  it('should pass the tsconfigPaths of the parsed file to extractRelations fn', async () => {
     const tsconfigPaths = { '@/': ['src/'] };
     const opts = makeOptions({ role: 'reader' });
-    (opts as any)._loadTsconfigPathsFn = mock(() => tsconfigPaths);
+    (opts as any)._loadTsconfigPathsForFileFn = mock(() => tsconfigPaths);
     const ledger = await CodeLedger.open(opts);
     const parsed = { filePath: '/project/src/a.ts', program: { body: [] }, errors: [], comments: [], sourceText: 'x' };
 
     ledger.extractRelations(parsed as any);
 
+    expect((opts as any)._loadTsconfigPathsForFileFn).toHaveBeenCalledWith('/project/src/a.ts', '/project');
     expect(opts._extractRelationsFn).toHaveBeenCalledWith(
       expect.anything(),
       expect.anything(),
       tsconfigPaths,
+      [],
+      undefined,
+      'x',
+    );
+    await ledger.close();
+  });
+
+  // [HP] workspace package manifests are passed to extractRelations
+  it('should pass workspace packages built from discovered boundaries to extractRelations fn', async () => {
+    const opts = makeOptions({ role: 'reader' });
+    opts._discoverProjectsFn = mock(async () => [
+      { dir: 'packages/core', project: '@acme/core', manifest: { name: '@acme/core', main: 'src/index.ts' } },
+    ]);
+    const ledger = await CodeLedger.open(opts);
+    const parsed = { filePath: '/project/src/a.ts', program: { body: [] }, errors: [], comments: [], sourceText: 'x' };
+
+    ledger.extractRelations(parsed as any);
+
+    expect(opts._extractRelationsFn).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      undefined,
+      [{ name: '@acme/core', dir: '/project/packages/core', manifest: { name: '@acme/core', main: 'src/index.ts' } }],
+      undefined,
+      'x',
     );
     await ledger.close();
   });
@@ -674,23 +922,24 @@ describe('CodeLedger', () => {
     await ledger.close();
   });
 
-  // ── A-1: _loadTsconfigPathsFn await ───────────────────────────────────────
+  // ── A-1: per-file tsconfig ────────────────────────────────────────────────
 
-  // [NE/A-1] _loadTsconfigPathsFn이 Promise를 반환하면 await된 값이 extractRelations에 전달되어야 한다
-  it('should await _loadTsconfigPathsFn and pass resolved value to extractRelations', async () => {
-    const tsconfigPaths = { '@/': ['src/'] };
+  // [NE/A-1] 같은 인스턴스에서도 파일마다 가장 가까운 tsconfig로 해석해야 한다
+  it('should resolve each parsed file with its own tsconfig when packages have different paths', async () => {
+    const webPaths = { baseUrl: '/project/packages/web', paths: new Map([['@/*', ['src/*']]]) };
     const opts = makeOptions({ role: 'reader' });
-    (opts as any)._loadTsconfigPathsFn = mock(() => Promise.resolve(tsconfigPaths));
+    (opts as any)._loadTsconfigPathsForFileFn = mock((filePath: string) =>
+      filePath.startsWith('/project/packages/web/') ? webPaths : null,
+    );
     const ledger = await CodeLedger.open(opts);
-    const parsed = { filePath: '/project/src/a.ts', program: { body: [] }, errors: [], comments: [], sourceText: 'x' };
+    const parsed = (filePath: string) => ({ filePath, program: { body: [] }, errors: [], comments: [], sourceText: 'x' });
 
-    ledger.extractRelations(parsed as any);
+    ledger.extractRelations(parsed('/project/packages/web/src/a.ts') as any);
+    ledger.extractRelations(parsed('/project/packages/api/src/a.ts') as any);
 
-    expect(opts._extractRelationsFn).toHaveBeenCalledWith(
-      expect.anything(),
-      expect.anything(),
-      tsconfigPaths,
-    );
+    const calls = (opts._extractRelationsFn as any).mock.calls;
+    expect(calls[0][2]).toBe(webPaths);
+    expect(calls[1][2]).toBeUndefined();
     await ledger.close();
   });
 
@@ -784,4 +1033,349 @@ describe('CodeLedger', () => {
     );
     await ledger.close();
   });
+
+  // ── Import audit ─────────────────────────────────────────────────────────
+
+  // [HP] listExternalDependencies는 패키지별로 subpath와 import한 파일을 묶어야 한다
+  it('should group external imports by package with subpaths and importing files when listExternalDependencies is called', async () => {
+    const relationRepo = makeRelationRepoMock();
+    relationRepo.getByType.mockImplementation(((_project: string, type: string) =>
+      type === 'external'
+        ? [
+            { project: 'test-project', type, srcFilePath: 'src/b.ts', srcSymbolName: null, dstFilePath: 'react', dstSymbolName: 'useState', metaJson: '{"subpath":"."}' },
+            { project: 'test-project', type, srcFilePath: 'src/a.ts', srcSymbolName: null, dstFilePath: 'react', dstSymbolName: 'jsx', metaJson: '{"subpath":"./jsx-runtime"}' },
+            { project: 'test-project', type, srcFilePath: 'src/a.ts', srcSymbolName: null, dstFilePath: 'react', dstSymbolName: 'useMemo', metaJson: '{"subpath":"."}' },
+            { project: 'test-project', type, srcFilePath: 'src/a.ts', srcSymbolName: null, dstFilePath: '@scope/ui', dstSymbolName: 'Button', metaJson: null },
+          ]
+        : []) as any);
+    const ledger = await CodeLedger.open(makeOptions({ relationRepo }));
+
+    const deps = ledger.listExternalDependencies();
+
+    expect(relationRepo.getByType).toHaveBeenCalledWith('test-project', 'external');
+    expect(deps).toEqual([
+      { project: 'test-project', packageName: '@scope/ui', subpaths: ['.'], files: ['src/a.ts'] },
+      { project: 'test-project', packageName: 'react', subpaths: ['.', './jsx-runtime'], files: ['src/b.ts', 'src/a.ts'] },
+    ]);
+    await ledger.close();
+  });
+
+  // [HP] listUnresolvedImports는 파일과 specifier 쌍을 중복 없이 반환해야 한다
+  it('should return each unresolved file and specifier pair once when listUnresolvedImports is called', async () => {
+    const relationRepo = makeRelationRepoMock();
+    relationRepo.getByType.mockImplementation(((_project: string, type: string) =>
+      type === 'unresolved'
+        ? [
+            { project: 'test-project', type, srcFilePath: 'src/b.ts', srcSymbolName: null, dstFilePath: './gone', dstSymbolName: 'x', metaJson: null },
+            { project: 'test-project', type, srcFilePath: 'src/a.ts', srcSymbolName: null, dstFilePath: '@app/missing', dstSymbolName: 'y', metaJson: null },
+            { project: 'test-project', type, srcFilePath: 'src/a.ts', srcSymbolName: null, dstFilePath: '@app/missing', dstSymbolName: 'z', metaJson: null },
+          ]
+        : []) as any);
+    const ledger = await CodeLedger.open(makeOptions({ relationRepo }));
+
+    expect(ledger.listUnresolvedImports('test-project')).toEqual([
+      { project: 'test-project', filePath: 'src/a.ts', specifier: '@app/missing' },
+      { project: 'test-project', filePath: 'src/b.ts', specifier: './gone' },
+    ]);
+    await ledger.close();
+  });
+
+  // [NE] close 이후 import audit 호출은 throw해야 한다
+  it('should throw when listExternalDependencies is called after close', async () => {
+    const ledger = await CodeLedger.open(makeOptions());
+    await ledger.close();
+
+    expect(() => ledger.listExternalDependencies()).toThrow('closed');
+    expect(() => ledger.listUnresolvedImports()).toThrow('closed');
+  });
+
+  // ── Diagnostics ──────────────────────────────────────────────────────────
+
+  // [HP] getDiagnostics(filePath)는 해당 파일의 진단을 span 형태로 반환해야 한다
+  it('should return the diagnostics of a file with spans when getDiagnostics is called with a file path', async () => {
+    const diagnosticRepo = makeDiagnosticRepoMock();
+    diagnosticRepo.getFileDiagnostics.mockReturnValue([
+      { project: 'test-project', filePath: 'src/a.ts', severity: 'error', message: 'Unexpected token', helpMessage: null, startLine: 2, startColumn: 4, endLine: 2, endColumn: 5 },
+    ]);
+    const ledger = await CodeLedger.open(makeOptions({ diagnosticRepo }));
+
+    const diagnostics = ledger.getDiagnostics('src/a.ts');
+
+    expect(diagnosticRepo.getFileDiagnostics).toHaveBeenCalledWith('test-project', 'src/a.ts');
+    expect(diagnostics).toEqual([
+      {
+        project: 'test-project',
+        filePath: 'src/a.ts',
+        severity: 'error',
+        message: 'Unexpected token',
+        helpMessage: null,
+        span: { start: { line: 2, column: 4 }, end: { line: 2, column: 5 } },
+      },
+    ]);
+    await ledger.close();
+  });
+
+  // [HP] getDiagnostics()는 모든 프로젝트의 진단을 조회해야 한다
+  it('should read the diagnostics of every project when getDiagnostics is called without a file path', async () => {
+    const diagnosticRepo = makeDiagnosticRepoMock();
+    const opts = makeOptions({ diagnosticRepo });
+    opts._discoverProjectsFn = mock(async () => [
+      { dir: 'packages/a', project: 'a' },
+      { dir: 'packages/b', project: 'b' },
+    ]);
+    const ledger = await CodeLedger.open(opts);
+
+    ledger.getDiagnostics();
+
+    expect(diagnosticRepo.getAllDiagnostics.mock.calls.map((c: any[]) => c[0])).toEqual(['a', 'b']);
+    await ledger.close();
+  });
+
+  // ── Symbol history ───────────────────────────────────────────────────────
+
+  // [HP] getSymbolHistory는 이름 변경을 거슬러 올라가 이전 이름의 이력까지 오래된 순으로 반환해야 한다
+  it('should include the history under earlier names when getSymbolHistory follows a rename', async () => {
+    const historyRepo = makeHistoryRepoMock();
+    const rows: Record<string, any[]> = {
+      fetchFile: [
+        historyRow({ id: 3, name: 'fetchFile', event: 'renamed', previousName: 'load' }),
+        historyRow({ id: 4, name: 'fetchFile', event: 'modified', metaJson: '{"bodyChanged":true,"signatureChanged":false}' }),
+      ],
+      load: [
+        historyRow({ id: 1, name: 'load', event: 'added' }),
+        historyRow({ id: 2, name: 'load', event: 'modified', metaJson: '{"bodyChanged":false,"signatureChanged":true}' }),
+        // a later, unrelated symbol that reuses the old name
+        historyRow({ id: 5, name: 'load', event: 'added' }),
+      ],
+    };
+    historyRepo.getByName.mockImplementation((_p: string, name: string) => rows[name] ?? []);
+    const ledger = await CodeLedger.open(makeOptions({ historyRepo }));
+
+    const history = ledger.getSymbolHistory('fetchFile');
+
+    expect(history.map((h) => [h.event, h.name])).toEqual([
+      ['added', 'load'],
+      ['modified', 'load'],
+      ['renamed', 'fetchFile'],
+      ['modified', 'fetchFile'],
+    ]);
+    expect(history[1]).toMatchObject({ bodyChanged: false, signatureChanged: true });
+    expect(history[0]).not.toHaveProperty('id');
+    expect(history[0]).not.toHaveProperty('metaJson');
+    await ledger.close();
+  });
+
+  // [HP] filePath를 지정하면 해당 파일의 심볼만, 이동 이전 파일의 이력까지 따라가야 한다
+  it('should follow a move into the previous file when getSymbolHistory is called with a file path', async () => {
+    const historyRepo = makeHistoryRepoMock();
+    historyRepo.getByName.mockReturnValue([
+      historyRow({ id: 1, name: 'helper', filePath: 'src/old.ts', event: 'added' }),
+      historyRow({ id: 2, name: 'helper', filePath: 'src/other.ts', event: 'added' }),
+      historyRow({ id: 3, name: 'helper', filePath: 'src/new.ts', event: 'moved', previousFilePath: 'src/old.ts' }),
+    ]);
+    const ledger = await CodeLedger.open(makeOptions({ historyRepo }));
+
+    const history = ledger.getSymbolHistory('helper', { filePath: 'src/new.ts' });
+
+    expect(history.map((h) => [h.event, h.filePath])).toEqual([
+      ['added', 'src/old.ts'],
+      ['moved', 'src/new.ts'],
+    ]);
+    expect(historyRepo.getByName).toHaveBeenCalledWith('test-project', 'helper');
+    await ledger.close();
+  });
+
+  // [HP] project 없이 filePath를 지정하면 파일이 속한 프로젝트에서, 이동 이전 파일은 그 파일의 프로젝트에서 조회해야 한다
+  it('should look each file up in its owning project when getSymbolHistory is called with a file path and no project', async () => {
+    const historyRepo = makeHistoryRepoMock();
+    historyRepo.getByName.mockImplementation((project: string) =>
+      project === 'b'
+        ? [historyRow({ id: 2, project: 'b', name: 'helper', filePath: 'packages/b/src/h.ts', event: 'moved', previousFilePath: 'packages/a/src/h.ts' })]
+        : [historyRow({ id: 1, project: 'a', name: 'helper', filePath: 'packages/a/src/h.ts', event: 'added' })],
+    );
+    const opts = makeOptions({ historyRepo });
+    opts._discoverProjectsFn = mock(async () => [
+      { dir: 'packages/a', project: 'a' },
+      { dir: 'packages/b', project: 'b' },
+    ]);
+    const ledger = await CodeLedger.open(opts);
+
+    const history = ledger.getSymbolHistory('helper', { filePath: 'packages/b/src/h.ts' });
+
+    expect(history.map((h) => [h.project, h.event])).toEqual([
+      ['a', 'added'],
+      ['b', 'moved'],
+    ]);
+    expect(historyRepo.getByName.mock.calls).toEqual([
+      ['b', 'helper'],
+      ['a', 'helper'],
+    ]);
+    await ledger.close();
+  });
+
+  // [HP] project와 filePath가 모두 없으면 모든 프로젝트의 이력을 조회해야 한다
+  it('should query every project when getSymbolHistory is called without a file path or project', async () => {
+    const historyRepo = makeHistoryRepoMock();
+    const opts = makeOptions({ historyRepo });
+    opts._discoverProjectsFn = mock(async () => [
+      { dir: 'packages/a', project: 'a' },
+      { dir: 'packages/b', project: 'b' },
+    ]);
+    const ledger = await CodeLedger.open(opts);
+
+    ledger.getSymbolHistory('run');
+
+    expect(historyRepo.getByName.mock.calls).toEqual([
+      ['a', 'run'],
+      ['b', 'run'],
+    ]);
+    await ledger.close();
+  });
+
+  // [HP] getChangesSince는 Date를 ISO 문자열로 바꿔 모든 프로젝트를 조회해야 한다
+  it('should query every project with an ISO timestamp when getChangesSince is called with a Date', async () => {
+    const historyRepo = makeHistoryRepoMock();
+    historyRepo.getSince.mockImplementation((project: string) =>
+      project === 'a' ? [historyRow({ id: 2, project: 'a' })] : [historyRow({ id: 1, project: 'b' })],
+    );
+    const opts = makeOptions({ historyRepo });
+    opts._discoverProjectsFn = mock(async () => [
+      { dir: 'packages/a', project: 'a' },
+      { dir: 'packages/b', project: 'b' },
+    ]);
+    const ledger = await CodeLedger.open(opts);
+
+    const changes = ledger.getChangesSince(new Date('2026-01-01T00:00:00.000Z'));
+
+    expect(historyRepo.getSince.mock.calls).toEqual([
+      ['a', '2026-01-01T00:00:00.000Z'],
+      ['b', '2026-01-01T00:00:00.000Z'],
+    ]);
+    expect(changes.map((c) => c.project)).toEqual(['b', 'a']);
+    await ledger.close();
+  });
+
+  // [NE] close 이후 이력 조회는 예외를 던져야 한다
+  it('should throw when history is queried after close', async () => {
+    const ledger = await CodeLedger.open(makeOptions());
+    await ledger.close();
+
+    expect(() => ledger.getSymbolHistory('run')).toThrow('closed');
+    expect(() => ledger.getChangesSince('2026-01-01T00:00:00.000Z')).toThrow('closed');
+  });
+
+  // ── Git snapshots ────────────────────────────────────────────────────────
+
+  // [HP] indexSnapshot은 ref를 기본 이름으로 하고 프로젝트 설정을 전달해야 한다
+  it('should pass the ref, the project settings and the ref as default name when indexSnapshot is called', async () => {
+    const snapshotRepo = makeSnapshotRepoMock();
+    const opts = makeOptions({ snapshotRepo });
+    opts.extensions = ['.ts'];
+    opts.ignorePatterns = ['dist/**'];
+    const ledger = await CodeLedger.open(opts);
+
+    await ledger.indexSnapshot('main');
+    await ledger.indexSnapshot('HEAD', { name: 'pr' });
+
+    const [first, second] = opts._indexSnapshotFn.mock.calls.map((c: any[]) => c[0]);
+    expect(first).toMatchObject({
+      name: 'main',
+      ref: 'main',
+      projectRoot: PROJECT_ROOT,
+      extensions: ['.ts'],
+      ignorePatterns: ['dist/**'],
+    });
+    // Boundaries come from the snapshot's own tree, not the working tree.
+    expect(first).not.toHaveProperty('boundaries');
+    expect(first.snapshotRepo).toBe(snapshotRepo);
+    expect(second).toMatchObject({ name: 'pr', ref: 'HEAD' });
+    await ledger.close();
+  });
+
+  // [HP] ignorePatterns를 주지 않으면 의존성·빌드 산출물 디렉터리를 제외해야 한다
+  it('should skip dependency and build output directories when ignorePatterns is not given', async () => {
+    const opts = makeOptions({ snapshotRepo: makeSnapshotRepoMock() });
+    const ledger = await CodeLedger.open(opts);
+
+    await ledger.indexSnapshot('main');
+
+    expect(opts._indexSnapshotFn.mock.calls[0][0].ignorePatterns).toEqual([
+      '**/node_modules/**',
+      '**/dist/**',
+      '**/build/**',
+      '**/out/**',
+    ]);
+    await ledger.close();
+  });
+
+  // [HP] diffSnapshots는 두 스냅샷의 심볼·관계 추가/삭제를 반환해야 한다
+  it('should return symbols and relations added between two snapshots when diffSnapshots is called', async () => {
+    const snapshotRepo = makeSnapshotRepoMock();
+    snapshotRepo.getSnapshotFiles.mockImplementation((name: string) => [
+      { project: 'test-project', filePath: 'src/a.ts', blobId: name === 'main' ? 1 : 2 },
+    ]);
+    snapshotRepo.getBlobSymbols.mockReturnValue([
+      { blobId: 2, kind: 'function', name: 'added', startLine: 1, startColumn: 0, endLine: 1, endColumn: 5, isExported: 1, signature: null, fingerprint: 'fp' },
+    ]);
+    snapshotRepo.getBlobRelations.mockReturnValue([
+      { blobId: 1, type: 'external', srcSymbolName: null, dstFilePath: 'lodash', dstSymbolName: null, metaJson: null },
+    ]);
+    const ledger = await CodeLedger.open(makeOptions({ snapshotRepo }));
+
+    const diff = ledger.diffSnapshots('main', 'pr');
+
+    expect(diff.symbols.added.map((s) => s.name)).toEqual(['added']);
+    expect(diff.symbols.removed).toEqual([]);
+    expect(diff.relations.removed.map((r) => r.dstFilePath)).toEqual(['lodash']);
+    await ledger.close();
+  });
+
+  // [NE] 존재하지 않는 스냅샷을 비교하면 예외를 던져야 한다
+  it('should throw when diffSnapshots is called with an unknown snapshot', async () => {
+    const snapshotRepo = makeSnapshotRepoMock();
+    snapshotRepo.getSnapshot.mockImplementation((name: string) => (name === 'main' ? ({ name } as any) : null));
+    const ledger = await CodeLedger.open(makeOptions({ snapshotRepo }));
+
+    expect(() => ledger.diffSnapshots('main', 'missing')).toThrow('unknown snapshot "missing"');
+    await ledger.close();
+  });
+
+  // [HP] deleteSnapshot은 트랜잭션 안에서 스냅샷을 지우고 고아 blob을 정리해야 한다
+  it('should delete the snapshot and prune orphaned blobs in one transaction when deleteSnapshot is called', async () => {
+    const db = makeDbMock();
+    const snapshotRepo = makeSnapshotRepoMock();
+    const ledger = await CodeLedger.open(makeOptions({ db, snapshotRepo }));
+    db.transaction.mockClear();
+
+    ledger.deleteSnapshot('main');
+
+    expect(db.transaction).toHaveBeenCalledTimes(1);
+    expect(snapshotRepo.deleteSnapshot).toHaveBeenCalledWith('main');
+    expect(snapshotRepo.pruneBlobs).toHaveBeenCalled();
+    await ledger.close();
+  });
+
+  // [NE] reader에서 스냅샷 색인·삭제는 예외를 던지고 저장소를 건드리지 않아야 한다
+  it('should throw without writing when indexSnapshot or deleteSnapshot is called on a reader instance', async () => {
+    const snapshotRepo = makeSnapshotRepoMock();
+    const opts = makeOptions({ role: 'reader', snapshotRepo });
+    const ledger = await CodeLedger.open(opts);
+
+    await expect(ledger.indexSnapshot('main')).rejects.toThrow('not available for readers');
+    expect(() => ledger.deleteSnapshot('main')).toThrow('not available for readers');
+    expect(opts._indexSnapshotFn).not.toHaveBeenCalled();
+    expect(snapshotRepo.deleteSnapshot).not.toHaveBeenCalled();
+    await ledger.close();
+  });
+
+  // [NE] close 이후 스냅샷 API는 예외를 던져야 한다
+  it('should throw when snapshot APIs are called after close', async () => {
+    const ledger = await CodeLedger.open(makeOptions());
+    await ledger.close();
+
+    await expect(ledger.indexSnapshot('main')).rejects.toThrow('closed');
+    expect(() => ledger.listSnapshots()).toThrow('closed');
+    expect(() => ledger.diffSnapshots('a', 'b')).toThrow('closed');
+    expect(() => ledger.deleteSnapshot('a')).toThrow('closed');
+  });
 });
@@ -1,43 +1,121 @@
 import path from 'node:path';
 import { existsSync } from 'node:fs';
-import type { ParsedFile } from './parser/types';
+import type { ParsedFile, SourceSpan } from './parser/types';
 import { parseSource as defaultParseSource } from './parser/parse-source';
 import { ParseCache } from './parser/parse-cache';
 import type { ExtractedSymbol } from './extractor/types';
 import { extractSymbols as defaultExtractSymbols } from './extractor/symbol-extractor';
 import { extractRelations as defaultExtractRelations } from './extractor/relation-extractor';
+import { ASSET_EXTENSIONS } from './extractor/assets';
 import type { CodeRelation } from './extractor/types';
 import { DbConnection } from './store/connection';
 import { FileRepository } from './store/repositories/file.repository';
 import { SymbolRepository } from './store/repositories/symbol.repository';
 import { RelationRepository } from './store/repositories/relation.repository';
+import { DiagnosticRepository } from './store/repositories/diagnostic.repository';
+import { SymbolHistoryRepository } from './store/repositories/symbol-history.repository';
+import type { SymbolHistoryRecord } from './store/repositories/symbol-history.repository';
+import { SnapshotRepository } from './store/repositories/snapshot.repository';
 import { ProjectWatcher } from './watcher/project-watcher';
 import { IndexCoordinator } from './indexer/index-coordinator';
 import type { IndexResult } from './indexer/index-coordinator';
+import { indexSnapshot as defaultIndexSnapshot } from './indexer/snapshot-indexer';
+import type { SnapshotIndexResult } from './indexer/snapshot-indexer';
+import { diffSnapshots } from './indexer/snapshot-diff';
+import type { SnapshotDiff } from './indexer/snapshot-diff';
 import { acquireWatcherRole, releaseWatcherRole, updateHeartbeat } from './watcher/ownership';
 import type { WatcherOwnerStore } from './watcher/ownership';
-import { discoverProjects } from './common/project-discovery';
+import { discoverProjects, resolveFileProject, toWorkspacePackages } from './common/project-discovery';
 import type { ProjectBoundary } from './common/project-discovery';
-import { loadTsconfigPaths } from './common/tsconfig-resolver';
+import { loadTsconfigPathsForFileSync } from './common/tsconfig-resolver';
 import { symbolSearch as defaultSymbolSearch } from './search/symbol-search';
 import type { SymbolSearchQuery, SymbolSearchResult } from './search/symbol-search';
 import { relationSearch as defaultRelationSearch } from './search/relation-search';
 import type { RelationSearchQuery } from './search/relation-search';
 import type { SymbolStats } from './store/repositories/symbol.repository';
 import { DependencyGraph } from './search/dependency-graph';
+import { TypeHierarchy } from './search/type-hierarchy';
+import type { TypeHierarchyNode, TypeHierarchyTree } from './search/type-hierarchy';
 
 // ── Constants ─────────────────────────────────────────────────────────────
 
 const HEARTBEAT_INTERVAL_MS = 30_000;
 const HEALTHCHECK_INTERVAL_MS = 60_000;
+/** Dependency and build output directories, whose `.js` files are not project sources. */
+const DEFAULT_IGNORE_PATTERNS: readonly string[] = ['**/node_modules/**', '**/dist/**', '**/build/**', '**/out/**'];
 
 // ── Types ─────────────────────────────────────────────────────────────────
 
 export interface CodeLedgerOptions {
   projectRoot: string;
   extensions?: string[];
+  /** Non-code files tracked as file nodes so importers show up in `getAffected`. */
+  assetExtensions?: string[];
+  /** Globs of project-relative paths to skip. Defaults to `node_modules`, `dist`, `build` and `out` directories. */
   ignorePatterns?: string[];
   parseCacheCapacity?: number;
+  /** Keep a file's last indexed symbols and relations while its latest version fails to parse. */
+  keepLastGoodSymbols?: boolean;
+}
+
+/** A parse error or warning, or an unresolved import, of a file's latest version (see `CodeLedger.getDiagnostics`). */
+export interface ParseDiagnostic {
+  project: string;
+  filePath: string;
+  severity: 'error' | 'warning' | 'advice';
+  message: string;
+  helpMessage: string | null;
+  span: SourceSpan;
+}
+
+/** An npm package imported by a project (see `CodeLedger.listExternalDependencies`). */
+export interface ExternalDependency {
+  project: string;
+  packageName: string;
+  /** `exports` subpaths imported, `'.'` for the package root. */
+  subpaths: string[];
+  /** Files importing the package. */
+  files: string[];
+}
+
+/** An import whose local target does not exist (see `CodeLedger.listUnresolvedImports`). */
+export interface UnresolvedImport {
+  project: string;
+  filePath: string;
+  /** Specifier as written in the source, or the root-relative path of a file outside the project. */
+  specifier: string;
+}
+
+/** One recorded change of a symbol (see `CodeLedger.getSymbolHistory`). */
+export interface SymbolHistoryEntry {
+  project: string;
+  filePath: string;
+  name: string;
+  kind: string;
+  event: 'added' | 'removed' | 'modified' | 'renamed' | 'moved';
+  /** Name before the change, for renames. */
+  previousName: string | null;
+  /** File before the change, for moves. */
+  previousFilePath: string | null;
+  signature: string | null;
+  fingerprint: string | null;
+  bodyHash: string | null;
+  /** Hash of the file the symbol was read from. */
+  contentHash: string | null;
+  /** For `modified`: whether the body and / or the signature changed. */
+  bodyChanged?: boolean;
+  signatureChanged?: boolean;
+  recordedAt: string;
+}
+
+/** A stored git snapshot (see `CodeLedger.indexSnapshot`). */
+export interface SnapshotInfo {
+  name: string;
+  ref: string;
+  /** Commit id the ref pointed at when the snapshot was taken. */
+  commit: string;
+  createdAt: string;
+  fileCount: number;
 }
 
 /** @internal */
@@ -50,6 +128,9 @@ export interface CodeLedgerInternalOptions {
     fileRepo: Pick<FileRepository, 'upsertFile' | 'getAllFiles' | 'getFilesMap' | 'deleteFile'>;
     symbolRepo: SymbolRepository;
     relationRepo: RelationRepository;
+    diagnosticRepo: DiagnosticRepository;
+    historyRepo: SymbolHistoryRepository;
+    snapshotRepo: SnapshotRepository;
     parseCache: Pick<ParseCache, 'set' | 'get' | 'invalidate'>;
   };
   _acquireWatcherRoleFn?: typeof acquireWatcherRole;
@@ -61,7 +142,16 @@ export interface CodeLedgerInternalOptions {
   _extractRelationsFn?: typeof defaultExtractRelations;
   _symbolSearchFn?: typeof defaultSymbolSearch;
   _relationSearchFn?: typeof defaultRelationSearch;
-  _loadTsconfigPathsFn?: typeof loadTsconfigPaths;
+  _loadTsconfigPathsForFileFn?: typeof loadTsconfigPathsForFileSync;
+  _indexSnapshotFn?: typeof defaultIndexSnapshot;
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function toHistoryEntry(record: SymbolHistoryRecord): SymbolHistoryEntry {
+  const { id: _id, metaJson, ...rest } = record;
+  const meta = metaJson ? (JSON.parse(metaJson) as { bodyChanged?: boolean; signatureChanged?: boolean }) : {};
+  return { ...rest, event: rest.event as SymbolHistoryEntry['event'], ...meta };
 }
 
 // ── CodeLedger ────────────────────────────────────────────────────────────
@@ -72,6 +162,9 @@ export class CodeLedger {
   private readonly db: Pick<DbConnection, 'open' | 'close' | 'transaction'>;
   private readonly symbolRepo: SymbolRepository;
   private readonly relationRepo: RelationRepository;
+  private readonly diagnosticRepo: DiagnosticRepository;
+  private readonly historyRepo: SymbolHistoryRepository;
+  private readonly snapshotRepo: SnapshotRepository;
   private readonly parseCache: Pick<ParseCache, 'set' | 'get' | 'invalidate'>;
   private coordinator: (Pick<IndexCoordinator, 'fullIndex' | 'shutdown' | 'onIndexed'> & { tsconfigPaths?: unknown }) | null;
   private watcher: Pick<ProjectWatcher, 'start' | 'close'> | null;
@@ -81,13 +174,16 @@ export class CodeLedger {
   private readonly _extractRelationsFn: typeof defaultExtractRelations;
   private readonly _symbolSearchFn: typeof defaultSymbolSearch;
   private readonly _relationSearchFn: typeof defaultRelationSearch;
+  private readonly _indexSnapshotFn: typeof defaultIndexSnapshot;
   private readonly defaultProject: string;
   private readonly _role: 'owner' | 'reader';
   private _timer: ReturnType<typeof setInterval> | null = null;
   private _signalHandlers: Array<[string, () => void]> = [];
   private _closed = false;
-  private _tsconfigPaths: unknown = null;
+  private _loadTsconfigPathsForFileFn: typeof loadTsconfigPathsForFileSync = loadTsconfigPathsForFileSync;
   private _boundaries: ProjectBoundary[] = [];
+  private _extensions: string[] = [];
+  private _ignorePatterns: string[] = [];
   private readonly _onIndexedCallbacks = new Set<(result: IndexResult) => void>();
 
   private constructor(opts: {
@@ -95,6 +191,9 @@ export class CodeLedger {
     db: Pick<DbConnection, 'open' | 'close' | 'transaction'>;
     symbolRepo: SymbolRepository;
     relationRepo: RelationRepository;
+    diagnosticRepo: DiagnosticRepository;
+    historyRepo: SymbolHistoryRepository;
+    snapshotRepo: SnapshotRepository;
     parseCache: Pick<ParseCache, 'set' | 'get' | 'invalidate'>;
     coordinator: (Pick<IndexCoordinator, 'fullIndex' | 'shutdown' | 'onIndexed'> & { tsconfigPaths?: unknown }) | null;
     watcher: Pick<ProjectWatcher, 'start' | 'close'> | null;
@@ -104,6 +203,7 @@ export class CodeLedger {
     extractRelationsFn: typeof defaultExtractRelations;
     symbolSearchFn: typeof defaultSymbolSearch;
     relationSearchFn: typeof defaultRelationSearch;
+    indexSnapshotFn: typeof defaultIndexSnapshot;
     defaultProject: string;
     role: 'owner' | 'reader';
   }) {
@@ -111,6 +211,9 @@ export class CodeLedger {
     this.db = opts.db;
     this.symbolRepo = opts.symbolRepo;
     this.relationRepo = opts.relationRepo;
+    this.diagnosticRepo = opts.diagnosticRepo;
+    this.historyRepo = opts.historyRepo;
+    this.snapshotRepo = opts.snapshotRepo;
     this.parseCache = opts.parseCache;
     this.coordinator = opts.coordinator;
     this.watcher = opts.watcher;
@@ -120,6 +223,7 @@ export class CodeLedger {
     this._extractRelationsFn = opts.extractRelationsFn;
     this._symbolSearchFn = opts.symbolSearchFn;
     this._relationSearchFn = opts.relationSearchFn;
+    this._indexSnapshotFn = opts.indexSnapshotFn;
     this.defaultProject = opts.defaultProject;
     this._role = opts.role;
   }
@@ -129,9 +233,11 @@ export class CodeLedger {
   static async open(options: CodeLedgerOptions & CodeLedgerInternalOptions): Promise<CodeLedger> {
     const {
       projectRoot,
-      extensions = ['.ts', '.mts', '.cts'],
-      ignorePatterns = [],
+      extensions = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'],
+      assetExtensions = [...ASSET_EXTENSIONS],
+      ignorePatterns = [...DEFAULT_IGNORE_PATTERNS],
       parseCacheCapacity = 500,
+      keepLastGoodSymbols = false,
       _existsSyncFn = existsSync,
       _dbConnectionFactory,
       _watcherFactory,
@@ -146,7 +252,8 @@ export class CodeLedger {
       _extractRelationsFn = defaultExtractRelations,
       _symbolSearchFn = defaultSymbolSearch,
       _relationSearchFn = defaultRelationSearch,
-      _loadTsconfigPathsFn = loadTsconfigPaths,
+      _loadTsconfigPathsForFileFn = loadTsconfigPathsForFileSync,
+      _indexSnapshotFn = defaultIndexSnapshot,
     } = options;
 
     // ── 1. Validate options ─────────────────────────────────────────────
@@ -177,6 +284,9 @@ export class CodeLedger {
             fileRepo: new FileRepository(connection),
             symbolRepo: new SymbolRepository(connection),
             relationRepo: new RelationRepository(connection),
+            diagnosticRepo: new DiagnosticRepository(connection),
+            historyRepo: new SymbolHistoryRepository(connection),
+            snapshotRepo: new SnapshotRepository(connection),
             parseCache: new ParseCache(parseCacheCapacity),
           };
         })();
@@ -194,6 +304,9 @@ export class CodeLedger {
       db,
       symbolRepo: repos.symbolRepo as any,
       relationRepo: repos.relationRepo as any,
+      diagnosticRepo: repos.diagnosticRepo as any,
+      historyRepo: repos.historyRepo as any,
+      snapshotRepo: repos.snapshotRepo as any,
       parseCache: repos.parseCache,
       coordinator,
       watcher,
@@ -203,17 +316,20 @@ export class CodeLedger {
       extractRelationsFn: _extractRelationsFn,
       symbolSearchFn: _symbolSearchFn,
       relationSearchFn: _relationSearchFn,
+      indexSnapshotFn: _indexSnapshotFn,
       defaultProject,
       role,
     });
-    instance._tsconfigPaths = await _loadTsconfigPathsFn(projectRoot);
+    instance._loadTsconfigPathsForFileFn = _loadTsconfigPathsForFileFn;
     instance._boundaries = boundaries;
+    instance._extensions = extensions;
+    instance._ignorePatterns = ignorePatterns;
     // ── 6. Role-specific setup ──────────────────────────────────────────
     if (role === 'owner') {
       // Create watcher
       const w = _watcherFactory
         ? _watcherFactory()
-        : new ProjectWatcher({ projectRoot, ignorePatterns, extensions });
+        : new ProjectWatcher({ projectRoot, ignorePatterns, extensions: [...extensions, ...assetExtensions] });
 
       // Create coordinator
       const c = _coordinatorFactory
@@ -222,12 +338,16 @@ export class CodeLedger {
             projectRoot,
             boundaries,
             extensions,
+            assetExtensions,
             ignorePatterns,
             dbConnection: db as any,
             parseCache: repos.parseCache as any,
             fileRepo: repos.fileRepo as any,
             symbolRepo: repos.symbolRepo as any,
             relationRepo: repos.relationRepo as any,
+            diagnosticRepo: repos.diagnosticRepo as any,
+            historyRepo: repos.historyRepo as any,
+            keepLastGoodSymbols,
           });
 
       // Assign after construction
@@ -258,19 +378,23 @@ export class CodeLedger {
 
           const w = _watcherFactory
             ? _watcherFactory()
-            : new ProjectWatcher({ projectRoot, ignorePatterns, extensions });
+            : new ProjectWatcher({ projectRoot, ignorePatterns, extensions: [...extensions, ...assetExtensions] });
           const c = _coordinatorFactory
             ? _coordinatorFactory()
             : new IndexCoordinator({
                 projectRoot,
                 boundaries,
                 extensions,
+                assetExtensions,
                 ignorePatterns,
                 dbConnection: db as any,
                 parseCache: repos.parseCache as any,
                 fileRepo: repos.fileRepo as any,
                 symbolRepo: repos.symbolRepo as any,
                 relationRepo: repos.relationRepo as any,
+                diagnosticRepo: repos.diagnosticRepo as any,
+                historyRepo: repos.historyRepo as any,
+                keepLastGoodSymbols,
               });
           instance.coordinator = c;
           instance.watcher = w;
@@ -368,11 +492,16 @@ export class CodeLedger {
     return this._extractSymbolsFn(parsed);
   }
 
+  /** Resolves imports with the tsconfig governing `parsed.filePath`, as the indexer does. */
   extractRelations(parsed: ParsedFile): CodeRelation[] {
+    const tsconfigPaths = this._loadTsconfigPathsForFileFn(parsed.filePath, this.projectRoot);
     return this._extractRelationsFn(
       parsed.program as any,
       parsed.filePath,
-      this._tsconfigPaths as any,
+      tsconfigPaths ?? undefined,
+      toWorkspacePackages(this.projectRoot, this._boundaries),
+      undefined,
+      parsed.sourceText,
     );
   }
 
@@ -406,23 +535,30 @@ export class CodeLedger {
   // ── Dependency graph helpers ────────────────────────────────────────────
 
   getDependencies(filePath: string, project?: string): string[] {
-    return this._relationSearchFn({
+    // Imports are stored per specifier — collapse to unique files.
+    return [...new Set(this._relationSearchFn({
       relationRepo: this.relationRepo as any,
       query: { srcFilePath: filePath, type: 'imports', project: project ?? this.defaultProject, limit: 10_000 },
-    }).map(r => r.dstFilePath);
+    }).map(r => r.dstFilePath))];
   }
 
   getDependents(filePath: string, project?: string): string[] {
-    return this._relationSearchFn({
+    return [...new Set(this._relationSearchFn({
       relationRepo: this.relationRepo as any,
       query: { dstFilePath: filePath, type: 'imports', project: project ?? this.defaultProject, limit: 10_000 },
-    }).map(r => r.srcFilePath);
+    }).map(r => r.srcFilePath))];
   }
 
+  /**
+   * Returns files transitively affected by `changedFiles`.
+   * Without `project`, imports from every workspace project are considered,
+   * so dependents in other packages are included.
+   */
   async getAffected(changedFiles: string[], project?: string): Promise<string[]> {
     const g = new DependencyGraph({
       relationRepo: this.relationRepo as any,
       project: project ?? this.defaultProject,
+      includeProjects: project === undefined ? this._boundaries.map((b) => b.project) : undefined,
     });
     await g.build();
     return g.getAffectedByChange(changedFiles);
@@ -436,4 +572,272 @@ export class CodeLedger {
     await g.build();
     return g.hasCycle();
   }
+
+  // ── Type hierarchy ──────────────────────────────────────────────────────
+
+  /** Direct base classes and interfaces of `symbolName` declared in `filePath`. */
+  async getSupertypes(filePath: string, symbolName: string, project?: string): Promise<TypeHierarchyNode[]> {
+    const h = await this.buildTypeHierarchy(project);
+    return h.getSupertypes({ filePath, symbolName });
+  }
+
+  /** Direct subclasses, implementing classes and extending interfaces of `symbolName`. */
+  async getSubtypes(filePath: string, symbolName: string, project?: string): Promise<TypeHierarchyNode[]> {
+    const h = await this.buildTypeHierarchy(project);
+    return h.getSubtypes({ filePath, symbolName });
+  }
+
+  /** Classes implementing the interface `symbolName`, including through sub-interfaces and subclasses. */
+  async getImplementations(filePath: string, symbolName: string, project?: string): Promise<TypeHierarchyNode[]> {
+    const h = await this.buildTypeHierarchy(project);
+    return h.getImplementations({ filePath, symbolName });
+  }
+
+  /** Full inheritance tree of `symbolName`: its ancestors and its descendants. */
+  async getTypeHierarchy(
+    filePath: string,
+    symbolName: string,
+    project?: string,
+  ): Promise<{ supertypes: TypeHierarchyTree; subtypes: TypeHierarchyTree }> {
+    const h = await this.buildTypeHierarchy(project);
+    const ref = { filePath, symbolName };
+    return { supertypes: h.getTree(ref, 'supertypes'), subtypes: h.getTree(ref, 'subtypes') };
+  }
+
+  // ── Member overrides ────────────────────────────────────────────────────
+
+  /** Base class / interface members that `memberName` (e.g. `Derived.run`) directly overrides or implements. */
+  getOverriddenMembers(filePath: string, memberName: string, project?: string): Array<{ filePath: string; symbolName: string }> {
+    if (this._closed) throw new Error('CodeLedger: instance is closed');
+    return this._relationSearchFn({
+      relationRepo: this.relationRepo as any,
+      query: { srcFilePath: filePath, srcSymbolName: memberName, type: 'overrides', project: project ?? this.defaultProject, limit: 10_000 },
+    }).map((r) => ({ filePath: r.dstFilePath, symbolName: r.dstSymbolName! }));
+  }
+
+  /**
+   * Every member overriding or implementing `memberName` (e.g. `Repo.find`), transitively.
+   * Without `project`, overrides from every workspace project are included.
+   */
+  getMemberImplementations(filePath: string, memberName: string, project?: string): Array<{ filePath: string; symbolName: string }> {
+    if (this._closed) throw new Error('CodeLedger: instance is closed');
+    const result = new Map<string, { filePath: string; symbolName: string }>();
+    const queue = [{ filePath, symbolName: memberName }];
+    const visited = new Set<string>([`${filePath}#${memberName}`]);
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      const incoming = this._relationSearchFn({
+        relationRepo: this.relationRepo as any,
+        query: { dstFilePath: current.filePath, dstSymbolName: current.symbolName, type: 'overrides', project, limit: 10_000 },
+      });
+      for (const r of incoming) {
+        const key = `${r.srcFilePath}#${r.srcSymbolName}`;
+        if (r.srcSymbolName === null || visited.has(key)) continue;
+        visited.add(key);
+        const member = { filePath: r.srcFilePath, symbolName: r.srcSymbolName };
+        result.set(key, member);
+        queue.push(member);
+      }
+    }
+
+    return [...result.values()];
+  }
+
+  // ── Import audit ────────────────────────────────────────────────────────
+
+  /**
+   * npm packages imported by each project, with the subpaths used and the importing files.
+   * Without `project`, every workspace project is listed.
+   */
+  listExternalDependencies(project?: string): ExternalDependency[] {
+    if (this._closed) throw new Error('CodeLedger: instance is closed');
+    const deps = new Map<string, ExternalDependency>();
+    for (const p of this.auditedProjects(project)) {
+      for (const rel of this.relationRepo.getByType(p, 'external')) {
+        const key = `${p}\0${rel.dstFilePath}`;
+        const dep = deps.get(key) ?? { project: p, packageName: rel.dstFilePath, subpaths: [], files: [] };
+        const subpath: string = (rel.metaJson ? JSON.parse(rel.metaJson).subpath : undefined) ?? '.';
+        if (!dep.subpaths.includes(subpath)) dep.subpaths.push(subpath);
+        if (!dep.files.includes(rel.srcFilePath)) dep.files.push(rel.srcFilePath);
+        deps.set(key, dep);
+      }
+    }
+    return [...deps.values()].sort(
+      (a, b) => a.project.localeCompare(b.project) || a.packageName.localeCompare(b.packageName),
+    );
+  }
+
+  /**
+   * Imports of local files that do not exist: broken relative paths, `#imports` and tsconfig aliases,
+   * plus imports of files outside the project root. Without `project`, every workspace project is listed.
+   */
+  listUnresolvedImports(project?: string): UnresolvedImport[] {
+    if (this._closed) throw new Error('CodeLedger: instance is closed');
+    const unresolved = new Map<string, UnresolvedImport>();
+    for (const p of this.auditedProjects(project)) {
+      for (const rel of this.relationRepo.getByType(p, 'unresolved')) {
+        unresolved.set(`${p}\0${rel.srcFilePath}\0${rel.dstFilePath}`, {
+          project: p,
+          filePath: rel.srcFilePath,
+          specifier: rel.dstFilePath,
+        });
+      }
+    }
+    return [...unresolved.values()].sort(
+      (a, b) =>
+        a.project.localeCompare(b.project) ||
+        a.filePath.localeCompare(b.filePath) ||
+        a.specifier.localeCompare(b.specifier),
+    );
+  }
+
+  // ── Diagnostics ─────────────────────────────────────────────────────────
+
+  /**
+   * Parse errors of the latest indexed version of `filePath`, or of every file when omitted.
+   * A file with `error` diagnostics was indexed from a partial AST (or kept at its last good
+   * symbols with `keepLastGoodSymbols`), so its index data may be stale or incomplete.
+   * Imports that resolve to no project file are reported as `warning` diagnostics at their specifier.
+   */
+  getDiagnostics(filePath?: string, project?: string): ParseDiagnostic[] {
+    if (this._closed) throw new Error('CodeLedger: instance is closed');
+    const records =
+      filePath !== undefined
+        ? this.diagnosticRepo.getFileDiagnostics(project ?? this.defaultProject, filePath)
+        : this.auditedProjects(project).flatMap((p) => this.diagnosticRepo.getAllDiagnostics(p));
+    return records.map((r) => ({
+      project: r.project,
+      filePath: r.filePath,
+      severity: r.severity as ParseDiagnostic['severity'],
+      message: r.message,
+      helpMessage: r.helpMessage,
+      span: {
+        start: { line: r.startLine, column: r.startColumn },
+        end: { line: r.endLine, column: r.endColumn },
+      },
+    }));
+  }
+
+  // ── Symbol history ──────────────────────────────────────────────────────
+
+  /**
+   * Recorded changes of the symbol `name`, oldest first. Renames and moves are followed
+   * backwards, so the history of a renamed symbol includes its entries under earlier names.
+   * With `filePath`, only the symbol declared in that file is followed. Without `project`, each
+   * file is looked up in the project owning it, and a name without a file in every workspace project.
+   */
+  getSymbolHistory(name: string, opts: { filePath?: string; project?: string } = {}): SymbolHistoryEntry[] {
+    if (this._closed) throw new Error('CodeLedger: instance is closed');
+    const projectsOf = (filePath?: string): string[] =>
+      opts.project === undefined && filePath !== undefined
+        ? [resolveFileProject(filePath, this._boundaries, this.defaultProject)]
+        : this.auditedProjects(opts.project);
+    const found = new Map<number, SymbolHistoryRecord>();
+    const visited = new Set<string>();
+    const queue: Array<{ name: string; filePath?: string; beforeId: number }> = [
+      { name, filePath: opts.filePath, beforeId: Number.POSITIVE_INFINITY },
+    ];
+
+    while (queue.length > 0) {
+      const target = queue.shift()!;
+      const key = `${target.name}\0${target.filePath ?? ''}\0${target.beforeId}`;
+      if (visited.has(key)) continue;
+      visited.add(key);
+
+      const records = projectsOf(target.filePath).flatMap((p) => this.historyRepo.getByName(p, target.name));
+      for (const record of records) {
+        if (record.id >= target.beforeId) continue;
+        if (target.filePath !== undefined && record.filePath !== target.filePath) continue;
+        found.set(record.id, record);
+        if (record.previousName !== null || record.previousFilePath !== null) {
+          queue.push({
+            name: record.previousName ?? record.name,
+            filePath: record.previousFilePath ?? target.filePath,
+            beforeId: record.id,
+          });
+        }
+      }
+    }
+
+    return [...found.values()].sort((a, b) => a.id - b.id).map(toHistoryEntry);
+  }
+
+  /** Symbol changes recorded after `since`, oldest first. Without `project`, every workspace project is included. */
+  getChangesSince(since: Date | string, project?: string): SymbolHistoryEntry[] {
+    if (this._closed) throw new Error('CodeLedger: instance is closed');
+    const iso = since instanceof Date ? since.toISOString() : since;
+    return this.auditedProjects(project)
+      .flatMap((p) => this.historyRepo.getSince(p, iso))
+      .sort((a, b) => a.id - b.id)
+      .map(toHistoryEntry);
+  }
+
+  // ── Git snapshots ───────────────────────────────────────────────────────
+
+  /**
+   * Indexes the tree of git `ref` as a named snapshot (default name: the ref), reading files
+   * through the local `git` CLI without a checkout. Files unchanged since an earlier snapshot
+   * reuse its rows. An existing snapshot of the same name is replaced. Owner only.
+   */
+  async indexSnapshot(ref: string, opts: { name?: string } = {}): Promise<SnapshotIndexResult> {
+    if (this._closed) throw new Error('CodeLedger: instance is closed');
+    if (!this.coordinator) {
+      throw new Error('CodeLedger: indexSnapshot() is not available for readers');
+    }
+    return this._indexSnapshotFn({
+      name: opts.name ?? ref,
+      ref,
+      projectRoot: this.projectRoot,
+      extensions: this._extensions,
+      ignorePatterns: this._ignorePatterns,
+      snapshotRepo: this.snapshotRepo,
+      dbConnection: this.db,
+      parseSourceFn: this._parseSourceFn,
+    });
+  }
+
+  listSnapshots(): SnapshotInfo[] {
+    if (this._closed) throw new Error('CodeLedger: instance is closed');
+    return this.snapshotRepo.listSnapshots();
+  }
+
+  /** Symbols and relations added and removed between snapshots `from` and `to`. */
+  diffSnapshots(from: string, to: string): SnapshotDiff {
+    if (this._closed) throw new Error('CodeLedger: instance is closed');
+    for (const name of [from, to]) {
+      if (!this.snapshotRepo.getSnapshot(name)) throw new Error(`CodeLedger: unknown snapshot "${name}"`);
+    }
+    return diffSnapshots(this.snapshotRepo, from, to);
+  }
+
+  /** Deletes snapshot `name` and the blobs no other snapshot references. Owner only. */
+  deleteSnapshot(name: string): void {
+    if (this._closed) throw new Error('CodeLedger: instance is closed');
+    if (!this.coordinator) {
+      throw new Error('CodeLedger: deleteSnapshot() is not available for readers');
+    }
+    this.db.transaction(() => {
+      this.snapshotRepo.deleteSnapshot(name);
+      this.snapshotRepo.pruneBlobs();
+    });
+  }
+
+  private auditedProjects(project?: string): string[] {
+    if (project !== undefined) return [project];
+    const projects = [...new Set(this._boundaries.map((b) => b.project))];
+    return projects.length > 0 ? projects : [this.defaultProject];
+  }
+
+  /** Without `project`, heritage relations of every workspace project are merged. */
+  private async buildTypeHierarchy(project?: string): Promise<TypeHierarchy> {
+    if (this._closed) throw new Error('CodeLedger: instance is closed');
+    const h = new TypeHierarchy({
+      relationRepo: this.relationRepo as any,
+      project: project ?? this.defaultProject,
+      includeProjects: project === undefined ? this._boundaries.map((b) => b.project) : undefined,
+    });
+    await h.build();
+    return h;
+  }
 }
@@ -0,0 +1,96 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { mkdtemp, mkdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { GitError } from "../errors";
+import { listTreeFiles, readBlobs, resolveCommit } from "./git";
+
+let repoDir: string;
+let firstCommit: string;
+
+function git(...args: string[]): string {
+  const proc = Bun.spawnSync(["git", "-c", "user.name=test", "-c", "user.email=test@example.com", ...args], { cwd: repoDir });
+  if (proc.exitCode !== 0) throw new Error(proc.stderr.toString());
+  return proc.stdout.toString().trim();
+}
+
+beforeAll(async () => {
+  repoDir = await mkdtemp(join(tmpdir(), "code-ledger-git-test-"));
+  git("init", "-q", "-b", "main");
+  await mkdir(join(repoDir, "pkg", "src"), { recursive: true });
+  await writeFile(join(repoDir, "root.ts"), "export const root = 1;\n");
+  await writeFile(join(repoDir, "pkg", "src", "a.ts"), "export const a = 'ä';\n");
+  git("add", "-A");
+  git("commit", "-q", "-m", "first");
+  firstCommit = git("rev-parse", "HEAD");
+
+  await writeFile(join(repoDir, "pkg", "src", "b.ts"), "export const b = 2;\n");
+  git("add", "-A");
+  git("commit", "-q", "-m", "second");
+  git("tag", "v2");
+});
+
+afterAll(async () => {
+  await rm(repoDir, { recursive: true, force: true });
+});
+
+describe("resolveCommit", () => {
+  it("should return the commit id when ref is a branch, tag or relative ref", async () => {
+    const head = git("rev-parse", "HEAD");
+
+    expect(await resolveCommit(repoDir, "main")).toBe(head);
+    expect(await resolveCommit(repoDir, "v2")).toBe(head);
+    expect(await resolveCommit(repoDir, "HEAD~1")).toBe(firstCommit);
+  });
+
+  it("should throw GitError when ref does not exist", async () => {
+    await expect(resolveCommit(repoDir, "no-such-branch")).rejects.toBeInstanceOf(GitError);
+  });
+
+  it("should throw GitError when ref looks like an option", async () => {
+    await expect(resolveCommit(repoDir, "--all")).rejects.toBeInstanceOf(GitError);
+  });
+});
+
+describe("listTreeFiles", () => {
+  it("should list every file of the commit when run from the repository root", async () => {
+    const entries = await listTreeFiles(repoDir, "HEAD");
+
+    expect(entries.map((e) => e.path)).toEqual(["pkg/src/a.ts", "pkg/src/b.ts", "root.ts"]);
+    expect(entries[0]!.blobId).toMatch(/^[0-9a-f]{40}$/);
+  });
+
+  it("should list the subtree with relative paths when run from a subdirectory", async () => {
+    const entries = await listTreeFiles(join(repoDir, "pkg"), firstCommit);
+
+    expect(entries.map((e) => e.path)).toEqual(["src/a.ts"]);
+  });
+
+  it("should throw GitError when the commit does not exist", async () => {
+    await expect(listTreeFiles(repoDir, "0".repeat(40))).rejects.toBeInstanceOf(GitError);
+  });
+});
+
+describe("readBlobs", () => {
+  it("should return the decoded content of each blob when ids are given", async () => {
+    const entries = await listTreeFiles(repoDir, "HEAD");
+
+    const blobs = await readBlobs(repoDir, entries.map((e) => e.blobId));
+
+    expect(blobs.get(entries[0]!.blobId)).toBe("export const a = 'ä';\n");
+    expect(blobs.get(entries[2]!.blobId)).toBe("export const root = 1;\n");
+    expect(blobs.size).toBe(3);
+  });
+
+  it("should leave out ids that git cannot find", async () => {
+    const [entry] = await listTreeFiles(repoDir, "HEAD");
+
+    const blobs = await readBlobs(repoDir, ["f".repeat(40), entry!.blobId]);
+
+    expect([...blobs.keys()]).toEqual([entry!.blobId]);
+  });
+
+  it("should return an empty map without running git when no ids are given", async () => {
+    expect((await readBlobs("/no/such/dir", [])).size).toBe(0);
+  });
+});
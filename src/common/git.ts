@@ -0,0 +1,102 @@
+import { GitError } from "../errors";
+
+export interface GitTreeEntry {
+  /** Path relative to the directory git ran in, with forward slashes. */
+  path: string;
+  /** Object id of the file's blob. */
+  blobId: string;
+}
+
+/** Mode of symlink entries; their blob holds the link target, not file content. */
+const SYMLINK_MODE = "120000";
+
+async function runGit(cwd: string, args: string[], stdin?: string): Promise<Uint8Array> {
+  let proc: ReturnType<typeof Bun.spawn>;
+  try {
+    proc = Bun.spawn(["git", ...args], {
+      cwd,
+      stdin: stdin === undefined ? "ignore" : new TextEncoder().encode(stdin),
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+  } catch (err) {
+    throw new GitError(`git ${args[0]}: could not run git in "${cwd}"`, { cause: err });
+  }
+
+  const [stdout, stderr, exitCode] = await Promise.all([
+    new Response(proc.stdout as ReadableStream).arrayBuffer(),
+    new Response(proc.stderr as ReadableStream).text(),
+    proc.exited,
+  ]);
+  if (exitCode !== 0) {
+    throw new GitError(`git ${args[0]} exited with ${exitCode}: ${stderr.trim()}`);
+  }
+  return new Uint8Array(stdout);
+}
+
+/**
+ * Resolves a ref (branch, tag, sha, `HEAD~2`, ...) to the id of the commit it points at.
+ *
+ * @throws GitError when `ref` does not name a commit or `cwd` is not inside a repository.
+ */
+export async function resolveCommit(cwd: string, ref: string): Promise<string> {
+  if (ref.startsWith("-")) {
+    throw new GitError(`Invalid git ref: "${ref}"`);
+  }
+  try {
+    const out = await runGit(cwd, ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`]);
+    return new TextDecoder().decode(out).trim();
+  } catch (err) {
+    throw new GitError(`Unknown git ref: "${ref}"`, { cause: err });
+  }
+}
+
+/**
+ * Lists the files of `commit` below `cwd`, recursively. Paths are relative to `cwd`, so
+ * running it from a project root inside a larger repository yields project-relative paths.
+ * Symlinks and submodules are left out.
+ */
+export async function listTreeFiles(cwd: string, commit: string): Promise<GitTreeEntry[]> {
+  const out = new TextDecoder().decode(await runGit(cwd, ["ls-tree", "-r", "-z", commit]));
+  const entries: GitTreeEntry[] = [];
+
+  for (const record of out.split("\0")) {
+    if (!record) continue;
+    const tab = record.indexOf("\t");
+    const [mode, type, blobId] = record.slice(0, tab).split(" ");
+    if (type !== "blob" || mode === SYMLINK_MODE || !blobId) continue;
+    entries.push({ path: record.slice(tab + 1), blobId });
+  }
+
+  return entries;
+}
+
+/**
+ * Reads blobs through a single `git cat-file --batch` process.
+ *
+ * @returns Blob id → UTF-8 decoded content. Ids git cannot find are missing from the map.
+ */
+export async function readBlobs(cwd: string, blobIds: readonly string[]): Promise<Map<string, string>> {
+  const ids = [...new Set(blobIds)];
+  const blobs = new Map<string, string>();
+  if (ids.length === 0) return blobs;
+
+  const out = await runGit(cwd, ["cat-file", "--batch"], `${ids.join("\n")}\n`);
+  const decoder = new TextDecoder();
+  let offset = 0;
+
+  while (offset < out.length) {
+    const headerEnd = out.indexOf(0x0a, offset);
+    if (headerEnd === -1) break;
+    const [id, type, size] = decoder.decode(out.subarray(offset, headerEnd)).split(" ");
+    offset = headerEnd + 1;
+    // `<id> missing` has no body.
+    if (type === undefined || size === undefined) continue;
+
+    const length = Number(size);
+    if (type === "blob") blobs.set(id!, decoder.decode(out.subarray(offset, offset + length)));
+    offset += length + 1;
+  }
+
+  return blobs;
+}
@@ -1,5 +1,7 @@
+export * from "./git";
 export * from "./hasher";
 export * from "./lru-cache";
+export * from "./package-resolver";
 export * from "./path-utils";
 export * from "./project-discovery";
 export * from "./tsconfig-resolver";
\ No newline at end of file
@@ -0,0 +1,175 @@
+import { describe, expect, it } from "bun:test";
+import {
+  findOwningPackage,
+  isBuiltinModule,
+  pickPackageManifest,
+  resolvePackageExports,
+  resolvePackageImports,
+  resolveWorkspaceImport,
+  splitPackageSpecifier,
+  type WorkspacePackage,
+} from "./package-resolver";
+
+const CORE: WorkspacePackage = {
+  name: "@ws/core",
+  dir: "/repo/packages/core",
+  manifest: {
+    name: "@ws/core",
+    exports: {
+      ".": { types: "./src/index.ts", default: "./dist/index.js" },
+      "./utils/*": "./src/utils/*.ts",
+      "./package.json": "./package.json",
+    },
+  },
+};
+
+const LEGACY: WorkspacePackage = {
+  name: "legacy",
+  dir: "/repo/packages/legacy",
+  manifest: { name: "legacy", types: "types/main.d.ts", main: "lib/main.js" },
+};
+
+const APP: WorkspacePackage = {
+  name: "app",
+  dir: "/repo/apps/app",
+  manifest: {
+    name: "app",
+    imports: {
+      "#config": "./src/config.ts",
+      "#lib/*": { import: "./src/lib/*.ts" },
+      "#core": "@ws/core",
+    },
+  },
+};
+
+const PACKAGES = [CORE, LEGACY, APP];
+
+describe("pickPackageManifest", () => {
+  it("should keep only resolution fields when package json has extra keys", () => {
+    const manifest = pickPackageManifest({ name: "pkg", version: "1.0.0", main: "index.js", scripts: {} });
+
+    expect(manifest).toEqual({ name: "pkg", main: "index.js" });
+  });
+
+  it("should use typings as types when types is absent", () => {
+    expect(pickPackageManifest({ typings: "index.d.ts" })).toEqual({ types: "index.d.ts" });
+  });
+
+  it("should return empty manifest when content is not an object", () => {
+    expect(pickPackageManifest(null)).toEqual({});
+  });
+});
+
+describe("splitPackageSpecifier", () => {
+  it("should split scoped name and subpath when specifier is scoped", () => {
+    expect(splitPackageSpecifier("@scope/pkg/a/b")).toEqual({ name: "@scope/pkg", subpath: "./a/b" });
+  });
+
+  it("should return root subpath when specifier is a bare name", () => {
+    expect(splitPackageSpecifier("pkg")).toEqual({ name: "pkg", subpath: "." });
+  });
+
+  it("should return null when specifier is relative or a hash import", () => {
+    expect(splitPackageSpecifier("./a")).toBeNull();
+    expect(splitPackageSpecifier("#a")).toBeNull();
+    expect(splitPackageSpecifier("@scope")).toBeNull();
+  });
+
+  it("should return null when specifier is a builtin module", () => {
+    expect(splitPackageSpecifier("node:fs")).toBeNull();
+    expect(splitPackageSpecifier("bun:sqlite")).toBeNull();
+    expect(splitPackageSpecifier("fs/promises")).toBeNull();
+  });
+});
+
+describe("isBuiltinModule", () => {
+  it("should match prefixed and bare builtins but not packages when specifier is bare", () => {
+    expect(["node:path", "bun:test", "path", "fs/promises"].map(isBuiltinModule)).toEqual([true, true, true, true]);
+    expect(["react", "@scope/path", "path-browserify"].map(isBuiltinModule)).toEqual([false, false, false]);
+  });
+});
+
+describe("resolvePackageExports", () => {
+  it("should return target when exports is a string and subpath is root", () => {
+    expect(resolvePackageExports("./index.js", ".")).toEqual(["./index.js"]);
+  });
+
+  it("should return targets of matching conditions when exports is a condition map", () => {
+    expect(resolvePackageExports({ import: "./a.mjs", browser: "./b.js" }, ".")).toEqual(["./a.mjs"]);
+  });
+
+  it("should substitute wildcard capture when subpath matches a pattern", () => {
+    expect(resolvePackageExports(CORE.manifest.exports, "./utils/str")).toEqual(["./src/utils/str.ts"]);
+  });
+
+  it("should return empty array when subpath is not exported", () => {
+    expect(resolvePackageExports(CORE.manifest.exports, "./internal")).toEqual([]);
+  });
+});
+
+describe("resolvePackageImports", () => {
+  it("should return target when specifier matches an exact key", () => {
+    expect(resolvePackageImports(APP.manifest.imports, "#config")).toEqual(["./src/config.ts"]);
+  });
+
+  it("should return empty array when imports field is missing", () => {
+    expect(resolvePackageImports(undefined, "#config")).toEqual([]);
+  });
+});
+
+describe("findOwningPackage", () => {
+  it("should return innermost package when packages are nested", () => {
+    const nested: WorkspacePackage = { name: "nested", dir: "/repo/apps/app/nested", manifest: {} };
+
+    expect(findOwningPackage("/repo/apps/app/nested/x.ts", [APP, nested])).toBe(nested);
+  });
+
+  it("should return null when file is outside every package", () => {
+    expect(findOwningPackage("/elsewhere/x.ts", PACKAGES)).toBeNull();
+  });
+});
+
+describe("resolveWorkspaceImport", () => {
+  it("should resolve root export targets to absolute paths when package has exports", () => {
+    const result = resolveWorkspaceImport("/repo/apps/app/src/a.ts", "@ws/core", PACKAGES);
+
+    expect(result).toEqual(["/repo/packages/core/src/index.ts", "/repo/packages/core/dist/index.js"]);
+  });
+
+  it("should return empty array when subpath is not exported", () => {
+    expect(resolveWorkspaceImport("/repo/apps/app/src/a.ts", "@ws/core/src/secret", PACKAGES)).toEqual([]);
+  });
+
+  it("should fall back to types main and index when package has no exports", () => {
+    const result = resolveWorkspaceImport("/repo/apps/app/src/a.ts", "legacy", PACKAGES);
+
+    expect(result).toEqual([
+      "/repo/packages/legacy/types/main.d.ts",
+      "/repo/packages/legacy/lib/main.js",
+      "/repo/packages/legacy/index",
+    ]);
+  });
+
+  it("should join subpath onto package dir when package has no exports", () => {
+    expect(resolveWorkspaceImport("/repo/apps/app/src/a.ts", "legacy/lib/x", PACKAGES)).toEqual([
+      "/repo/packages/legacy/lib/x",
+    ]);
+  });
+
+  it("should resolve hash specifier through owning package imports", () => {
+    expect(resolveWorkspaceImport("/repo/apps/app/src/a.ts", "#lib/db", PACKAGES)).toEqual([
+      "/repo/apps/app/src/lib/db.ts",
+    ]);
+  });
+
+  it("should resolve bare imports target through workspace packages when hash maps to a package", () => {
+    expect(resolveWorkspaceImport("/repo/apps/app/src/a.ts", "#core", PACKAGES)).toEqual([
+      "/repo/packages/core/src/index.ts",
+      "/repo/packages/core/dist/index.js",
+    ]);
+  });
+
+  it("should return empty array when package is not in the workspace", () => {
+    expect(resolveWorkspaceImport("/repo/apps/app/src/a.ts", "react", PACKAGES)).toEqual([]);
+  });
+});
@@ -0,0 +1,262 @@
+import { builtinModules } from "node:module";
+import path from "node:path";
+
+/** Resolution-relevant fields of a package.json. */
+export interface PackageManifest {
+  name?: string;
+  main?: string;
+  module?: string;
+  types?: string;
+  exports?: unknown;
+  imports?: unknown;
+}
+
+/** A package.json-bearing directory that other workspace files may import by name. */
+export interface WorkspacePackage {
+  /** Package name as declared in package.json. */
+  name: string;
+  /** Absolute path of the package directory. */
+  dir: string;
+  manifest: PackageManifest;
+}
+
+/** Conditions honoured when walking `exports` / `imports`, in no particular order. */
+export const DEFAULT_PACKAGE_CONDITIONS: ReadonlySet<string> = new Set([
+  "types",
+  "import",
+  "require",
+  "node",
+  "module",
+  "default",
+]);
+
+/**
+ * Picks the resolution-relevant fields out of raw package.json content.
+ * Unknown or mistyped fields are dropped.
+ */
+export function pickPackageManifest(content: unknown): PackageManifest {
+  if (typeof content !== "object" || content === null) {
+    return {};
+  }
+
+  const raw = content as Record<string, unknown>;
+  const manifest: PackageManifest = {};
+
+  for (const key of ["name", "main", "module"] as const) {
+    if (typeof raw[key] === "string" && raw[key].length > 0) {
+      manifest[key] = raw[key];
+    }
+  }
+
+  const types = typeof raw.types === "string" ? raw.types : raw.typings;
+  if (typeof types === "string" && types.length > 0) {
+    manifest.types = types;
+  }
+
+  if (raw.exports !== undefined && raw.exports !== null) {
+    manifest.exports = raw.exports;
+  }
+
+  if (typeof raw.imports === "object" && raw.imports !== null) {
+    manifest.imports = raw.imports;
+  }
+
+  return manifest;
+}
+
+/**
+ * Whether a specifier names a runtime module rather than a package: `node:` / `bun:` prefixed
+ * specifiers and the bare names of `module.builtinModules` (`fs`, `fs/promises`, `bun`).
+ */
+export function isBuiltinModule(specifier: string): boolean {
+  return specifier.startsWith("node:") || specifier.startsWith("bun:") || builtinModules.includes(specifier);
+}
+
+/**
+ * Splits a bare specifier into package name and `exports` subpath.
+ * `@scope/pkg/a/b` → `{ name: '@scope/pkg', subpath: './a/b' }`, `pkg` → `{ name: 'pkg', subpath: '.' }`.
+ * Builtin modules are not packages and yield `null`.
+ */
+export function splitPackageSpecifier(specifier: string): { name: string; subpath: string } | null {
+  if (specifier.length === 0 || specifier.startsWith(".") || specifier.startsWith("/") || specifier.startsWith("#")) {
+    return null;
+  }
+  if (isBuiltinModule(specifier)) {
+    return null;
+  }
+
+  const segments = specifier.split("/");
+  const nameLength = specifier.startsWith("@") ? 2 : 1;
+  if (segments.length < nameLength || segments.slice(0, nameLength).some((segment) => segment.length === 0)) {
+    return null;
+  }
+
+  const name = segments.slice(0, nameLength).join("/");
+  const rest = segments.slice(nameLength).join("/");
+  return { name, subpath: rest.length > 0 ? `./${rest}` : "." };
+}
+
+/** Collects every target string reachable from an exports/imports value under `conditions`. */
+function collectTargets(value: unknown, conditions: ReadonlySet<string>, captured: string | null): string[] {
+  if (typeof value === "string") {
+    return [captured === null ? value : value.replaceAll("*", captured)];
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => collectTargets(item, conditions, captured));
+  }
+
+  if (typeof value === "object" && value !== null) {
+    const targets: string[] = [];
+    for (const [condition, nested] of Object.entries(value as Record<string, unknown>)) {
+      if (conditions.has(condition)) {
+        targets.push(...collectTargets(nested, conditions, captured));
+      }
+    }
+    return targets;
+  }
+
+  return [];
+}
+
+/**
+ * Matches `key` against a subpath map (exports subpaths or `#imports`).
+ * An exact key wins; otherwise the pattern with the longest prefix before `*`.
+ */
+function matchSubpathMap(
+  map: Record<string, unknown>,
+  key: string,
+): { value: unknown; captured: string | null } | null {
+  if (Object.hasOwn(map, key) && !key.includes("*")) {
+    return { value: map[key], captured: null };
+  }
+
+  let best: { value: unknown; captured: string; prefixLength: number } | null = null;
+  for (const [pattern, value] of Object.entries(map)) {
+    const starIdx = pattern.indexOf("*");
+    if (starIdx === -1) continue;
+
+    const prefix = pattern.slice(0, starIdx);
+    const suffix = pattern.slice(starIdx + 1);
+    if (
+      key.startsWith(prefix) &&
+      key.endsWith(suffix) &&
+      key.length >= prefix.length + suffix.length &&
+      (!best || prefix.length > best.prefixLength)
+    ) {
+      best = {
+        value,
+        captured: key.slice(prefix.length, key.length - suffix.length),
+        prefixLength: prefix.length,
+      };
+    }
+  }
+
+  return best ? { value: best.value, captured: best.captured } : null;
+}
+
+/**
+ * Resolves an `exports` subpath to its raw target strings (package-relative, e.g. `./src/a.ts`).
+ * Returns an empty array when the subpath is not exported.
+ */
+export function resolvePackageExports(
+  exportsField: unknown,
+  subpath: string,
+  conditions: ReadonlySet<string> = DEFAULT_PACKAGE_CONDITIONS,
+): string[] {
+  const isSubpathMap =
+    typeof exportsField === "object" &&
+    exportsField !== null &&
+    !Array.isArray(exportsField) &&
+    Object.keys(exportsField).some((key) => key.startsWith("."));
+
+  if (!isSubpathMap) {
+    return subpath === "." ? collectTargets(exportsField, conditions, null) : [];
+  }
+
+  const match = matchSubpathMap(exportsField as Record<string, unknown>, subpath);
+  return match ? collectTargets(match.value, conditions, match.captured) : [];
+}
+
+/**
+ * Resolves a `#subpath` specifier through a package.json `imports` field to its raw targets.
+ */
+export function resolvePackageImports(
+  importsField: unknown,
+  specifier: string,
+  conditions: ReadonlySet<string> = DEFAULT_PACKAGE_CONDITIONS,
+): string[] {
+  if (typeof importsField !== "object" || importsField === null || Array.isArray(importsField)) {
+    return [];
+  }
+
+  const match = matchSubpathMap(importsField as Record<string, unknown>, specifier);
+  return match ? collectTargets(match.value, conditions, match.captured) : [];
+}
+
+/** Returns the innermost workspace package whose directory contains `filePath`. */
+export function findOwningPackage(filePath: string, packages: readonly WorkspacePackage[]): WorkspacePackage | null {
+  let best: WorkspacePackage | null = null;
+  for (const pkg of packages) {
+    const relative = path.relative(pkg.dir, filePath);
+    if (relative.startsWith("..") || path.isAbsolute(relative)) continue;
+    if (!best || pkg.dir.length > best.dir.length) {
+      best = pkg;
+    }
+  }
+  return best;
+}
+
+/**
+ * Resolves a bare or `#subpath` specifier to absolute target paths inside workspace packages.
+ * Targets are returned as written in package.json (no extension probing).
+ *
+ * - `#x` → the `imports` field of the package that owns `currentFilePath`.
+ * - `name` / `name/sub` → `exports` when present, else `types` / `main` / `module` / `index`,
+ *   or the subpath joined onto the package directory.
+ *
+ * @returns Absolute paths in priority order; empty when no workspace package matches.
+ */
+export function resolveWorkspaceImport(
+  currentFilePath: string,
+  importPath: string,
+  packages: readonly WorkspacePackage[],
+  conditions: ReadonlySet<string> = DEFAULT_PACKAGE_CONDITIONS,
+): string[] {
+  if (importPath.startsWith("#")) {
+    const owner = findOwningPackage(currentFilePath, packages);
+    if (!owner) return [];
+
+    const targets: string[] = [];
+    for (const target of resolvePackageImports(owner.manifest.imports, importPath, conditions)) {
+      if (target.startsWith("./")) {
+        targets.push(path.resolve(owner.dir, target));
+      } else if (!target.startsWith("#")) {
+        targets.push(...resolveWorkspaceImport(currentFilePath, target, packages, conditions));
+      }
+    }
+    return targets;
+  }
+
+  const split = splitPackageSpecifier(importPath);
+  if (!split) return [];
+
+  const pkg = packages.find((candidate) => candidate.name === split.name);
+  if (!pkg) return [];
+
+  const { manifest } = pkg;
+  if (manifest.exports !== undefined) {
+    return resolvePackageExports(manifest.exports, split.subpath, conditions)
+      .filter((target) => target.startsWith("./"))
+      .map((target) => path.resolve(pkg.dir, target));
+  }
+
+  if (split.subpath !== ".") {
+    return [path.resolve(pkg.dir, split.subpath)];
+  }
+
+  const entries = [manifest.types, manifest.main, manifest.module].filter(
+    (entry): entry is string => entry !== undefined,
+  );
+  return [...entries.map((entry) => path.resolve(pkg.dir, entry)), path.resolve(pkg.dir, "index")];
+}
@@ -1,5 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it, mock, spyOn } from "bun:test";
-import { discoverProjects, resolveFileProject, type ProjectBoundary } from "./project-discovery";
+import {
+  discoverProjects,
+  isDiscoveryExcluded,
+  resolveFileProject,
+  toWorkspacePackages,
+  type ProjectBoundary,
+} from "./project-discovery";
 
 const mockGlob = mock(async function* (): AsyncGenerator<string> {});
 
@@ -155,4 +161,50 @@ describe("discoverProjects", () => {
 
     expect(boundaries[0]?.project).toBe("root-basename");
   });
-});
\ No newline at end of file
+
+  it("should attach resolution fields of package json as manifest when package is discovered", async () => {
+    setupGlobAndFiles({
+      "packages/core/package.json": { name: "@ws/core", main: "dist/index.js", exports: { ".": "./src/index.ts" }, version: "1.0.0" },
+    });
+
+    const boundaries = await discoverProjects("/fake/root");
+
+    expect(boundaries[0]?.manifest).toEqual({
+      name: "@ws/core",
+      main: "dist/index.js",
+      exports: { ".": "./src/index.ts" },
+    });
+  });
+});
+
+describe("isDiscoveryExcluded", () => {
+  it("should exclude dependency, build output and git paths when they appear at any depth", () => {
+    expect(isDiscoveryExcluded("node_modules/dep/package.json")).toBe(true);
+    expect(isDiscoveryExcluded("apps/web/node_modules/dep/package.json")).toBe(true);
+    expect(isDiscoveryExcluded("dist/package.json")).toBe(true);
+    expect(isDiscoveryExcluded("apps/web/package.json")).toBe(false);
+  });
+});
+
+describe("toWorkspacePackages", () => {
+  it("should return packages with absolute dirs when boundaries have named manifests", () => {
+    const boundaries: ProjectBoundary[] = [
+      { dir: "packages/core", project: "@ws/core", manifest: { name: "@ws/core", main: "src/index.ts" } },
+    ];
+
+    const packages = toWorkspacePackages("/fake/root", boundaries);
+
+    expect(packages).toEqual([
+      { name: "@ws/core", dir: "/fake/root/packages/core", manifest: { name: "@ws/core", main: "src/index.ts" } },
+    ]);
+  });
+
+  it("should skip boundaries when manifest is missing or unnamed", () => {
+    const boundaries: ProjectBoundary[] = [
+      { dir: ".", project: "root" },
+      { dir: "apps/web", project: "web", manifest: {} },
+    ];
+
+    expect(toWorkspacePackages("/fake/root", boundaries)).toEqual([]);
+  });
+});
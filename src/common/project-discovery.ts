@@ -1,15 +1,18 @@
 import path from "node:path";
 import { promises as fs } from "node:fs";
+import { pickPackageManifest, type PackageManifest, type WorkspacePackage } from "./package-resolver";
 
 export interface ProjectBoundary {
   dir: string;
   project: string;
+  /** Resolution-relevant package.json fields, used to resolve cross-package imports. */
+  manifest?: PackageManifest;
 }
 
 const DISCOVERY_EXCLUDE = ["**/node_modules/**", "**/.git/**", "**/.zipbul/**", "**/dist/**"];
 
 export async function discoverProjects(projectRoot: string): Promise<ProjectBoundary[]> {
-  const boundaries: ProjectBoundary[] = [];
+  const manifests: Array<{ path: string; content: any }> = [];
 
   // Bun.Glob.scan() does not support exclude option (PR #25789 unmerged as of Bun 1.3.8).
   // node:fs promises.glob() is the official Bun-supported alternative with exclude support.
@@ -17,10 +20,29 @@ export async function discoverProjects(projectRoot: string): Promise<ProjectBoun
     cwd: projectRoot,
     exclude: DISCOVERY_EXCLUDE,
   })) {
-    const packageDir = path.dirname(relativePackageJson).replaceAll("\\", "/");
     const packagePath = path.join(projectRoot, relativePackageJson);
-    const content = await Bun.file(packagePath).json();
+    manifests.push({ path: relativePackageJson, content: await Bun.file(packagePath).json() });
+  }
+
+  return toProjectBoundaries(projectRoot, manifests);
+}
 
+/** Whether discovery skips a project-root relative path (dependencies, build output, VCS data). */
+export function isDiscoveryExcluded(relativePath: string): boolean {
+  return DISCOVERY_EXCLUDE.some((pattern) => new Bun.Glob(pattern).match(relativePath));
+}
+
+/**
+ * Builds project boundaries from parsed `package.json` files, keyed by their
+ * project-root relative path. Deeper directories come first.
+ */
+export function toProjectBoundaries(
+  projectRoot: string,
+  manifests: Array<{ path: string; content: any }>,
+): ProjectBoundary[] {
+  const boundaries: ProjectBoundary[] = [];
+  for (const { path: relativePackageJson, content } of manifests) {
+    const packageDir = path.dirname(relativePackageJson).replaceAll("\\", "/");
     const packageName =
       typeof content?.name === "string" && content.name.length > 0
         ? content.name
@@ -29,6 +51,7 @@ export async function discoverProjects(projectRoot: string): Promise<ProjectBoun
     boundaries.push({
       dir: packageDir,
       project: packageName,
+      manifest: pickPackageManifest(content),
     });
   }
 
@@ -56,4 +79,29 @@ export function resolveFileProject(
   }
 
   return rootProject;
-}
\ No newline at end of file
+}
+
+/**
+ * Lists boundaries whose package.json declares a name, as importable workspace packages.
+ * Boundary directories are resolved against `projectRoot`.
+ */
+export function toWorkspacePackages(
+  projectRoot: string,
+  boundaries: ProjectBoundary[],
+): WorkspacePackage[] {
+  const packages: WorkspacePackage[] = [];
+  for (const boundary of boundaries) {
+    const name = boundary.manifest?.name;
+    if (!name) {
+      continue;
+    }
+
+    packages.push({
+      name,
+      dir: path.resolve(projectRoot, boundary.dir),
+      manifest: boundary.manifest!,
+    });
+  }
+
+  return packages;
+}
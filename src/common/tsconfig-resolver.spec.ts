@@ -1,18 +1,31 @@
 import { afterEach, describe, expect, it, spyOn } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
 import { join } from "node:path";
-import { clearTsconfigPathsCache, loadTsconfigPaths } from "./tsconfig-resolver";
+import {
+  clearTsconfigPathsCache,
+  findTsconfigForFile,
+  loadTsconfigPaths,
+  loadTsconfigPathsForFile,
+  loadTsconfigPathsForFileSync,
+} from "./tsconfig-resolver";
 
 const PROJECT_ROOT = "/fake/project";
 const TSCONFIG_PATH = join(PROJECT_ROOT, "tsconfig.json");
 const JSCONFIG_PATH = join(PROJECT_ROOT, "jsconfig.json");
 
-function makeBunFile(content: Record<string, unknown> | null): ReturnType<typeof Bun.file> {
+/** `content` is raw text or a JSON value to serialize; `null` = missing file. */
+function makeBunFile(content: Record<string, unknown> | string | null): ReturnType<typeof Bun.file> {
   return {
     exists: async () => content !== null,
-    json: async () => content,
+    text: async () => (typeof content === "string" ? content : JSON.stringify(content)),
   } as ReturnType<typeof Bun.file>;
 }
 
+function mockConfigFiles(files: Record<string, Record<string, unknown>>): void {
+  spyOn(Bun, "file").mockImplementation((p) => makeBunFile(files[String(p)] ?? null));
+}
+
 afterEach(() => {
   clearTsconfigPathsCache();
   spyOn(Bun, "file").mockRestore();
@@ -207,4 +220,260 @@ describe("loadTsconfigPaths", () => {
     expect(refreshedA?.paths.get("@/*")).toEqual(["new/*"]);
     expect(refreshedB?.paths.size).toBe(0);
   });
+
+  it("should parse comments and trailing commas when tsconfig is written as JSONC", async () => {
+    spyOn(Bun, "file").mockImplementation((p) => {
+      if (String(p) === TSCONFIG_PATH) {
+        return makeBunFile('{\n  // aliases\n  "compilerOptions": { /* root */ "baseUrl": ".", "paths": { "@/*": ["src/*"], }, },\n}\n');
+      }
+      return makeBunFile(null);
+    });
+
+    const result = await loadTsconfigPaths(PROJECT_ROOT);
+
+    expect(result?.baseUrl).toBe(PROJECT_ROOT);
+    expect(result?.paths.get("@/*")).toEqual(["src/*"]);
+  });
+
+  it("should treat tsconfig as missing when its text cannot be parsed", async () => {
+    spyOn(Bun, "file").mockImplementation((p) => makeBunFile(String(p) === TSCONFIG_PATH ? "{ \"compilerOptions\": " : null));
+
+    const result = await loadTsconfigPaths(PROJECT_ROOT);
+
+    expect(result).toBeNull();
+  });
+
+  it("should return lower-cased moduleResolution when tsconfig sets only moduleResolution", async () => {
+    spyOn(Bun, "file").mockImplementation((p) => {
+      if (String(p) === TSCONFIG_PATH) return makeBunFile({ compilerOptions: { moduleResolution: "NodeNext" } });
+      return makeBunFile(null);
+    });
+
+    const result = await loadTsconfigPaths(PROJECT_ROOT);
+
+    expect(result?.moduleResolution).toBe("nodenext");
+    expect(result?.baseUrl).toBe(PROJECT_ROOT);
+    expect(result?.paths.size).toBe(0);
+  });
+
+  it("should omit moduleResolution when tsconfig does not declare it", async () => {
+    spyOn(Bun, "file").mockImplementation((p) => {
+      if (String(p) === TSCONFIG_PATH) return makeBunFile({ compilerOptions: { baseUrl: "." } });
+      return makeBunFile(null);
+    });
+
+    const result = await loadTsconfigPaths(PROJECT_ROOT);
+
+    expect(result?.moduleResolution).toBeUndefined();
+  });
+});
+
+describe("loadTsconfigPaths extends", () => {
+  it("should merge compiler options from a relative extends chain when config extends a base", async () => {
+    mockConfigFiles({
+      [TSCONFIG_PATH]: { extends: "./tsconfig.base.json", compilerOptions: { moduleResolution: "Bundler" } },
+      [join(PROJECT_ROOT, "tsconfig.base.json")]: { compilerOptions: { baseUrl: ".", paths: { "@/*": ["src/*"] } } },
+    });
+
+    const result = await loadTsconfigPaths(PROJECT_ROOT);
+
+    expect(result?.baseUrl).toBe(PROJECT_ROOT);
+    expect(result?.paths.get("@/*")).toEqual(["src/*"]);
+    expect(result?.moduleResolution).toBe("bundler");
+  });
+
+  it("should resolve baseUrl relative to the declaring config when base lives in another directory", async () => {
+    mockConfigFiles({
+      [TSCONFIG_PATH]: { extends: "../shared/tsconfig.json" },
+      ["/fake/shared/tsconfig.json"]: { compilerOptions: { baseUrl: "./src" } },
+    });
+
+    const result = await loadTsconfigPaths(PROJECT_ROOT);
+
+    expect(result?.baseUrl).toBe("/fake/shared/src");
+  });
+
+  it("should let the extending config override options when both declare paths", async () => {
+    mockConfigFiles({
+      [TSCONFIG_PATH]: { extends: "./base", compilerOptions: { paths: { "#/*": ["lib/*"] } } },
+      [join(PROJECT_ROOT, "base.json")]: { compilerOptions: { baseUrl: "root", paths: { "@/*": ["src/*"] } } },
+    });
+
+    const result = await loadTsconfigPaths(PROJECT_ROOT);
+
+    expect(result?.baseUrl).toBe(join(PROJECT_ROOT, "root"));
+    expect([...(result?.paths.keys() ?? [])]).toEqual(["#/*"]);
+  });
+
+  it("should resolve package-style extends from node_modules when extends names a package", async () => {
+    mockConfigFiles({
+      [TSCONFIG_PATH]: { extends: "@tsconfig/node20" },
+      [join(PROJECT_ROOT, "node_modules/@tsconfig/node20/tsconfig.json")]: {
+        compilerOptions: { moduleResolution: "node16" },
+      },
+    });
+
+    const result = await loadTsconfigPaths(PROJECT_ROOT);
+
+    expect(result?.moduleResolution).toBe("node16");
+  });
+
+  it("should apply every entry in order when extends is an array", async () => {
+    mockConfigFiles({
+      [TSCONFIG_PATH]: { extends: ["./a.json", "./b.json"] },
+      [join(PROJECT_ROOT, "a.json")]: { compilerOptions: { baseUrl: "a", moduleResolution: "node16" } },
+      [join(PROJECT_ROOT, "b.json")]: { compilerOptions: { baseUrl: "b" } },
+    });
+
+    const result = await loadTsconfigPaths(PROJECT_ROOT);
+
+    expect(result?.baseUrl).toBe(join(PROJECT_ROOT, "b"));
+    expect(result?.moduleResolution).toBe("node16");
+  });
+
+  it("should stop without hanging when extends chain is circular", async () => {
+    mockConfigFiles({
+      [TSCONFIG_PATH]: { extends: "./a.json", compilerOptions: { baseUrl: "." } },
+      [join(PROJECT_ROOT, "a.json")]: { extends: "./tsconfig.json" },
+    });
+
+    const result = await loadTsconfigPaths(PROJECT_ROOT);
+
+    expect(result?.baseUrl).toBe(PROJECT_ROOT);
+  });
+
+  it("should reload configs extending a base when only the base is invalidated", async () => {
+    const basePath = join(PROJECT_ROOT, "tsconfig.base.json");
+    let baseAlias = "src/*";
+    spyOn(Bun, "file").mockImplementation((p) => {
+      if (String(p) === TSCONFIG_PATH) return makeBunFile({ extends: "./tsconfig.base.json" });
+      if (String(p) === basePath) return makeBunFile({ compilerOptions: { paths: { "@/*": [baseAlias] } } });
+      return makeBunFile(null);
+    });
+
+    await loadTsconfigPaths(PROJECT_ROOT);
+    baseAlias = "next/*";
+    clearTsconfigPathsCache(basePath);
+    const refreshed = await loadTsconfigPaths(PROJECT_ROOT);
+
+    expect(refreshed?.paths.get("@/*")).toEqual(["next/*"]);
+  });
+
+  it("should keep unrelated configs cached when another config is invalidated", async () => {
+    const otherRoot = "/fake/other";
+    let calls = 0;
+    spyOn(Bun, "file").mockImplementation((p) => {
+      if (String(p) === join(otherRoot, "tsconfig.json")) {
+        calls += 1;
+        return makeBunFile({ compilerOptions: { baseUrl: "." } });
+      }
+      if (String(p) === TSCONFIG_PATH) return makeBunFile({ compilerOptions: { baseUrl: "." } });
+      return makeBunFile(null);
+    });
+
+    await loadTsconfigPaths(otherRoot);
+    clearTsconfigPathsCache(TSCONFIG_PATH);
+    await loadTsconfigPaths(otherRoot);
+
+    expect(calls).toBe(1);
+  });
+});
+
+describe("findTsconfigForFile", () => {
+  const PACKAGE_TSCONFIG = join(PROJECT_ROOT, "packages/core/tsconfig.json");
+
+  it("should return the nearest tsconfig when a package has its own config", async () => {
+    mockConfigFiles({
+      [TSCONFIG_PATH]: { compilerOptions: {} },
+      [PACKAGE_TSCONFIG]: { compilerOptions: {} },
+    });
+
+    const result = await findTsconfigForFile(join(PROJECT_ROOT, "packages/core/src/a.ts"), PROJECT_ROOT);
+
+    expect(result).toBe(PACKAGE_TSCONFIG);
+  });
+
+  it("should fall back to the root tsconfig when no nearer config exists", async () => {
+    mockConfigFiles({ [TSCONFIG_PATH]: { compilerOptions: {} } });
+
+    const result = await findTsconfigForFile(join(PROJECT_ROOT, "src/deep/a.ts"), PROJECT_ROOT);
+
+    expect(result).toBe(TSCONFIG_PATH);
+  });
+
+  it("should return null when no tsconfig exists up to the project root", async () => {
+    mockConfigFiles({ ["/fake/tsconfig.json"]: { compilerOptions: {} } });
+
+    const result = await findTsconfigForFile(join(PROJECT_ROOT, "src/a.ts"), PROJECT_ROOT);
+
+    expect(result).toBeNull();
+  });
+
+  it("should select the referenced config that includes the file when nearest config is a solution config", async () => {
+    const appConfig = join(PROJECT_ROOT, "tsconfig.app.json");
+    const testConfig = join(PROJECT_ROOT, "tsconfig.test.json");
+    mockConfigFiles({
+      [TSCONFIG_PATH]: { files: [], references: [{ path: "./tsconfig.app.json" }, { path: "./tsconfig.test.json" }] },
+      [appConfig]: { include: ["src"], exclude: ["src/**/*.spec.ts"] },
+      [testConfig]: { include: ["src/**/*.spec.ts", "test"] },
+    });
+
+    const app = await findTsconfigForFile(join(PROJECT_ROOT, "src/a.ts"), PROJECT_ROOT);
+    const spec = await findTsconfigForFile(join(PROJECT_ROOT, "src/a.spec.ts"), PROJECT_ROOT);
+
+    expect(app).toBe(appConfig);
+    expect(spec).toBe(testConfig);
+  });
+
+  it("should resolve directory references to their tsconfig json when reference path is a directory", async () => {
+    mockConfigFiles({
+      [TSCONFIG_PATH]: { include: ["scripts"], references: [{ path: "./packages/core" }] },
+      [PACKAGE_TSCONFIG]: { include: ["src"] },
+    });
+
+    const result = await findTsconfigForFile(join(PROJECT_ROOT, "packages/core/src/a.ts"), PROJECT_ROOT);
+
+    expect(result).toBe(PACKAGE_TSCONFIG);
+  });
+});
+
+describe("loadTsconfigPathsForFile", () => {
+  it("should use paths of the nearest package config when resolving a file in that package", async () => {
+    const packageDir = join(PROJECT_ROOT, "packages/core");
+    mockConfigFiles({
+      [TSCONFIG_PATH]: { compilerOptions: { paths: { "@root/*": ["src/*"] } } },
+      [join(packageDir, "tsconfig.json")]: {
+        extends: "../../tsconfig.json",
+        compilerOptions: { paths: { "@core/*": ["src/*"] } },
+      },
+    });
+
+    const result = await loadTsconfigPathsForFile(join(packageDir, "src/a.ts"), PROJECT_ROOT);
+
+    expect(result?.baseUrl).toBe(packageDir);
+    expect(result?.paths.get("@core/*")).toEqual(["src/*"]);
+  });
+
+  it("should return null when the file has no governing tsconfig", async () => {
+    mockConfigFiles({});
+
+    expect(await loadTsconfigPathsForFile(join(PROJECT_ROOT, "src/a.ts"), PROJECT_ROOT)).toBeNull();
+  });
+});
+
+describe("loadTsconfigPathsForFileSync", () => {
+  it("should read the nearest config and its extends chain from disk when called synchronously", async () => {
+    const root = await mkdtemp(join(tmpdir(), "tsconfig-sync-"));
+    try {
+      await Bun.write(join(root, "tsconfig.base.json"), '{\n  // shared\n  "compilerOptions": { "paths": { "@/*": ["src/*"] } },\n}\n');
+      await Bun.write(join(root, "packages/core/tsconfig.json"), JSON.stringify({ extends: "../../tsconfig.base.json" }));
+
+      const result = loadTsconfigPathsForFileSync(join(root, "packages/core/src/a.ts"), root);
+
+      expect(result?.baseUrl).toBe(root);
+      expect(result?.paths.get("@/*")).toEqual(["src/*"]);
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
 });
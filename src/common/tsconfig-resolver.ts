@@ -1,84 +1,418 @@
+import { existsSync, readFileSync } from "node:fs";
 import path from "node:path";
 
 export interface TsconfigPaths {
   baseUrl: string;
   paths: Map<string, string[]>;
+  /** Lower-cased `compilerOptions.moduleResolution` (e.g. 'bundler', 'nodenext'). */
+  moduleResolution?: string;
 }
 
-const cache = new Map<string, TsconfigPaths | null>();
+/** Resolution-relevant compiler options merged along an `extends` chain. */
+interface MergedCompilerOptions {
+  /** Absolute, resolved against the config that declared it. */
+  baseUrl?: string;
+  paths?: Record<string, unknown>;
+  /** Directory of the config that declared `paths` (fallback base when no `baseUrl`). */
+  pathsBaseDir?: string;
+  moduleResolution?: string;
+}
+
+interface CachedTsconfig {
+  result: TsconfigPaths | null;
+  /** Every config file read while resolving, including the config itself. */
+  dependencies: Set<string>;
+}
+
+/**
+ * A view of config files (the disk, a git commit, ...) together with what was
+ * resolved from it. Create one with {@link createTsconfigSource}.
+ */
+export interface TsconfigSource {
+  /** Parsed JSON of a config file; `null` when it does not exist. */
+  read(configPath: string): Promise<unknown>;
+  /** Synchronous `read`, for sources that can offer one. */
+  readSync?(configPath: string): unknown;
+  /** Raw JSON per config path (`null` = missing). */
+  rawCache: Map<string, Record<string, unknown> | null>;
+  /** Resolved result per config path. */
+  cache: Map<string, CachedTsconfig>;
+  /** Config path selected for a source file. */
+  fileConfigCache: Map<string, string | null>;
+}
+
+const TSCONFIG_FILE_NAME = "tsconfig.json";
+
+/**
+ * Resolution work that yields each config path it needs read and receives its parsed
+ * JSON back, so the same walk runs against async and sync reads.
+ */
+type ConfigReads<T> = Generator<string, T, unknown>;
+
+/** Creates a config source reading files through `read`, with empty caches. */
+export function createTsconfigSource(read: (configPath: string) => Promise<unknown>): TsconfigSource {
+  return { read, rawCache: new Map(), cache: new Map(), fileConfigCache: new Map() };
+}
+
+async function runAsync<T>(source: TsconfigSource, reads: ConfigReads<T>): Promise<T> {
+  let step = reads.next();
+  while (!step.done) {
+    step = reads.next(await source.read(step.value));
+  }
+
+  return step.value;
+}
+
+function runSync<T>(source: TsconfigSource, reads: ConfigReads<T>): T {
+  let step = reads.next();
+  while (!step.done) {
+    step = reads.next(source.readSync!(step.value));
+  }
 
-async function readConfig(configPath: string): Promise<Record<string, unknown> | null> {
-  const file = Bun.file(configPath);
-  if (!(await file.exists())) {
+  return step.value;
+}
+
+/**
+ * Parses the text of a config file. tsconfig files are JSONC (comments, trailing commas);
+ * a config that still does not parse counts as missing rather than failing every file it covers.
+ */
+export function parseTsconfigText(text: string): unknown {
+  try {
+    return Bun.JSONC.parse(text);
+  } catch {
     return null;
   }
+}
+
+/** Reads configs from the disk; used when no source is given. */
+const diskSource: TsconfigSource = {
+  ...createTsconfigSource(async (configPath) => {
+    const file = Bun.file(configPath);
+    return (await file.exists()) ? parseTsconfigText(await file.text()) : null;
+  }),
+  readSync: (configPath) => (existsSync(configPath) ? parseTsconfigText(readFileSync(configPath, "utf8")) : null),
+};
+
+function* readConfig(source: TsconfigSource, configPath: string): ConfigReads<Record<string, unknown> | null> {
+  if (source.rawCache.has(configPath)) {
+    return source.rawCache.get(configPath) ?? null;
+  }
 
-  const parsed = await file.json();
-  return typeof parsed === "object" && parsed !== null ? (parsed as Record<string, unknown>) : null;
+  const parsed = yield configPath;
+  const config = typeof parsed === "object" && parsed !== null ? (parsed as Record<string, unknown>) : null;
+  source.rawCache.set(configPath, config);
+  return config;
 }
 
-export async function loadTsconfigPaths(projectRoot: string): Promise<TsconfigPaths | null> {
-  if (cache.has(projectRoot)) {
-    return cache.get(projectRoot) ?? null;
+function toStringList(value: unknown): string[] {
+  if (typeof value === "string") {
+    return [value];
+  }
+
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+/**
+ * Resolves an `extends` entry to a config path.
+ * Relative and absolute entries are resolved against `configDir`; anything else is
+ * looked up as a package in `node_modules` directories walking upward.
+ */
+function* resolveExtendsPath(
+  source: TsconfigSource,
+  configDir: string,
+  specifier: string,
+): ConfigReads<string | null> {
+  const withJson = (base: string): string[] =>
+    base.endsWith(".json") ? [base] : [`${base}.json`, path.join(base, TSCONFIG_FILE_NAME), base];
+
+  let candidates: string[];
+  if (specifier.startsWith(".") || path.isAbsolute(specifier)) {
+    candidates = withJson(path.resolve(configDir, specifier));
+  } else {
+    candidates = [];
+    let dir = configDir;
+    while (true) {
+      candidates.push(...withJson(path.join(dir, "node_modules", specifier)));
+      const parent = path.dirname(dir);
+      if (parent === dir) break;
+      dir = parent;
+    }
+  }
+
+  for (const candidate of candidates) {
+    if ((yield* readConfig(source, candidate)) !== null) {
+      return candidate;
+    }
   }
 
-  const tsconfigPath = path.join(projectRoot, "tsconfig.json");
+  return null;
+}
+
+/**
+ * Merges compiler options along the `extends` chain of `configPath`.
+ * Later configs override earlier ones option by option; `baseUrl` is resolved
+ * relative to the config that declares it.
+ */
+function* readMergedOptions(
+  source: TsconfigSource,
+  configPath: string,
+  stack: Set<string>,
+  dependencies: Set<string>,
+): ConfigReads<MergedCompilerOptions | null> {
+  if (stack.has(configPath)) {
+    return {};
+  }
 
-  const config = await readConfig(tsconfigPath);
+  dependencies.add(configPath);
+  const config = yield* readConfig(source, configPath);
   if (!config) {
-    cache.set(projectRoot, null);
     return null;
   }
 
+  stack.add(configPath);
+  const configDir = path.dirname(configPath);
+  const merged: MergedCompilerOptions = {};
+
+  for (const specifier of toStringList(config.extends)) {
+    const basePath = yield* resolveExtendsPath(source, configDir, specifier);
+    if (!basePath) continue;
+
+    const base = yield* readMergedOptions(source, basePath, stack, dependencies);
+    if (base) {
+      Object.assign(merged, base);
+    }
+  }
+  stack.delete(configPath);
+
   const compilerOptions =
     typeof config.compilerOptions === "object" && config.compilerOptions !== null
       ? (config.compilerOptions as Record<string, unknown>)
-      : null;
+      : {};
 
-  if (!compilerOptions) {
-    cache.set(projectRoot, null);
-    return null;
+  if (typeof compilerOptions.baseUrl === "string") {
+    merged.baseUrl = path.resolve(configDir, compilerOptions.baseUrl);
+  }
+  if (typeof compilerOptions.paths === "object" && compilerOptions.paths !== null) {
+    merged.paths = compilerOptions.paths as Record<string, unknown>;
+    merged.pathsBaseDir = configDir;
+  }
+  if (typeof compilerOptions.moduleResolution === "string") {
+    merged.moduleResolution = compilerOptions.moduleResolution.toLowerCase();
   }
 
-  const rawBaseUrl = typeof compilerOptions.baseUrl === "string" ? compilerOptions.baseUrl : null;
-  const rawPaths =
-    typeof compilerOptions.paths === "object" && compilerOptions.paths !== null
-      ? (compilerOptions.paths as Record<string, unknown>)
-      : null;
+  return merged;
+}
 
-  if (!rawBaseUrl && !rawPaths) {
-    cache.set(projectRoot, null);
-    return null;
+/**
+ * Loads path mappings from a specific tsconfig file, following its `extends` chain.
+ *
+ * @returns `null` when the file is missing or no config in the chain sets
+ *          `baseUrl`, `paths` or `moduleResolution`.
+ */
+export async function loadTsconfigFile(
+  configPath: string,
+  source: TsconfigSource = diskSource,
+): Promise<TsconfigPaths | null> {
+  return runAsync(source, loadConfigFile(source, configPath));
+}
+
+function* loadConfigFile(source: TsconfigSource, configPath: string): ConfigReads<TsconfigPaths | null> {
+  const cached = source.cache.get(configPath);
+  if (cached) {
+    return cached.result;
   }
 
-  const resolvedBaseUrl = rawBaseUrl ? path.resolve(projectRoot, rawBaseUrl) : projectRoot;
-  const paths = new Map<string, string[]>();
+  const dependencies = new Set<string>();
+  const merged = yield* readMergedOptions(source, configPath, new Set(), dependencies);
 
-  if (rawPaths) {
-    for (const [pattern, targets] of Object.entries(rawPaths)) {
+  let result: TsconfigPaths | null = null;
+  if (merged && (merged.baseUrl || merged.paths || merged.moduleResolution)) {
+    const paths = new Map<string, string[]>();
+    for (const [pattern, targets] of Object.entries(merged.paths ?? {})) {
       if (!Array.isArray(targets)) {
         continue;
       }
 
-      const normalizedTargets = targets.filter((value): value is string => typeof value === "string");
-      paths.set(pattern, normalizedTargets);
+      paths.set(pattern, targets.filter((value): value is string => typeof value === "string"));
     }
-  }
 
-  const result: TsconfigPaths = {
-    baseUrl: resolvedBaseUrl,
-    paths,
-  };
+    result = {
+      baseUrl: merged.baseUrl ?? merged.pathsBaseDir ?? path.dirname(configPath),
+      paths,
+    };
+    if (merged.moduleResolution) {
+      result.moduleResolution = merged.moduleResolution;
+    }
+  }
 
-  cache.set(projectRoot, result);
+  source.cache.set(configPath, { result, dependencies });
   return result;
 }
 
-export function clearTsconfigPathsCache(projectRoot?: string): void {
-  if (projectRoot) {
-    cache.delete(projectRoot);
+export async function loadTsconfigPaths(projectRoot: string): Promise<TsconfigPaths | null> {
+  return loadTsconfigFile(path.join(projectRoot, TSCONFIG_FILE_NAME));
+}
+
+/** Converts a tsconfig `include`/`exclude` entry to a glob relative to the config dir. */
+function toConfigGlob(pattern: string): string {
+  const normalized = pattern.replaceAll("\\", "/").replace(/^\.\//, "").replace(/\/$/, "");
+  if (normalized.includes("*") || path.extname(normalized) !== "") {
+    return normalized;
+  }
+
+  return normalized.length > 0 ? `${normalized}/**/*` : "**/*";
+}
+
+/** Whether a config's own `files` / `include` / `exclude` cover `filePath`. */
+function configIncludesFile(configPath: string, config: Record<string, unknown>, filePath: string): boolean {
+  const configDir = path.dirname(configPath);
+  const relative = path.relative(configDir, filePath).replaceAll("\\", "/");
+  if (relative.startsWith("..") || path.isAbsolute(relative)) {
+    return false;
+  }
+
+  const files = toStringList(config.files);
+  if (files.some((file) => path.resolve(configDir, file) === filePath)) {
+    return true;
+  }
+
+  const include =
+    config.include !== undefined ? toStringList(config.include) : config.files !== undefined ? [] : ["**/*"];
+  if (!include.some((pattern) => new Bun.Glob(toConfigGlob(pattern)).match(relative))) {
+    return false;
+  }
+
+  return !toStringList(config.exclude).some((pattern) => new Bun.Glob(toConfigGlob(pattern)).match(relative));
+}
+
+/**
+ * Picks the config responsible for `filePath` starting from `configPath`.
+ * When the config does not include the file itself, its project `references`
+ * are searched (depth-first) for one that does.
+ */
+function* selectReferencedConfig(
+  source: TsconfigSource,
+  configPath: string,
+  filePath: string,
+  visited: Set<string>,
+): ConfigReads<string | null> {
+  visited.add(configPath);
+  const config = yield* readConfig(source, configPath);
+  if (!config) {
+    return null;
+  }
+
+  if (configIncludesFile(configPath, config, filePath)) {
+    return configPath;
+  }
+
+  const references = Array.isArray(config.references) ? config.references : [];
+  for (const reference of references) {
+    const referencePath =
+      typeof reference === "object" && reference !== null ? (reference as Record<string, unknown>).path : undefined;
+    if (typeof referencePath !== "string") continue;
+
+    const resolved = path.resolve(path.dirname(configPath), referencePath);
+    const referencedConfig = resolved.endsWith(".json") ? resolved : path.join(resolved, TSCONFIG_FILE_NAME);
+    if (visited.has(referencedConfig)) continue;
+
+    const selected = yield* selectReferencedConfig(source, referencedConfig, filePath, visited);
+    if (selected) {
+      return selected;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Finds the tsconfig governing `filePath`: the nearest `tsconfig.json` between the
+ * file's directory and `projectRoot`, or one of its project references when the
+ * nearest config does not include the file.
+ */
+export async function findTsconfigForFile(
+  filePath: string,
+  projectRoot: string,
+  source: TsconfigSource = diskSource,
+): Promise<string | null> {
+  return runAsync(source, findConfigForFile(source, filePath, projectRoot));
+}
+
+function* findConfigForFile(source: TsconfigSource, filePath: string, projectRoot: string): ConfigReads<string | null> {
+  if (source.fileConfigCache.has(filePath)) {
+    return source.fileConfigCache.get(filePath) ?? null;
+  }
+
+  let nearest: string | null = null;
+  let dir = path.dirname(filePath);
+  while (true) {
+    const candidate = path.join(dir, TSCONFIG_FILE_NAME);
+    if ((yield* readConfig(source, candidate)) !== null) {
+      nearest = candidate;
+      break;
+    }
+
+    const parent = path.dirname(dir);
+    const relative = path.relative(projectRoot, dir);
+    if (parent === dir || relative.length === 0 || relative.startsWith("..")) break;
+    dir = parent;
+  }
+
+  const selected = nearest ? ((yield* selectReferencedConfig(source, nearest, filePath, new Set())) ?? nearest) : null;
+  source.fileConfigCache.set(filePath, selected);
+  return selected;
+}
+
+/**
+ * Loads the path mappings that apply to `filePath` (absolute) using the
+ * config selected by {@link findTsconfigForFile}.
+ */
+export async function loadTsconfigPathsForFile(
+  filePath: string,
+  projectRoot: string,
+  source: TsconfigSource = diskSource,
+): Promise<TsconfigPaths | null> {
+  return runAsync(source, loadConfigPathsForFile(source, filePath, projectRoot));
+}
+
+/**
+ * Synchronous {@link loadTsconfigPathsForFile} over the disk. Shares its caches, so
+ * configs already loaded by indexing are not read again.
+ */
+export function loadTsconfigPathsForFileSync(filePath: string, projectRoot: string): TsconfigPaths | null {
+  return runSync(diskSource, loadConfigPathsForFile(diskSource, filePath, projectRoot));
+}
+
+function* loadConfigPathsForFile(
+  source: TsconfigSource,
+  filePath: string,
+  projectRoot: string,
+): ConfigReads<TsconfigPaths | null> {
+  const configPath = yield* findConfigForFile(source, filePath, projectRoot);
+  return configPath ? yield* loadConfigFile(source, configPath) : null;
+}
+
+/**
+ * Invalidates cached tsconfig data read from the disk.
+ *
+ * @param target - A project root (its `tsconfig.json`) or a config file path. Only
+ *                 that config and configs extending it are reloaded. Omit to clear everything.
+ */
+export function clearTsconfigPathsCache(target?: string): void {
+  if (!target) {
+    diskSource.rawCache.clear();
+    diskSource.cache.clear();
+    diskSource.fileConfigCache.clear();
     return;
   }
 
-  cache.clear();
-}
\ No newline at end of file
+  const configPath = target.endsWith(".json") ? target : path.join(target, TSCONFIG_FILE_NAME);
+  diskSource.rawCache.delete(configPath);
+  for (const [key, entry] of diskSource.cache) {
+    if (key === configPath || entry.dependencies.has(configPath)) {
+      diskSource.cache.delete(key);
+    }
+  }
+  // File → config selection depends on which configs exist and their include lists.
+  diskSource.fileConfigCache.clear();
+}
@@ -2,6 +2,7 @@ import { describe, expect, it } from "bun:test";
 import {
   CodeLedgerError,
   ExtractError,
+  GitError,
   IndexError,
   ParseError,
   SearchError,
@@ -165,6 +166,28 @@ describe("SearchError", () => {
     const cause = new Error("root");
     const sut = new SearchError("search failed", { cause });
 
+    expect(sut.cause).toBe(cause);
+  });
+});
+
+describe("GitError", () => {
+  it("should have subclass name when instantiated", () => {
+    const sut = new GitError("git failed");
+
+    expect(sut).toBeInstanceOf(CodeLedgerError);
+    expect(sut.name).toBe("GitError");
+  });
+
+  it("should preserve message when instantiated", () => {
+    const sut = new GitError("git failed");
+
+    expect(sut.message).toBe("git failed");
+  });
+
+  it("should preserve cause when cause option is provided", () => {
+    const cause = new Error("root");
+    const sut = new GitError("git failed", { cause });
+
     expect(sut.cause).toBe(cause);
   });
 });
\ No newline at end of file
@@ -27,4 +27,8 @@ export class StoreError extends CodeLedgerError {
 
 export class SearchError extends CodeLedgerError {
   name = "SearchError";
+}
+
+export class GitError extends CodeLedgerError {
+  name = "GitError";
 }
\ No newline at end of file
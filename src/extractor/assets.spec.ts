@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'bun:test';
+import { ASSET_EXTENSIONS, getAssetKind } from './assets';
+
+describe('getAssetKind', () => {
+  it('should classify JSON, stylesheets, images, fonts and wasm when the path has an asset extension', () => {
+    expect(getAssetKind('/project/src/data.json')).toBe('json');
+    expect(getAssetKind('/project/src/app.module.scss')).toBe('style');
+    expect(getAssetKind('/project/src/logo.SVG')).toBe('image');
+    expect(getAssetKind('/project/assets/inter.woff2')).toBe('font');
+    expect(getAssetKind('/project/src/lib.wasm')).toBe('wasm');
+  });
+
+  it('should return null when the path is a code file or has no extension', () => {
+    expect(getAssetKind('/project/src/index.ts')).toBeNull();
+    expect(getAssetKind('/project/src/App.jsx')).toBeNull();
+    expect(getAssetKind('/project/.config/Makefile')).toBeNull();
+  });
+});
+
+describe('ASSET_EXTENSIONS', () => {
+  it('should list every extension that getAssetKind classifies', () => {
+    expect(ASSET_EXTENSIONS.every((ext) => getAssetKind(`file${ext}`) !== null)).toBe(true);
+    expect(ASSET_EXTENSIONS).toContain('.css');
+  });
+});
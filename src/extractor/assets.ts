@@ -0,0 +1,34 @@
+import type { AssetKind } from './types';
+
+/** Asset extensions and the kind recorded for them. */
+const ASSET_KINDS: Record<string, AssetKind> = {
+  '.json': 'json',
+  '.css': 'style',
+  '.scss': 'style',
+  '.sass': 'style',
+  '.less': 'style',
+  '.svg': 'image',
+  '.png': 'image',
+  '.jpg': 'image',
+  '.jpeg': 'image',
+  '.gif': 'image',
+  '.webp': 'image',
+  '.avif': 'image',
+  '.ico': 'image',
+  '.woff': 'font',
+  '.woff2': 'font',
+  '.ttf': 'font',
+  '.otf': 'font',
+  '.wasm': 'wasm',
+};
+
+/** Extensions of files tracked as asset nodes (hashed, never parsed). */
+export const ASSET_EXTENSIONS: readonly string[] = Object.keys(ASSET_KINDS);
+
+/**
+ * Returns the asset kind of a path by its extension, or null for code and unknown files.
+ */
+export function getAssetKind(filePath: string): AssetKind | null {
+  const ext = /\.[^./\\]+$/.exec(filePath)?.[0].toLowerCase();
+  return (ext && ASSET_KINDS[ext]) || null;
+}
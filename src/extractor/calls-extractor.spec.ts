@@ -1,6 +1,10 @@
 import { describe, it, expect, mock, beforeEach } from 'bun:test';
 import { parseSync } from 'oxc-parser';
 import type { ImportReference } from './types';
+import * as astUtils from '../parser/ast-utils';
+
+// Captured before mock.module replaces the live binding.
+const realGetQualifiedName = astUtils.getQualifiedName;
 
 // ── Mock ../parser/ast-utils ──
 const mockGetQualifiedName = mock(() => null as any);
@@ -74,7 +78,7 @@ describe('extractCalls', () => {
 
     const ast = parse(`class Svc { run() { this.helper(); } helper() {} }`);
     const relations = extractCalls(ast, FILE, makeImportMap());
-    const rel = relations.find((r) => r.dstSymbolName === 'this.helper');
+    const rel = relations.find((r) => r.dstSymbolName === 'Svc.helper');
 
     expect(rel?.srcSymbolName).toContain('run');
   });
@@ -183,4 +187,299 @@ describe('extractCalls', () => {
     expect(rel?.metaJson).toContain('"isNew":true');
     expect(rel?.metaJson).toContain('"scope":"module"');
   });
+
+  // ── member call resolution ──────────────────────────────────────────────
+
+  describe('member call resolution', () => {
+    beforeEach(() => {
+      mockGetQualifiedName.mockImplementation(realGetQualifiedName as any);
+    });
+
+    it('should resolve this.method() to Class.method when call is inside a class', () => {
+      const ast = parse(`class IndexCoordinator { run() { this.flush(); } flush() {} }`);
+      const relations = extractCalls(ast, FILE, makeImportMap());
+
+      expect(relations).toContainEqual(expect.objectContaining({
+        srcSymbolName: 'IndexCoordinator.run',
+        dstFilePath: FILE,
+        dstSymbolName: 'IndexCoordinator.flush',
+      }));
+    });
+
+    it('should resolve super.method() to the imported parent class member when class extends an import', () => {
+      const ast = parse(`class Child extends Base { run() { super.run(); } }`);
+      const importMap = makeImportMap([['Base', { path: '/project/src/base.ts', importedName: 'Base' }]]);
+      const relations = extractCalls(ast, FILE, importMap);
+
+      expect(relations).toContainEqual(expect.objectContaining({
+        dstFilePath: '/project/src/base.ts',
+        dstSymbolName: 'Base.run',
+      }));
+    });
+
+    it('should resolve super() to the parent constructor when constructor calls super', () => {
+      const ast = parse(`class Base {} class Child extends Base { constructor() { super(); } }`);
+      const relations = extractCalls(ast, FILE, makeImportMap());
+
+      expect(relations.map((r) => r.dstSymbolName)).toContain('Base.constructor');
+    });
+
+    it('should resolve calls on a new-initialised local to the imported class member', () => {
+      const ast = parse(`function main() { const repo = new SymbolRepository(db); repo.search('x'); }`);
+      const importMap = makeImportMap([['SymbolRepository', { path: '/project/src/repo.ts', importedName: 'SymbolRepository' }]]);
+      const relations = extractCalls(ast, FILE, importMap);
+
+      expect(relations).toContainEqual(expect.objectContaining({
+        srcSymbolName: 'main',
+        dstFilePath: '/project/src/repo.ts',
+        dstSymbolName: 'SymbolRepository.search',
+      }));
+    });
+
+    it('should resolve calls on a type-annotated parameter when function parameter has a class type', () => {
+      const ast = parse(`class Repo { find() {} }\nfunction use(repo: Repo) { repo.find(); }`);
+      const relations = extractCalls(ast, FILE, makeImportMap());
+
+      expect(relations.map((r) => r.dstSymbolName)).toContain('Repo.find');
+    });
+
+    it('should resolve this.field.method() when constructor parameter property has a type annotation', () => {
+      const ast = parse(`class Svc { constructor(private readonly repo: SymbolRepository) {} run() { this.repo.search(); } }`);
+      const importMap = makeImportMap([['SymbolRepository', { path: '/project/src/repo.ts', importedName: 'SymbolRepository' }]]);
+      const relations = extractCalls(ast, FILE, importMap);
+
+      expect(relations).toContainEqual(expect.objectContaining({
+        srcSymbolName: 'Svc.run',
+        dstFilePath: '/project/src/repo.ts',
+        dstSymbolName: 'SymbolRepository.search',
+      }));
+    });
+
+    it('should resolve this.field.method() when the field is typed or assigned a new instance', () => {
+      const ast = parse(`class LruCache { get() {} }
+      class DependencyGraph { build() {} }
+      class Svc {
+        private cache: LruCache;
+        constructor() { this.graph = new DependencyGraph(); }
+        run() { this.cache.get(); this.graph.build(); }
+      }`);
+      const relations = extractCalls(ast, FILE, makeImportMap());
+      const names = relations.map((r) => r.dstSymbolName);
+
+      expect(names).toContain('LruCache.get');
+      expect(names).toContain('DependencyGraph.build');
+    });
+
+    it('should keep the local-member name when the receiver is constructed from an undeclared global class', () => {
+      const ast = parse(`function main(k) { const m = new Map(); m.get(k); }`);
+      const relations = extractCalls(ast, FILE, makeImportMap());
+      const names = relations.map((r) => r.dstSymbolName);
+
+      expect(names).toContain('m.get');
+      expect(names).not.toContain('Map.get');
+    });
+
+    it('should keep the this-member name when a field type is neither imported nor declared', () => {
+      const ast = parse(`class Svc { private seen = new Set(); run() { this.seen.add(1); } }`);
+      const relations = extractCalls(ast, FILE, makeImportMap());
+
+      expect(relations.map((r) => r.dstSymbolName)).not.toContain('Set.add');
+    });
+
+    it('should keep the local-member name when the receiver type is unknown', () => {
+      const ast = parse(`function main(obj) { obj.method(); }`);
+      const relations = extractCalls(ast, FILE, makeImportMap());
+
+      expect(relations.map((r) => r.dstSymbolName)).toContain('obj.method');
+    });
+
+    it('should not leak local types outside the function that declares them', () => {
+      const ast = parse(`function a() { const repo = new Repo(); }\nfunction b(repo) { repo.find(); }`);
+      const relations = extractCalls(ast, FILE, makeImportMap());
+
+      expect(relations.map((r) => r.dstSymbolName)).toContain('repo.find');
+    });
+  });
+
+  describe('nested callers', () => {
+    beforeEach(() => {
+      mockGetQualifiedName.mockImplementation(realGetQualifiedName as any);
+    });
+
+    it('should qualify the caller with its parent function when a function is nested', () => {
+      const ast = parse(`function outer() { function inner() { helper(); } }`);
+      const relations = extractCalls(ast, FILE, makeImportMap());
+
+      expect(relations.find((r) => r.dstSymbolName === 'helper')?.srcSymbolName).toBe('outer.inner');
+    });
+
+    it('should use owner.key as caller when the call is inside an object literal method', () => {
+      const ast = parse(`const api = { get() { fetchAll(); }, post: () => send() };`);
+      const relations = extractCalls(ast, FILE, makeImportMap());
+
+      expect(relations.map((r) => [r.srcSymbolName, r.dstSymbolName])).toEqual([
+        ['api.get', 'fetchAll'],
+        ['api.post', 'send'],
+      ]);
+    });
+
+    it('should name the caller after the key as written when a method has a computed or string key', () => {
+      const source = `class C { [Symbol.iterator]() { walk(); } ['kebab-name']() { kebab(); } 'quoted'() { quote(); } }`;
+      const relations = extractCalls(parse(source), FILE, makeImportMap(), source);
+
+      expect(relations.map((r) => [r.srcSymbolName, r.dstSymbolName])).toEqual([
+        ['C.[Symbol.iterator]', 'walk'],
+        ['C.kebab-name', 'kebab'],
+        ['C.quoted', 'quote'],
+      ]);
+    });
+
+    it('should keep the enclosing caller when the call is inside an anonymous callback', () => {
+      const ast = parse(`function main() { items.forEach(() => { helper(); }); }`);
+      const relations = extractCalls(ast, FILE, makeImportMap());
+
+      expect(relations.find((r) => r.dstSymbolName === 'helper')?.srcSymbolName).toBe('main');
+    });
+
+    it('should attribute calls to the numbered helper when same-named helpers are declared in sibling callbacks', () => {
+      const ast = parse(`describe('a', () => { function setup() { first(); } });\ndescribe('b', () => { function setup() { second(); } });`);
+      const relations = extractCalls(ast, FILE, makeImportMap());
+      const callers = new Map(relations.map((r) => [r.dstSymbolName, r.srcSymbolName]));
+
+      expect(callers.get('first')).toBe('setup');
+      expect(callers.get('second')).toBe('setup#2');
+    });
+
+    it('should qualify callers with the namespace name when functions and classes are inside a namespace', () => {
+      const ast = parse(`namespace Util { export function fmt() { pad(); } class Box { open() { pad(); } } init(); }`);
+      const relations = extractCalls(ast, FILE, makeImportMap());
+
+      expect(relations.map((r) => r.srcSymbolName)).toEqual(['Util.fmt', 'Util.Box.open', 'Util']);
+    });
+
+    it('should use the literal key as method name when a class method has a string key', () => {
+      const ast = parse(`class Api { 'get-user'() { load(); } }`);
+      const relations = extractCalls(ast, FILE, makeImportMap());
+
+      expect(relations[0]?.srcSymbolName).toBe('Api.get-user');
+    });
+
+    it('should attribute calls to Class.field when a class field is an arrow function', () => {
+      const ast = parse(`class Form { handle = () => { this.save(); }; save() {} }`);
+      const relations = extractCalls(ast, FILE, makeImportMap());
+
+      expect(relations).toHaveLength(1);
+      expect(relations[0]).toMatchObject({ srcSymbolName: 'Form.handle', dstSymbolName: 'Form.save' });
+      expect(relations[0]!.metaJson).toBeUndefined();
+    });
+  });
+
+  describe('nested callees', () => {
+    beforeEach(() => {
+      mockGetQualifiedName.mockImplementation(realGetQualifiedName as any);
+    });
+
+    it('should target the qualified symbol when the callee is declared in an enclosing function', () => {
+      const ast = parse(`function outer() { function helper() {} function run() { helper(); } }`);
+      const relations = extractCalls(ast, FILE, makeImportMap());
+
+      expect(relations.map((r) => [r.srcSymbolName, r.dstSymbolName])).toEqual([['outer.run', 'outer.helper']]);
+      expect(relations[0]!.dstFilePath).toBe(FILE);
+    });
+
+    it('should target the numbered symbol when the callee is declared in the same callback as a sibling', () => {
+      const ast = parse(
+        `describe('a', () => { function setup() {} setup(); });\ndescribe('b', () => { function setup() {} setup(); });`,
+      );
+      const relations = extractCalls(ast, FILE, makeImportMap());
+
+      expect(relations.filter((r) => r.dstSymbolName?.startsWith('setup')).map((r) => r.dstSymbolName)).toEqual([
+        'setup',
+        'setup#2',
+      ]);
+    });
+
+    it('should prefer the innermost declaration when a nested function shadows a module function', () => {
+      const ast = parse(`function helper() {}\nfunction outer() { function helper() {} helper(); }\nhelper();`);
+      const relations = extractCalls(ast, FILE, makeImportMap());
+
+      expect(relations.map((r) => [r.srcSymbolName, r.dstSymbolName])).toEqual([
+        ['outer', 'outer.helper'],
+        [null, 'helper'],
+      ]);
+    });
+
+    it('should qualify members of a nested object and classes constructed in a function when they are called', () => {
+      const ast = parse(
+        `function outer() { const api = { get() {} }; class Repo { find() {} } api.get(); const repo = new Repo(); repo.find(); }`,
+      );
+      const relations = extractCalls(ast, FILE, makeImportMap());
+
+      expect(relations.map((r) => r.dstSymbolName)).toEqual(['outer.api.get', 'outer.Repo', 'outer.Repo.find']);
+    });
+  });
+
+  describe('callbacks', () => {
+    beforeEach(() => {
+      mockGetQualifiedName.mockImplementation(realGetQualifiedName as any);
+    });
+
+    it('should flag inCallback when the call is made inside an anonymous callback', () => {
+      const ast = parse(`function main() { direct(); items.map((x) => transform(x)); setTimeout(function () { new Timer(); }); }`);
+      const relations = extractCalls(ast, FILE, makeImportMap());
+      const meta = (name: string) => relations.find((r) => r.dstSymbolName === name)?.metaJson;
+
+      expect(meta('direct')).toBeUndefined();
+      expect(meta('items.map')).toBeUndefined();
+      expect(JSON.parse(meta('transform')!)).toEqual({ inCallback: true });
+      expect(JSON.parse(meta('Timer')!)).toEqual({ isNew: true, inCallback: true });
+    });
+
+    it('should not flag inCallback when a named function is declared inside a callback', () => {
+      const ast = parse(`promise.then(() => { function onDone() { finish(); } });`);
+      const relations = extractCalls(ast, FILE, makeImportMap());
+
+      expect(relations.find((r) => r.dstSymbolName === 'finish')).toMatchObject({ srcSymbolName: 'onDone' });
+      expect(relations.find((r) => r.dstSymbolName === 'finish')!.metaJson).toBeUndefined();
+    });
+  });
+  describe('CommonJS', () => {
+    beforeEach(() => {
+      mockGetQualifiedName.mockImplementation(realGetQualifiedName as any);
+    });
+
+    it('should attribute calls to the export name when a function is assigned to exports', () => {
+      const ast = parse(`exports.load = function () { read(); };\nmodule.exports.save = () => write();`);
+      const relations = extractCalls(ast, FILE, makeImportMap());
+
+      expect(relations.map((r) => [r.srcSymbolName, r.dstSymbolName])).toEqual([
+        ['load', 'read'],
+        ['save', 'write'],
+      ]);
+    });
+
+    it('should attribute calls to object members when module.exports is an object literal', () => {
+      const ast = parse(`module.exports = { run() { start(); }, stop: () => halt() };`);
+      const relations = extractCalls(ast, FILE, makeImportMap());
+
+      expect(relations.map((r) => [r.srcSymbolName, r.dstSymbolName])).toEqual([
+        ['run', 'start'],
+        ['stop', 'halt'],
+      ]);
+    });
+
+    it('should not record require() as a call when a module is required', () => {
+      const ast = parse(`const utils = require('./utils');\nfunction main() { require('./lazy'); }`);
+
+      expect(extractCalls(ast, FILE, makeImportMap())).toHaveLength(0);
+    });
+
+    it('should target the default export when a whole-module binding is called directly', () => {
+      const ast = parse(`function main() { utils(); }`);
+      const importMap = makeImportMap([['utils', { path: '/project/src/utils.ts', importedName: '*' }]]);
+      const relations = extractCalls(ast, FILE, importMap);
+
+      expect(relations[0]).toMatchObject({ dstFilePath: '/project/src/utils.ts', dstSymbolName: 'default' });
+    });
+  });
 });
@@ -1,42 +1,310 @@
 import type { Program } from 'oxc-parser';
 import type { ImportReference, CodeRelation } from './types';
 import { getQualifiedName } from '../parser/ast-utils';
+import { getCommonJsExports, getRequireSpecifier } from './commonjs';
+import { isFunctionValue, memberKeyText, moduleDeclarationName, nameDeclarations } from './extractor-utils';
+
+interface ClassContext {
+  name: string;
+  /** Superclass as written (`Base` or `ns.Base`), when statically known. */
+  superClass?: string;
+  /** Field / parameter-property name → declared or constructed type name. */
+  memberTypes: Map<string, string>;
+}
+
+/** Type name of a `TSTypeAnnotation` holding a plain (possibly qualified) type reference. */
+function typeNameOf(annotation: any): string | undefined {
+  const typeNode = annotation?.typeAnnotation ?? annotation;
+  if (typeNode?.type !== 'TSTypeReference') return undefined;
+  return entityName(typeNode.typeName);
+}
+
+function entityName(node: any): string | undefined {
+  if (node?.type === 'Identifier') return node.name;
+  if (node?.type === 'TSQualifiedName') {
+    const left = entityName(node.left);
+    return left && node.right?.name ? `${left}.${node.right.name}` : undefined;
+  }
+  if (node?.type === 'MemberExpression' && !node.computed) {
+    const left = entityName(node.object);
+    return left && node.property?.name ? `${left}.${node.property.name}` : undefined;
+  }
+  return undefined;
+}
+
+/** `new Foo(...)` → `'Foo'`. */
+function newExpressionType(init: any): string | undefined {
+  return init?.type === 'NewExpression' ? entityName(init.callee) : undefined;
+}
+
+/**
+ * Collects the statically known member types of a class: typed or `new`-initialised
+ * fields, typed constructor parameter properties, and `this.x = new X()` in the constructor.
+ */
+function buildClassContext(node: any): ClassContext {
+  const memberTypes = new Map<string, string>();
+
+  for (const member of node.body?.body ?? []) {
+    if ((member.type === 'PropertyDefinition' || member.type === 'TSAbstractPropertyDefinition') && member.key?.name) {
+      const fieldType = typeNameOf(member.typeAnnotation) ?? newExpressionType(member.value);
+      if (fieldType) memberTypes.set(member.key.name, fieldType);
+    }
+
+    if (member.type === 'MethodDefinition' && member.kind === 'constructor') {
+      for (const param of member.value?.params ?? []) {
+        if (param.type !== 'TSParameterProperty') continue;
+        const paramType = typeNameOf(param.parameter?.typeAnnotation);
+        if (param.parameter?.name && paramType) memberTypes.set(param.parameter.name, paramType);
+      }
+
+      for (const stmt of member.value?.body?.body ?? []) {
+        const expr = stmt.type === 'ExpressionStatement' ? stmt.expression : null;
+        if (expr?.type !== 'AssignmentExpression') continue;
+        const left = expr.left;
+        const assigned = newExpressionType(expr.right);
+        if (left?.type === 'MemberExpression' && left.object?.type === 'ThisExpression' && left.property?.name && assigned) {
+          if (!memberTypes.has(left.property.name)) memberTypes.set(left.property.name, assigned);
+        }
+      }
+    }
+  }
+
+  return {
+    name: node.id?.name ?? 'AnonymousClass',
+    superClass: entityName(node.superClass),
+    memberTypes,
+  };
+}
+
+/**
+ * Names of the classes, interfaces and namespaces declared anywhere in the file — the
+ * receiver types whose members can exist as symbols of this file.
+ */
+function collectDeclaredTypes(node: any, names: Set<string> = new Set()): Set<string> {
+  if (!node || typeof node !== 'object') return names;
+  if (Array.isArray(node)) {
+    for (const item of node) collectDeclaredTypes(item, names);
+    return names;
+  }
+
+  const type: string = node.type ?? '';
+  if ((type === 'ClassDeclaration' || type === 'TSInterfaceDeclaration') && node.id?.name) names.add(node.id.name);
+  if (type === 'TSModuleDeclaration') names.add(moduleDeclarationName(node).split('.')[0]!);
+  if (type === 'VariableDeclarator' && node.id?.type === 'Identifier' && node.init?.type === 'ClassExpression') {
+    names.add(node.id.name);
+  }
+
+  for (const key of Object.keys(node)) {
+    if (key === 'loc' || key === 'start' || key === 'end' || key === 'scope') continue;
+    const child = node[key];
+    if (child && typeof child === 'object') collectDeclaredTypes(child, names);
+  }
+  return names;
+}
 
 /**
  * Extracts all function call and constructor instantiation relations from the AST.
- * Maintains a function/class stack for caller identification.
+ * Maintains a function/class stack for caller identification; callers declared inside
+ * named functions, classes, object literals or namespaces are qualified (`outer.inner`,
+ * `api.get`, `Util.fmt`) exactly like the nested symbols emitted by `extractSymbols`.
+ * Function-valued class fields are callers of their own (`Class.handle`); calls inside
+ * anonymous callbacks stay attributed to the enclosing caller with `metaJson.inCallback`.
+ * Functions assigned to `exports.foo` / `module.exports` are callers under their export name.
+ * Callees declared in the file resolve through the enclosing scopes to the symbol they name
+ * (`outer.helper`, `setup#2`), innermost declaration first.
+ * Calls on `this`, `super` and simply typed locals resolve to `Class.member` names,
+ * matching the flattened member rows written by the symbol indexer, when the receiver type
+ * is imported or declared in the file; receivers of other types (`new Map()`) keep the
+ * plain `local.member` name.
  *
- * @param ast       - The parsed Program AST.
- * @param filePath  - File path of the source file (used as srcFilePath).
- * @param importMap - Map from local identifiers to their resolved import references.
+ * @param ast        - The parsed Program AST.
+ * @param filePath   - File path of the source file (used as srcFilePath).
+ * @param importMap  - Map from local identifiers to their resolved import references.
+ * @param sourceText - Source of `ast`; spells computed method keys (`C.[Symbol.iterator]`).
  */
 export function extractCalls(
   ast: Program,
   filePath: string,
   importMap: Map<string, ImportReference>,
+  sourceText = '',
 ): CodeRelation[] {
   const relations: CodeRelation[] = [];
   const functionStack: string[] = [];
-  const classStack: string[] = [];
+  const classStack: ClassContext[] = [];
+  /** Local name → type name, innermost scope last. Index 0 is module scope. */
+  const scopeStack: Map<string, string>[] = [new Map()];
+  /** Anonymous functions entered since the current named caller. */
+  let callbackDepth = 0;
+  const declaredTypes = collectDeclaredTypes(ast);
+  const { names, locals } = nameDeclarations(ast, sourceText);
+  /** Enclosing Program, namespace and function nodes, innermost last. */
+  const declarationScopes: any[] = [ast];
 
   function currentCaller(): string | null {
     if (functionStack.length > 0) return functionStack[functionStack.length - 1];
     return null;
   }
 
+  function qualify(name: string): string {
+    const parent = currentCaller();
+    return parent ? `${parent}.${name}` : name;
+  }
+
+  /** Caller name of a declaration as `extractSymbols` indexes it; `fallback` for unindexed ones. */
+  function callerName(node: any, fallback: string): string {
+    return names.get(node)?.name ?? fallback;
+  }
+
+  /** Symbol name of the declaration `identifier` binds here, looked up from the innermost scope outwards. */
+  function lookupDeclaration(identifier: string): string | undefined {
+    for (let i = declarationScopes.length - 1; i >= 0; i--) {
+      const name = locals.get(declarationScopes[i])?.get(identifier);
+      if (name) return name;
+    }
+    return undefined;
+  }
+
+  /** `root.parts` with a locally declared root replaced by its symbol name (`outer.helper`). */
+  function localSymbolName(root: string, parts: string[]): string {
+    return [lookupDeclaration(root) ?? root, ...parts].join('.');
+  }
+
+  /** Walks a function body with `name` as the caller. */
+  function walkFunction(name: string, fn: any): void {
+    const outerDepth = callbackDepth;
+    callbackDepth = 0;
+    functionStack.push(name);
+    declarationScopes.push(fn);
+    pushScope(fn.params);
+    walk(fn.body ?? fn);
+    scopeStack.pop();
+    declarationScopes.pop();
+    functionStack.pop();
+    callbackDepth = outerDepth;
+  }
+
+  /** Meta shared by `calls` relations made from the current position. */
+  function callMeta(srcSymbolName: string | null): Record<string, unknown> {
+    const meta: Record<string, unknown> = {};
+    if (srcSymbolName === null) meta.scope = 'module';
+    if (callbackDepth > 0) meta.inCallback = true;
+    return meta;
+  }
+
+  /** Walks an object literal bound to a declaration; its methods are callers `owner.key`. */
+  function walkObjectMethods(objectNode: any): void {
+    for (const prop of objectNode.properties ?? []) {
+      const method = names.get(prop);
+      if (method) {
+        walkFunction(method.name, prop.value);
+      } else {
+        walk(prop);
+      }
+    }
+  }
+
+  function walkClass(node: any, name: string): void {
+    const ctx = buildClassContext(node);
+    ctx.name = name;
+    classStack.push(ctx);
+    walk(node.body);
+    classStack.pop();
+  }
+
+  function lookupLocalType(name: string): string | undefined {
+    for (let i = scopeStack.length - 1; i >= 0; i--) {
+      const type = scopeStack[i]!.get(name);
+      if (type) return type;
+    }
+    return undefined;
+  }
+
+  /** Pushes a function scope seeded with its type-annotated parameters. */
+  function pushScope(params: any[] = []): void {
+    const scope = new Map<string, string>();
+    for (const p of params) {
+      const inner = p?.type === 'TSParameterProperty' ? p.parameter : p;
+      const type = typeNameOf(inner?.typeAnnotation);
+      if (inner?.type === 'Identifier' && type) scope.set(inner.name, type);
+    }
+    scopeStack.push(scope);
+  }
+
+  /**
+   * Resolves `<typeName>.<member>` to the file declaring the type.
+   * Imported types point at the import target, types declared in this file at the file;
+   * `null` for anything else (globals such as `Map`, undeclared names).
+   */
+  function resolveTypeMember(
+    typeName: string,
+    member: string,
+    resolution: string,
+  ): { dstFilePath: string; dstSymbolName: string; resolution: string } | null {
+    const [typeRoot, ...typeParts] = typeName.split('.');
+    const ref = importMap.get(typeRoot!);
+    if (ref) {
+      if (ref.importedName === '*' && typeParts.length > 0) {
+        return { dstFilePath: ref.path, dstSymbolName: `${typeParts.join('.')}.${member}`, resolution };
+      }
+      if (typeParts.length === 0) {
+        return { dstFilePath: ref.path, dstSymbolName: `${ref.importedName}.${member}`, resolution };
+      }
+    }
+    if (ref) return { dstFilePath: filePath, dstSymbolName: `${typeName}.${member}`, resolution };
+    if (!declaredTypes.has(typeRoot!)) return null;
+    return { dstFilePath: filePath, dstSymbolName: `${localSymbolName(typeRoot!, typeParts)}.${member}`, resolution };
+  }
+
+  /** Resolves calls rooted at `this` / `super` inside the current class. */
+  function resolveClassMemberCall(
+    qn: { root: string; parts: string[]; full: string },
+  ): { dstFilePath: string; dstSymbolName: string; resolution: string } | null {
+    const cls = classStack[classStack.length - 1];
+    if (!cls) return null;
+
+    if (qn.root === 'super') {
+      if (!cls.superClass) return null;
+      // super() → parent constructor, super.foo() → parent member
+      const member = qn.parts.length === 0 ? 'constructor' : qn.parts.join('.');
+      return resolveTypeMember(cls.superClass, member, 'super');
+    }
+
+    if (qn.parts.length === 1) {
+      return { dstFilePath: filePath, dstSymbolName: `${cls.name}.${qn.parts[0]}`, resolution: 'this' };
+    }
+
+    // this.repo.find() → field `repo` has a known type
+    const fieldType = qn.parts.length === 2 ? cls.memberTypes.get(qn.parts[0]!) : undefined;
+    return fieldType ? resolveTypeMember(fieldType, qn.parts[1]!, 'this-member') : null;
+  }
+
   function resolveCallee(
     qn: { root: string; parts: string[]; full: string } | null,
   ): { dstFilePath: string; dstSymbolName: string; resolution: string } | null {
     if (!qn) return null;
 
+    if (qn.root === 'this' || qn.root === 'super') {
+      const member = resolveClassMemberCall(qn);
+      if (member) return member;
+    }
+
+    // repo.find() where `repo` is a typed local or `new`-initialised variable
+    if (qn.parts.length === 1) {
+      const localType = lookupLocalType(qn.root);
+      const member = localType ? resolveTypeMember(localType, qn.parts[0]!, 'instance') : null;
+      if (member) return member;
+    }
+
     const ref = importMap.get(qn.root);
 
     if (qn.parts.length === 0) {
       // No parts
       if (ref) {
-        return { dstFilePath: ref.path, dstSymbolName: ref.importedName, resolution: 'import' };
+        // A whole-module binding (`const fn = require('./fn')`) is called through its `export =` value.
+        const dstSymbolName = ref.importedName === '*' ? 'default' : ref.importedName;
+        return { dstFilePath: ref.path, dstSymbolName, resolution: 'import' };
       }
-      return { dstFilePath: filePath, dstSymbolName: qn.root, resolution: 'local' };
+      return { dstFilePath: filePath, dstSymbolName: localSymbolName(qn.root, []), resolution: 'local' };
     } else {
       // Has parts
       if (ref && ref.importedName === '*') {
@@ -44,7 +312,7 @@ export function extractCalls(
         const dstSymbolName = qn.parts[qn.parts.length - 1];
         return { dstFilePath: ref.path, dstSymbolName, resolution: 'namespace' };
       }
-      return { dstFilePath: filePath, dstSymbolName: qn.full, resolution: 'local-member' };
+      return { dstFilePath: filePath, dstSymbolName: localSymbolName(qn.root, qn.parts), resolution: 'local-member' };
     }
   }
 
@@ -58,56 +326,94 @@ export function extractCalls(
 
     const type: string = node.type ?? '';
 
-    if (type === 'ClassDeclaration' || type === 'ClassExpression') {
-      const className: string = node.id?.name ?? 'AnonymousClass';
-      classStack.push(className);
+    if ((type === 'ExpressionStatement' || type === 'TSExportAssignment') && functionStack.length === 0) {
+      // exports.foo = function () {} / module.exports = { run() {} }
+      const exports = getCommonJsExports(node);
+      if (exports.length > 0) {
+        for (const { name, value } of exports) {
+          if (isFunctionValue(value)) walkFunction(callerName(value, name), value);
+          else if (value?.type === 'ClassExpression') walkClass(value, callerName(value, name));
+          else if (value?.type === 'ObjectExpression') walkObjectMethods(value);
+          else walk(value);
+        }
+        return;
+      }
+    }
+
+    if (type === 'TSModuleDeclaration') {
+      // Statements of a namespace body are attributed to the namespace symbol.
+      functionStack.push(callerName(node, qualify(moduleDeclarationName(node))));
+      declarationScopes.push(node);
       walk(node.body);
-      classStack.pop();
+      declarationScopes.pop();
+      functionStack.pop();
+      return;
+    }
+
+    if (type === 'ClassDeclaration' || type === 'ClassExpression') {
+      walkClass(node, callerName(node, node.id?.name ?? 'AnonymousClass'));
       return;
     }
 
     if (type === 'FunctionDeclaration') {
-      const name: string = node.id?.name ?? 'anonymous';
-      functionStack.push(name);
-      walk(node.body);
-      functionStack.pop();
+      walkFunction(callerName(node, qualify(node.id?.name ?? 'anonymous')), node);
       return;
     }
 
-    if (type === 'VariableDeclarator' && node.init && (
-      node.init.type === 'FunctionExpression' ||
-      node.init.type === 'ArrowFunctionExpression'
-    )) {
-      const name: string = node.id?.name ?? 'anonymous';
-      functionStack.push(name);
-      walk(node.init.body ?? node.init);
-      functionStack.pop();
+    if (type === 'VariableDeclarator' && isFunctionValue(node.init)) {
+      walkFunction(callerName(node, qualify('anonymous')), node.init);
       return;
     }
 
-    if (type === 'MethodDefinition' && node.value) {
-      const className = classStack[classStack.length - 1] ?? '';
-      const methodName: string = node.key?.name ?? 'anonymous';
-      const fullName = className ? `${className}.${methodName}` : methodName;
-      functionStack.push(fullName);
-      walk(node.value.body);
-      functionStack.pop();
+    if (type === 'VariableDeclarator' && node.id?.type === 'Identifier' && node.init?.type === 'ClassExpression') {
+      walkClass(node.init, callerName(node, node.id.name));
+      return;
+    }
+
+    if (type === 'VariableDeclarator' && node.id?.type === 'Identifier' && node.init?.type === 'ObjectExpression') {
+      // const api = { get() {} } → caller `api.get`
+      walkObjectMethods(node.init);
+      return;
+    }
+
+    if (type === 'VariableDeclarator' && node.id?.type === 'Identifier') {
+      // const repo = new Repo() / const repo: Repo = …
+      const localType = typeNameOf(node.id.typeAnnotation) ?? newExpressionType(node.init);
+      if (localType) scopeStack[scopeStack.length - 1]!.set(node.id.name, localType);
+    }
+
+    if (
+      (type === 'MethodDefinition' && node.value) ||
+      // handle = () => this.save()
+      (type === 'PropertyDefinition' && isFunctionValue(node.value))
+    ) {
+      const className = classStack[classStack.length - 1]?.name ?? '';
+      const methodName = memberKeyText(node, sourceText);
+      walkFunction(callerName(node, className ? `${className}.${methodName}` : methodName), node.value);
       return;
     }
 
     if (type === 'FunctionExpression' || type === 'ArrowFunctionExpression') {
-      // Anonymous function — don't push new name, just walk body
+      // Anonymous callback — calls stay attributed to the enclosing caller, flagged `inCallback`
+      callbackDepth++;
+      declarationScopes.push(node);
+      pushScope(node.params);
       walk(node.body);
+      scopeStack.pop();
+      declarationScopes.pop();
+      callbackDepth--;
       return;
     }
 
+    // require('./x') is an import, recorded by extractImports
+    if (type === 'CallExpression' && getRequireSpecifier(node) !== null) return;
+
     if (type === 'CallExpression') {
       const qn = getQualifiedName(node.callee);
       const dst = resolveCallee(qn);
       if (dst) {
         const srcSymbolName = currentCaller();
-        const meta: Record<string, unknown> = {};
-        if (srcSymbolName === null) meta.scope = 'module';
+        const meta = callMeta(srcSymbolName);
 
         relations.push({
           type: 'calls',
@@ -128,8 +434,7 @@ export function extractCalls(
       const dst = resolveCallee(qn);
       if (dst) {
         const srcSymbolName = currentCaller();
-        const meta: Record<string, unknown> = { isNew: true };
-        if (srcSymbolName === null) meta.scope = 'module';
+        const meta = { isNew: true, ...callMeta(srcSymbolName) };
 
         relations.push({
           type: 'calls',
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'bun:test';
+import { parseSync } from 'oxc-parser';
+import { getCommonJsExports, getRequireBindings, getRequireSpecifier, isModuleExports } from './commonjs';
+
+function parse(source: string): any[] {
+  const { program } = parseSync('/project/src/index.js', source);
+  return (program as any).body;
+}
+
+function declarator(source: string): any {
+  return parse(source)[0].declarations[0];
+}
+
+function exportsOf(source: string): Array<[string, string]> {
+  return getCommonJsExports(parse(source)[0]).map((e) => [e.name, e.exportedName]);
+}
+
+describe('getRequireSpecifier', () => {
+  it('should return the specifier when the call is require with a string literal', () => {
+    expect(getRequireSpecifier(parse(`require('./a');`)[0].expression)).toBe('./a');
+  });
+
+  it('should return null when require is called with a non-literal argument', () => {
+    expect(getRequireSpecifier(parse(`require(name);`)[0].expression)).toBeNull();
+  });
+});
+
+describe('isModuleExports', () => {
+  it('should return true when node is module.exports and false for other members', () => {
+    expect(isModuleExports(parse(`module.exports;`)[0].expression)).toBe(true);
+    expect(isModuleExports(parse(`module.other;`)[0].expression)).toBe(false);
+  });
+});
+
+describe('getRequireBindings', () => {
+  it('should bind the whole module when the declarator id is an identifier', () => {
+    const result = getRequireBindings(declarator(`const utils = require('./utils');`));
+
+    expect(result?.specifier).toBe('./utils');
+    expect(result?.bindings).toEqual([{ localName: 'utils', importedName: '*' }]);
+  });
+
+  it('should bind each property when the declarator id is an object pattern', () => {
+    const result = getRequireBindings(declarator(`const { a, b: c, d = 1 } = require('./utils');`));
+
+    expect(result?.bindings).toEqual([
+      { localName: 'a', importedName: 'a' },
+      { localName: 'c', importedName: 'b' },
+      { localName: 'd', importedName: 'd' },
+    ]);
+  });
+
+  it('should bind the member name when require is followed by a property access', () => {
+    const result = getRequireBindings(declarator(`const run = require('./utils').start;`));
+
+    expect(result?.bindings).toEqual([{ localName: 'run', importedName: 'start' }]);
+  });
+
+  it('should return null when the initializer is not a require call', () => {
+    expect(getRequireBindings(declarator(`const x = load('./utils');`))).toBeNull();
+  });
+});
+
+describe('getCommonJsExports', () => {
+  it('should export the property name when assigning to exports or module.exports members', () => {
+    expect(exportsOf(`exports.foo = 1;`)).toEqual([['foo', 'foo']]);
+    expect(exportsOf(`module.exports.bar = function () {};`)).toEqual([['bar', 'bar']]);
+  });
+
+  it('should export each property when module.exports is assigned an object literal', () => {
+    expect(exportsOf(`module.exports = { a, b: 1, run() {} };`)).toEqual([
+      ['a', 'a'],
+      ['b', 'b'],
+      ['run', 'run'],
+    ]);
+  });
+
+  it('should keep the declared name as default export when module.exports is a named function', () => {
+    expect(exportsOf(`module.exports = function handler() {};`)).toEqual([['handler', 'default']]);
+  });
+
+  it('should export default when module.exports is an anonymous value', () => {
+    expect(exportsOf(`module.exports = () => {};`)).toEqual([['default', 'default']]);
+  });
+
+  it('should export default when the statement is an export assignment', () => {
+    const body = parseSync('/project/src/index.ts', `export = Foo;`).program.body as any[];
+
+    expect(getCommonJsExports(body[0]).map((e) => [e.name, e.exportedName])).toEqual([['default', 'default']]);
+  });
+
+  it('should return an empty list when the statement is an unrelated assignment', () => {
+    expect(exportsOf(`other.foo = 1;`)).toEqual([]);
+    expect(exportsOf(`exports.count += 1;`)).toEqual([]);
+  });
+});
@@ -0,0 +1,135 @@
+// ── Types ─────────────────────────────────────────────────────────────────
+
+export interface RequireBinding {
+  localName: string;
+  /** Exported name read from the module, or `'*'` when the whole module is bound. */
+  importedName: string;
+}
+
+export interface CommonJsExport {
+  /** Symbol name the export is indexed under. */
+  name: string;
+  /** Public name (`'default'` for `module.exports = …` / `export = …`). */
+  exportedName: string;
+  /** Assigned value expression. */
+  value: any;
+  /** Node spanning the export: the statement, or the object property. */
+  node: any;
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function propertyName(node: any, computed: boolean): string | null {
+  if (!computed && node?.type === 'Identifier') return node.name;
+  if (node?.type === 'Literal' && typeof node.value === 'string') return node.value;
+  return null;
+}
+
+/** `module.exports` */
+export function isModuleExports(node: any): boolean {
+  return (
+    node?.type === 'MemberExpression' &&
+    !node.computed &&
+    node.object?.type === 'Identifier' &&
+    node.object.name === 'module' &&
+    node.property?.name === 'exports'
+  );
+}
+
+/** `exports.foo` / `module.exports.foo` → `'foo'`. */
+function namedExportTarget(node: any): string | null {
+  if (node?.type !== 'MemberExpression') return null;
+  const isExportsObject =
+    (node.object?.type === 'Identifier' && node.object.name === 'exports') || isModuleExports(node.object);
+  return isExportsObject ? propertyName(node.property, node.computed) : null;
+}
+
+/** `require('x')` → `'x'`; anything else → null. */
+export function getRequireSpecifier(node: any): string | null {
+  if (node?.type !== 'CallExpression') return null;
+  if (node.callee?.type !== 'Identifier' || node.callee.name !== 'require') return null;
+  const arg = node.arguments?.[0];
+  return arg?.type === 'Literal' && typeof arg.value === 'string' ? arg.value : null;
+}
+
+// ── Imports ────────────────────────────────────────────────────────────────
+
+/**
+ * Bindings created by a `require` declarator:
+ * `const x = require('m')` → `x → *`, `const { a, b: c } = require('m')` → `a → a`, `c → b`,
+ * `const a = require('m').a` → `a → a`.
+ *
+ * @returns The specifier, the `require` call node and its bindings, or null for other declarators.
+ */
+export function getRequireBindings(
+  declarator: any,
+): { specifier: string; call: any; bindings: RequireBinding[] } | null {
+  const init = declarator?.init;
+  const id = declarator?.id;
+
+  let call = init;
+  let member: string | null = null;
+  if (init?.type === 'MemberExpression') {
+    call = init.object;
+    member = propertyName(init.property, init.computed);
+    if (member === null) return null;
+  }
+
+  const specifier = getRequireSpecifier(call);
+  if (specifier === null) return null;
+
+  const bindings: RequireBinding[] = [];
+  if (id?.type === 'Identifier') {
+    bindings.push({ localName: id.name, importedName: member ?? '*' });
+  } else if (id?.type === 'ObjectPattern' && member === null) {
+    for (const prop of id.properties ?? []) {
+      if (prop.type !== 'Property') continue;
+      const importedName = propertyName(prop.key, prop.computed);
+      const local = prop.value?.type === 'AssignmentPattern' ? prop.value.left : prop.value;
+      if (importedName && local?.type === 'Identifier') bindings.push({ localName: local.name, importedName });
+    }
+  }
+
+  return { specifier, call, bindings };
+}
+
+// ── Exports ────────────────────────────────────────────────────────────────
+
+/**
+ * Exports made by a top-level statement: `exports.foo = v` / `module.exports.foo = v` → `foo`;
+ * `module.exports = v` / `export = v` → `default`, indexed under the name of a named function
+ * or class; an object literal assigned to `module.exports` exports each property by key.
+ */
+export function getCommonJsExports(stmt: any): CommonJsExport[] {
+  let target: any;
+  let value: any;
+  if (stmt?.type === 'TSExportAssignment') {
+    value = stmt.expression;
+  } else if (stmt?.type === 'ExpressionStatement' && stmt.expression?.type === 'AssignmentExpression') {
+    if (stmt.expression.operator !== '=') return [];
+    target = stmt.expression.left;
+    value = stmt.expression.right;
+  } else {
+    return [];
+  }
+
+  if (target) {
+    const named = namedExportTarget(target);
+    if (named !== null) return [{ name: named, exportedName: named, value, node: stmt }];
+    if (!isModuleExports(target)) return [];
+  }
+
+  if (value?.type === 'ObjectExpression') {
+    const exports: CommonJsExport[] = [];
+    for (const prop of value.properties ?? []) {
+      if (prop.type !== 'Property') continue;
+      const key = propertyName(prop.key, prop.computed);
+      if (key) exports.push({ name: key, exportedName: key, value: prop.value, node: prop });
+    }
+    return exports;
+  }
+
+  const isNamedDeclaration =
+    (value?.type === 'FunctionExpression' || value?.type === 'ClassExpression') && value.id?.name;
+  return [{ name: isNamedDeclaration ? value.id.name : 'default', exportedName: 'default', value, node: stmt }];
+}
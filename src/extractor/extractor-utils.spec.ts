@@ -1,11 +1,23 @@
 import { describe, it, expect, mock, beforeEach } from 'bun:test';
+import { parseSync } from 'oxc-parser';
 
 // ── Mock node:path ──
 const mockResolve = mock((..._args: string[]) => '');
 const mockDirname = mock((_p: string) => '');
 const mockExtname = mock((_p: string) => '');
 
-import { resolveImport, buildImportMap } from './extractor-utils';
+import {
+  resolveImport,
+  resolveExistingImport,
+  buildImportMap,
+  isLocalSpecifier,
+  createCallbackDeclarationNamer,
+  memberKeyText,
+  moduleDeclarationName,
+  propertyKeyName,
+  nameDeclarations,
+  lookupDeclaration,
+} from './extractor-utils';
 
 const FAKE_PROJECT = '/project';
 
@@ -223,6 +235,243 @@ describe('resolveImport', () => {
     expect(result).toContain('/project/src/utils/index.mts');
     expect(result).toContain('/project/src/utils/index.cts');
   });
+  // ── .js → .ts output-extension mapping ────────────────────────────────────
+
+  it('should put the .ts and .tsx sources before the .js path when relative import uses a .js extension', () => {
+    mockDirname.mockReturnValue('/project/src');
+    mockResolve.mockReturnValue('/project/src/foo.js');
+    mockExtname.mockImplementation((p: string) => (p.endsWith('.js') ? '.js' : '.ts'));
+
+    const result = resolveImport('/project/src/index.ts', './foo.js');
+
+    expect(result).toEqual(['/project/src/foo.ts', '/project/src/foo.tsx', '/project/src/foo.js']);
+  });
+
+  it('should put the .tsx source before the .jsx path when relative import uses a .jsx extension', () => {
+    mockDirname.mockReturnValue('/project/src');
+    mockResolve.mockReturnValue('/project/src/Button.jsx');
+    mockExtname.mockImplementation((p: string) => (p.endsWith('.jsx') ? '.jsx' : '.tsx'));
+
+    const result = resolveImport('/project/src/App.tsx', './Button.jsx');
+
+    expect(result).toEqual(['/project/src/Button.tsx', '/project/src/Button.jsx']);
+  });
+
+  it('should probe TSX and JavaScript extensions after .ts when relative import has no file extension', () => {
+    mockDirname.mockReturnValue('/project/src');
+    mockResolve.mockReturnValue('/project/src/Button');
+    mockExtname.mockReturnValue('');
+
+    const result = resolveImport('/project/src/App.jsx', './Button');
+
+    expect(result.filter((c) => !c.includes('/index.'))).toEqual([
+      '/project/src/Button.ts',
+      '/project/src/Button.tsx',
+      '/project/src/Button.mts',
+      '/project/src/Button.cts',
+      '/project/src/Button.js',
+      '/project/src/Button.jsx',
+      '/project/src/Button.mjs',
+      '/project/src/Button.cjs',
+    ]);
+    expect(result).toContain('/project/src/Button/index.jsx');
+  });
+
+  it('should map .mjs to .mts and .cjs to .cts when relative import uses ESM output extensions', () => {
+    mockDirname.mockReturnValue('/project/src');
+    mockExtname.mockImplementation((p: string) => (p.endsWith('.mjs') ? '.mjs' : p.endsWith('.cjs') ? '.cjs' : '.ts'));
+
+    mockResolve.mockReturnValue('/project/src/a.mjs');
+    const mjs = resolveImport('/project/src/index.ts', './a.mjs');
+    mockResolve.mockReturnValue('/project/src/b.cjs');
+    const cjs = resolveImport('/project/src/index.ts', './b.cjs');
+
+    expect(mjs[0]).toBe('/project/src/a.mts');
+    expect(cjs[0]).toBe('/project/src/b.cts');
+  });
+
+  // ── moduleResolution ──────────────────────────────────────────────────────
+
+  it('should return no candidates when an .mts importer uses an extensionless specifier under nodenext', () => {
+    mockDirname.mockReturnValue('/project/src');
+    mockResolve.mockReturnValue('/project/src/utils');
+    mockExtname.mockImplementation((p: string) => (p.endsWith('.mts') ? '.mts' : ''));
+
+    const tsconfigPaths = { baseUrl: '/project', paths: new Map(), moduleResolution: 'nodenext' };
+    const result = resolveImport('/project/src/index.mts', './utils', tsconfigPaths);
+
+    expect(result).toEqual([]);
+  });
+
+  it('should keep extensionless candidates when a .ts importer is resolved under node16', () => {
+    mockDirname.mockReturnValue('/project/src');
+    mockResolve.mockReturnValue('/project/src/utils');
+    mockExtname.mockImplementation((p: string) => (p.endsWith('.ts') ? '.ts' : ''));
+
+    const tsconfigPaths = { baseUrl: '/project', paths: new Map(), moduleResolution: 'node16' };
+    const result = resolveImport('/project/src/index.ts', './utils', tsconfigPaths);
+
+    expect(result).toContain('/project/src/utils/index.ts');
+  });
+
+  it('should keep extensionless candidates when an .mts importer is resolved under bundler', () => {
+    mockDirname.mockReturnValue('/project/src');
+    mockResolve.mockReturnValue('/project/src/utils');
+    mockExtname.mockImplementation((p: string) => (p.endsWith('.mts') ? '.mts' : ''));
+
+    const tsconfigPaths = { baseUrl: '/project', paths: new Map(), moduleResolution: 'bundler' };
+    const result = resolveImport('/project/src/index.mts', './utils', tsconfigPaths);
+
+    expect(result).toContain('/project/src/utils.ts');
+  });
+
+  // ── tsconfig paths — every target, best pattern ───────────────────────────
+
+  it('should return candidates for every target when a paths pattern has multiple targets', () => {
+    mockResolve.mockImplementation((base: string, target: string) => `${base}/${target}`);
+    mockExtname.mockReturnValue('');
+
+    const tsconfigPaths = {
+      baseUrl: '/project',
+      paths: new Map([['@lib/*', ['src/lib/*', 'generated/*']]]),
+    };
+    const result = resolveImport('/project/src/index.ts', '@lib/api', tsconfigPaths);
+
+    expect(result.indexOf('/project/src/lib/api.ts')).toBeLessThan(result.indexOf('/project/generated/api.ts'));
+    expect(result).toContain('/project/generated/api/index.ts');
+  });
+
+  it('should prefer the longest wildcard prefix when several paths patterns match', () => {
+    mockResolve.mockImplementation((base: string, target: string) => `${base}/${target}`);
+    mockExtname.mockReturnValue('');
+
+    const tsconfigPaths = {
+      baseUrl: '/project',
+      paths: new Map([
+        ['@app/*', ['src/*']],
+        ['@app/core/*', ['packages/core/*']],
+      ]),
+    };
+    const result = resolveImport('/project/src/index.ts', '@app/core/db', tsconfigPaths);
+
+    expect(result[0]).toBe('/project/packages/core/db.ts');
+    expect(result).not.toContain('/project/src/core/db.ts');
+  });
+
+  it('should prefer an exact paths pattern over a wildcard pattern when both match', () => {
+    mockResolve.mockImplementation((base: string, target: string) => `${base}/${target}`);
+    mockExtname.mockReturnValue('');
+
+    const tsconfigPaths = {
+      baseUrl: '/project',
+      paths: new Map([
+        ['@app/*', ['src/*']],
+        ['@app/config', ['config/index']],
+      ]),
+    };
+    const result = resolveImport('/project/src/index.ts', '@app/config', tsconfigPaths);
+
+    expect(result[0]).toBe('/project/config/index.ts');
+  });
+});
+
+// ============================================================
+// resolveExistingImport
+// ============================================================
+describe('resolveExistingImport', () => {
+  beforeEach(() => {
+    mock.module('node:path', () => ({
+      resolve: mockResolve,
+      dirname: mockDirname,
+      extname: mockExtname,
+    }));
+    mockResolve.mockReset();
+    mockDirname.mockReset();
+    mockExtname.mockReset();
+    mockDirname.mockReturnValue('/project/src');
+    mockResolve.mockReturnValue('/project/src/foo');
+    mockExtname.mockImplementation((p: string) => (p.endsWith('.js') ? '.js' : p === '/project/src/foo' ? '' : '.ts'));
+  });
+
+  it('should return the directory index when only foo/index.ts exists', () => {
+    const fileExists = mock((p: string) => p === '/project/src/foo/index.ts');
+
+    const result = resolveExistingImport('/project/src/index.ts', './foo', undefined, undefined, fileExists);
+
+    expect(result).toEqual(['/project/src/foo/index.ts']);
+  });
+
+  it('should rank foo.tsx before foo/index.ts when both exist', () => {
+    const fileExists = mock((p: string) => p === '/project/src/foo/index.ts' || p === '/project/src/foo.tsx');
+
+    const result = resolveExistingImport('/project/src/index.ts', './foo', undefined, undefined, fileExists);
+
+    expect(result).toEqual(['/project/src/foo.tsx', '/project/src/foo/index.ts']);
+  });
+
+  it('should return the .ts source when a .js specifier points at a TypeScript file', () => {
+    mockResolve.mockReturnValue('/project/src/foo.js');
+    const fileExists = mock((p: string) => p === '/project/src/foo.ts');
+
+    const result = resolveExistingImport('/project/src/index.ts', './foo.js', undefined, undefined, fileExists);
+
+    expect(result).toEqual(['/project/src/foo.ts']);
+  });
+
+  it('should return an empty array when no candidate exists on disk', () => {
+    const fileExists = mock((_p: string) => false);
+
+    const result = resolveExistingImport('/project/src/index.ts', './foo', undefined, undefined, fileExists);
+
+    expect(result).toEqual([]);
+    expect(fileExists).toHaveBeenCalledWith('/project/src/foo.ts');
+  });
+
+  it('should keep priority order when several candidates exist', () => {
+    const fileExists = mock((p: string) => p === '/project/src/foo.ts' || p === '/project/src/foo/index.ts');
+
+    const result = resolveExistingImport('/project/src/index.ts', './foo', undefined, undefined, fileExists);
+
+    expect(result).toEqual(['/project/src/foo.ts', '/project/src/foo/index.ts']);
+  });
+
+  it('should not probe the file system when specifier is an external package', () => {
+    const fileExists = mock((_p: string) => true);
+
+    const result = resolveExistingImport('/project/src/index.ts', 'lodash', undefined, undefined, fileExists);
+
+    expect(result).toEqual([]);
+    expect(fileExists).not.toHaveBeenCalled();
+  });
+});
+
+// ============================================================
+// isLocalSpecifier
+// ============================================================
+describe('isLocalSpecifier', () => {
+  it('should return true when specifier is relative, absolute or a # import', () => {
+    expect(isLocalSpecifier('./foo')).toBe(true);
+    expect(isLocalSpecifier('../foo')).toBe(true);
+    expect(isLocalSpecifier('/abs/foo')).toBe(true);
+    expect(isLocalSpecifier('#internal/foo')).toBe(true);
+  });
+
+  it('should return true when specifier matches a tsconfig paths alias', () => {
+    const tsconfigPaths = { baseUrl: '/project', paths: new Map([['@app/*', ['src/*']]]) };
+
+    expect(isLocalSpecifier('@app/config', tsconfigPaths)).toBe(true);
+  });
+
+  it('should return false when specifier is a package name', () => {
+    const tsconfigPaths = { baseUrl: '/project', paths: new Map([['@app/*', ['src/*']]]) };
+
+    expect(isLocalSpecifier('react')).toBe(false);
+    expect(isLocalSpecifier('@scope/ui/button', tsconfigPaths)).toBe(false);
+  });
+
+  it('should return false for a package name when no tsconfig was found', () => {
+    expect(isLocalSpecifier('react', null)).toBe(false);
+  });
 });
 
 // ============================================================
@@ -342,4 +591,158 @@ describe('buildImportMap', () => {
 
     expect([...m1.entries()]).toEqual([...m2.entries()]);
   });
+  it('should map require bindings when declaration initializes from require()', () => {
+    mockResolveImportFn.mockReturnValue([`${FAKE_PROJECT}/src/utils.ts`]);
+    const call = { type: 'CallExpression', callee: { type: 'Identifier', name: 'require' }, arguments: [{ type: 'Literal', value: './utils' }] };
+
+    const ast = fakeAst([
+      {
+        type: 'VariableDeclaration',
+        declarations: [
+          { id: { type: 'Identifier', name: 'utils' }, init: call },
+          {
+            id: {
+              type: 'ObjectPattern',
+              properties: [{ type: 'Property', key: { type: 'Identifier', name: 'foo' }, value: { type: 'Identifier', name: 'bar' } }],
+            },
+            init: call,
+          },
+        ],
+      },
+    ]);
+    const map = buildImportMap(ast, `${FAKE_PROJECT}/src/index.ts`, undefined, mockResolveImportFn);
+
+    expect(map.get('utils')?.importedName).toBe('*');
+    expect(map.get('bar')?.importedName).toBe('foo');
+  });
+
+  it('should set importedName to "*" when declaration is import x = require()', () => {
+    mockResolveImportFn.mockReturnValue([`${FAKE_PROJECT}/src/utils.ts`]);
+
+    const ast = fakeAst([
+      {
+        type: 'TSImportEqualsDeclaration',
+        id: { name: 'utils' },
+        moduleReference: { type: 'TSExternalModuleReference', expression: { value: './utils' } },
+      },
+    ]);
+    const map = buildImportMap(ast, `${FAKE_PROJECT}/src/index.ts`, undefined, mockResolveImportFn);
+
+    expect(map.get('utils')?.importedName).toBe('*');
+  });
+});
+
+// ============================================================
+// createCallbackDeclarationNamer
+// ============================================================
+describe('createCallbackDeclarationNamer', () => {
+  it('should keep the first name and number later repeats when names collide', () => {
+    const name = createCallbackDeclarationNamer();
+
+    expect([name('setup'), name('setup'), name('teardown'), name('setup')]).toEqual(['setup', 'setup#2', 'teardown', 'setup#3']);
+  });
+});
+
+// ============================================================
+// moduleDeclarationName
+// ============================================================
+describe('moduleDeclarationName', () => {
+  it('should join qualified namespace names and use the string of ambient module names', () => {
+    const qualified = { id: { type: 'TSQualifiedName', left: { type: 'Identifier', name: 'A' }, right: { name: 'B' } } };
+
+    expect(moduleDeclarationName({ id: { type: 'Identifier', name: 'Api' } })).toBe('Api');
+    expect(moduleDeclarationName(qualified)).toBe('A.B');
+    expect(moduleDeclarationName({ id: { type: 'Literal', value: 'express' } })).toBe('express');
+  });
+});
+
+// ============================================================
+// propertyKeyName
+// ============================================================
+describe('propertyKeyName', () => {
+  it('should return static keys and null when the key is computed or numeric', () => {
+    expect(propertyKeyName({ key: { type: 'Identifier', name: 'get' } })).toBe('get');
+    expect(propertyKeyName({ key: { type: 'PrivateIdentifier', name: 'cache' } })).toBe('cache');
+    expect(propertyKeyName({ key: { type: 'Literal', value: 'kebab-name' } })).toBe('kebab-name');
+    expect(propertyKeyName({ key: { type: 'Literal', value: 1 } })).toBeNull();
+    expect(propertyKeyName({ computed: true, key: { type: 'Identifier', name: 'key' } })).toBeNull();
+  });
+});
+
+// ============================================================
+// memberKeyText
+// ============================================================
+describe('memberKeyText', () => {
+  it('should spell keys as written when they are identifiers, literals or computed expressions', () => {
+    const source = 'class C { [Symbol.iterator]() {} }';
+    const computed = { computed: true, key: { type: 'MemberExpression', start: 11, end: 26 } };
+
+    expect(memberKeyText({ key: { type: 'Identifier', name: 'run' } }, source)).toBe('run');
+    expect(memberKeyText({ computed: true, key: { type: 'Literal', value: 'kebab-name' } }, source)).toBe('kebab-name');
+    expect(memberKeyText(computed, source)).toBe('[Symbol.iterator]');
+  });
+});
+
+// ============================================================
+// nameDeclarations / lookupDeclaration
+// ============================================================
+describe('nameDeclarations', () => {
+  function declaredNames(source: string): string[] {
+    const { program } = parseSync('/project/src/index.ts', source);
+    return [...nameDeclarations(program, source).names.values()].map((d) => d.name);
+  }
+
+  it('should qualify declarations with the namespaces, functions and members they are nested in', () => {
+    const names = declaredNames(
+      `namespace NS { export interface Shape {} }\n` +
+        `function outer() { function helper() {} type Local = string; }\n` +
+        `class Box { run() { class Inner {} } }\n` +
+        `const api = { get() { const inner = () => {}; } };`,
+    );
+
+    expect(names).toEqual([
+      'NS',
+      'NS.Shape',
+      'outer',
+      'outer.helper',
+      'outer.Local',
+      'Box',
+      'Box.run',
+      'Box.run.Inner',
+      'api',
+      'api.get',
+      'api.get.inner',
+    ]);
+  });
+
+  it('should name class expressions and CommonJS exports after their binding when they are anonymous', () => {
+    expect(declaredNames(`const Anon = class {};\nexports.run = function () {};`)).toEqual(['Anon', 'Anon', 'run']);
+  });
+
+  it('should number repeated names when they are declared inside sibling callbacks', () => {
+    expect(declaredNames(`it('a', () => { function setup() {} });\nit('b', () => { function setup() {} });`)).toEqual([
+      'setup',
+      'setup#2',
+    ]);
+  });
+
+  it('should spell computed member keys from sourceText when naming class members', () => {
+    expect(declaredNames(`class C { [Symbol.iterator]() {} }`)).toEqual(['C', 'C.[Symbol.iterator]']);
+  });
+
+  it('should resolve identifiers from the innermost scope outwards when looking a declaration up', () => {
+    const source =
+      `function helper() {}\nfunction outer() { function helper() {} }\n` +
+      `it('a', () => { function setup() {} });\nit('b', () => { function setup() {} });`;
+    const { program } = parseSync('/project/src/index.ts', source);
+    const declarations = nameDeclarations(program, source);
+    const scopeOf = (name: string) => [...declarations.names.values()].find((d) => d.name === name)!.scope;
+    const outerFn = [...declarations.names.entries()].find(([, d]) => d.name === 'outer')![0];
+
+    expect(lookupDeclaration(declarations, outerFn, 'helper')).toBe('outer.helper');
+    expect(lookupDeclaration(declarations, program, 'helper')).toBe('helper');
+    expect(lookupDeclaration(declarations, scopeOf('setup#2'), 'setup')).toBe('setup#2');
+    expect(lookupDeclaration(declarations, scopeOf('setup#2'), 'outer')).toBe('outer');
+    expect(lookupDeclaration(declarations, program, 'setup')).toBeNull();
+  });
 });
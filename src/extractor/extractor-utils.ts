@@ -1,98 +1,184 @@
 import { resolve, dirname, extname } from 'node:path';
+import { existsSync } from 'node:fs';
 import type { Program } from 'oxc-parser';
 import type { TsconfigPaths } from '../common/tsconfig-resolver';
+import type { WorkspacePackage } from '../common/package-resolver';
+import { resolveWorkspaceImport } from '../common/package-resolver';
 import type { ImportReference } from './types';
+import { getCommonJsExports, getRequireBindings } from './commonjs';
+
+/** Source extensions probed for extensionless specifiers, in priority order. */
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+/** ESM-style output extensions and the TypeScript sources they are emitted from. */
+const OUTPUT_TO_SOURCE_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+/** moduleResolution modes that follow Node's ESM rules for `.mts` importers. */
+const NODE_ESM_RESOLUTION = new Set(['node16', 'nodenext']);
 
 /**
- * Resolves an import path to an absolute file path.
- * Handles relative imports and tsconfig path aliases.
- * Pure string resolution — no file system access.
+ * Expands a resolved (absolute) path into file candidates.
+ * - Extensionless → `<path>.ts`, `<path>.tsx`, … through the JS extensions, then
+ *   `<path>/index.ts`, `<path>/index.tsx`, … (TypeScript tries every file before a directory).
+ * - `.js` / `.jsx` / `.mjs` / `.cjs` → the matching TS sources first, then the path itself.
+ * - Any other extension → the path itself.
+ */
+function expandCandidates(resolved: string, allowExtensionless: boolean): string[] {
+  const ext = extname(resolved);
+
+  if (ext === '') {
+    if (!allowExtensionless) return [];
+    return [
+      ...SOURCE_EXTENSIONS.map((sourceExt) => resolved + sourceExt),
+      ...SOURCE_EXTENSIONS.map((sourceExt) => resolved + '/index' + sourceExt),
+    ];
+  }
+
+  const sourceExts = OUTPUT_TO_SOURCE_EXTENSIONS[ext];
+  if (sourceExts) {
+    const base = resolved.slice(0, -ext.length);
+    return [...sourceExts.map((sourceExt) => base + sourceExt), resolved];
+  }
+
+  return [resolved];
+}
+
+/**
+ * Returns the best-matching tsconfig `paths` pattern for a specifier.
+ * Mirrors TypeScript: an exact pattern wins, otherwise the longest wildcard prefix.
+ */
+function matchPathPattern(
+  importPath: string,
+  paths: Map<string, string[]>,
+): { targets: string[]; captured: string | null } | null {
+  let best: { targets: string[]; captured: string | null; prefixLength: number } | null = null;
+
+  for (const [pattern, targets] of paths) {
+    if (targets.length === 0) continue;
+
+    const starIdx = pattern.indexOf('*');
+    if (starIdx === -1) {
+      if (importPath === pattern) return { targets, captured: null };
+      continue;
+    }
+
+    const prefix = pattern.slice(0, starIdx);
+    const suffix = pattern.slice(starIdx + 1);
+    if (
+      importPath.startsWith(prefix) &&
+      (suffix === '' || importPath.endsWith(suffix)) &&
+      importPath.length >= prefix.length + suffix.length &&
+      (!best || prefix.length > best.prefixLength)
+    ) {
+      const captured = importPath.slice(
+        prefix.length,
+        suffix === '' ? undefined : importPath.length - suffix.length,
+      );
+      best = { targets, captured, prefixLength: prefix.length };
+    }
+  }
+
+  return best ? { targets: best.targets, captured: best.captured } : null;
+}
+
+/**
+ * Resolves an import path to absolute file path candidates, in priority order.
+ * Handles relative imports, `.js`→`.ts` output-extension mapping, tsconfig path aliases,
+ * package.json `#imports` and workspace packages (`exports` / `main` / `types`).
+ * Pure string resolution — no file system access (see resolveExistingImport).
  *
- * @param currentFilePath - Absolute path of the file containing the import.
- * @param importPath      - The raw import specifier string (e.g., './foo', '@alias/bar').
- * @param tsconfigPaths   - Optional tsconfig paths for alias resolution.
- * @returns Absolute resolved path, or null for external (npm) packages.
+ * Under `node16` / `nodenext`, an `.mts` / `.mjs` importer follows ESM rules:
+ * extensionless relative specifiers produce no candidates.
+ *
+ * @param currentFilePath   - Absolute path of the file containing the import.
+ * @param importPath        - The raw import specifier string (e.g., './foo', '@alias/bar').
+ * @param tsconfigPaths     - Optional tsconfig paths for alias resolution.
+ * @param workspacePackages - Optional workspace packages for bare / `#` specifiers.
+ * @returns Candidate absolute paths, or an empty array for external (npm) packages.
  */
 export function resolveImport(
   currentFilePath: string,
   importPath: string,
   tsconfigPaths?: TsconfigPaths,
+  workspacePackages?: readonly WorkspacePackage[],
 ): string[] {
   // 1. Relative imports
   if (importPath.startsWith('.')) {
+    const importerExt = extname(currentFilePath);
+    const isNodeEsm =
+      NODE_ESM_RESOLUTION.has(tsconfigPaths?.moduleResolution ?? '') &&
+      (importerExt === '.mts' || importerExt === '.mjs');
     const resolved = resolve(dirname(currentFilePath), importPath);
-    if (extname(resolved) === '') {
-      return [
-        resolved + '.ts',
-        resolved + '/index.ts',
-        resolved + '.mts',
-        resolved + '/index.mts',
-        resolved + '.cts',
-        resolved + '/index.cts',
-      ];
-    }
-    return [resolved];
+    return expandCandidates(resolved, !isNodeEsm);
   }
 
-  // 2. tsconfig path aliases
+  // 2. tsconfig path aliases — every target of the best-matching pattern
   if (tsconfigPaths) {
-    for (const [pattern, targets] of tsconfigPaths.paths) {
-      if (targets.length === 0) continue;
-
-      const starIdx = pattern.indexOf('*');
-
-      if (starIdx === -1) {
-        // Exact match
-        if (importPath === pattern) {
-          const resolved = resolve(tsconfigPaths.baseUrl, targets[0]);
-          if (extname(resolved) === '') {
-            return [
-              resolved + '.ts',
-              resolved + '/index.ts',
-              resolved + '.mts',
-              resolved + '/index.mts',
-              resolved + '.cts',
-              resolved + '/index.cts',
-            ];
-          }
-          return [resolved];
-        }
-      } else {
-        const prefix = pattern.slice(0, starIdx);
-        const suffix = pattern.slice(starIdx + 1);
-        if (
-          importPath.startsWith(prefix) &&
-          (suffix === '' || importPath.endsWith(suffix))
-        ) {
-          const captured = importPath.slice(
-            prefix.length,
-            suffix === '' ? undefined : importPath.length - suffix.length,
-          );
-          const target = targets[0].replace('*', captured);
-          const resolved = resolve(tsconfigPaths.baseUrl, target);
-          if (extname(resolved) === '') {
-            return [
-              resolved + '.ts',
-              resolved + '/index.ts',
-              resolved + '.mts',
-              resolved + '/index.mts',
-              resolved + '.cts',
-              resolved + '/index.cts',
-            ];
-          }
-          return [resolved];
-        }
+    const match = matchPathPattern(importPath, tsconfigPaths.paths);
+    if (match) {
+      const candidates: string[] = [];
+      for (const target of match.targets) {
+        const substituted = match.captured === null ? target : target.replace('*', match.captured);
+        const resolved = resolve(tsconfigPaths.baseUrl, substituted);
+        candidates.push(...expandCandidates(resolved, true));
       }
+      return candidates;
+    }
+  }
+
+  // 3. Workspace packages (`#imports` of the owning package, then `exports` / entry fields)
+  if (workspacePackages && workspacePackages.length > 0) {
+    const targets = resolveWorkspaceImport(currentFilePath, importPath, workspacePackages);
+    if (targets.length > 0) {
+      return targets.flatMap((target) => expandCandidates(target, true));
     }
   }
 
-  // 3. External package
+  // 4. External package
   return [];
 }
 
+/**
+ * Whether a specifier names a file of this project rather than a package: relative and
+ * absolute paths, `#` package imports and specifiers matching a tsconfig `paths` alias.
+ */
+export function isLocalSpecifier(importPath: string, tsconfigPaths?: TsconfigPaths | null): boolean {
+  if (importPath.startsWith('.') || importPath.startsWith('/') || importPath.startsWith('#')) return true;
+  return !!tsconfigPaths && matchPathPattern(importPath, tsconfigPaths.paths) !== null;
+}
+
+/**
+ * Resolves an import path to the candidates that actually exist on disk,
+ * keeping the priority order produced by resolveImport().
+ *
+ * @param currentFilePath   - Absolute path of the file containing the import.
+ * @param importPath        - The raw import specifier string.
+ * @param tsconfigPaths     - Optional tsconfig paths for alias resolution.
+ * @param workspacePackages - Optional workspace packages for bare / `#` specifiers.
+ * @param fileExistsFn      - Existence check (DI seam, defaults to node:fs existsSync).
+ * @returns Existing candidate paths; empty when nothing on disk matches.
+ */
+export function resolveExistingImport(
+  currentFilePath: string,
+  importPath: string,
+  tsconfigPaths?: TsconfigPaths,
+  workspacePackages?: readonly WorkspacePackage[],
+  fileExistsFn: (filePath: string) => boolean = existsSync,
+): string[] {
+  return resolveImport(currentFilePath, importPath, tsconfigPaths, workspacePackages).filter((candidate) =>
+    fileExistsFn(candidate),
+  );
+}
+
 /**
  * Builds a map from local identifier names to their resolved import references.
- * Only walks top-level ast.body (no deep traversal).
+ * Only walks top-level ast.body (no deep traversal). CommonJS bindings
+ * (`import x = require()`, `const { a } = require()`) are mapped like their ESM equivalents.
  *
  * @param ast             - The parsed Program AST.
  * @param currentFilePath - Absolute path of the current file.
@@ -107,11 +193,31 @@ export function buildImportMap(
     currentFilePath: string,
     importPath: string,
     tsconfigPaths?: TsconfigPaths,
-  ) => string[] = resolveImport,
+  ) => string[] = resolveExistingImport,
 ): Map<string, ImportReference> {
   const map = new Map<string, ImportReference>();
 
   for (const node of (ast as any).body ?? []) {
+    if (node.type === 'TSImportEqualsDeclaration' && node.moduleReference?.type === 'TSExternalModuleReference') {
+      const sourcePath: string = node.moduleReference.expression?.value ?? '';
+      const candidates = resolveImportFn(currentFilePath, sourcePath, tsconfigPaths);
+      if (candidates.length > 0 && node.id?.name) map.set(node.id.name, { path: candidates[0]!, importedName: '*' });
+      continue;
+    }
+
+    if (node.type === 'VariableDeclaration') {
+      for (const decl of node.declarations ?? []) {
+        const required = getRequireBindings(decl);
+        if (!required) continue;
+        const candidates = resolveImportFn(currentFilePath, required.specifier, tsconfigPaths);
+        if (candidates.length === 0) continue;
+        for (const binding of required.bindings) {
+          map.set(binding.localName, { path: candidates[0]!, importedName: binding.importedName });
+        }
+      }
+      continue;
+    }
+
     if (node.type !== 'ImportDeclaration') continue;
 
     const sourcePath: string = node.source?.value ?? '';
@@ -145,3 +251,281 @@ export function buildImportMap(
 
   return map;
 }
+
+/**
+ * Names declarations made inside anonymous callbacks: the first keeps its qualified name,
+ * later ones with the same name get `#2`, `#3`, … in source order. Shared by the symbol and
+ * call extractors so two `function setup()` helpers in sibling `describe` callbacks stay
+ * distinct symbols and their calls are attributed to the right one.
+ */
+export function createCallbackDeclarationNamer(): (qualifiedName: string) => string {
+  const used = new Set<string>();
+  return (qualifiedName) => {
+    let name = qualifiedName;
+    for (let n = 2; used.has(name); n++) name = `${qualifiedName}#${n}`;
+    used.add(name);
+    return name;
+  };
+}
+
+/** Function or arrow function expression, as a value (callback, initializer, property). */
+export function isFunctionValue(node: any): boolean {
+  return node?.type === 'FunctionExpression' || node?.type === 'ArrowFunctionExpression';
+}
+
+/** `Foo`, `A.B` for `namespace A.B {}`, `'x'` for `declare module 'x'`, `global`. */
+export function moduleDeclarationName(node: any): string {
+  const id = node.id;
+  if (id?.type === 'TSQualifiedName') return `${moduleDeclarationName({ id: id.left })}.${id.right?.name}`;
+  return id?.name ?? (typeof id?.value === 'string' ? id.value : 'unknown');
+}
+
+/** Static key of a property or member (`a`, `'a'`, `#a` → `a`); `null` for computed and numeric keys. */
+export function propertyKeyName(prop: any): string | null {
+  if (prop?.computed) return null;
+  const key = prop?.key;
+  if (key?.type === 'Identifier' || key?.type === 'PrivateIdentifier') return key.name;
+  if (key?.type === 'Literal' && typeof key.value === 'string') return key.value;
+  return null;
+}
+
+/**
+ * Member key as written: `name`, `'kebab-name'` / `['kebab-name']` → `kebab-name`, `[Symbol.iterator]`.
+ * Shared by the symbol and call extractors so callers are named like the member rows.
+ */
+export function memberKeyText(m: any, sourceText: string): string {
+  const key = m.key;
+  if (!key) return 'unknown';
+  if (key.type === 'Literal') return String(key.value);
+  if (m.computed) return `[${sourceText.slice(key.start, key.end)}]`;
+  return key.name ?? 'unknown';
+}
+
+/** Name a declaration is indexed under and the symbol it is nested in. */
+export interface DeclarationName {
+  /** Qualified symbol name (`outer.helper`, `NS.Impl`, `api.get`, `setup#2`). */
+  name: string;
+  /** Enclosing namespace / function / member symbol, `null` at module level. */
+  parent: string | null;
+  /** Scope node (Program, namespace, function) the declaration is made in. */
+  scope: any;
+}
+
+export interface DeclarationNames {
+  /**
+   * Declaration node → name. Covers namespaces, named functions and classes, interfaces,
+   * type aliases, enums, variable declarators bound to a function, class or object literal
+   * with methods (and that class expression), object literal methods (the `Property`),
+   * class members and the values of CommonJS exports.
+   */
+  names: Map<any, DeclarationName>;
+  /** Scope node (Program, namespace, function) → identifier → qualified name declared there. */
+  locals: Map<any, Map<string, string>>;
+  /** Scope node → the scope node enclosing it; the Program has none. */
+  outer: Map<any, any>;
+}
+
+/**
+ * Names the declarations of a file the way `extractSymbols` indexes them. The symbol, call,
+ * heritage and type reference extractors all take their names from this one walk.
+ * Namespaces, named functions, classes, class members and object literal methods qualify what
+ * they contain; class expressions take the name they are bound to; anonymous callbacks add no
+ * segment, but repeated names declared inside them are numbered (`setup`, `setup#2`).
+ *
+ * @param sourceText - Source of `ast`; spells computed member keys (`C.[Symbol.iterator]`).
+ */
+export function nameDeclarations(ast: Program, sourceText = ''): DeclarationNames {
+  const names = new Map<any, DeclarationName>();
+  const locals = new Map<any, Map<string, string>>();
+  const outer = new Map<any, any>();
+  const nameInCallback = createCallbackDeclarationNamer();
+  /** Anonymous functions entered since the current named function body. */
+  let callbackDepth = 0;
+  /** Innermost Program, namespace or function node. */
+  let scopeNode: any = ast;
+
+  const qualify = (parent: string | null, name: string): string => (parent ? `${parent}.${name}` : name);
+
+  function record(node: any, name: string, parent: string | null): void {
+    names.set(node, { name, parent, scope: scopeNode });
+  }
+
+  /** Records a declaration binding `local` in the current scope, numbered inside callbacks. */
+  function declare(node: any, local: string, parent: string | null): string {
+    const qualifiedName = qualify(parent, local);
+    const name = callbackDepth > 0 ? nameInCallback(qualifiedName) : qualifiedName;
+    record(node, name, parent);
+    const scope = locals.get(scopeNode) ?? new Map<string, string>();
+    if (!scope.has(local)) scope.set(local, name);
+    locals.set(scopeNode, scope);
+    return name;
+  }
+
+  /** Walks `body` as the scope `scope` of `node`; callbacks are counted from zero inside it. */
+  function walkScope(node: any, body: any, scope: string | null, resetCallbacks: boolean): void {
+    const outerDepth = callbackDepth;
+    const outerScope = scopeNode;
+    if (resetCallbacks) callbackDepth = 0;
+    if (!outer.has(node)) outer.set(node, outerScope);
+    scopeNode = node;
+    walk(body, scope);
+    callbackDepth = outerDepth;
+    scopeNode = outerScope;
+  }
+
+  function walkClass(node: any, name: string): void {
+    for (const m of node.body?.body ?? []) {
+      if ((m.type === 'MethodDefinition' || m.type === 'PropertyDefinition') && m.key) {
+        const memberName = `${name}.${memberKeyText(m, sourceText)}`;
+        if (isFunctionValue(m.value)) {
+          record(m, memberName, name);
+          walkScope(m.value, m.value.body, memberName, true);
+        } else {
+          walk(m.value, memberName);
+        }
+      } else {
+        walk(m, name);
+      }
+    }
+  }
+
+  /** Walks an object literal bound to `owner`; function-valued properties are `owner.key` methods. */
+  function walkObject(node: any, owner: string, scope: string | null): void {
+    for (const prop of node.properties ?? []) {
+      const key = propertyKeyName(prop);
+      if (prop.type === 'Property' && key && isFunctionValue(prop.value)) {
+        record(prop, `${owner}.${key}`, owner);
+        walkScope(prop.value, prop.value.body, `${owner}.${key}`, true);
+      } else {
+        walk(prop, scope);
+      }
+    }
+  }
+
+  /** Walks the value bound to a declaration named `name`. */
+  function walkValue(value: any, name: string, scope: string | null): void {
+    if (isFunctionValue(value)) {
+      walkScope(value, value.body, name, true);
+    } else if (value?.type === 'ClassExpression') {
+      record(value, name, scope);
+      walkClass(value, name);
+    } else if (value?.type === 'ObjectExpression') {
+      walkObject(value, name, scope);
+    } else {
+      walk(value, scope);
+    }
+  }
+
+  function hasObjectMethods(node: any): boolean {
+    return (node.properties ?? []).some(
+      (prop: any) => prop.type === 'Property' && propertyKeyName(prop) && isFunctionValue(prop.value),
+    );
+  }
+
+  function walk(node: any, scope: string | null): void {
+    if (!node || typeof node !== 'object') return;
+
+    if (Array.isArray(node)) {
+      for (const item of node) walk(item, scope);
+      return;
+    }
+
+    const type: string = node.type ?? '';
+    const statementLevel = scopeNode === ast || scopeNode?.type === 'TSModuleDeclaration';
+
+    if ((type === 'ExpressionStatement' || type === 'TSExportAssignment') && statementLevel) {
+      // exports.foo = function () {} / module.exports = class … / module.exports = { run() {} }
+      const exports = getCommonJsExports(node);
+      if (exports.length > 0) {
+        for (const { name, value } of exports) {
+          if (value?.type === 'Identifier') continue;
+          const exportName = qualify(scope, name);
+          if (isFunctionValue(value)) record(value, exportName, scope);
+          walkValue(value, exportName, scope);
+        }
+        return;
+      }
+    }
+
+    if (type === 'TSModuleDeclaration') {
+      let name: string;
+      if (node.id?.type === 'Identifier') {
+        name = declare(node, node.id.name, scope);
+      } else {
+        // `namespace A.B {}` / `declare module 'x' {}` / `declare global {}` bind no plain identifier.
+        name = qualify(scope, moduleDeclarationName(node));
+        record(node, name, scope);
+      }
+      walkScope(node, node.body, name, false);
+      return;
+    }
+
+    if (
+      (type === 'TSInterfaceDeclaration' || type === 'TSTypeAliasDeclaration' || type === 'TSEnumDeclaration') &&
+      node.id?.name
+    ) {
+      declare(node, node.id.name, scope);
+      return;
+    }
+
+    if (type === 'ExportDefaultDeclaration' && !node.declaration?.id) {
+      // export default class extends Base {} / function () {} — the symbol is named 'default'
+      const decl = node.declaration;
+      if (decl?.type === 'ClassDeclaration' || decl?.type === 'ClassExpression') {
+        record(decl, 'default', scope);
+        walkClass(decl, 'default');
+      } else if (decl?.type === 'FunctionDeclaration') {
+        record(decl, 'default', scope);
+        walkScope(decl, decl.body, 'default', true);
+      } else {
+        walk(decl, scope);
+      }
+      return;
+    }
+
+    if (type === 'FunctionDeclaration' && node.id?.name) {
+      walkScope(node, node.body, declare(node, node.id.name, scope), true);
+      return;
+    }
+
+    if (type === 'ClassDeclaration' && node.id?.name) {
+      walkClass(node, declare(node, node.id.name, scope));
+      return;
+    }
+
+    if (type === 'VariableDeclarator' && node.id?.type === 'Identifier' && node.init) {
+      const init = node.init;
+      const indexed =
+        isFunctionValue(init) || init.type === 'ClassExpression' || (init.type === 'ObjectExpression' && hasObjectMethods(init));
+      if (indexed) walkValue(init, declare(node, node.id.name, scope), scope);
+      else walk(init, scope);
+      return;
+    }
+
+    if (isFunctionValue(node)) {
+      // Anonymous callback: its declarations stay under `scope`.
+      callbackDepth++;
+      walkScope(node, [node.params, node.body], scope, false);
+      callbackDepth--;
+      return;
+    }
+
+    for (const key of Object.keys(node)) {
+      if (key === 'loc' || key === 'start' || key === 'end' || key === 'scope') continue;
+      const child = node[key];
+      if (child && typeof child === 'object') walk(child, scope);
+    }
+  }
+
+  walk(ast, null);
+  return { names, locals, outer };
+}
+
+/** Qualified name `identifier` binds in `scope` or the nearest enclosing scope declaring it. */
+export function lookupDeclaration(declarations: DeclarationNames, scope: any, identifier: string): string | null {
+  for (let s = scope; s; s = declarations.outer.get(s)) {
+    const name = declarations.locals.get(s)?.get(identifier);
+    if (name) return name;
+  }
+  return null;
+}
@@ -1,5 +1,11 @@
 import { describe, it, expect, mock, beforeEach } from 'bun:test';
+import { parseSync } from 'oxc-parser';
 import type { ImportReference } from './types';
+import * as astUtils from '../parser/ast-utils';
+
+// Captured before mock.module replaces the live bindings.
+const realVisit = astUtils.visit;
+const realGetQualifiedName = astUtils.getQualifiedName;
 
 // ── Mock ../parser/ast-utils ──
 const mockVisit = mock((_node: any, _cb: any) => {});
@@ -9,6 +15,11 @@ import { extractHeritage } from './heritage-extractor';
 
 const FILE = '/project/src/index.ts';
 
+function parse(source: string, filePath = FILE) {
+  const { program } = parseSync(filePath, source);
+  return program as any;
+}
+
 function makeImportMap(entries: [string, ImportReference][] = []): Map<string, ImportReference> {
   return new Map(entries);
 }
@@ -104,6 +115,40 @@ describe('extractHeritage', () => {
     expect(rel?.dstFilePath).toBe('/project/src/ifoo.ts');
   });
 
+  // HP — interface extends
+  it('should produce one extends relation per base when an interface extends several interfaces', () => {
+    mockVisit.mockImplementation((_ast: any, cb: any) => {
+      cb({
+        type: 'TSInterfaceDeclaration',
+        id: { name: 'Repo' },
+        extends: [
+          { type: 'TSInterfaceHeritage', expression: { type: 'Identifier', name: 'Reader' } },
+          { type: 'TSInterfaceHeritage', expression: { type: 'Identifier', name: 'Writer' } },
+        ],
+      });
+    });
+    mockGetQualifiedName
+      .mockReturnValueOnce({ root: 'Reader', parts: [], full: 'Reader' })
+      .mockReturnValueOnce({ root: 'Writer', parts: [], full: 'Writer' });
+
+    const importMap = makeImportMap([
+      ['Writer', { path: '/project/src/writer.ts', importedName: 'Writer' }],
+    ]);
+    const relations = extractHeritage({} as any, FILE, importMap);
+
+    expect(relations).toEqual([
+      {
+        type: 'extends',
+        srcFilePath: FILE,
+        srcSymbolName: 'Repo',
+        dstFilePath: FILE,
+        dstSymbolName: 'Reader',
+        metaJson: JSON.stringify({ isLocal: true }),
+      },
+      { type: 'extends', srcFilePath: FILE, srcSymbolName: 'Repo', dstFilePath: '/project/src/writer.ts', dstSymbolName: 'Writer' },
+    ]);
+  });
+
   // NE — no heritage
   it('should return empty array when class has no extends or implements clause', () => {
     mockVisit.mockImplementation((_ast: any, cb: any) => {
@@ -174,4 +219,84 @@ describe('extractHeritage', () => {
 
     expect(r1).toEqual(r2);
   });
+
+  describe('qualified sources', () => {
+    beforeEach(() => {
+      mockVisit.mockImplementation(realVisit as any);
+      mockGetQualifiedName.mockImplementation(realGetQualifiedName as any);
+    });
+
+    it('should qualify source and local base with the namespace when both are declared in a namespace', () => {
+      const ast = parse(`namespace NS { export class Impl implements Base {} export interface Base {} }`);
+      const relations = extractHeritage(ast, FILE, makeImportMap());
+
+      expect(relations.map((r) => [r.type, r.srcSymbolName, r.dstSymbolName])).toEqual([
+        ['implements', 'NS.Impl', 'NS.Base'],
+      ]);
+    });
+
+    it('should qualify the source with its parent function when a class is nested', () => {
+      const ast = parse(`class Base {}\nfunction outer() { class Inner extends Base {} }`);
+      const relations = extractHeritage(ast, FILE, makeImportMap());
+
+      expect(relations.map((r) => [r.srcSymbolName, r.dstSymbolName])).toEqual([['outer.Inner', 'Base']]);
+    });
+
+    it('should name the source after its binding when a class expression is assigned to a variable', () => {
+      const ast = parse(`const Anon = class extends Error {};`);
+      const relations = extractHeritage(ast, FILE, makeImportMap());
+
+      expect(relations.map((r) => [r.srcSymbolName, r.dstSymbolName])).toEqual([['Anon', 'Error']]);
+    });
+
+    it('should number the source when same-named classes are declared in sibling callbacks', () => {
+      const ast = parse(`describe('a', () => { class Fake extends Base {} });\ndescribe('b', () => { class Fake extends Base {} });`);
+      const relations = extractHeritage(ast, FILE, makeImportMap());
+
+      expect(relations.map((r) => r.srcSymbolName)).toEqual(['Fake', 'Fake#2']);
+    });
+
+    it('should resolve the base declared in the same callback when sibling callbacks redeclare it', () => {
+      const ast = parse(
+        `describe('a', () => { class Base {} class Fake extends Base {} });\n` +
+          `describe('b', () => { class Base {} class Fake extends Base {} });`,
+      );
+      const relations = extractHeritage(ast, FILE, makeImportMap());
+
+      expect(relations.map((r) => [r.srcSymbolName, r.dstSymbolName])).toEqual([
+        ['Fake', 'Base'],
+        ['Fake#2', 'Base#2'],
+      ]);
+    });
+
+    it('should qualify a class expression with the function it is bound in when it is nested', () => {
+      const ast = parse(`function outer() { class Base {} const Impl = class extends Base {}; }`);
+      const relations = extractHeritage(ast, FILE, makeImportMap());
+
+      expect(relations.map((r) => [r.srcSymbolName, r.dstSymbolName])).toEqual([['outer.Impl', 'outer.Base']]);
+    });
+
+    it('should name the source after its export when a class expression is assigned to module.exports', () => {
+      const ast = parse(`exports.Impl = class extends Base {};`);
+      const relations = extractHeritage(ast, FILE, makeImportMap());
+
+      expect(relations.map((r) => [r.srcSymbolName, r.dstSymbolName])).toEqual([['Impl', 'Base']]);
+    });
+
+    it('should qualify the source with the object literal method when a class is declared inside one', () => {
+      const ast = parse(`const api = { build() { class Base {} class Impl extends Base {} } };`);
+      const relations = extractHeritage(ast, FILE, makeImportMap());
+
+      expect(relations.map((r) => [r.srcSymbolName, r.dstSymbolName])).toEqual([
+        ['api.build.Impl', 'api.build.Base'],
+      ]);
+    });
+
+    it('should qualify the source with the computed member when sourceText is provided', () => {
+      const source = `class Box { [Symbol.iterator]() { class Impl extends Base {} } }`;
+      const relations = extractHeritage(parse(source), FILE, makeImportMap(), source);
+
+      expect(relations.map((r) => r.srcSymbolName)).toEqual(['Box.[Symbol.iterator].Impl']);
+    });
+  });
 });
@@ -1,33 +1,65 @@
 import type { Program } from 'oxc-parser';
 import type { ImportReference, CodeRelation } from './types';
 import { visit, getQualifiedName } from '../parser/ast-utils';
+import { lookupDeclaration, nameDeclarations } from './extractor-utils';
 
 /**
- * Extracts class extends and implements relations from the AST.
- * Single pass via visit() over entire AST.
+ * Extracts class extends / implements and interface extends relations from the AST.
+ * Single pass via visit() over entire AST. Sources carry the qualified names of the symbol
+ * extractor (`NS.Impl`, `outer.Inner`, `Anon` for `const Anon = class …`); local bases are
+ * looked up from the enclosing scope outwards (`NS.Base` before `Base`).
  *
  * @param ast       - The parsed Program AST.
  * @param filePath  - File path of the source file (used as srcFilePath).
  * @param importMap - Map from local identifiers to their resolved import references.
+ * @param sourceText - Source of `ast`, used to name classes nested in computed-key members.
  */
 export function extractHeritage(
   ast: Program,
   filePath: string,
   importMap: Map<string, ImportReference>,
+  sourceText?: string,
 ): CodeRelation[] {
   const relations: CodeRelation[] = [];
+  const declarations = nameDeclarations(ast, sourceText);
+  const { names } = declarations;
+
+  function resolveDst(qn: { root: string; parts: string[]; full: string }, node: any) {
+    const local = lookupDeclaration(declarations, names.get(node)?.scope ?? ast, qn.root);
+    if (local) {
+      const dstSymbolName = [local, ...qn.parts].join('.');
+      return { dstFilePath: filePath, dstSymbolName, metaJson: JSON.stringify({ isLocal: true }) };
+    }
+    return resolveHeritageDst(qn, filePath, importMap);
+  }
 
   visit(ast as any, (node) => {
+    if (node.type === 'TSInterfaceDeclaration') {
+      const interfaceName: string = names.get(node)?.name ?? (node.id as any)?.name ?? 'AnonymousInterface';
+      const bases: any[] = (node as any).extends ?? [];
+      for (const base of bases) {
+        const qn = getQualifiedName(base.expression ?? base);
+        if (!qn) continue;
+        const rel = resolveDst(qn, node);
+        relations.push({
+          type: 'extends',
+          srcFilePath: filePath,
+          srcSymbolName: interfaceName,
+          ...rel,
+        });
+      }
+      return;
+    }
+
     if (node.type !== 'ClassDeclaration' && node.type !== 'ClassExpression') return;
 
-    const className: string =
-      (node.id as any)?.name ?? 'AnonymousClass';
+    const className: string = names.get(node)?.name ?? (node.id as any)?.name ?? 'AnonymousClass';
 
     // extends
     if (node.superClass) {
       const qn = getQualifiedName(node.superClass);
       if (qn) {
-        const rel = resolveHeritageDst(qn, filePath, importMap);
+        const rel = resolveDst(qn, node);
         relations.push({
           type: 'extends',
           srcFilePath: filePath,
@@ -43,7 +75,7 @@ export function extractHeritage(
       const expr = impl.expression ?? impl;
       const qn = getQualifiedName(expr);
       if (!qn) continue;
-      const rel = resolveHeritageDst(qn, filePath, importMap);
+      const rel = resolveDst(qn, node);
       relations.push({
         type: 'implements',
         srcFilePath: filePath,
@@ -69,7 +69,7 @@ describe('extractImports', () => {
   });
 
   // NE — external package
-  it('should not produce a relation when import source is an npm package', () => {
+  it('should produce an external relation with the package name when import source is an npm package', () => {
     mockResolveImport.mockReturnValue([]);
 
     const ast = fakeAst([
@@ -77,7 +77,66 @@ describe('extractImports', () => {
     ]);
     const relations = extractImports(ast, FILE, undefined, mockResolveImport);
 
-    expect(relations).toHaveLength(0);
+    expect(relations).toEqual([
+      { type: 'external', srcFilePath: FILE, srcSymbolName: null, dstFilePath: 'react', dstSymbolName: null, metaJson: '{"subpath":"."}' },
+    ]);
+  });
+
+  it('should skip the import when source is a node, bun or bare builtin module', () => {
+    mockResolveImport.mockReturnValue([]);
+
+    const ast = fakeAst(
+      ['node:fs', 'bun:sqlite', 'path', 'fs/promises'].map((value) => ({
+        type: 'ImportDeclaration',
+        source: { value },
+        importKind: 'value',
+        specifiers: [],
+      })),
+    );
+
+    expect(extractImports(ast, FILE, undefined, mockResolveImport)).toEqual([]);
+  });
+
+  it('should record the scoped package name and subpath when an npm import targets a deep path', () => {
+    mockResolveImport.mockReturnValue([]);
+
+    const ast = fakeAst([
+      {
+        type: 'ImportDeclaration',
+        source: { value: '@acme/ui/button' },
+        importKind: 'value',
+        specifiers: [{ type: 'ImportSpecifier', imported: { name: 'Button' }, local: { name: 'Button' } }],
+      },
+    ]);
+    const [rel] = extractImports(ast, FILE, undefined, mockResolveImport);
+
+    expect(rel).toMatchObject({ type: 'external', dstFilePath: '@acme/ui', dstSymbolName: 'Button' });
+    expect(JSON.parse(rel!.metaJson!)).toEqual({ localName: 'Button', subpath: './button' });
+  });
+
+  it('should produce an unresolved relation with the specifier when a relative import has no file', () => {
+    mockResolveImport.mockReturnValue([]);
+
+    const ast = fakeAst([
+      { type: 'ImportDeclaration', source: { value: './missing' }, importKind: 'value', specifiers: [] },
+    ]);
+    const relations = extractImports(ast, FILE, undefined, mockResolveImport);
+
+    expect(relations).toEqual([
+      { type: 'unresolved', srcFilePath: FILE, srcSymbolName: null, dstFilePath: './missing', dstSymbolName: null },
+    ]);
+  });
+
+  it('should treat a tsconfig alias as unresolved when the aliased file does not exist', () => {
+    mockResolveImport.mockReturnValue([]);
+    const tsconfigPaths = { baseUrl: '/project', paths: new Map([['@app/*', ['src/*']]]) };
+
+    const ast = fakeAst([
+      { type: 'ImportDeclaration', source: { value: '@app/gone' }, importKind: 'value', specifiers: [] },
+    ]);
+    const relations = extractImports(ast, FILE, tsconfigPaths, mockResolveImport);
+
+    expect(relations[0]).toMatchObject({ type: 'unresolved', dstFilePath: '@app/gone' });
   });
 
   // type import
@@ -103,6 +162,15 @@ describe('extractImports', () => {
     expect(rel).toBeDefined();
   });
 
+  it('should record the namespace name in metaJson when declaration is export * as ns from', () => {
+    const ast = fakeAst([
+      { type: 'ExportAllDeclaration', source: { value: './barrel' }, exported: { type: 'Identifier', name: 'ns' }, exportKind: 'value' },
+    ]);
+    const relations = extractImports(ast, FILE, undefined, mockResolveImport);
+
+    expect(JSON.parse(relations[0]!.metaJson!)).toEqual({ isReExport: true, namespace: 'ns' });
+  });
+
   // dynamic import
   it('should produce an imports relation with {"isDynamic":true} when declaration is a dynamic import()', () => {
     mockVisit.mockImplementation((_ast: any, cb: any) => {
@@ -143,6 +211,106 @@ describe('extractImports', () => {
     expect(r1).toEqual(r2);
   });
 
+  // per-specifier relations
+  it('should produce one relation per specifier with the imported name when declaration has named imports', () => {
+    const ast = fakeAst([
+      {
+        type: 'ImportDeclaration',
+        source: { value: './repo' },
+        importKind: 'value',
+        specifiers: [
+          { type: 'ImportSpecifier', imported: { name: 'SymbolRepository' }, local: { name: 'SymbolRepository' } },
+          { type: 'ImportSpecifier', imported: { name: 'FileRepository' }, local: { name: 'Files' } },
+        ],
+      },
+    ]);
+    const relations = extractImports(ast, FILE, undefined, mockResolveImport);
+
+    expect(relations.map((r) => r.dstSymbolName)).toEqual(['SymbolRepository', 'FileRepository']);
+    expect(JSON.parse(relations[1]!.metaJson!)).toEqual({ localName: 'Files' });
+  });
+
+  it('should set dstSymbolName to default and isDefault in meta when specifier is a default import', () => {
+    const ast = fakeAst([
+      {
+        type: 'ImportDeclaration',
+        source: { value: './x' },
+        importKind: 'value',
+        specifiers: [{ type: 'ImportDefaultSpecifier', local: { name: 'X' } }],
+      },
+    ]);
+    const [rel] = extractImports(ast, FILE, undefined, mockResolveImport);
+
+    expect(rel!.dstSymbolName).toBe('default');
+    expect(JSON.parse(rel!.metaJson!)).toEqual({ localName: 'X', isDefault: true });
+  });
+
+  it('should set dstSymbolName to null and isNamespace in meta when specifier is a namespace import', () => {
+    const ast = fakeAst([
+      {
+        type: 'ImportDeclaration',
+        source: { value: './x' },
+        importKind: 'value',
+        specifiers: [{ type: 'ImportNamespaceSpecifier', local: { name: 'ns' } }],
+      },
+    ]);
+    const [rel] = extractImports(ast, FILE, undefined, mockResolveImport);
+
+    expect(rel!.dstSymbolName).toBeNull();
+    expect(JSON.parse(rel!.metaJson!)).toEqual({ localName: 'ns', isNamespace: true });
+  });
+
+  it('should mark only the inline type specifier as isType when import mixes value and type specifiers', () => {
+    const ast = fakeAst([
+      {
+        type: 'ImportDeclaration',
+        source: { value: './x' },
+        importKind: 'value',
+        specifiers: [
+          { type: 'ImportSpecifier', imported: { name: 'a' }, local: { name: 'a' }, importKind: 'value' },
+          { type: 'ImportSpecifier', imported: { name: 'T' }, local: { name: 'T' }, importKind: 'type' },
+        ],
+      },
+    ]);
+    const relations = extractImports(ast, FILE, undefined, mockResolveImport);
+
+    expect(relations[0]!.metaJson).not.toContain('isType');
+    expect(JSON.parse(relations[1]!.metaJson!).isType).toBe(true);
+  });
+
+  it('should mark every specifier as isType when the whole declaration is import type', () => {
+    const ast = fakeAst([
+      {
+        type: 'ImportDeclaration',
+        source: { value: './x' },
+        importKind: 'type',
+        specifiers: [{ type: 'ImportSpecifier', imported: { name: 'T' }, local: { name: 'T' } }],
+      },
+    ]);
+    const [rel] = extractImports(ast, FILE, undefined, mockResolveImport);
+
+    expect(JSON.parse(rel!.metaJson!)).toEqual({ localName: 'T', isType: true });
+  });
+
+  it('should produce one relation per re-exported name with exportedName when export list renames', () => {
+    const ast = fakeAst([
+      {
+        type: 'ExportNamedDeclaration',
+        source: { value: './impl' },
+        exportKind: 'value',
+        specifiers: [
+          { local: { name: 'a' }, exported: { name: 'a' } },
+          { local: { name: 'b' }, exported: { name: 'c' } },
+        ],
+      },
+    ]);
+    const relations = extractImports(ast, FILE, undefined, mockResolveImport);
+
+    expect(relations.map((r) => r.dstSymbolName)).toEqual(['a', 'b']);
+    expect(JSON.parse(relations[0]!.metaJson!)).toEqual({ isReExport: true });
+    expect(JSON.parse(relations[1]!.metaJson!)).toEqual({ isReExport: true, exportedName: 'c' });
+  });
+
   // re-export — ExportNamedDeclaration with source (G2)
   it('should produce an imports relation with {"isReExport":true} when declaration is export { foo } from', () => {
     const ast = fakeAst([
@@ -155,7 +323,7 @@ describe('extractImports', () => {
     expect(rel!.type).toBe('imports');
   });
 
-  it('should return no relation when export { foo } from source is an external npm package', () => {
+  it('should produce an external re-export when export { foo } from source is an external npm package', () => {
     mockResolveImport.mockReturnValue([]);
 
     const ast = fakeAst([
@@ -163,6 +331,194 @@ describe('extractImports', () => {
     ]);
     const relations = extractImports(ast, FILE, undefined, mockResolveImport);
 
-    expect(relations).toHaveLength(0);
+    expect(relations).toHaveLength(1);
+    expect(relations[0]).toMatchObject({ type: 'external', dstFilePath: 'react' });
+    expect(JSON.parse(relations[0]!.metaJson!)).toEqual({ isReExport: true, subpath: '.' });
+  });
+  // CommonJS — import x = require()
+  it('should produce a namespace imports relation when declaration is import x = require()', () => {
+    const ast = fakeAst([
+      {
+        type: 'TSImportEqualsDeclaration',
+        id: { name: 'utils' },
+        importKind: 'value',
+        moduleReference: { type: 'TSExternalModuleReference', expression: { value: './utils' } },
+      },
+    ]);
+    const relations = extractImports(ast, FILE, undefined, mockResolveImport);
+
+    expect(relations).toHaveLength(1);
+    expect(relations[0]!.dstSymbolName).toBeNull();
+    expect(JSON.parse(relations[0]!.metaJson!)).toEqual({ localName: 'utils', isNamespace: true, isRequire: true });
+  });
+
+  it('should not produce a relation when import x = refers to an entity name', () => {
+    const ast = fakeAst([
+      {
+        type: 'TSImportEqualsDeclaration',
+        id: { name: 'Alias' },
+        moduleReference: { type: 'Identifier', name: 'Ns' },
+      },
+    ]);
+
+    expect(extractImports(ast, FILE, undefined, mockResolveImport)).toHaveLength(0);
+  });
+
+  // CommonJS — const x = require()
+  it('should produce one relation per binding when require result is destructured', () => {
+    const call = { type: 'CallExpression', callee: { type: 'Identifier', name: 'require' }, arguments: [{ type: 'Literal', value: './utils' }] };
+    const ast = fakeAst([
+      {
+        type: 'VariableDeclaration',
+        declarations: [
+          {
+            id: {
+              type: 'ObjectPattern',
+              properties: [
+                { type: 'Property', key: { type: 'Identifier', name: 'a' }, value: { type: 'Identifier', name: 'a' } },
+                { type: 'Property', key: { type: 'Identifier', name: 'b' }, value: { type: 'Identifier', name: 'c' } },
+              ],
+            },
+            init: call,
+          },
+        ],
+      },
+    ]);
+    const relations = extractImports(ast, FILE, undefined, mockResolveImport);
+
+    expect(relations.map((r) => r.dstSymbolName)).toEqual(['a', 'b']);
+    expect(JSON.parse(relations[1]!.metaJson!)).toEqual({ localName: 'c', isRequire: true });
+  });
+
+  it('should not emit the bound require again when deep traversal reaches it', () => {
+    const call = { type: 'CallExpression', callee: { type: 'Identifier', name: 'require' }, arguments: [{ type: 'Literal', value: './utils' }] };
+    mockVisit.mockImplementation((_node: any, cb: any) => cb(call));
+    const ast = fakeAst([
+      { type: 'VariableDeclaration', declarations: [{ id: { type: 'Identifier', name: 'utils' }, init: call }] },
+    ]);
+    const relations = extractImports(ast, FILE, undefined, mockResolveImport);
+
+    expect(relations).toHaveLength(1);
+    expect(JSON.parse(relations[0]!.metaJson!)).toEqual({ localName: 'utils', isNamespace: true, isRequire: true });
+  });
+
+  it('should produce a module-level require relation when require() is called inside an expression', () => {
+    const call = { type: 'CallExpression', callee: { type: 'Identifier', name: 'require' }, arguments: [{ type: 'Literal', value: './lazy' }] };
+    mockVisit.mockImplementation((_node: any, cb: any) => cb(call));
+    const relations = extractImports(fakeAst([]), FILE, undefined, mockResolveImport);
+
+    expect(relations).toHaveLength(1);
+    expect(JSON.parse(relations[0]!.metaJson!)).toEqual({ isRequire: true });
+  });
+
+  // CommonJS — module.exports = require()
+  it('should produce a re-export relation when module.exports is assigned a require() call', () => {
+    const ast = fakeAst([
+      {
+        type: 'ExpressionStatement',
+        expression: {
+          type: 'AssignmentExpression',
+          operator: '=',
+          left: {
+            type: 'MemberExpression',
+            computed: false,
+            object: { type: 'Identifier', name: 'module' },
+            property: { type: 'Identifier', name: 'exports' },
+          },
+          right: { type: 'CallExpression', callee: { type: 'Identifier', name: 'require' }, arguments: [{ type: 'Literal', value: './impl' }] },
+        },
+      },
+    ]);
+    const relations = extractImports(ast, FILE, undefined, mockResolveImport);
+
+    expect(relations).toHaveLength(1);
+    expect(JSON.parse(relations[0]!.metaJson!)).toEqual({ isReExport: true, isRequire: true });
+  });
+  // Assets
+  it('should record assetKind in metaJson when the import target is a non-code file', () => {
+    mockResolveImport.mockReturnValueOnce(['/project/src/styles.css']).mockReturnValueOnce(['/project/src/data.json']);
+    const ast = fakeAst([
+      { type: 'ImportDeclaration', source: { value: './styles.css' }, importKind: 'value', specifiers: [] },
+      {
+        type: 'ImportDeclaration',
+        source: { value: './data.json' },
+        importKind: 'value',
+        specifiers: [{ type: 'ImportDefaultSpecifier', local: { name: 'data' } }],
+      },
+    ]);
+    const relations = extractImports(ast, FILE, undefined, mockResolveImport);
+
+    expect(relations.map((r) => JSON.parse(r.metaJson ?? '{}').assetKind)).toEqual(['style', 'json']);
+  });
+
+  it('should record assetKind when the local binding of an asset import is named assetKind', () => {
+    mockResolveImport.mockReturnValueOnce(['/project/src/theme.css']);
+    const ast = fakeAst([
+      {
+        type: 'ImportDeclaration',
+        source: { value: './theme.css' },
+        importKind: 'value',
+        specifiers: [{ type: 'ImportDefaultSpecifier', local: { name: 'assetKind' } }],
+      },
+    ]);
+    const relations = extractImports(ast, FILE, undefined, mockResolveImport);
+
+    expect(JSON.parse(relations[0]!.metaJson!)).toEqual({ localName: 'assetKind', isDefault: true, assetKind: 'style' });
+  });
+
+  it('should produce a worker relation when new Worker receives new URL with import.meta.url', () => {
+    const url = {
+      type: 'NewExpression',
+      callee: { type: 'Identifier', name: 'URL' },
+      arguments: [
+        { type: 'Literal', value: './worker.ts' },
+        {
+          type: 'MemberExpression',
+          object: { type: 'MetaProperty', meta: { name: 'import' }, property: { name: 'meta' } },
+          property: { name: 'url' },
+        },
+      ],
+    };
+    const worker = { type: 'NewExpression', callee: { type: 'Identifier', name: 'Worker' }, arguments: [url] };
+    mockVisit.mockImplementation((_node: any, cb: any) => {
+      cb(worker);
+      cb(url);
+    });
+    const relations = extractImports(fakeAst([]), FILE, undefined, mockResolveImport);
+
+    expect(relations).toHaveLength(1);
+    expect(JSON.parse(relations[0]!.metaJson!)).toEqual({ assetKind: 'worker' });
+    expect(mockResolveImport).toHaveBeenCalledWith(FILE, './worker.ts', undefined);
+  });
+
+  it('should classify new URL references by target extension when they are not workers', () => {
+    mockResolveImport.mockReturnValue(['/project/src/logo.png']);
+    const url = {
+      type: 'NewExpression',
+      callee: { type: 'Identifier', name: 'URL' },
+      arguments: [
+        { type: 'Literal', value: './logo.png' },
+        {
+          type: 'MemberExpression',
+          object: { type: 'MetaProperty', meta: { name: 'import' }, property: { name: 'meta' } },
+          property: { name: 'url' },
+        },
+      ],
+    };
+    mockVisit.mockImplementation((_node: any, cb: any) => cb(url));
+    const relations = extractImports(fakeAst([]), FILE, undefined, mockResolveImport);
+
+    expect(JSON.parse(relations[0]!.metaJson!)).toEqual({ assetKind: 'image' });
+  });
+
+  it('should ignore new URL when the base is not import.meta.url', () => {
+    const url = {
+      type: 'NewExpression',
+      callee: { type: 'Identifier', name: 'URL' },
+      arguments: [{ type: 'Literal', value: './page' }, { type: 'Identifier', name: 'base' }],
+    };
+    mockVisit.mockImplementation((_node: any, cb: any) => cb(url));
+
+    expect(extractImports(fakeAst([]), FILE, undefined, mockResolveImport)).toHaveLength(0);
   });
 });
@@ -1,17 +1,60 @@
 import type { Program } from 'oxc-parser';
 import type { TsconfigPaths } from '../common/tsconfig-resolver';
-import type { CodeRelation } from './types';
-import { resolveImport } from './extractor-utils';
+import type { AssetKind, CodeRelation } from './types';
+import { isLocalSpecifier, resolveExistingImport } from './extractor-utils';
+import { isBuiltinModule, splitPackageSpecifier } from '../common/package-resolver';
 import { visit, getStringLiteralValue } from '../parser/ast-utils';
+import { getRequireBindings, getRequireSpecifier, isModuleExports } from './commonjs';
+import { getAssetKind } from './assets';
+
+/** Worker constructors whose script argument is a module reference. */
+const WORKER_CONSTRUCTORS = new Set(['Worker', 'SharedWorker']);
+
+/** Absolute URLs (`https://…`, `data:…`) are not module references. */
+const URL_SCHEME_RE = /^[a-z][a-z0-9+.-]*:\/\//i;
+
+/** Where an import specifier points: an existing file, an npm package, or nowhere. */
+interface ImportTarget {
+  type: 'imports' | 'external' | 'unresolved';
+  dstFilePath: string;
+  /** Merged into the relation's metaJson (package subpath of an external import). */
+  meta?: Record<string, unknown>;
+  /** Kind of a non-code target, recorded as `metaJson.assetKind`. */
+  assetKind?: AssetKind;
+}
+
+/** `new URL('./x', import.meta.url)` → `'./x'`; anything else → null. */
+function getModuleUrlSpecifier(node: any): string | null {
+  if (node?.type !== 'NewExpression' || node.callee?.type !== 'Identifier' || node.callee.name !== 'URL') return null;
+  const [specifier, base] = node.arguments ?? [];
+  const isImportMetaUrl =
+    base?.type === 'MemberExpression' &&
+    base.object?.type === 'MetaProperty' &&
+    base.object.meta?.name === 'import' &&
+    base.property?.name === 'url';
+  return isImportMetaUrl && specifier?.type === 'Literal' && typeof specifier.value === 'string' ? specifier.value : null;
+}
 
 /**
  * Extracts all import/re-export relations from the AST.
- * Two passes: top-level statements + dynamic import() expressions.
+ * Two passes: top-level statements + dynamic import() / require() expressions.
+ * Static imports and named re-exports yield one relation per specifier, with the
+ * imported name in `dstSymbolName`; side-effect imports and `export *` stay module-level.
+ * CommonJS is handled alike: `import x = require()` and `const x = require()` bind the
+ * whole module, destructured requires bind one name each (`metaJson.isRequire`), and
+ * `module.exports = require()` is a re-export of the whole module.
+ * Non-code targets (JSON, stylesheets, images, …) carry `metaJson.assetKind`, and so do
+ * `new URL('./x', import.meta.url)` references (`worker` inside `new Worker(…)`).
+ *
+ * Specifiers that resolve to no existing file are kept rather than dropped (builtin modules aside): package imports
+ * become `external` relations (`dstFilePath` = package name, `metaJson.subpath` = exports
+ * subpath) and local ones (relative paths, `#imports`, tsconfig aliases) become `unresolved`
+ * relations whose `dstFilePath` is the specifier as written.
  *
  * @param ast              - The parsed Program AST.
  * @param filePath         - File path of the source file (used as srcFilePath).
  * @param tsconfigPaths    - Optional tsconfig paths for alias resolution.
- * @param resolveImportFn  - Resolver function (DI seam, defaults to resolveImport).
+ * @param resolveImportFn  - Resolver function (DI seam, defaults to resolveExistingImport).
  */
 export function extractImports(
   ast: Program,
@@ -21,84 +64,200 @@ export function extractImports(
     currentFilePath: string,
     importPath: string,
     tsconfigPaths?: TsconfigPaths,
-  ) => string[] = resolveImport,
+  ) => string[] = resolveExistingImport,
 ): CodeRelation[] {
   const relations: CodeRelation[] = [];
+  /** `require()` calls already recorded with their bindings in pass 1. */
+  const boundRequires = new Set<any>();
+
+  function resolveTarget(specifier: string): ImportTarget | null {
+    if (URL_SCHEME_RE.test(specifier)) return null;
+    const candidates = resolveImportFn(filePath, specifier, tsconfigPaths);
+    if (candidates.length > 0) return withAssetKind({ type: 'imports', dstFilePath: candidates[0]! });
+    // node:fs, bun:sqlite, path — runtime modules are neither packages nor project files
+    if (isBuiltinModule(specifier)) return null;
+
+    const pkg = isLocalSpecifier(specifier, tsconfigPaths) ? null : splitPackageSpecifier(specifier);
+    if (pkg) return withAssetKind({ type: 'external', dstFilePath: pkg.name, meta: { subpath: pkg.subpath } });
+    return withAssetKind({ type: 'unresolved', dstFilePath: specifier });
+  }
+
+  function withAssetKind(target: ImportTarget): ImportTarget {
+    const assetKind = getAssetKind(target.dstFilePath);
+    return assetKind ? { ...target, assetKind } : target;
+  }
+
+  /** An explicit `meta.assetKind` (`worker`, `url`) takes precedence over the target's. */
+  function addRelation(target: ImportTarget, dstSymbolName: string | null, meta?: Record<string, unknown>): void {
+    const assetKind = meta?.assetKind ?? target.assetKind;
+    const merged = target.meta || assetKind ? { ...meta, ...(assetKind ? { assetKind } : {}), ...target.meta } : meta;
+    relations.push({
+      type: target.type,
+      srcFilePath: filePath,
+      srcSymbolName: null,
+      dstFilePath: target.dstFilePath,
+      dstSymbolName,
+      ...(merged ? { metaJson: JSON.stringify(merged) } : {}),
+    });
+  }
 
   // Pass 1 — top-level statements
   for (const node of (ast as any).body ?? []) {
+    // import x = require('./x')
+    if (node.type === 'TSImportEqualsDeclaration' && node.moduleReference?.type === 'TSExternalModuleReference') {
+      const target = resolveTarget(node.moduleReference.expression?.value ?? '');
+      if (!target) continue;
+
+      const meta: Record<string, unknown> = { localName: node.id?.name, isNamespace: true, isRequire: true };
+      if (node.importKind === 'type') meta.isType = true;
+      addRelation(target, null, meta);
+      continue;
+    }
+
+    // const x = require('./x') / const { a, b: c } = require('./x')
+    if (node.type === 'VariableDeclaration') {
+      for (const decl of node.declarations ?? []) {
+        const required = getRequireBindings(decl);
+        if (!required || required.bindings.length === 0) continue;
+        boundRequires.add(required.call);
+        const target = resolveTarget(required.specifier);
+        if (!target) continue;
+
+        for (const binding of required.bindings) {
+          const isWholeModule = binding.importedName === '*';
+          const meta: Record<string, unknown> = { localName: binding.localName };
+          if (isWholeModule) meta.isNamespace = true;
+          meta.isRequire = true;
+          addRelation(target, isWholeModule ? null : binding.importedName, meta);
+        }
+      }
+      continue;
+    }
+
+    // module.exports = require('./x')
+    if (
+      node.type === 'ExpressionStatement' &&
+      node.expression?.type === 'AssignmentExpression' &&
+      isModuleExports(node.expression.left)
+    ) {
+      const specifier = getRequireSpecifier(node.expression.right);
+      if (specifier === null) continue;
+      boundRequires.add(node.expression.right);
+      const target = resolveTarget(specifier);
+      if (target) addRelation(target, null, { isReExport: true, isRequire: true });
+      continue;
+    }
+
     if (node.type === 'ImportDeclaration') {
-      const sourcePath: string = node.source?.value ?? '';
-      const candidates = resolveImportFn(filePath, sourcePath, tsconfigPaths);
-      if (candidates.length === 0) continue;
-      const resolved = candidates[0];
+      const target = resolveTarget(node.source?.value ?? '');
+      if (!target) continue;
 
       const isType = node.importKind === 'type';
-      relations.push({
-        type: 'imports',
-        srcFilePath: filePath,
-        srcSymbolName: null,
-        dstFilePath: resolved,
-        dstSymbolName: null,
-        ...(isType ? { metaJson: JSON.stringify({ isType: true }) } : {}),
-      });
+      const specifiers: any[] = node.specifiers ?? [];
+
+      // Side-effect import (`import './x'`) — module-level relation only.
+      if (specifiers.length === 0) {
+        addRelation(target, null, isType ? { isType: true } : undefined);
+        continue;
+      }
+
+      // One relation per specifier, carrying the local alias and import flavour.
+      for (const spec of specifiers) {
+        const meta: Record<string, unknown> = { localName: spec.local?.name };
+        let dstSymbolName: string | null;
+        if (spec.type === 'ImportDefaultSpecifier') {
+          dstSymbolName = 'default';
+          meta.isDefault = true;
+        } else if (spec.type === 'ImportNamespaceSpecifier') {
+          dstSymbolName = null;
+          meta.isNamespace = true;
+        } else {
+          dstSymbolName = spec.imported?.name ?? spec.imported?.value ?? spec.local?.name ?? null;
+        }
+        if (isType || spec.importKind === 'type') meta.isType = true;
+
+        addRelation(target, dstSymbolName, meta);
+      }
       continue;
     }
 
     if (node.type === 'ExportAllDeclaration' && node.source) {
-      const sourcePath: string = node.source?.value ?? '';
-      const candidates = resolveImportFn(filePath, sourcePath, tsconfigPaths);
-      if (candidates.length === 0) continue;
-      const resolved = candidates[0];
+      const target = resolveTarget(node.source?.value ?? '');
+      if (!target) continue;
 
       const isType = node.exportKind === 'type';
       const meta: Record<string, unknown> = { isReExport: true };
       if (isType) meta.isType = true;
-      relations.push({
-        type: 'imports',
-        srcFilePath: filePath,
-        srcSymbolName: null,
-        dstFilePath: resolved,
-        dstSymbolName: null,
-        metaJson: JSON.stringify(meta),
-      });
+      // `export * as ns from '...'` — record the namespace's public name.
+      const namespace = node.exported?.name ?? node.exported?.value;
+      if (typeof namespace === 'string') meta.namespace = namespace;
+      addRelation(target, null, meta);
       continue;
     }
 
     if (node.type === 'ExportNamedDeclaration' && node.source) {
-      const sourcePath: string = node.source?.value ?? '';
-      const candidates = resolveImportFn(filePath, sourcePath, tsconfigPaths);
-      if (candidates.length === 0) continue;
-      const resolved = candidates[0];
-
-      relations.push({
-        type: 'imports',
-        srcFilePath: filePath,
-        srcSymbolName: null,
-        dstFilePath: resolved,
-        dstSymbolName: null,
-        metaJson: JSON.stringify({ isReExport: true }),
-      });
+      const target = resolveTarget(node.source?.value ?? '');
+      if (!target) continue;
+
+      const isType = node.exportKind === 'type';
+      const specifiers: any[] = node.specifiers ?? [];
+      if (specifiers.length === 0) {
+        addRelation(target, null, { isReExport: true });
+        continue;
+      }
+
+      // `export { a, b as c } from '...'` — one relation per re-exported name.
+      for (const spec of specifiers) {
+        const importedName: string | null = spec.local?.name ?? spec.local?.value ?? null;
+        const exportedName: string | null = spec.exported?.name ?? spec.exported?.value ?? importedName;
+        const meta: Record<string, unknown> = { isReExport: true };
+        if (exportedName !== importedName) meta.exportedName = exportedName;
+        if (isType || spec.exportKind === 'type') meta.isType = true;
+
+        addRelation(target, importedName, meta);
+      }
     }
   }
 
-  // Pass 2 — deep traversal for dynamic import()
+  /** `new URL()` nodes already recorded as the script of a worker. */
+  const workerUrls = new Set<any>();
+
+  // Pass 2 — deep traversal for dynamic import(), remaining require() calls and new URL()
   visit(ast as any, (node) => {
+    if (node.type === 'NewExpression') {
+      // new Worker(new URL('./w.ts', import.meta.url)) / new Worker('./w.js') / new URL('./logo.svg', import.meta.url)
+      const callee = node.callee as any;
+      const arg = (node.arguments as any[] | undefined)?.[0];
+      let specifier: string | null = null;
+      let assetKind: AssetKind | null = null;
+      if (callee?.type === 'Identifier' && WORKER_CONSTRUCTORS.has(callee.name)) {
+        specifier = getModuleUrlSpecifier(arg) ?? (arg?.type === 'Literal' && typeof arg.value === 'string' ? arg.value : null);
+        if (specifier !== null) workerUrls.add(arg);
+        assetKind = 'worker';
+      } else if (!workerUrls.has(node)) {
+        specifier = getModuleUrlSpecifier(node);
+      }
+      if (specifier === null) return;
+      const target = resolveTarget(specifier);
+      if (!target) return;
+      addRelation(target, null, { assetKind: assetKind ?? target.assetKind ?? 'url' });
+      return;
+    }
+
+    if (node.type === 'CallExpression') {
+      if (boundRequires.has(node)) return;
+      const specifier = getRequireSpecifier(node);
+      if (specifier === null) return;
+      const target = resolveTarget(specifier);
+      if (target) addRelation(target, null, { isRequire: true });
+      return;
+    }
+
     if (node.type !== 'ImportExpression') return;
     const sourceValue = getStringLiteralValue(node.source);
     if (!sourceValue) return;
-    const candidates = resolveImportFn(filePath, sourceValue, tsconfigPaths);
-    if (candidates.length === 0) return;
-    const resolved = candidates[0];
-
-    relations.push({
-      type: 'imports',
-      srcFilePath: filePath,
-      srcSymbolName: null,
-      dstFilePath: resolved,
-      dstSymbolName: null,
-      metaJson: JSON.stringify({ isDynamic: true }),
-    });
+    const target = resolveTarget(sourceValue);
+    if (target) addRelation(target, null, { isDynamic: true });
   });
 
   return relations;
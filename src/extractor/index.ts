@@ -3,7 +3,9 @@ export { extractRelations } from './relation-extractor';
 export { extractImports } from './imports-extractor';
 export { extractCalls } from './calls-extractor';
 export { extractHeritage } from './heritage-extractor';
-export { resolveImport, buildImportMap } from './extractor-utils';
+export { extractTypeReferences } from './type-references-extractor';
+export { extractRenders } from './renders-extractor';
+export { resolveImport, resolveExistingImport, buildImportMap } from './extractor-utils';
 export type {
   ExtractedSymbol,
   SymbolKind,
@@ -16,4 +18,5 @@ export type {
   JsDocTag,
   ImportReference,
   QualifiedName,
+  AssetKind,
 } from './types';
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'bun:test';
+import { parseSync } from 'oxc-parser';
+import { getComponentFunction, getJsxElementName, isComponentClass, isComponentName, returnsJsx } from './jsx';
+
+function parse(source: string, filePath = '/project/src/App.tsx'): any[] {
+  const { program } = parseSync(filePath, source);
+  return (program as any).body;
+}
+
+function init(source: string): any {
+  return parse(source)[0].declarations[0].init;
+}
+
+describe('isComponentName', () => {
+  it('should return true when the name starts with an uppercase letter', () => {
+    expect(isComponentName('Button')).toBe(true);
+    expect(isComponentName('div')).toBe(false);
+    expect(isComponentName(undefined)).toBe(false);
+  });
+});
+
+describe('returnsJsx', () => {
+  it('should return true when an arrow function has a JSX expression body', () => {
+    expect(returnsJsx(init(`const A = () => <div />;`))).toBe(true);
+    expect(returnsJsx(init(`const A = () => (cond ? <a /> : null);`))).toBe(true);
+  });
+
+  it('should return true when a block body returns JSX from a nested statement', () => {
+    const fn = parse(`function A(p) { if (p.x) { return <>x</>; } return null; }`)[0];
+
+    expect(returnsJsx(fn)).toBe(true);
+  });
+
+  it('should return false when only a nested function returns JSX', () => {
+    const fn = parse(`function a() { const render = () => <div />; return render; }`)[0];
+
+    expect(returnsJsx(fn)).toBe(false);
+  });
+});
+
+describe('isComponentClass', () => {
+  it('should return true when the class extends Component directly or through a namespace', () => {
+    expect(isComponentClass(parse(`class A extends Component {}`)[0])).toBe(true);
+    expect(isComponentClass(parse(`class A extends React.PureComponent {}`)[0])).toBe(true);
+    expect(isComponentClass(parse(`class A extends Base {}`)[0])).toBe(false);
+  });
+});
+
+describe('getComponentFunction', () => {
+  it('should unwrap memo and forwardRef when the initializer wraps a JSX-returning function', () => {
+    expect(getComponentFunction(init(`const A = memo(() => <div />);`))?.type).toBe('ArrowFunctionExpression');
+    expect(getComponentFunction(init(`const A = React.forwardRef(function A() { return <div />; });`))?.type).toBe(
+      'FunctionExpression',
+    );
+  });
+
+  it('should return null when the initializer is an unrelated call or a non-JSX function', () => {
+    expect(getComponentFunction(init(`const A = create(() => <div />);`))).toBeNull();
+    expect(getComponentFunction(init(`const A = () => 1;`))).toBeNull();
+  });
+});
+
+describe('getJsxElementName', () => {
+  it('should return the qualified name when the tag is a member expression', () => {
+    const element = parse(`<UI.Forms.Input />;`)[0].expression;
+
+    expect(getJsxElementName(element.openingElement.name)).toEqual({
+      root: 'UI',
+      parts: ['Forms', 'Input'],
+      full: 'UI.Forms.Input',
+    });
+  });
+
+  it('should return null when the tag is a namespaced name', () => {
+    const element = parse(`<svg:rect />;`)[0].expression;
+
+    expect(getJsxElementName(element.openingElement.name)).toBeNull();
+  });
+});
@@ -0,0 +1,108 @@
+// ── Types ─────────────────────────────────────────────────────────────────
+
+export interface JsxElementName {
+  /** Leftmost identifier (`UI` in `<UI.Button />`). */
+  root: string;
+  /** Subsequent member names (`['Button']`). */
+  parts: string[];
+  /** Joined (`UI.Button`). */
+  full: string;
+}
+
+/** Base classes that make a class a component when extended, bare or through a namespace. */
+const COMPONENT_BASE_CLASSES = new Set(['Component', 'PureComponent']);
+
+/** Wrappers whose first argument is the component function (`memo(() => …)`). */
+const COMPONENT_WRAPPERS = new Set(['memo', 'forwardRef']);
+
+const FUNCTION_TYPES = new Set(['FunctionDeclaration', 'FunctionExpression', 'ArrowFunctionExpression']);
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+/** PascalCase names are components; lowercase JSX tags are intrinsic elements. */
+export function isComponentName(name: string | undefined | null): boolean {
+  return !!name && /^[A-Z]/.test(name);
+}
+
+function isJsx(expr: any): boolean {
+  switch (expr?.type) {
+    case 'JSXElement':
+    case 'JSXFragment':
+      return true;
+    case 'ParenthesizedExpression':
+    case 'TSAsExpression':
+    case 'TSSatisfiesExpression':
+    case 'TSNonNullExpression':
+      return isJsx(expr.expression);
+    case 'ConditionalExpression':
+      return isJsx(expr.consequent) || isJsx(expr.alternate);
+    case 'LogicalExpression':
+      return isJsx(expr.left) || isJsx(expr.right);
+    default:
+      return false;
+  }
+}
+
+/** Whether some `return` of `node` (nested functions and classes excluded) yields JSX. */
+function hasJsxReturn(node: any): boolean {
+  if (!node || typeof node !== 'object') return false;
+  if (Array.isArray(node)) return node.some(hasJsxReturn);
+  if (FUNCTION_TYPES.has(node.type) || node.type === 'ClassDeclaration' || node.type === 'ClassExpression') {
+    return false;
+  }
+  if (node.type === 'ReturnStatement') return isJsx(node.argument);
+
+  for (const key of Object.keys(node)) {
+    if (key === 'start' || key === 'end') continue;
+    const child = node[key];
+    if (child && typeof child === 'object' && hasJsxReturn(child)) return true;
+  }
+  return false;
+}
+
+/** Whether a function node returns JSX: an expression body that is JSX, or a `return <…/>`. */
+export function returnsJsx(fn: any): boolean {
+  if (!FUNCTION_TYPES.has(fn?.type)) return false;
+  if (fn.body?.type !== 'BlockStatement') return isJsx(fn.body);
+  return hasJsxReturn(fn.body.body);
+}
+
+/** Whether a class extends `Component` / `PureComponent` (bare or as `React.Component`). */
+export function isComponentClass(cls: any): boolean {
+  const superClass = cls?.superClass;
+  if (superClass?.type === 'Identifier') return COMPONENT_BASE_CLASSES.has(superClass.name);
+  if (superClass?.type === 'MemberExpression' && !superClass.computed) {
+    return COMPONENT_BASE_CLASSES.has(superClass.property?.name);
+  }
+  return false;
+}
+
+/**
+ * The component function behind a variable initializer: the function itself, or the first
+ * argument of a `memo(…)` / `forwardRef(…)` wrapper (also as `React.memo(…)`), when it returns JSX.
+ *
+ * @returns The function node, or null when the initializer is not a function component.
+ */
+export function getComponentFunction(init: any): any | null {
+  if (init?.type === 'CallExpression') {
+    const callee = init.callee;
+    const calleeName = callee?.type === 'MemberExpression' ? callee.property?.name : callee?.name;
+    if (!COMPONENT_WRAPPERS.has(calleeName)) return null;
+    return getComponentFunction(init.arguments?.[0]);
+  }
+  return returnsJsx(init) ? init : null;
+}
+
+/** `<Button>` → `Button`, `<UI.Button>` → `UI.Button`; namespaced and `this.*` tags → null. */
+export function getJsxElementName(nameNode: any): JsxElementName | null {
+  if (nameNode?.type === 'JSXIdentifier' || nameNode?.type === 'Identifier') {
+    return { root: nameNode.name, parts: [], full: nameNode.name };
+  }
+  if (nameNode?.type === 'JSXMemberExpression') {
+    const object = getJsxElementName(nameNode.object);
+    const property: string | undefined = nameNode.property?.name;
+    if (!object || !property) return null;
+    return { root: object.root, parts: [...object.parts, property], full: `${object.full}.${property}` };
+  }
+  return null;
+}
@@ -3,14 +3,19 @@ import type { CodeRelation } from './types';
 
 // ── Mock declarations ──────────────────────────────────────
 const mockBuildImportMap = mock(() => new Map());
+const mockResolveExistingImport = mock((..._args: any[]) => [] as string[]);
 const mockExtractImports = mock((): CodeRelation[] => []);
 const mockExtractCalls = mock((): CodeRelation[] => []);
 const mockExtractHeritage = mock((): CodeRelation[] => []);
+const mockExtractTypeReferences = mock((): CodeRelation[] => []);
+const mockExtractRenders = mock((): CodeRelation[] => []);
 
-mock.module('./extractor-utils', () => ({ buildImportMap: mockBuildImportMap }));
+mock.module('./extractor-utils', () => ({ buildImportMap: mockBuildImportMap, resolveExistingImport: mockResolveExistingImport }));
 mock.module('./imports-extractor', () => ({ extractImports: mockExtractImports }));
 mock.module('./calls-extractor', () => ({ extractCalls: mockExtractCalls }));
 mock.module('./heritage-extractor', () => ({ extractHeritage: mockExtractHeritage }));
+mock.module('./type-references-extractor', () => ({ extractTypeReferences: mockExtractTypeReferences }));
+mock.module('./renders-extractor', () => ({ extractRenders: mockExtractRenders }));
 
 import { extractRelations } from './relation-extractor';
 
@@ -21,19 +26,26 @@ const SENTINEL_MAP = new Map([['__sentinel__', { path: '/__s__', importedName: '
 
 describe('extractRelations', () => {
   beforeEach(() => {
-    mock.module('./extractor-utils', () => ({ buildImportMap: mockBuildImportMap }));
+    mock.module('./extractor-utils', () => ({ buildImportMap: mockBuildImportMap, resolveExistingImport: mockResolveExistingImport }));
     mock.module('./imports-extractor', () => ({ extractImports: mockExtractImports }));
     mock.module('./calls-extractor', () => ({ extractCalls: mockExtractCalls }));
     mock.module('./heritage-extractor', () => ({ extractHeritage: mockExtractHeritage }));
+    mock.module('./type-references-extractor', () => ({ extractTypeReferences: mockExtractTypeReferences }));
+    mock.module('./renders-extractor', () => ({ extractRenders: mockExtractRenders }));
     mockBuildImportMap.mockClear();
+    mockResolveExistingImport.mockClear();
     mockExtractImports.mockClear();
     mockExtractCalls.mockClear();
     mockExtractHeritage.mockClear();
+    mockExtractTypeReferences.mockClear();
+    mockExtractRenders.mockClear();
 
     mockBuildImportMap.mockReturnValue(SENTINEL_MAP);
     mockExtractImports.mockReturnValue([]);
     mockExtractCalls.mockReturnValue([]);
     mockExtractHeritage.mockReturnValue([]);
+    mockExtractTypeReferences.mockReturnValue([]);
+    mockExtractRenders.mockReturnValue([]);
   });
 
   // HP — merges all extractors
@@ -64,6 +76,25 @@ describe('extractRelations', () => {
     expect(relations.some((r) => r.type === 'calls')).toBe(true);
   });
 
+  it('should include references relations in the merged result when source uses imported types', () => {
+    mockExtractTypeReferences.mockReturnValue([
+      { type: 'references', srcFilePath: FILE, srcSymbolName: 'load', dstFilePath: '/project/src/types.ts', dstSymbolName: 'SymbolRecord' },
+    ]);
+
+    const relations = extractRelations(FAKE_AST, FILE);
+    expect(relations.some((r) => r.type === 'references')).toBe(true);
+  });
+
+  it('should include renders relations in the merged result when source renders components', () => {
+    mockExtractRenders.mockReturnValue([
+      { type: 'renders', srcFilePath: FILE, srcSymbolName: 'App', dstFilePath: '/project/src/Button.tsx', dstSymbolName: 'Button' },
+    ]);
+
+    const relations = extractRelations(FAKE_AST, FILE);
+    expect(relations.some((r) => r.type === 'renders')).toBe(true);
+    expect(mockExtractRenders).toHaveBeenCalledWith(FAKE_AST, FILE, SENTINEL_MAP);
+  });
+
   it('should return empty array when source is empty', () => {
     expect(extractRelations(FAKE_AST, FILE)).toEqual([]);
   });
@@ -84,14 +115,52 @@ describe('extractRelations', () => {
 
     const relations = extractRelations(FAKE_AST, FILE, tsconfigPaths);
 
-    expect(mockBuildImportMap).toHaveBeenCalledWith(FAKE_AST, FILE, tsconfigPaths);
-    expect(mockExtractImports).toHaveBeenCalledWith(FAKE_AST, FILE, tsconfigPaths);
-    expect(mockExtractCalls).toHaveBeenCalledWith(FAKE_AST, FILE, SENTINEL_MAP);
-    expect(mockExtractHeritage).toHaveBeenCalledWith(FAKE_AST, FILE, SENTINEL_MAP);
+    expect(mockBuildImportMap).toHaveBeenCalledWith(FAKE_AST, FILE, tsconfigPaths, expect.any(Function));
+    expect(mockExtractImports).toHaveBeenCalledWith(FAKE_AST, FILE, tsconfigPaths, expect.any(Function));
+    expect(mockExtractCalls).toHaveBeenCalledWith(FAKE_AST, FILE, SENTINEL_MAP, undefined);
+    expect(mockExtractHeritage).toHaveBeenCalledWith(FAKE_AST, FILE, SENTINEL_MAP, undefined);
+    expect(mockExtractTypeReferences).toHaveBeenCalledWith(FAKE_AST, FILE, SENTINEL_MAP, undefined);
     const rel = relations.find((r) => r.type === 'imports');
     expect(rel?.dstFilePath).toContain('utils/format');
   });
 
+  // workspacePackages forwarding
+  it('should pass workspace packages to the import resolver when workspacePackages is provided', () => {
+    const packages = [{ name: '@acme/core', dir: '/project/packages/core', manifest: {} }];
+
+    extractRelations(FAKE_AST, FILE, undefined, packages);
+    const resolveFn = (mockExtractImports.mock.calls[0] as any[])[3] as (...args: any[]) => string[];
+    resolveFn(FILE, '@acme/core', undefined);
+
+    expect(mockResolveExistingImport).toHaveBeenCalledWith(FILE, '@acme/core', undefined, packages, undefined);
+  });
+
+  it('should pass the existence check to the import resolver when fileExistsFn is provided', () => {
+    const fileExistsFn = (_p: string) => true;
+
+    extractRelations(FAKE_AST, FILE, undefined, undefined, fileExistsFn);
+    const resolveFn = (mockExtractImports.mock.calls[0] as any[])[3] as (...args: any[]) => string[];
+    resolveFn(FILE, './utils', undefined);
+
+    expect(mockResolveExistingImport).toHaveBeenCalledWith(FILE, './utils', undefined, undefined, fileExistsFn);
+  });
+
+  it('should pass the source text to the calls, heritage and type reference extractors when sourceText is provided', () => {
+    extractRelations(FAKE_AST, FILE, undefined, undefined, undefined, 'class C {}');
+
+    expect(mockExtractCalls).toHaveBeenCalledWith(FAKE_AST, FILE, SENTINEL_MAP, 'class C {}');
+    expect(mockExtractHeritage).toHaveBeenCalledWith(FAKE_AST, FILE, SENTINEL_MAP, 'class C {}');
+    expect(mockExtractTypeReferences).toHaveBeenCalledWith(FAKE_AST, FILE, SENTINEL_MAP, 'class C {}');
+  });
+
+  it('should share one resolver between buildImportMap and extractImports when extracting relations', () => {
+    extractRelations(FAKE_AST, FILE);
+
+    const mapResolver = (mockBuildImportMap.mock.calls[0] as any[])[3];
+    const importsResolver = (mockExtractImports.mock.calls[0] as any[])[3];
+    expect(mapResolver).toBe(importsResolver);
+  });
+
   // ID
   it('should return identical relations when called repeatedly with the same AST', () => {
     mockExtractImports.mockReturnValue([
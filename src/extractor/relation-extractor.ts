@@ -1,30 +1,44 @@
 import type { Program } from 'oxc-parser';
 import type { TsconfigPaths } from '../common/tsconfig-resolver';
+import type { WorkspacePackage } from '../common/package-resolver';
 import type { CodeRelation } from './types';
-import { buildImportMap } from './extractor-utils';
+import { buildImportMap, resolveExistingImport } from './extractor-utils';
 import { extractImports } from './imports-extractor';
 import { extractCalls } from './calls-extractor';
 import { extractHeritage } from './heritage-extractor';
+import { extractTypeReferences } from './type-references-extractor';
+import { extractRenders } from './renders-extractor';
 
 /**
  * Orchestrates all sub-extractors and merges their CodeRelation results.
  * Pure function.
  *
- * @param ast           - The parsed Program AST.
- * @param filePath      - Absolute path of the source file.
- * @param tsconfigPaths - Optional tsconfig paths for alias resolution.
+ * @param ast               - The parsed Program AST.
+ * @param filePath          - Absolute path of the source file.
+ * @param tsconfigPaths     - Optional tsconfig paths for alias resolution.
+ * @param workspacePackages - Optional workspace packages for cross-package imports.
+ * @param fileExistsFn      - Existence check used to resolve imports (defaults to the disk).
+ * @param sourceText        - Source of `ast`, used to name methods with computed keys.
  * @returns Merged array of all code relations from all sub-extractors.
  */
 export function extractRelations(
   ast: Program,
   filePath: string,
   tsconfigPaths?: TsconfigPaths,
+  workspacePackages?: readonly WorkspacePackage[],
+  fileExistsFn?: (filePath: string) => boolean,
+  sourceText?: string,
 ): CodeRelation[] {
-  const importMap = buildImportMap(ast, filePath, tsconfigPaths);
+  const resolveImportFn = (currentFilePath: string, importPath: string, paths?: TsconfigPaths) =>
+    resolveExistingImport(currentFilePath, importPath, paths, workspacePackages, fileExistsFn);
 
-  const imports = extractImports(ast, filePath, tsconfigPaths);
-  const calls = extractCalls(ast, filePath, importMap);
-  const heritage = extractHeritage(ast, filePath, importMap);
+  const importMap = buildImportMap(ast, filePath, tsconfigPaths, resolveImportFn);
 
-  return [...imports, ...calls, ...heritage];
+  const imports = extractImports(ast, filePath, tsconfigPaths, resolveImportFn);
+  const calls = extractCalls(ast, filePath, importMap, sourceText);
+  const heritage = extractHeritage(ast, filePath, importMap, sourceText);
+  const typeReferences = extractTypeReferences(ast, filePath, importMap, sourceText);
+  const renders = extractRenders(ast, filePath, importMap);
+
+  return [...imports, ...calls, ...heritage, ...typeReferences, ...renders];
 }
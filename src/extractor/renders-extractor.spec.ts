@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'bun:test';
+import { parseSync } from 'oxc-parser';
+import type { ImportReference } from './types';
+import { extractRenders } from './renders-extractor';
+
+const FILE = '/project/src/App.tsx';
+
+function parse(source: string, filePath = FILE) {
+  const { program } = parseSync(filePath, source);
+  return program as any;
+}
+
+function makeImportMap(entries: [string, ImportReference][] = []): Map<string, ImportReference> {
+  return new Map(entries);
+}
+
+function edges(source: string, importMap = makeImportMap(), filePath = FILE): Array<[string | null, string, string | null]> {
+  return extractRenders(parse(source, filePath), filePath, importMap).map((r) => [
+    r.srcSymbolName,
+    r.dstFilePath,
+    r.dstSymbolName,
+  ]);
+}
+
+describe('extractRenders', () => {
+  it('should link a function component to an imported component when it renders it', () => {
+    const importMap = makeImportMap([['Button', { path: '/project/src/Button.tsx', importedName: 'Button' }]]);
+
+    expect(edges(`export function App() { return <div><Button /></div>; }`, importMap)).toEqual([
+      ['App', '/project/src/Button.tsx', 'Button'],
+    ]);
+  });
+
+  it('should resolve to the default export when the component is a default import', () => {
+    const importMap = makeImportMap([['Card', { path: '/project/src/Card.jsx', importedName: 'default' }]]);
+
+    expect(edges(`const Page = () => <Card title="x" />;`, importMap)).toEqual([['Page', '/project/src/Card.jsx', 'default']]);
+  });
+
+  it('should resolve the member name in the imported module when the tag uses a namespace import', () => {
+    const importMap = makeImportMap([['UI', { path: '/project/src/ui.ts', importedName: '*' }]]);
+    const relations = extractRenders(parse(`function App() { return <UI.Button />; }`), FILE, importMap);
+
+    expect(relations[0]).toMatchObject({ dstFilePath: '/project/src/ui.ts', dstSymbolName: 'Button' });
+    expect(JSON.parse(relations[0]!.metaJson!)).toEqual({ isNamespaceImport: true });
+  });
+
+  it('should target the local file when the rendered component is declared in the same module', () => {
+    expect(edges(`function Item() { return <li />; }\nfunction List() { return <ul><Item /><Item /></ul>; }`)).toEqual([
+      ['List', FILE, 'Item'],
+    ]);
+  });
+
+  it('should attribute renders to a class component when its render method returns JSX', () => {
+    expect(edges(`class Panel extends React.Component { render() { return <Header />; } }`)).toEqual([
+      ['Panel', FILE, 'Header'],
+    ]);
+  });
+
+  it('should attribute renders to the variable when the component is wrapped in memo', () => {
+    expect(edges(`const Row = memo(function Row() { return <Cell />; });`)).toEqual([['Row', FILE, 'Cell']]);
+  });
+
+  it('should use a module-level source when JSX appears outside any component', () => {
+    expect(edges(`createRoot(el).render(<App />);`)).toEqual([[null, FILE, 'App']]);
+  });
+
+  it('should skip intrinsic elements when the tag name is lowercase', () => {
+    expect(edges(`function App() { return <main><section /></main>; }`)).toEqual([]);
+  });
+
+  it('should extract renders from .jsx files when the source is plain JavaScript', () => {
+    expect(edges(`export default function Home() { return <Layout />; }`, makeImportMap(), '/project/src/Home.jsx')).toEqual([
+      ['Home', '/project/src/Home.jsx', 'Layout'],
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+import type { Program } from 'oxc-parser';
+import type { ImportReference, CodeRelation } from './types';
+import { getComponentFunction, getJsxElementName, isComponentClass, isComponentName, returnsJsx } from './jsx';
+import type { JsxElementName } from './jsx';
+
+/**
+ * Extracts `renders` relations: component → every `<Component />` it renders.
+ * Components are PascalCase functions returning JSX (optionally wrapped in `memo` / `forwardRef`)
+ * and classes extending `Component`. The source is the innermost enclosing component, or null
+ * (module-level) for JSX outside any component. Intrinsic elements (`<div>`) are skipped and
+ * each source / target pair is reported once.
+ *
+ * @param ast       - The parsed Program AST.
+ * @param filePath  - File path of the source file (used as srcFilePath).
+ * @param importMap - Map from local identifiers to their resolved import references.
+ */
+export function extractRenders(
+  ast: Program,
+  filePath: string,
+  importMap: Map<string, ImportReference>,
+): CodeRelation[] {
+  const relations: CodeRelation[] = [];
+  const seen = new Set<string>();
+  const componentStack: string[] = [];
+
+  function resolveElement(
+    name: JsxElementName,
+  ): { dstFilePath: string; dstSymbolName: string; metaJson?: string } {
+    const ref = importMap.get(name.root);
+    if (ref) {
+      if (ref.importedName === '*' && name.parts.length > 0) {
+        // <UI.Button /> with `import * as UI` → dstFile = UI module, dstSymbol = last part
+        return {
+          dstFilePath: ref.path,
+          dstSymbolName: name.parts[name.parts.length - 1]!,
+          metaJson: JSON.stringify({ isNamespaceImport: true }),
+        };
+      }
+      if (name.parts.length > 0) return { dstFilePath: ref.path, dstSymbolName: name.full };
+      // A whole-module binding (`const Lib = require('./lib')`) renders its `export =` value.
+      return { dstFilePath: ref.path, dstSymbolName: ref.importedName === '*' ? 'default' : ref.importedName };
+    }
+    return { dstFilePath: filePath, dstSymbolName: name.full };
+  }
+
+  function addRender(nameNode: any): void {
+    const name = getJsxElementName(nameNode);
+    if (!name || name.root === 'this') return;
+    if (name.parts.length === 0 && !isComponentName(name.root)) return;
+
+    const srcSymbolName = componentStack.at(-1) ?? null;
+    const dst = resolveElement(name);
+    const key = `${srcSymbolName}\0${dst.dstFilePath}\0${dst.dstSymbolName}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    relations.push({ type: 'renders', srcFilePath: filePath, srcSymbolName, ...dst });
+  }
+
+  function walkComponent(name: string, node: any): void {
+    componentStack.push(name);
+    walk(node);
+    componentStack.pop();
+  }
+
+  function walk(node: any): void {
+    if (!node || typeof node !== 'object') return;
+
+    if (Array.isArray(node)) {
+      for (const item of node) walk(item);
+      return;
+    }
+
+    const type: string = node.type ?? '';
+
+    if (type === 'JSXOpeningElement') {
+      addRender(node.name);
+    } else if (type === 'FunctionDeclaration' && isComponentName(node.id?.name) && returnsJsx(node)) {
+      walkComponent(node.id.name, node.body);
+      return;
+    } else if ((type === 'ClassDeclaration' || type === 'ClassExpression') && node.id?.name && isComponentClass(node)) {
+      walkComponent(node.id.name, node.body);
+      return;
+    } else if (type === 'VariableDeclarator' && node.id?.type === 'Identifier' && isComponentName(node.id.name)) {
+      // const Card = (props) => <div />; const Row = memo(function Row() { … }); const View = class extends Component {}
+      const init = node.init?.type === 'ClassExpression' && isComponentClass(node.init) ? node.init.body : getComponentFunction(node.init);
+      if (init) {
+        walkComponent(node.id.name, init);
+        return;
+      }
+    }
+
+    for (const key of Object.keys(node)) {
+      if (key === 'start' || key === 'end') continue;
+      const child = node[key];
+      if (child && typeof child === 'object') walk(child);
+    }
+  }
+
+  walk(ast);
+  return relations;
+}
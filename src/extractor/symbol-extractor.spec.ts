@@ -244,6 +244,87 @@ describe('extractSymbols', () => {
     expect(def?.isExported).toBe(true);
   });
 
+  // export lists / aliases
+  it('should set isExported true when a local declaration is exported through an export list', () => {
+    const parsed = makeFixture(`function foo() {}\nconst bar = 1;\nexport { foo, bar };`);
+    const symbols = extractSymbols(parsed);
+    expect(symbols.find((s) => s.name === 'foo')?.isExported).toBe(true);
+    expect(symbols.find((s) => s.name === 'bar')?.isExported).toBe(true);
+    expect(symbols.find((s) => s.name === 'foo')?.exportedNames).toBeUndefined();
+  });
+
+  it('should record the alias in exportedNames when a class is exported under another name', () => {
+    const parsed = makeFixture(`class Impl {}\nexport { Impl as Service };`);
+    const cls = extractSymbols(parsed).find((s) => s.name === 'Impl');
+    expect(cls?.isExported).toBe(true);
+    expect(cls?.exportedNames).toEqual(['Service']);
+  });
+
+  it('should keep the declared name and add aliases when a symbol is exported under several names', () => {
+    const parsed = makeFixture(`export function run() {}\nexport { run as start, run as default };`);
+    const fn = extractSymbols(parsed).find((s) => s.name === 'run');
+    expect(fn?.exportedNames).toEqual(['run', 'start', 'default']);
+  });
+
+  it('should link export default identifier to the local symbol when default export references a declaration', () => {
+    const parsed = makeFixture(`const config = { a: 1 };\nexport default config;`);
+    const symbols = extractSymbols(parsed);
+    const cfg = symbols.find((s) => s.name === 'config');
+    expect(cfg?.isExported).toBe(true);
+    expect(cfg?.exportedNames).toEqual(['default']);
+    expect(symbols.find((s) => s.name === 'default')).toBeUndefined();
+  });
+
+  it('should extract exported symbols when values are assigned to exports members', () => {
+    const parsed = makeFixture(`exports.load = function () {};\nmodule.exports.VERSION = '1';`, '/project/src/index.js');
+    const symbols = extractSymbols(parsed);
+    expect(symbols.find((s) => s.name === 'load')).toMatchObject({ kind: 'function', isExported: true });
+    expect(symbols.find((s) => s.name === 'VERSION')).toMatchObject({ kind: 'variable', isExported: true });
+  });
+
+  it('should extract one symbol per property when module.exports is an object literal', () => {
+    const parsed = makeFixture(`module.exports = { run() {}, limit: 3 };`, '/project/src/index.js');
+    const symbols = extractSymbols(parsed);
+    expect(symbols.map((s) => s.name)).toEqual(['run', 'limit']);
+    expect(symbols.every((s) => s.isExported)).toBe(true);
+  });
+
+  it('should mark the local declaration exported when module.exports references it', () => {
+    const parsed = makeFixture(`function helper() {}\nmodule.exports = helper;\nexports.alias = helper;`, '/project/src/index.js');
+    const symbols = extractSymbols(parsed);
+    expect(symbols).toHaveLength(1);
+    expect(symbols[0]).toMatchObject({ name: 'helper', isExported: true, exportedNames: ['default', 'alias'] });
+  });
+
+  it('should keep the declared name with a default export when module.exports is a named class', () => {
+    const parsed = makeFixture(`module.exports = class Store {};`, '/project/src/index.js');
+    const cls = extractSymbols(parsed).find((s) => s.name === 'Store');
+    expect(cls).toMatchObject({ kind: 'class', isExported: true, exportedNames: ['default'] });
+  });
+
+  it('should mark the referenced declaration as default export when statement is export =', () => {
+    const parsed = makeFixture(`class Foo {}\nexport = Foo;`);
+    const cls = extractSymbols(parsed).find((s) => s.name === 'Foo');
+    expect(cls).toMatchObject({ isExported: true, exportedNames: ['default'] });
+  });
+
+  it('should not extract symbols when the statement only requires a module', () => {
+    const parsed = makeFixture(`module.exports = require('./impl');`, '/project/src/index.js');
+    expect(extractSymbols(parsed)).toEqual([]);
+  });
+
+  it('should set exportedNames to default when export default declaration is named', () => {
+    const parsed = makeFixture(`export default class Widget {}`);
+    const cls = extractSymbols(parsed).find((s) => s.name === 'Widget');
+    expect(cls?.exportedNames).toEqual(['default']);
+  });
+
+  it('should not mark local symbols exported when export list re-exports from another module', () => {
+    const parsed = makeFixture(`function foo() {}\nexport { foo } from './other';`);
+    const fn = extractSymbols(parsed).find((s) => s.name === 'foo');
+    expect(fn?.isExported).toBe(false);
+  });
+
   // ID
   it('should return same symbol count when called repeatedly with the same ParsedFile', () => {
     const parsed = makeFixture(`function a() {} function b() {}`);
@@ -371,28 +452,28 @@ describe('extractSymbols', () => {
     const parsed = makeFixture(`function fn<T>() {}`);
     const symbols = extractSymbols(parsed);
     const fn = symbols.find((s) => s.name === 'fn');
-    expect(fn?.typeParameters).toEqual(['T']);
+    expect(fn?.typeParameters).toEqual([{ name: 'T' }]);
   });
 
   it('should populate typeParameters with all entries when function has multiple type parameters', () => {
     const parsed = makeFixture(`function fn<T, U>() {}`);
     const symbols = extractSymbols(parsed);
     const fn = symbols.find((s) => s.name === 'fn');
-    expect(fn?.typeParameters).toEqual(['T', 'U']);
+    expect(fn?.typeParameters).toEqual([{ name: 'T' }, { name: 'U' }]);
   });
 
   it('should populate typeParameters when class declaration has a type parameter', () => {
     const parsed = makeFixture(`class Container<T> {}`);
     const symbols = extractSymbols(parsed);
     const cls = symbols.find((s) => s.name === 'Container');
-    expect(cls?.typeParameters).toEqual(['T']);
+    expect(cls?.typeParameters).toEqual([{ name: 'T' }]);
   });
 
   it('should populate typeParameters when interface declaration has a type parameter', () => {
     const parsed = makeFixture(`interface Repository<T> {}`);
     const symbols = extractSymbols(parsed);
     const iface = symbols.find((s) => s.name === 'Repository');
-    expect(iface?.typeParameters).toEqual(['T']);
+    expect(iface?.typeParameters).toEqual([{ name: 'T' }]);
   });
 
   // I-4: RestElement parameter
@@ -548,4 +629,261 @@ describe('extractSymbols', () => {
     expect(symbols.some((s) => s.name === 'a')).toBe(true);
     expect(symbols.some((s) => s.name === 'b')).toBe(true);
   });
+
+  // Nested declarations
+  it('should qualify a nested function with its parent name when declared inside another function', () => {
+    const parsed = makeFixture(`function outer() { function inner() {} }`);
+    const symbols = extractSymbols(parsed);
+    const inner = symbols.find((s) => s.name === 'outer.inner');
+    expect(inner?.parent).toBe('outer');
+    expect(inner?.isExported).toBe(false);
+  });
+
+  it('should qualify local interfaces, type aliases and enums with their parent when declared inside a function', () => {
+    const parsed = makeFixture(`function outer() { interface Options {} type Mode = 'a' | 'b'; enum Level { Low } }`);
+    const symbols = extractSymbols(parsed);
+    expect(symbols.map((s) => [s.kind, s.name, s.parent])).toEqual([
+      ['function', 'outer', undefined],
+      ['interface', 'outer.Options', 'outer'],
+      ['type', 'outer.Mode', 'outer'],
+      ['enum', 'outer.Level', 'outer'],
+    ]);
+  });
+
+  it('should not qualify a helper when it is declared inside an anonymous callback', () => {
+    const parsed = makeFixture(`describe('x', () => { function helper() {} });`);
+    const symbols = extractSymbols(parsed);
+    const helper = symbols.find((s) => s.name === 'helper');
+    expect(helper).toBeDefined();
+    expect(helper?.parent).toBeUndefined();
+  });
+
+  it('should number a repeated helper name when same-named helpers are declared in sibling callbacks', () => {
+    const parsed = makeFixture(
+      `describe('a', () => { function setup() { function seed() {} } });\ndescribe('b', () => { function setup() { function seed() {} } });`,
+    );
+    const symbols = extractSymbols(parsed);
+    expect(symbols.map((s) => s.name)).toEqual(['setup', 'setup.seed', 'setup#2', 'setup#2.seed']);
+    expect(symbols.find((s) => s.name === 'setup#2.seed')?.parent).toBe('setup#2');
+  });
+
+  it('should extract object literal functions as methods of the variable when the object has function-valued properties', () => {
+    const parsed = makeFixture(`export const api = { get() {}, post: () => {}, base: '/v1' };`);
+    const symbols = extractSymbols(parsed);
+    const get = symbols.find((s) => s.name === 'api.get');
+    expect(get?.kind).toBe('method');
+    expect(get?.parent).toBe('api');
+    expect(symbols.some((s) => s.name === 'api.post')).toBe(true);
+    expect(symbols.some((s) => s.name === 'api.base')).toBe(false);
+  });
+
+  it('should qualify a class declared inside a function when the class is local', () => {
+    const parsed = makeFixture(`function build() { class Local { run() {} } }`);
+    const symbols = extractSymbols(parsed);
+    const local = symbols.find((s) => s.name === 'build.Local');
+    expect(local?.kind).toBe('class');
+    expect(local?.members?.some((m) => m.name === 'run')).toBe(true);
+  });
+
+  it('should extract a class symbol named after the variable when a class expression is assigned', () => {
+    const parsed = makeFixture(`export const Foo = class { bar() {} };`);
+    const symbols = extractSymbols(parsed);
+    const foo = symbols.find((s) => s.name === 'Foo');
+    expect(foo?.kind).toBe('class');
+    expect(foo?.members?.some((m) => m.name === 'bar')).toBe(true);
+  });
+
+  // Namespaces and ambient modules
+  it('should extract namespace members with qualified names when declarations are inside a namespace', () => {
+    const parsed = makeFixture(`export namespace Util { export function fmt() {} const cache = 1; export namespace Inner { export type T = string; } }`);
+    const symbols = extractSymbols(parsed);
+    expect(symbols.find((s) => s.name === 'Util')?.kind).toBe('namespace');
+    const fmt = symbols.find((s) => s.name === 'Util.fmt');
+    expect(fmt?.parent).toBe('Util');
+    expect(fmt?.isExported).toBe(true);
+    expect(symbols.find((s) => s.name === 'Util.cache')?.isExported).toBe(false);
+    expect(symbols.find((s) => s.name === 'Util.Inner.T')?.parent).toBe('Util.Inner');
+  });
+
+  it('should use the dotted name when a namespace is declared with a qualified name', () => {
+    const parsed = makeFixture(`namespace A.B { export const x = 1; }`);
+    const symbols = extractSymbols(parsed);
+    expect(symbols.map((s) => s.name)).toEqual(['A.B', 'A.B.x']);
+  });
+
+  it('should mark the block and its declarations with augments when a module is augmented', () => {
+    const parsed = makeFixture(`import 'express';\ndeclare module 'express' { interface Request { user: string } }`);
+    const symbols = extractSymbols(parsed);
+    const mod = symbols.find((s) => s.name === 'express');
+    expect(mod?.kind).toBe('module');
+    expect(mod?.augments).toBe('express');
+    expect(mod?.modifiers).toContain('declare');
+    const request = symbols.find((s) => s.name === 'express.Request');
+    expect(request?.augments).toBe('express');
+    expect(request?.isExported).toBe(true);
+    expect(request?.members?.[0]?.name).toBe('user');
+  });
+
+  it('should extract a global module when declare global is used', () => {
+    const parsed = makeFixture(`export {};\ndeclare global { interface Window { app: string } }`);
+    const symbols = extractSymbols(parsed);
+    expect(symbols.find((s) => s.name === 'global.Window')?.augments).toBe('global');
+  });
+
+  it('should extract a module symbol without members when a shorthand ambient module is declared', () => {
+    const parsed = makeFixture(`declare module '*.svg';`);
+    const symbols = extractSymbols(parsed);
+    expect(symbols).toHaveLength(1);
+    expect(symbols[0]).toMatchObject({ kind: 'module', name: '*.svg', augments: '*.svg' });
+  });
+
+  // Overloads, declare functions and abstract members
+  it('should merge overload signatures into the implementation when a function is overloaded', () => {
+    const parsed = makeFixture(
+      `export function parse(a: string): string;\nexport function parse(a: number): number;\nexport function parse(a: any) { return a; }`,
+    );
+    const symbols = extractSymbols(parsed);
+    expect(symbols).toHaveLength(1);
+    expect(symbols[0]!.parameters?.[0]?.type).toBe('any');
+    expect(symbols[0]!.overloads).toEqual([
+      { parameters: [{ name: 'a', type: 'string', isOptional: false }], returnType: 'string' },
+      { parameters: [{ name: 'a', type: 'number', isOptional: false }], returnType: 'number' },
+    ]);
+  });
+
+  it('should extract a declare function with the declare modifier and no overloads when declared once', () => {
+    const parsed = makeFixture(`declare function log(msg: string): void;`);
+    const symbols = extractSymbols(parsed);
+    expect(symbols).toHaveLength(1);
+    expect(symbols[0]).toMatchObject({ kind: 'function', name: 'log', returnType: 'void' });
+    expect(symbols[0]!.modifiers).toContain('declare');
+    expect(symbols[0]!.overloads).toBeUndefined();
+  });
+
+  it('should merge bodiless declarations into one symbol when a declared function has several signatures', () => {
+    const parsed = makeFixture(`declare function on(e: 'a'): void;\ndeclare function on(e: 'b'): void;`);
+    const symbols = extractSymbols(parsed);
+    expect(symbols).toHaveLength(1);
+    expect(symbols[0]!.overloads).toHaveLength(2);
+  });
+
+  it('should merge method overloads into one member when a class or interface overloads a method', () => {
+    const parsed = makeFixture(
+      `class Svc { get(id: string): Item; get(id: number): Item; get(id: any) { return id; } }\ninterface Api { on(e: 'a'): void; on(e: 'b'): void; }`,
+    );
+    const symbols = extractSymbols(parsed);
+    const svc = symbols.find((s) => s.name === 'Svc');
+    expect(svc?.members).toHaveLength(1);
+    expect(svc?.members?.[0]?.overloads).toHaveLength(2);
+    const api = symbols.find((s) => s.name === 'Api');
+    expect(api?.members).toHaveLength(1);
+    expect(api?.members?.[0]?.overloads).toHaveLength(2);
+  });
+
+  it('should include abstract methods and properties with the abstract modifier when a class declares them', () => {
+    const parsed = makeFixture(`abstract class Shape { abstract area(): number; abstract readonly name: string; }`);
+    const symbols = extractSymbols(parsed);
+    const members = symbols.find((s) => s.name === 'Shape')?.members ?? [];
+    expect(members.map((m) => [m.kind, m.name])).toEqual([
+      ['method', 'area'],
+      ['property', 'name'],
+    ]);
+    expect(members.every((m) => m.modifiers.includes('abstract'))).toBe(true);
+    expect(members[0]!.returnType).toBe('number');
+  });
+
+  // Type text, initializers and generic details
+  it('should capture the aliased type text and type parameters when a type alias is declared', () => {
+    const parsed = makeFixture(`export type Box<T extends object = {}> = { value: T } | null;`);
+    const symbols = extractSymbols(parsed);
+    expect(symbols[0]?.type).toBe('{ value: T } | null');
+    expect(symbols[0]?.typeParameters).toEqual([{ name: 'T', constraint: 'object', default: '{}' }]);
+  });
+
+  it('should capture the annotation and initializer kind when a variable is declared', () => {
+    const parsed = makeFixture(
+      `const limit: number = 10;\nconst opts = { a: 1 } as const;\nconst list = [];\nconst db = open();\nconst map = new Map();\nconst neg = -1;`,
+    );
+    const symbols = extractSymbols(parsed);
+    const byName = (name: string) => symbols.find((s) => s.name === name);
+    expect(byName('limit')).toMatchObject({ type: 'number', initializerKind: 'literal' });
+    expect(byName('opts')?.initializerKind).toBe('object');
+    expect(byName('list')?.initializerKind).toBe('array');
+    expect(byName('db')?.initializerKind).toBe('call');
+    expect(byName('map')?.initializerKind).toBe('new');
+    expect(byName('neg')?.initializerKind).toBe('literal');
+    expect(byName('opts')?.type).toBeUndefined();
+  });
+
+  it('should capture type and initializer kind when a class property is declared', () => {
+    const parsed = makeFixture(`class Cache { entries: Map<string, number> = new Map(); size = 0; }`);
+    const members = extractSymbols(parsed)[0]?.members ?? [];
+    expect(members[0]).toMatchObject({ name: 'entries', type: 'Map<string, number>', initializerKind: 'new' });
+    expect(members[1]).toMatchObject({ name: 'size', initializerKind: 'literal' });
+    expect(members[1]?.type).toBeUndefined();
+  });
+
+  it('should set type on interface properties when they are annotated', () => {
+    const parsed = makeFixture(`interface Row { id: string }`);
+    expect(extractSymbols(parsed)[0]?.members?.[0]?.type).toBe('string');
+  });
+
+  it('should capture the initializer text of enum members when they have explicit values', () => {
+    const parsed = makeFixture(`enum Level { Low = 1, High = 'high', Auto }`);
+    const members = extractSymbols(parsed)[0]?.members ?? [];
+    expect(members.map((m) => m.value)).toEqual(['1', "'high'", undefined]);
+  });
+
+  // Destructured parameters and computed keys
+  it('should describe a destructured parameter with its bindings, type and default when an object pattern is used', () => {
+    const parsed = makeFixture(`function render({ title, size: s = 2, ...rest }: Props = {}) {}`);
+    const param = extractSymbols(parsed)[0]?.parameters?.[0];
+    expect(param).toEqual({
+      name: '{ title, size: s = 2, ...rest }',
+      type: 'Props',
+      isOptional: true,
+      defaultValue: '{}',
+      bindings: [{ name: 'title' }, { name: 's', key: 'size', defaultValue: '2' }, { name: '...rest' }],
+    });
+  });
+
+  it('should flatten bindings of nested array and object patterns when parameters are nested', () => {
+    const parsed = makeFixture(`function f([first, , { id }]: Row[]) {}`);
+    const param = extractSymbols(parsed)[0]?.parameters?.[0];
+    expect(param?.name).toBe('[first, , { id }]');
+    expect(param?.type).toBe('Row[]');
+    expect(param?.bindings?.map((b) => b.name)).toEqual(['first', 'id']);
+  });
+
+  it('should name members by their key text when keys are computed or string literals', () => {
+    const parsed = makeFixture(`class Coll { [Symbol.iterator]() {} 'kebab-name'() {} ['quoted']: string; }`);
+    const members = extractSymbols(parsed)[0]?.members ?? [];
+    expect(members.map((m) => m.name)).toEqual(['[Symbol.iterator]', 'kebab-name', 'quoted']);
+  });
+
+  it('should name interface members by their literal key when the key is quoted', () => {
+    const parsed = makeFixture(`interface Headers { 'content-type': string; [key: string]: string }`);
+    const members = extractSymbols(parsed)[0]?.members ?? [];
+    expect(members.map((m) => m.name)).toEqual(['content-type']);
+  });
+  it('should tag PascalCase functions returning JSX as components when file is TSX', () => {
+    const parsed = makeFixture(
+      `export function App() { return <div />; }\nconst Card = () => <section />;\nconst Row = memo(() => <tr />);\nfunction helper() { return <b />; }\nfunction Util() { return 1; }`,
+      '/project/src/App.tsx',
+    );
+    const symbols = extractSymbols(parsed);
+    const components = symbols.filter((s) => s.isComponent).map((s) => s.name);
+    expect(components).toEqual(['App', 'Card', 'Row']);
+  });
+
+  it('should tag classes extending Component as components when file is JSX', () => {
+    const parsed = makeFixture(
+      `class Panel extends React.Component { render() { return <div />; } }\nclass Store extends Base {}`,
+      '/project/src/Panel.jsx',
+    );
+    const symbols = extractSymbols(parsed);
+    expect(symbols.find((s) => s.name === 'Panel')?.isComponent).toBe(true);
+    expect(symbols.find((s) => s.name === 'Store')?.isComponent).toBeUndefined();
+  });
 });
+
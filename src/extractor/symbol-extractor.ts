@@ -6,10 +6,17 @@ import type {
   Modifier,
   Heritage,
   Parameter,
+  ParameterBinding,
   Decorator,
+  Signature,
+  TypeParameter,
+  InitializerKind,
 } from './types';
 import { buildLineOffsets, getLineColumn } from '../parser/source-position';
 import { parseJsDoc } from '../parser/jsdoc-parser';
+import { getCommonJsExports, getRequireSpecifier } from './commonjs';
+import { getComponentFunction, isComponentClass, isComponentName, returnsJsx } from './jsx';
+import { isFunctionValue, memberKeyText, moduleDeclarationName, nameDeclarations, propertyKeyName } from './extractor-utils';
 
 /**
  * Extracts all code symbols from a parsed file.
@@ -21,6 +28,8 @@ import { parseJsDoc } from '../parser/jsdoc-parser';
 export function extractSymbols(parsed: ParsedFile): ExtractedSymbol[] {
   const { program, sourceText, comments } = parsed;
   const lineOffsets = buildLineOffsets(sourceText);
+  /** Bodiless declarations: overload signatures, `declare function`, abstract / interface methods. */
+  const signatureOnly = new WeakSet<ExtractedSymbol>();
 
   function span(start: number, end: number): SourceSpan {
     return {
@@ -60,6 +69,54 @@ export function extractSymbols(parsed: ParsedFile): ExtractedSymbol[] {
     return sourceText.slice(inner.start, inner.end);
   }
 
+  function extractTypeParameters(node: any): TypeParameter[] {
+    return (node.typeParameters?.params ?? [])
+      .filter((p: any) => p.name?.name)
+      .map((p: any) => {
+        const param: TypeParameter = { name: p.name.name };
+        if (p.constraint) param.constraint = sourceText.slice(p.constraint.start, p.constraint.end);
+        if (p.default) param.default = sourceText.slice(p.default.start, p.default.end);
+        return param;
+      });
+  }
+
+  function initializerKind(init: any): InitializerKind | undefined {
+    let expr = init;
+    while (
+      expr?.type === 'TSAsExpression' ||
+      expr?.type === 'TSSatisfiesExpression' ||
+      expr?.type === 'TSNonNullExpression' ||
+      expr?.type === 'ParenthesizedExpression'
+    ) {
+      expr = expr.expression;
+    }
+    if (!expr) return undefined;
+
+    switch (expr.type) {
+      case 'Literal':
+      case 'TemplateLiteral':
+        return 'literal';
+      case 'UnaryExpression':
+        return expr.argument?.type === 'Literal' ? 'literal' : 'other';
+      case 'ObjectExpression':
+        return 'object';
+      case 'ArrayExpression':
+        return 'array';
+      case 'CallExpression':
+      case 'TaggedTemplateExpression':
+        return 'call';
+      case 'NewExpression':
+        return 'new';
+      case 'FunctionExpression':
+      case 'ArrowFunctionExpression':
+        return 'function';
+      case 'ClassExpression':
+        return 'class';
+      default:
+        return 'other';
+    }
+  }
+
   function extractDecorators(decorators: any[]): Decorator[] {
     if (!decorators || decorators.length === 0) return [];
     return decorators.map((d) => {
@@ -75,6 +132,50 @@ export function extractSymbols(parsed: ParsedFile): ExtractedSymbol[] {
     });
   }
 
+  function isPattern(node: any): boolean {
+    return node?.type === 'ObjectPattern' || node?.type === 'ArrayPattern';
+  }
+
+  /** Pattern source text without its type annotation. */
+  function patternText(pattern: any): string {
+    const end = pattern.typeAnnotation?.start ?? pattern.end;
+    return sourceText.slice(pattern.start, end).replace(/\s*:?\s*$/, '');
+  }
+
+  function collectBindings(pattern: any, out: ParameterBinding[], key?: string, defaultValue?: string): void {
+    if (!pattern) return;
+    if (pattern.type === 'Identifier') {
+      const binding: ParameterBinding = { name: pattern.name };
+      if (key !== undefined && key !== pattern.name) binding.key = key;
+      if (defaultValue !== undefined) binding.defaultValue = defaultValue;
+      out.push(binding);
+    } else if (pattern.type === 'AssignmentPattern') {
+      collectBindings(pattern.left, out, key, sourceText.slice(pattern.right.start, pattern.right.end));
+    } else if (pattern.type === 'RestElement') {
+      if (pattern.argument?.type === 'Identifier') out.push({ name: `...${pattern.argument.name}` });
+      else collectBindings(pattern.argument, out);
+    } else if (pattern.type === 'ObjectPattern') {
+      for (const prop of pattern.properties ?? []) {
+        if (prop.type === 'RestElement') collectBindings(prop, out);
+        else collectBindings(prop.value, out, prop.computed ? undefined : memberKeyText(prop, sourceText));
+      }
+    } else if (pattern.type === 'ArrayPattern') {
+      for (const elem of pattern.elements ?? []) collectBindings(elem, out);
+    }
+  }
+
+  /** Parameter for an object / array pattern, optionally with a default value. */
+  function extractPatternParam(pattern: any, defaultValue?: string): Parameter {
+    const bindings: ParameterBinding[] = [];
+    collectBindings(pattern, bindings);
+    const param: Parameter = { name: patternText(pattern), isOptional: defaultValue !== undefined || !!pattern.optional };
+    const type = typeText(pattern.typeAnnotation);
+    if (type) param.type = type;
+    if (defaultValue !== undefined) param.defaultValue = defaultValue;
+    if (bindings.length > 0) param.bindings = bindings;
+    return param;
+  }
+
   function extractParam(p: any): Parameter {
     // TSParameterProperty wraps the actual Identifier
     const inner = p.type === 'TSParameterProperty' ? p.parameter : p;
@@ -90,10 +191,14 @@ export function extractSymbols(parsed: ParsedFile): ExtractedSymbol[] {
       return param;
     }
 
+    // { a, b }: Opts / [x, y]
+    if (isPattern(inner)) return extractPatternParam(inner);
+
     // AssignmentPattern: x = defaultValue
     if (inner?.type === 'AssignmentPattern') {
       const left = inner.left;
       const right = inner.right;
+      if (isPattern(left)) return extractPatternParam(left, sourceText.slice(right.start, right.end));
       const name: string = left?.name ?? 'unknown';
       const typeAnn = left?.typeAnnotation;
       const type = typeAnn ? typeText(typeAnn) : undefined;
@@ -157,12 +262,13 @@ export function extractSymbols(parsed: ParsedFile): ExtractedSymbol[] {
     return heritage;
   }
 
-  /** Extract class body members (MethodDefinition, PropertyDefinition). */
+  /** Extract class body members (methods and properties, including abstract ones). */
   function extractClassMembers(bodyNodes: any[]): ExtractedSymbol[] {
     const members: ExtractedSymbol[] = [];
     for (const m of bodyNodes) {
-      if (m.type === 'MethodDefinition') {
-        const name: string = m.key?.name ?? 'unknown';
+      const isAbstract = m.type === 'TSAbstractMethodDefinition' || m.type === 'TSAbstractPropertyDefinition';
+      if (m.type === 'MethodDefinition' || m.type === 'TSAbstractMethodDefinition') {
+        const name = memberKeyText(m, sourceText);
         const fnValue = m.value;
         const rawKind: string = m.kind; // 'constructor' | 'method' | 'get' | 'set'
         const methodKind =
@@ -174,6 +280,7 @@ export function extractSymbols(parsed: ParsedFile): ExtractedSymbol[] {
                 ? 'setter'
                 : 'method';
         const mods = extractModifiers(m, fnValue);
+        if (isAbstract && !mods.includes('abstract')) mods.push('abstract');
         const params = (fnValue?.params ?? []).map(extractParam);
         const returnType = typeText(fnValue?.returnType);
         const s: ExtractedSymbol = {
@@ -186,10 +293,12 @@ export function extractSymbols(parsed: ParsedFile): ExtractedSymbol[] {
           parameters: params.length > 0 ? params : undefined,
           returnType,
         };
+        if (!fnValue?.body) signatureOnly.add(s);
         members.push(s);
-      } else if (m.type === 'PropertyDefinition') {
-        const name: string = m.key?.name ?? 'unknown';
+      } else if (m.type === 'PropertyDefinition' || m.type === 'TSAbstractPropertyDefinition') {
+        const name = memberKeyText(m, sourceText);
         const mods = extractModifiers(m);
+        if (isAbstract && !mods.includes('abstract')) mods.push('abstract');
         const s: ExtractedSymbol = {
           kind: 'property',
           name,
@@ -197,10 +306,14 @@ export function extractSymbols(parsed: ParsedFile): ExtractedSymbol[] {
           isExported: false,
           modifiers: mods,
         };
+        const type = typeText(m.typeAnnotation);
+        if (type) s.type = type;
+        const initKind = initializerKind(m.value);
+        if (initKind) s.initializerKind = initKind;
         members.push(s);
       }
     }
-    return members;
+    return mergeOverloads(members);
   }
 
   /** Extract TSInterfaceBody members. */
@@ -208,10 +321,10 @@ export function extractSymbols(parsed: ParsedFile): ExtractedSymbol[] {
     const members: ExtractedSymbol[] = [];
     for (const m of bodyNodes) {
       if (m.type === 'TSMethodSignature') {
-        const name: string = m.key?.name ?? 'unknown';
+        const name = memberKeyText(m, sourceText);
         const params = (m.params ?? []).map(extractParam);
         const returnType = typeText(m.returnType);
-        members.push({
+        const s: ExtractedSymbol = {
           kind: 'method',
           name,
           span: span(m.start, m.end),
@@ -220,9 +333,11 @@ export function extractSymbols(parsed: ParsedFile): ExtractedSymbol[] {
           methodKind: 'method',
           parameters: params.length > 0 ? params : undefined,
           returnType,
-        });
+        };
+        signatureOnly.add(s);
+        members.push(s);
       } else if (m.type === 'TSPropertySignature') {
-        const name: string = m.key?.name ?? 'unknown';
+        const name = memberKeyText(m, sourceText);
         const typeAnn = typeText(m.typeAnnotation);
         const s: ExtractedSymbol = {
           kind: 'property',
@@ -232,24 +347,24 @@ export function extractSymbols(parsed: ParsedFile): ExtractedSymbol[] {
           modifiers: m.readonly ? ['readonly'] : [],
           returnType: typeAnn,
         };
+        if (typeAnn) s.type = typeAnn;
         members.push(s);
       }
     }
-    return members;
+    return mergeOverloads(members);
   }
 
   /** Build ExtractedSymbol from a concrete declaration node. */
   function buildSymbol(node: any, isExported: boolean): ExtractedSymbol | ExtractedSymbol[] | null {
     const type: string = node.type ?? '';
 
-    if (type === 'FunctionDeclaration') {
+    if (type === 'FunctionDeclaration' || type === 'TSDeclareFunction') {
       const name: string = node.id?.name ?? 'default';
       const params = (node.params ?? []).map(extractParam);
       const returnType = typeText(node.returnType);
       const mods = extractModifiers(node, node);
       const decos = extractDecorators(node.decorators ?? []);
-      const typeParameters: string[] | undefined =
-        node.typeParameters?.params?.map((p: any) => p.name?.name as string).filter(Boolean) || undefined;
+      const typeParameters = extractTypeParameters(node);
       const sym: ExtractedSymbol = {
         kind: 'function',
         name,
@@ -260,7 +375,9 @@ export function extractSymbols(parsed: ParsedFile): ExtractedSymbol[] {
         returnType,
         decorators: decos.length > 0 ? decos : undefined,
       };
-      if (typeParameters && typeParameters.length > 0) sym.typeParameters = typeParameters;
+      if (typeParameters.length > 0) sym.typeParameters = typeParameters;
+      if (type === 'TSDeclareFunction') signatureOnly.add(sym);
+      if (isComponentName(name) && returnsJsx(node)) sym.isComponent = true;
       return sym;
     }
 
@@ -270,8 +387,7 @@ export function extractSymbols(parsed: ParsedFile): ExtractedSymbol[] {
       const members = extractClassMembers(node.body?.body ?? []);
       const decos = extractDecorators(node.decorators ?? []);
       const mods = extractModifiers(node, node);
-      const typeParameters: string[] | undefined =
-        node.typeParameters?.params?.map((p: any) => p.name?.name as string).filter(Boolean) || undefined;
+      const typeParameters = extractTypeParameters(node);
       const sym: ExtractedSymbol = {
         kind: 'class',
         name,
@@ -282,7 +398,8 @@ export function extractSymbols(parsed: ParsedFile): ExtractedSymbol[] {
         members: members.length > 0 ? members : undefined,
         decorators: decos.length > 0 ? decos : undefined,
       };
-      if (typeParameters && typeParameters.length > 0) sym.typeParameters = typeParameters;
+      if (typeParameters.length > 0) sym.typeParameters = typeParameters;
+      if (isComponentClass(node)) sym.isComponent = true;
       return sym;
     }
 
@@ -324,6 +441,16 @@ export function extractSymbols(parsed: ParsedFile): ExtractedSymbol[] {
         }
 
         const name: string = id?.name ?? 'unknown';
+
+        // const Foo = class { … } — indexed as a class named after the variable
+        if (init?.type === 'ClassExpression') {
+          const cls = buildSymbol(init, isExported) as ExtractedSymbol;
+          cls.name = name;
+          cls.span = span(decl.start, decl.end);
+          symbols.push(cls);
+          continue;
+        }
+
         let kind: SymbolKind = 'variable';
         let params: Parameter[] | undefined;
         let returnType: string | undefined;
@@ -338,7 +465,7 @@ export function extractSymbols(parsed: ParsedFile): ExtractedSymbol[] {
           returnType = typeText(init.returnType);
         }
         const mods: Modifier[] = [];
-        symbols.push({
+        const sym: ExtractedSymbol = {
           kind,
           name,
           span: span(decl.start, decl.end),
@@ -346,7 +473,13 @@ export function extractSymbols(parsed: ParsedFile): ExtractedSymbol[] {
           modifiers: mods,
           parameters: params,
           returnType,
-        });
+        };
+        const type = typeText(id?.typeAnnotation);
+        if (type) sym.type = type;
+        const initKind = initializerKind(init);
+        if (initKind) sym.initializerKind = initKind;
+        if (isComponentName(name) && getComponentFunction(init)) sym.isComponent = true;
+        symbols.push(sym);
       }
       if (symbols.length === 0) return null;
       if (symbols.length === 1) return symbols[0];
@@ -355,21 +488,25 @@ export function extractSymbols(parsed: ParsedFile): ExtractedSymbol[] {
 
     if (type === 'TSTypeAliasDeclaration') {
       const name: string = node.id?.name ?? 'unknown';
-      return {
+      const aliased = node.typeAnnotation;
+      const typeParameters = extractTypeParameters(node);
+      const sym: ExtractedSymbol = {
         kind: 'type',
         name,
         span: span(node.start, node.end),
         isExported,
         modifiers: [],
       };
+      if (aliased) sym.type = sourceText.slice(aliased.start, aliased.end);
+      if (typeParameters.length > 0) sym.typeParameters = typeParameters;
+      return sym;
     }
 
     if (type === 'TSInterfaceDeclaration') {
       const name: string = node.id?.name ?? 'unknown';
       const heritage = interfaceHeritage(node);
       const members = extractInterfaceMembers(node.body?.body ?? []);
-      const typeParameters: string[] | undefined =
-        node.typeParameters?.params?.map((p: any) => p.name?.name as string).filter(Boolean) || undefined;
+      const typeParameters = extractTypeParameters(node);
       const sym: ExtractedSymbol = {
         kind: 'interface',
         name,
@@ -379,7 +516,26 @@ export function extractSymbols(parsed: ParsedFile): ExtractedSymbol[] {
         heritage: heritage.length > 0 ? heritage : undefined,
         members: members.length > 0 ? members : undefined,
       };
-      if (typeParameters && typeParameters.length > 0) sym.typeParameters = typeParameters;
+      if (typeParameters.length > 0) sym.typeParameters = typeParameters;
+      return sym;
+    }
+
+    if (type === 'ExpressionStatement' || type === 'TSExportAssignment') {
+      const symbols = buildCommonJsExports(node);
+      return symbols.length > 0 ? symbols : null;
+    }
+
+    if (type === 'TSModuleDeclaration') {
+      const isAmbient = isAmbientModule(node);
+      const name = moduleDeclarationName(node);
+      const sym: ExtractedSymbol = {
+        kind: isAmbient ? 'module' : 'namespace',
+        name,
+        span: span(node.start, node.end),
+        isExported: isExported || isAmbient,
+        modifiers: extractModifiers(node),
+      };
+      if (isAmbient) sym.augments = name;
       return sym;
     }
 
@@ -387,13 +543,17 @@ export function extractSymbols(parsed: ParsedFile): ExtractedSymbol[] {
       const name: string = node.id?.name ?? 'unknown';
       const mods = extractModifiers(node);
       const rawMembers: any[] = node.body?.members ?? [];
-      const members: ExtractedSymbol[] = rawMembers.map((m) => ({
-        kind: 'property' as SymbolKind,
-        name: m.id?.name ?? m.id?.value ?? 'unknown',
-        span: span(m.start, m.end),
-        isExported: false,
-        modifiers: [],
-      }));
+      const members: ExtractedSymbol[] = rawMembers.map((m) => {
+        const member: ExtractedSymbol = {
+          kind: 'property' as SymbolKind,
+          name: m.id?.name ?? m.id?.value ?? 'unknown',
+          span: span(m.start, m.end),
+          isExported: false,
+          modifiers: [],
+        };
+        if (m.initializer) member.value = sourceText.slice(m.initializer.start, m.initializer.end);
+        return member;
+      });
       return {
         kind: 'enum',
         name,
@@ -407,6 +567,315 @@ export function extractSymbols(parsed: ParsedFile): ExtractedSymbol[] {
     return null;
   }
 
+  /**
+   * Symbols for values assigned to `exports.foo`, `module.exports` or `export =`, built like
+   * `const <name> = <value>`. Exported local bindings (`module.exports = { run }`) are marked
+   * where they are declared instead, and `module.exports = require()` is a re-export.
+   */
+  function buildCommonJsExports(stmt: any): ExtractedSymbol[] {
+    const symbols: ExtractedSymbol[] = [];
+    for (const { name, exportedName, value, node } of getCommonJsExports(stmt)) {
+      if (!value || value.type === 'Identifier' || getRequireSpecifier(value) !== null) continue;
+      const declarator = { type: 'VariableDeclarator', id: { type: 'Identifier', name }, init: value, start: node.start, end: node.end };
+      const sym = buildSymbol({ type: 'VariableDeclaration', declarations: [declarator] }, true) as ExtractedSymbol;
+      if (exportedName !== name) sym.exportedNames = [exportedName];
+      symbols.push(sym);
+    }
+    return symbols;
+  }
+
+  // ── Overloads ────────────────────────────────────────────────────────────
+
+  function toSignature(sym: ExtractedSymbol): Signature {
+    const sig: Signature = {};
+    if (sym.parameters) sig.parameters = sym.parameters;
+    if (sym.returnType !== undefined) sig.returnType = sym.returnType;
+    if (sym.typeParameters) sig.typeParameters = sym.typeParameters;
+    return sig;
+  }
+
+  /**
+   * Collapses adjacent bodiless declarations of one function / method name, and the
+   * implementation that follows them, into a single symbol carrying `overloads`.
+   */
+  function mergeOverloads(symbols: ExtractedSymbol[]): ExtractedSymbol[] {
+    const merged: ExtractedSymbol[] = [];
+    let group: ExtractedSymbol[] = [];
+
+    const sameGroup = (sym: ExtractedSymbol): boolean =>
+      group.length > 0 && group[0]!.name === sym.name && group[0]!.kind === sym.kind;
+
+    function flush(target?: ExtractedSymbol): void {
+      if (group.length === 0) return;
+      const owner = target ?? group[0]!;
+      if (target || group.length > 1) {
+        owner.overloads = group.map(toSignature);
+        owner.span = { start: group[0]!.span.start, end: (target ?? group[group.length - 1]!).span.end };
+        const jsDoc = owner.jsDoc ?? group.find((sig) => sig.jsDoc)?.jsDoc;
+        if (jsDoc) owner.jsDoc = jsDoc;
+      }
+      merged.push(owner);
+      group = [];
+    }
+
+    for (const sym of symbols) {
+      const isCallable = sym.kind === 'function' || sym.kind === 'method';
+      if (isCallable && signatureOnly.has(sym)) {
+        if (!sameGroup(sym)) flush();
+        group.push(sym);
+        continue;
+      }
+      if (isCallable && sameGroup(sym)) {
+        flush(sym);
+        continue;
+      }
+      flush();
+      merged.push(sym);
+    }
+    flush();
+
+    return merged;
+  }
+
+  // ── Nested declarations ──────────────────────────────────────────────────
+  // Names come from `nameDeclarations`, which the call, heritage and type reference
+  // extractors share: named functions, classes and object literal methods qualify their
+  // children; anonymous callbacks add no name segment, but repeated names declared inside
+  // them are numbered (`setup`, `setup#2`).
+
+  const declarations = nameDeclarations(program, sourceText);
+
+  function addNested(sym: ExtractedSymbol, node: any, out: ExtractedSymbol[]): void {
+    const { name, parent } = declarations.names.get(node)!;
+    sym.name = name;
+    sym.isExported = false;
+    if (parent) sym.parent = parent;
+    out.push(sym);
+  }
+
+  /** Walks method / static block bodies of a class. */
+  function collectClassBodies(classNode: any, out: ExtractedSymbol[]): void {
+    for (const m of classNode.body?.body ?? []) {
+      if ((m.type === 'MethodDefinition' || m.type === 'PropertyDefinition') && m.key) {
+        collectNested(isFunctionValue(m.value) ? m.value.body : m.value, out);
+      } else {
+        collectNested(m, out);
+      }
+    }
+  }
+
+  /** Emits the methods of an object literal bound to a named declaration; other properties are walked. */
+  function collectObjectMethods(objectNode: any, out: ExtractedSymbol[]): void {
+    for (const prop of objectNode.properties ?? []) {
+      if (!declarations.names.has(prop)) {
+        collectNested(prop, out);
+        continue;
+      }
+
+      const fn = prop.value;
+      const params = (fn.params ?? []).map(extractParam);
+      const sym: ExtractedSymbol = {
+        kind: 'method',
+        name: propertyKeyName(prop)!,
+        span: span(prop.start, prop.end),
+        isExported: false,
+        methodKind: prop.kind === 'get' ? 'getter' : prop.kind === 'set' ? 'setter' : 'method',
+        modifiers: extractModifiers({}, fn),
+        parameters: params.length > 0 ? params : undefined,
+        returnType: typeText(fn.returnType),
+      };
+      addNested(sym, prop, out);
+      collectNested(fn.body, out);
+    }
+  }
+
+  /** Walks the value bound to a named declaration. */
+  function collectDeclaratorInit(init: any, out: ExtractedSymbol[]): void {
+    if (isFunctionValue(init)) {
+      collectNested(init.body, out);
+    } else if (init?.type === 'ClassExpression') {
+      collectClassBodies(init, out);
+    } else if (init?.type === 'ObjectExpression') {
+      collectObjectMethods(init, out);
+    } else {
+      collectNested(init, out);
+    }
+  }
+
+  /** Collects named functions, classes, local types and object literal methods declared below `node`. */
+  function collectNested(node: any, out: ExtractedSymbol[]): void {
+    if (!node || typeof node !== 'object') return;
+
+    if (Array.isArray(node)) {
+      for (const item of node) collectNested(item, out);
+      return;
+    }
+
+    const type: string = node.type ?? '';
+
+    if (type === 'FunctionDeclaration' && node.id?.name) {
+      addNested(buildSymbol(node, false) as ExtractedSymbol, node, out);
+      collectNested(node.body, out);
+      return;
+    }
+
+    if (type === 'ClassDeclaration' && node.id?.name) {
+      addNested(buildSymbol(node, false) as ExtractedSymbol, node, out);
+      collectClassBodies(node, out);
+      return;
+    }
+
+    if (
+      (type === 'TSInterfaceDeclaration' || type === 'TSTypeAliasDeclaration' || type === 'TSEnumDeclaration') &&
+      node.id?.name
+    ) {
+      // function outer() { interface Options {} } → `outer.Options`
+      addNested(buildSymbol(node, false) as ExtractedSymbol, node, out);
+      return;
+    }
+
+    if (type === 'VariableDeclarator' && node.id?.type === 'Identifier' && node.init) {
+      if (!declarations.names.has(node)) {
+        collectNested(node.init, out);
+        return;
+      }
+
+      const sym = buildSymbol({ type: 'VariableDeclaration', declarations: [node] }, false) as ExtractedSymbol;
+      addNested(sym, node, out);
+      collectDeclaratorInit(node.init, out);
+      return;
+    }
+
+    if (isFunctionValue(node)) {
+      for (const key of ['params', 'body']) collectNested(node[key], out);
+      return;
+    }
+
+    for (const key of Object.keys(node)) {
+      if (key === 'loc' || key === 'start' || key === 'end' || key === 'scope') continue;
+      const child = node[key];
+      if (child && typeof child === 'object') collectNested(child, out);
+    }
+  }
+
+  // ── Namespaces and ambient modules ───────────────────────────────────────
+
+  /** `declare module 'x' {}` / `declare global {}`, as opposed to `namespace Foo {}`. */
+  function isAmbientModule(node: any): boolean {
+    return node.kind === 'global' || node.id?.type === 'Literal';
+  }
+
+  /**
+   * Emits the declarations of a namespace / ambient module body as `Module.member`.
+   * Namespace members are exported when marked `export` inside an exported namespace;
+   * everything declared in an ambient block is visible outside the file.
+   */
+  function collectModuleMembers(
+    moduleNode: any,
+    moduleName: string,
+    exported: boolean,
+    augments: string | undefined,
+    out: ExtractedSymbol[],
+  ): void {
+    const isAmbient = augments !== undefined;
+    for (const stmt of moduleNode.body?.body ?? []) {
+      const isExportStatement = stmt.type === 'ExportNamedDeclaration';
+      const decl = isExportStatement ? stmt.declaration : stmt;
+      if (!decl) continue;
+
+      const memberExported = exported && (isAmbient || isExportStatement);
+      const built = buildSymbol(decl, memberExported);
+      const jsdocText = findJsDocComment(stmt.start ?? 0);
+      for (const sym of Array.isArray(built) ? built : built ? [built] : []) {
+        sym.name = `${moduleName}.${sym.name}`;
+        sym.parent = moduleName;
+        if (augments && !sym.augments) sym.augments = augments;
+        if (jsdocText) sym.jsDoc = parseJsDoc(jsdocText);
+        out.push(sym);
+      }
+
+      collectNestedOfTopLevel(decl, out, memberExported, augments);
+    }
+  }
+
+  /**
+   * Nested symbols below a top-level statement (or a statement of a module body) whose own
+   * symbols are already extracted.
+   */
+  function collectNestedOfTopLevel(node: any, out: ExtractedSymbol[], exported = false, augments?: string): void {
+    const type: string = node.type ?? '';
+    if (type === 'ExportNamedDeclaration' || type === 'ExportDefaultDeclaration') {
+      const decl = node.declaration;
+      if (!decl) return;
+      if (type === 'ExportDefaultDeclaration' && !decl.id && decl.type !== 'VariableDeclaration') {
+        // export default function () {} / class {} — the symbol is named 'default'
+        if (decl.type === 'FunctionDeclaration') collectNested(decl.body, out);
+        else if (decl.type === 'ClassDeclaration' || decl.type === 'ClassExpression') collectClassBodies(decl, out);
+        else collectNested(decl, out);
+        return;
+      }
+      collectNestedOfTopLevel(decl, out, true, augments);
+      return;
+    }
+
+    if (type === 'TSModuleDeclaration') {
+      const name = declarations.names.get(node)!.name;
+      const ownAugments = isAmbientModule(node) ? moduleDeclarationName(node) : undefined;
+      collectModuleMembers(node, name, exported || ownAugments !== undefined, augments ?? ownAugments, out);
+    } else if (type === 'FunctionDeclaration' && node.id?.name) {
+      collectNested(node.body, out);
+    } else if ((type === 'ClassDeclaration' || type === 'ClassExpression') && node.id?.name) {
+      collectClassBodies(node, out);
+    } else if (type === 'VariableDeclaration') {
+      for (const decl of node.declarations ?? []) {
+        if (decl.id?.type === 'Identifier' && decl.init) {
+          collectDeclaratorInit(decl.init, out);
+        } else {
+          collectNested(decl.init, out);
+        }
+      }
+    } else if (type === 'ExpressionStatement' || type === 'TSExportAssignment') {
+      const exports = getCommonJsExports(node);
+      if (exports.length === 0) collectNested(node, out);
+      for (const { value } of exports) {
+        if (value?.type === 'Identifier') continue;
+        collectDeclaratorInit(value, out);
+      }
+    } else if (!type.startsWith('TS')) {
+      collectNested(node, out);
+    }
+  }
+
+  /** Export name as written (`Identifier` or string literal). */
+  function exportName(node: any): string | undefined {
+    return node?.name ?? (typeof node?.value === 'string' ? node.value : undefined);
+  }
+
+  // Local names exported indirectly: `export { a, b as c }` and `export default a`.
+  const localExports = new Map<string, string[]>();
+  function addLocalExport(local: string, exported: string): void {
+    const names = localExports.get(local) ?? [];
+    if (!names.includes(exported)) names.push(exported);
+    localExports.set(local, names);
+  }
+  for (const node of program.body) {
+    const n = node as any;
+    if (n.type === 'ExportNamedDeclaration' && !n.declaration && !n.source) {
+      for (const spec of n.specifiers ?? []) {
+        const local = exportName(spec.local);
+        const exported = exportName(spec.exported) ?? local;
+        if (local && exported) addLocalExport(local, exported);
+      }
+    } else if (n.type === 'ExportDefaultDeclaration' && n.declaration?.type === 'Identifier') {
+      addLocalExport(n.declaration.name, 'default');
+    } else {
+      // exports.foo = foo / module.exports = { foo } / export = Foo
+      for (const { exportedName, value } of getCommonJsExports(n)) {
+        if (value?.type === 'Identifier') addLocalExport(value.name, exportedName);
+      }
+    }
+  }
+
   const result: ExtractedSymbol[] = [];
 
   for (const node of program.body) {
@@ -433,6 +902,7 @@ export function extractSymbols(parsed: ParsedFile): ExtractedSymbol[] {
           sym.name = decl.id?.name ?? 'default';
           sym.isExported = true;
           sym.span = span(n.start, n.end);
+          if (sym.name !== 'default') sym.exportedNames = ['default'];
         }
       }
     } else {
@@ -441,6 +911,14 @@ export function extractSymbols(parsed: ParsedFile): ExtractedSymbol[] {
 
     const syms: ExtractedSymbol[] = Array.isArray(sym) ? sym : sym ? [sym] : [];
     for (const s of syms) {
+      const indirect = localExports.get(s.name);
+      if (indirect) {
+        const names = [...(s.exportedNames ?? (s.isExported ? [s.name] : [])), ...indirect];
+        const unique = [...new Set(names)];
+        s.isExported = true;
+        if (unique.some((exported) => exported !== s.name)) s.exportedNames = unique;
+      }
+
       // Associate JSDoc (find closest preceding /** */ comment)
       // Use node's start position for lookup
       const nodeStart = (node as any).start ?? 0;
@@ -450,7 +928,9 @@ export function extractSymbols(parsed: ParsedFile): ExtractedSymbol[] {
       }
       result.push(s);
     }
+
+    collectNestedOfTopLevel(node as any, result);
   }
 
-  return result;
+  return mergeOverloads(result);
 }
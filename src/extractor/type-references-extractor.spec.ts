@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'bun:test';
+import { parseSync } from 'oxc-parser';
+import type { ImportReference } from './types';
+import { extractTypeReferences } from './type-references-extractor';
+
+const FILE = '/project/src/index.ts';
+const TYPES = '/project/src/types.ts';
+
+function extract(source: string, imports: [string, ImportReference][] = []) {
+  const { program } = parseSync(FILE, source);
+  return extractTypeReferences(program as any, FILE, new Map(imports), source);
+}
+
+const RECORD_IMPORT: [string, ImportReference] = ['SymbolRecord', { path: TYPES, importedName: 'SymbolRecord' }];
+
+describe('extractTypeReferences', () => {
+  // HP
+  it('should reference the imported type from the function when a parameter is annotated with it', () => {
+    const relations = extract('export function load(r: SymbolRecord): void {}', [RECORD_IMPORT]);
+
+    expect(relations).toEqual([
+      { type: 'references', srcFilePath: FILE, srcSymbolName: 'load', dstFilePath: TYPES, dstSymbolName: 'SymbolRecord' },
+    ]);
+  });
+
+  it('should use Class.member as source when a class field or method uses the type', () => {
+    const relations = extract(
+      'class Repo { cache: Map<string, SymbolRecord> = new Map(); find(): SymbolRecord[] { return []; } }',
+      [RECORD_IMPORT],
+    );
+
+    expect(relations.map((r) => r.srcSymbolName)).toEqual(['Repo.cache', 'Repo.find']);
+  });
+
+  it('should use Class.member as source when an abstract member uses the type', () => {
+    const relations = extract('abstract class Repo { abstract find(): SymbolRecord; abstract last: SymbolRecord; }', [RECORD_IMPORT]);
+
+    expect(relations.map((r) => r.srcSymbolName)).toEqual(['Repo.find', 'Repo.last']);
+  });
+
+  it('should use Interface.property as source when an interface property is typed with it', () => {
+    const relations = extract('interface Page { items: SymbolRecord[] }', [RECORD_IMPORT]);
+
+    expect(relations[0]!.srcSymbolName).toBe('Page.items');
+  });
+
+  it('should record references from as and satisfies expressions when used at module level', () => {
+    const relations = extract('const a = {} as SymbolRecord;\n({}) satisfies Options;', [
+      RECORD_IMPORT,
+      ['Options', { path: TYPES, importedName: 'Options' }],
+    ]);
+
+    expect(relations.map((r) => [r.srcSymbolName, r.dstSymbolName])).toEqual([
+      ['a', 'SymbolRecord'],
+      [null, 'Options'],
+    ]);
+  });
+
+  it('should record generic type arguments when a call passes a type argument', () => {
+    const relations = extract('function run() { return query<SymbolRecord>(); }', [RECORD_IMPORT]);
+
+    expect(relations[0]!.dstSymbolName).toBe('SymbolRecord');
+    expect(relations[0]!.srcSymbolName).toBe('run');
+  });
+
+  it('should resolve to the imported name when the type is imported under an alias', () => {
+    const relations = extract('type Row = Rec;', [['Rec', { path: TYPES, importedName: 'SymbolRecord' }]]);
+
+    expect(relations[0]!.dstSymbolName).toBe('SymbolRecord');
+  });
+
+  it('should point at the namespace module when the type is qualified by a namespace import', () => {
+    const relations = extract('let r: types.SymbolRecord;', [['types', { path: TYPES, importedName: '*' }]]);
+
+    expect(relations[0]).toMatchObject({ dstFilePath: TYPES, dstSymbolName: 'SymbolRecord' });
+    expect(relations[0]!.metaJson).toContain('"isNamespaceImport":true');
+  });
+
+  it('should mark local types when the referenced type is declared in the same file', () => {
+    const relations = extract('interface Base {}\nexport type Row = Base & { id: string };');
+
+    expect(relations).toHaveLength(1);
+    expect(relations[0]).toMatchObject({ srcSymbolName: 'Row', dstFilePath: FILE, dstSymbolName: 'Base' });
+    expect(relations[0]!.metaJson).toContain('"isLocal":true');
+  });
+
+  it('should qualify the source with the namespace name when the type is used inside a namespace', () => {
+    const relations = extract('namespace Api { export interface Page { items: SymbolRecord[] } export function load(): SymbolRecord {} }', [
+      RECORD_IMPORT,
+    ]);
+
+    expect(relations.map((r) => r.srcSymbolName)).toEqual(['Api.Page.items', 'Api.load']);
+  });
+
+  it('should point at the qualified local type when the type is declared in a namespace or function', () => {
+    const relations = extract(
+      'namespace Api { interface Page {} export function load(): Page {} }\n' +
+        'function outer() { interface Options {} function run(o: Options) {} }',
+    );
+
+    expect(relations.map((r) => [r.srcSymbolName, r.dstSymbolName])).toEqual([
+      ['Api.load', 'Api.Page'],
+      ['outer.run', 'outer.Options'],
+    ]);
+    expect(relations.every((r) => r.metaJson === '{"isLocal":true}')).toBe(true);
+  });
+
+  it('should prefer the innermost declaration when a function-local type shadows a module type', () => {
+    const relations = extract(
+      'interface Options {}\nfunction outer() { interface Options {} const inner = (i: Options) => i; }\nfunction other(o: Options) {}',
+    );
+
+    expect(relations.map((r) => [r.srcSymbolName, r.dstSymbolName])).toEqual([
+      ['outer.inner', 'outer.Options'],
+      ['other', 'Options'],
+    ]);
+  });
+
+  it('should use the nested symbol as source when the type is used inside a nested function or object method', () => {
+    const relations = extract(
+      'function outer() { function inner(r: SymbolRecord) {} const api = { get(): SymbolRecord {} }; class Box { r?: SymbolRecord } }',
+      [RECORD_IMPORT],
+    );
+
+    expect(relations.map((r) => r.srcSymbolName)).toEqual(['outer.inner', 'outer.api.get', 'outer.Box.r']);
+  });
+
+  it('should spell the member key as written when a member has a computed key', () => {
+    const relations = extract(
+      "class Box { [Symbol.iterator](): SymbolRecord {} }\ninterface Shape { ['kebab-name']: SymbolRecord }",
+      [RECORD_IMPORT],
+    );
+
+    expect(relations.map((r) => r.srcSymbolName)).toEqual(['Box.[Symbol.iterator]', 'Shape.kebab-name']);
+  });
+
+  // NE
+  it('should skip global types and type parameters when they are neither imported nor declared', () => {
+    const relations = extract('function wrap<T>(value: T): Promise<T> { return Promise.resolve(value); }');
+
+    expect(relations).toEqual([]);
+  });
+
+  it('should skip self references when a type refers to itself', () => {
+    const relations = extract('interface Tree { children: Tree[] }\ntype List = { next: List };');
+
+    expect(relations.map((r) => [r.srcSymbolName, r.dstSymbolName])).toEqual([['Tree.children', 'Tree']]);
+  });
+
+  // ID
+  it('should emit one relation per symbol and type when the type is used several times', () => {
+    const relations = extract('function f(a: SymbolRecord, b: SymbolRecord): SymbolRecord { return a; }', [RECORD_IMPORT]);
+
+    expect(relations).toHaveLength(1);
+  });
+});
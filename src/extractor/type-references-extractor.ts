@@ -0,0 +1,230 @@
+import type { Program } from 'oxc-parser';
+import type { ImportReference, CodeRelation } from './types';
+import { memberKeyText, moduleDeclarationName, nameDeclarations } from './extractor-utils';
+
+/** `Foo` / `ns.Foo` of a `TSTypeReference.typeName` as parts. */
+function typeNameParts(node: any): string[] | null {
+  if (node?.type === 'Identifier') return [node.name];
+  if (node?.type === 'TSQualifiedName') {
+    const left = typeNameParts(node.left);
+    return left && node.right?.name ? [...left, node.right.name] : null;
+  }
+  return null;
+}
+
+function declarationName(node: any): string | null {
+  if (node?.id?.type === 'Identifier') return node.id.name;
+  return null;
+}
+
+/**
+ * Extracts `references` relations: uses of a type in annotations, generic arguments,
+ * `satisfies` / `as` expressions, interface members and type alias bodies.
+ *
+ * The source is the enclosing indexed symbol (`Foo`, `Foo.member`, `Ns.Foo` inside a namespace,
+ * `outer.inner` for a nested function), or `null` at module level.
+ * Only types that are imported or declared in the file are recorded; local types are looked
+ * up from the enclosing scope outwards (`outer.Options` before `Options`). Globals and
+ * in-scope type parameters are skipped. One relation is emitted per
+ * (source symbol, referenced type) pair.
+ *
+ * @param ast        - The parsed Program AST.
+ * @param filePath   - File path of the source file (used as srcFilePath).
+ * @param importMap  - Map from local identifiers to their resolved import references.
+ * @param sourceText - Source of `ast`; spells computed member keys (`C.[Symbol.iterator]`).
+ */
+export function extractTypeReferences(
+  ast: Program,
+  filePath: string,
+  importMap: Map<string, ImportReference>,
+  sourceText = '',
+): CodeRelation[] {
+  const relations: CodeRelation[] = [];
+  const seen = new Set<string>();
+  const { names, locals, outer } = nameDeclarations(ast, sourceText);
+  /** Enclosing Program, namespace and function nodes, innermost last. */
+  const declarationScopes: any[] = [ast];
+  /** Enclosing indexed symbol names, innermost last. */
+  const symbolStack: string[] = [];
+  /** Type parameter names in scope, innermost last. */
+  const typeParamStack: Set<string>[] = [];
+  /** Class / interface whose members are currently being walked. */
+  let memberOwner: string | null = null;
+  /** Namespace / ambient module whose body is being walked; its declarations are `Ns.name`. */
+  let moduleScope: string | null = null;
+
+  function isTypeParam(name: string): boolean {
+    return typeParamStack.some((scope) => scope.has(name));
+  }
+
+  /** Symbol name of the declaration `identifier` binds here, looked up from the innermost scope outwards. */
+  function lookupDeclaration(identifier: string): string | undefined {
+    for (let i = declarationScopes.length - 1; i >= 0; i--) {
+      const name = locals.get(declarationScopes[i])?.get(identifier);
+      if (name) return name;
+    }
+    return undefined;
+  }
+
+  function resolveReference(
+    parts: string[],
+  ): { dstFilePath: string; dstSymbolName: string; metaJson?: string } | null {
+    const [root, ...rest] = parts;
+    if (root === undefined || isTypeParam(root)) return null;
+
+    const ref = importMap.get(root);
+    if (ref) {
+      if (ref.importedName === '*') {
+        if (rest.length === 0) return null;
+        return {
+          dstFilePath: ref.path,
+          dstSymbolName: rest.join('.'),
+          metaJson: JSON.stringify({ isNamespaceImport: true }),
+        };
+      }
+      return { dstFilePath: ref.path, dstSymbolName: [ref.importedName, ...rest].join('.') };
+    }
+
+    const local = lookupDeclaration(root);
+    if (!local) return null;
+    return {
+      dstFilePath: filePath,
+      dstSymbolName: [local, ...rest].join('.'),
+      metaJson: JSON.stringify({ isLocal: true }),
+    };
+  }
+
+  function record(typeNameNode: any): void {
+    const parts = typeNameParts(typeNameNode);
+    if (!parts) return;
+    const dst = resolveReference(parts);
+    if (!dst) return;
+
+    const srcSymbolName = symbolStack.length > 0 ? symbolStack[symbolStack.length - 1]! : null;
+    // Self references (e.g. recursive types) carry no dependency information.
+    if (dst.dstFilePath === filePath && dst.dstSymbolName === srcSymbolName) return;
+
+    const key = `${srcSymbolName ?? ''}\0${dst.dstFilePath}\0${dst.dstSymbolName}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    relations.push({
+      type: 'references',
+      srcFilePath: filePath,
+      srcSymbolName,
+      dstFilePath: dst.dstFilePath,
+      dstSymbolName: dst.dstSymbolName,
+      ...(dst.metaJson ? { metaJson: dst.metaJson } : {}),
+    });
+  }
+
+  function walkChildren(node: any): void {
+    for (const key of Object.keys(node)) {
+      if (key === 'loc' || key === 'start' || key === 'end' || key === 'scope') continue;
+      const child = node[key];
+      if (child && typeof child === 'object') walk(child);
+    }
+  }
+
+  /** Walks `node` with `name` as the enclosing symbol (when given). */
+  function walkAs(name: string | null, node: any): void {
+    if (name !== null) symbolStack.push(name);
+    walkChildren(node);
+    if (name !== null) symbolStack.pop();
+  }
+
+  function walk(node: any): void {
+    if (!node || typeof node !== 'object') return;
+
+    if (Array.isArray(node)) {
+      for (const item of node) walk(item);
+      return;
+    }
+
+    // Namespaces and functions open a declaration scope.
+    const opensScope = outer.has(node);
+    if (opensScope) declarationScopes.push(node);
+
+    const params: any[] = node.typeParameters?.params ?? [];
+    if (params.length > 0) {
+      typeParamStack.push(new Set(params.map((p: any) => p.name?.name).filter(Boolean)));
+      visitNode(node);
+      typeParamStack.pop();
+    } else {
+      visitNode(node);
+    }
+
+    if (opensScope) declarationScopes.pop();
+  }
+
+  function visitNode(node: any): void {
+    const type: string = node.type ?? '';
+    const topLevel = symbolStack.length === 0 || symbolStack[symbolStack.length - 1] === moduleScope;
+    const scoped = (name: string | null): string | null => (name && moduleScope ? `${moduleScope}.${name}` : name);
+    /** Indexed name of `node`; `fallback` for declarations the symbol extractor names itself. */
+    const declared = (fallback: string | null): string | null => names.get(node)?.name ?? fallback;
+
+    if (type === 'TSTypeReference') {
+      record(node.typeName);
+      walk(node.typeArguments ?? node.typeParameters);
+      return;
+    }
+
+    if (type === 'TSModuleDeclaration' && topLevel) {
+      const outerScope = moduleScope;
+      moduleScope = declared(scoped(moduleDeclarationName(node)));
+      walkAs(moduleScope, node);
+      moduleScope = outerScope;
+      return;
+    }
+
+    if (
+      type === 'FunctionDeclaration' ||
+      type === 'ClassDeclaration' ||
+      type === 'ClassExpression' ||
+      type === 'TSInterfaceDeclaration' ||
+      type === 'TSTypeAliasDeclaration' ||
+      type === 'TSEnumDeclaration'
+    ) {
+      const name = declared(topLevel ? scoped(declarationName(node)) : null);
+      const outerOwner = memberOwner;
+      // Only class and interface members are indexed as `Owner.member`.
+      memberOwner = type.startsWith('Class') || type === 'TSInterfaceDeclaration' ? name : null;
+      walkAs(name, node);
+      memberOwner = outerOwner;
+      return;
+    }
+
+    if (type === 'VariableDeclarator' && node.id?.type === 'Identifier' && (topLevel || names.has(node))) {
+      walkAs(declared(scoped(node.id.name)), node);
+      return;
+    }
+
+    if (type === 'Property' && names.has(node)) {
+      // const api = { get(opts: Options) {} } → source `api.get`
+      walkAs(declared(null), node);
+      return;
+    }
+
+    if (
+      type === 'MethodDefinition' ||
+      type === 'PropertyDefinition' ||
+      type === 'TSAbstractMethodDefinition' ||
+      type === 'TSAbstractPropertyDefinition' ||
+      type === 'TSPropertySignature' ||
+      type === 'TSMethodSignature'
+    ) {
+      const outerOwner = memberOwner;
+      // Members of nested classes / object literal types are not indexed on their own.
+      memberOwner = null;
+      walkAs(outerOwner && node.key ? `${outerOwner}.${memberKeyText(node, sourceText)}` : null, node);
+      memberOwner = outerOwner;
+      return;
+    }
+
+    walkChildren(node);
+  }
+
+  walk(ast as any);
+  return relations;
+}
@@ -8,7 +8,9 @@ export type SymbolKind =
   | 'type'
   | 'interface'
   | 'enum'
-  | 'property';
+  | 'property'
+  | 'namespace'
+  | 'module';
 
 export type Modifier =
   | 'async'
@@ -22,7 +24,16 @@ export type Modifier =
   | 'declare'
   | 'const';
 
+/** A name bound by a destructuring parameter. */
+export interface ParameterBinding {
+  name: string;
+  /** Property key when the binding is renamed (`{ key: name }`). */
+  key?: string;
+  defaultValue?: string;
+}
+
 export interface Parameter {
+  /** Identifier, or the pattern as source text for destructured parameters (`{ a, b }`). */
   name: string;
   /** Type annotation as source text. */
   type?: string;
@@ -30,6 +41,33 @@ export interface Parameter {
   defaultValue?: string;
   /** Parameter-level decorators (e.g., @Inject, @Body). */
   decorators?: Decorator[];
+  /** Names bound by an object / array pattern, nested patterns flattened. */
+  bindings?: ParameterBinding[];
+}
+
+export interface TypeParameter {
+  name: string;
+  /** `extends` constraint as source text. */
+  constraint?: string;
+  /** Default type as source text. */
+  default?: string;
+}
+
+/** Shape of the initializer of a variable or class property (wrappers like `as const` are ignored). */
+export type InitializerKind = 'literal' | 'object' | 'array' | 'call' | 'new' | 'function' | 'class' | 'other';
+
+/**
+ * Kind of a non-code module target, recorded as `metaJson.assetKind` on `imports` relations.
+ * `worker` marks `new Worker(new URL('./w.ts', import.meta.url))`; `url` any other `new URL(…)`
+ * reference whose target is not an asset by extension.
+ */
+export type AssetKind = 'json' | 'style' | 'image' | 'font' | 'wasm' | 'worker' | 'url';
+
+/** One call signature of an overloaded function or method. */
+export interface Signature {
+  parameters?: Parameter[];
+  returnType?: string;
+  typeParameters?: TypeParameter[];
 }
 
 export interface Heritage {
@@ -70,17 +108,51 @@ export interface ExtractedSymbol {
   name: string;
   span: SourceSpan;
   isExported: boolean;
+  /**
+   * Public names the symbol is exported under, set when any of them differs from `name`
+   * (e.g. `['default']` for `export default foo`, `['baz']` for `export { bar as baz }`).
+   */
+  exportedNames?: string[];
   methodKind?: 'method' | 'getter' | 'setter' | 'constructor';
 
   // Rich metadata — populated when applicable, undefined otherwise.
   parameters?: Parameter[];
   returnType?: string;
-  typeParameters?: string[];
+  typeParameters?: TypeParameter[];
+  /**
+   * Type as source text: the annotation of a variable or property, or the aliased type
+   * of a `type` alias.
+   */
+  type?: string;
+  initializerKind?: InitializerKind;
+  /** Initializer source text of an enum member. */
+  value?: string;
+  /**
+   * Set on React-style components: PascalCase functions returning JSX (also through
+   * `memo` / `forwardRef`) and classes extending `Component`.
+   */
+  isComponent?: boolean;
+  /**
+   * Overload signatures in declaration order, set when a function or method has more than
+   * one declaration. `parameters` / `returnType` stay those of the implementation (or of the
+   * first signature for bodiless declarations).
+   */
+  overloads?: Signature[];
   modifiers: Modifier[];
   heritage?: Heritage[];
   decorators?: Decorator[];
   /** Recursive: class/interface/enum members. */
   members?: ExtractedSymbol[];
+  /**
+   * Qualified name of the enclosing symbol for nested declarations (`outer` for `outer.inner`,
+   * `Svc.run` for a function declared in that method). `name` is then fully qualified.
+   */
+  parent?: string;
+  /**
+   * Module specifier extended by an ambient block (`'express'` for `declare module 'express'`,
+   * `'global'` for `declare global`). Set on the block symbol and every declaration inside it.
+   */
+  augments?: string;
   /** Parsed JSDoc comment associated with this symbol. */
   jsDoc?: JsDocBlock;
 }
@@ -102,7 +174,12 @@ export interface ImportReference {
 }
 
 export interface CodeRelation {
-  type: 'imports' | 'calls' | 'extends' | 'implements';
+  /**
+   * `overrides` is not extracted per file; it is derived by the indexer after each run.
+   * `external` / `unresolved` are imports whose specifier names an npm package (`dstFilePath`
+   * = package name) or a local file that does not exist (`dstFilePath` = specifier as written).
+   */
+  type: 'imports' | 'calls' | 'extends' | 'implements' | 'references' | 'overrides' | 'renders' | 'external' | 'unresolved';
   srcFilePath: string;
   /** null = module-level. */
   srcSymbolName: string | null;
@@ -7,4 +7,4 @@ export * from "./store";
 export * from "./indexer";
 export * from "./search";
 export { CodeLedger } from "./code-ledger";
-export type { CodeLedgerOptions } from "./code-ledger";
\ No newline at end of file
+export type { CodeLedgerOptions, ExternalDependency, UnresolvedImport, ParseDiagnostic, SymbolHistoryEntry, SnapshotInfo } from "./code-ledger";
\ No newline at end of file
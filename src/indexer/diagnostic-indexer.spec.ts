@@ -0,0 +1,127 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { parseSync } from 'oxc-parser';
+import type { ParsedFile } from '../parser/types';
+import { hasParseErrors, indexFileDiagnostics } from './diagnostic-indexer';
+
+const PROJECT = 'test-project';
+const FILE_PATH = 'src/index.ts';
+
+function makeError(overrides: Partial<{ severity: string; message: string; labels: any[]; helpMessage: string | null }> = {}) {
+  return { severity: 'Error', message: 'Unexpected token', labels: [], helpMessage: null, codeframe: null, ...overrides } as any;
+}
+
+function makeParsedFile(errors: any[], sourceText = ''): ParsedFile {
+  return { filePath: '/project/src/index.ts', program: {} as any, errors, comments: [], sourceText };
+}
+
+function parseFile(sourceText: string): ParsedFile {
+  return { ...makeParsedFile([], sourceText), program: parseSync('/project/src/index.ts', sourceText).program };
+}
+
+function makeDiagnosticRepo() {
+  return { replaceFileDiagnostics: mock((_p: string, _f: string, _rows: any[]) => {}) };
+}
+
+describe('hasParseErrors', () => {
+  it('should return true when an error-severity diagnostic is present', () => {
+    expect(hasParseErrors(makeParsedFile([makeError({ severity: 'Warning' }), makeError()]))).toBe(true);
+  });
+
+  it('should return false when only warnings and advice are present', () => {
+    expect(hasParseErrors(makeParsedFile([makeError({ severity: 'Warning' }), makeError({ severity: 'Advice' })]))).toBe(false);
+  });
+});
+
+describe('indexFileDiagnostics', () => {
+  it('should store the span of the first label as line and column when the error has labels', () => {
+    const sourceText = 'const a = 1;\nconst b = ;\n';
+    const error = makeError({
+      message: 'Unexpected token',
+      helpMessage: 'Try inserting an expression',
+      labels: [{ message: null, start: 23, end: 24 }, { message: null, start: 0, end: 1 }],
+    });
+    const diagnosticRepo = makeDiagnosticRepo();
+
+    const count = indexFileDiagnostics({ parsed: makeParsedFile([error], sourceText), project: PROJECT, filePath: FILE_PATH, diagnosticRepo });
+
+    expect(count).toBe(1);
+    expect(diagnosticRepo.replaceFileDiagnostics).toHaveBeenCalledWith(PROJECT, FILE_PATH, [
+      {
+        project: PROJECT,
+        filePath: FILE_PATH,
+        severity: 'error',
+        message: 'Unexpected token',
+        helpMessage: 'Try inserting an expression',
+        startLine: 2,
+        startColumn: 10,
+        endLine: 2,
+        endColumn: 11,
+      },
+    ]);
+  });
+
+  it('should point at the file start when the error has no labels', () => {
+    const diagnosticRepo = makeDiagnosticRepo();
+
+    indexFileDiagnostics({ parsed: makeParsedFile([makeError({ severity: 'Warning' })], 'x'), project: PROJECT, filePath: FILE_PATH, diagnosticRepo });
+
+    const [, , rows] = diagnosticRepo.replaceFileDiagnostics.mock.calls[0]!;
+    expect(rows[0]).toMatchObject({ severity: 'warning', startLine: 1, startColumn: 0, endLine: 1, endColumn: 0 });
+  });
+
+  it('should clear stored diagnostics when the file parses cleanly', () => {
+    const diagnosticRepo = makeDiagnosticRepo();
+
+    const count = indexFileDiagnostics({ parsed: makeParsedFile([]), project: PROJECT, filePath: FILE_PATH, diagnosticRepo });
+
+    expect(count).toBe(0);
+    expect(diagnosticRepo.replaceFileDiagnostics).toHaveBeenCalledWith(PROJECT, FILE_PATH, []);
+  });
+
+  it('should store one warning located at the specifier when an import target does not exist', () => {
+    const diagnosticRepo = makeDiagnosticRepo();
+    const parsed = parseFile(`import { a } from './missing';\nimport { b } from './missing';\n`);
+
+    const count = indexFileDiagnostics({
+      parsed,
+      project: PROJECT,
+      filePath: FILE_PATH,
+      diagnosticRepo,
+      unresolvedImports: [
+        { dstFilePath: './missing', metaJson: '{"localName":"a"}' },
+        { dstFilePath: './missing', metaJson: '{"localName":"b"}' },
+      ],
+    });
+
+    expect(count).toBe(1);
+    const [, , rows] = diagnosticRepo.replaceFileDiagnostics.mock.calls[0]!;
+    expect(rows[0]).toMatchObject({
+      severity: 'warning',
+      message: "Cannot resolve import './missing'",
+      startLine: 1,
+      startColumn: 18,
+      endLine: 1,
+      endColumn: 29,
+    });
+  });
+
+  it('should locate the relative specifier when an import resolves outside the project root', () => {
+    const diagnosticRepo = makeDiagnosticRepo();
+    const parsed = parseFile(`import { b } from '../../shared/x';\n`);
+
+    indexFileDiagnostics({
+      parsed,
+      project: PROJECT,
+      filePath: FILE_PATH,
+      diagnosticRepo,
+      unresolvedImports: [{ dstFilePath: '../shared/x.ts', metaJson: '{"outsideProject":true}' }],
+    });
+
+    const [, , rows] = diagnosticRepo.replaceFileDiagnostics.mock.calls[0]!;
+    expect(rows[0]).toMatchObject({
+      message: "Import '../shared/x.ts' resolves outside the project root",
+      startLine: 1,
+      startColumn: 18,
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { posix } from 'node:path';
+import type { ParsedFile } from '../parser/types';
+import { buildLineOffsets, getLineColumn } from '../parser/source-position';
+import { visit } from '../parser/ast-utils';
+import type { RelationDbRow } from './relation-indexer';
+
+// ── Types ─────────────────────────────────────────────────────────────────
+
+export interface DiagnosticDbRow {
+  project: string;
+  filePath: string;
+  /** `error` | `warning` | `advice` */
+  severity: string;
+  message: string;
+  helpMessage: string | null;
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+}
+
+interface DiagnosticRepoPart {
+  replaceFileDiagnostics(project: string, filePath: string, rows: DiagnosticDbRow[]): void;
+}
+
+export interface IndexFileDiagnosticsOptions {
+  parsed: ParsedFile;
+  project: string;
+  filePath: string;
+  diagnosticRepo: DiagnosticRepoPart;
+  /** Stored `unresolved` relations of the file; each distinct target yields a warning. */
+  unresolvedImports?: ReadonlyArray<Pick<RelationDbRow, 'dstFilePath' | 'metaJson'>>;
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+/** Whether the parser reported at least one error (warnings and advice do not make the AST partial). */
+export function hasParseErrors(parsed: ParsedFile): boolean {
+  return parsed.errors.some((err) => String(err.severity).toLowerCase() === 'error');
+}
+
+/**
+ * Span of the first string literal naming `dstFilePath`: the specifier as written, or a
+ * relative specifier resolving to it (`../shared/util` for `../shared/util.ts`).
+ */
+function findSpecifier(program: unknown, filePath: string, dstFilePath: string): { start: number; end: number } | null {
+  let found: { start: number; end: number } | null = null;
+  visit(program, (node) => {
+    if (found || node.type !== 'Literal' || typeof node.value !== 'string') return;
+    const value = node.value;
+    const target = value.startsWith('.') ? posix.join(posix.dirname(filePath), value) : null;
+    if (
+      value === dstFilePath ||
+      (target !== null && (dstFilePath === target || dstFilePath.startsWith(`${target}.`) || dstFilePath.startsWith(`${target}/index.`)))
+    ) {
+      found = { start: node.start as number, end: node.end as number };
+    }
+  });
+  return found;
+}
+
+// ── Main ───────────────────────────────────────────────────────────────────
+
+/**
+ * Maps the parser errors of `parsed` to DB rows and replaces the file's stored diagnostics.
+ * Each error is located by its first label; errors without labels point at the file start.
+ * Unresolved imports are appended as warnings located at their specifier.
+ * A clean parse without unresolved imports clears earlier diagnostics.
+ *
+ * @returns Number of diagnostics stored.
+ */
+export function indexFileDiagnostics(opts: IndexFileDiagnosticsOptions): number {
+  const { parsed, project, filePath, diagnosticRepo, unresolvedImports = [] } = opts;
+
+  const offsets =
+    parsed.errors.length > 0 || unresolvedImports.length > 0 ? buildLineOffsets(parsed.sourceText) : [];
+  const rows = parsed.errors.map((err): DiagnosticDbRow => {
+    const label = err.labels[0];
+    const start = getLineColumn(offsets, label?.start ?? 0);
+    const end = getLineColumn(offsets, label?.end ?? 0);
+    return {
+      project,
+      filePath,
+      severity: String(err.severity).toLowerCase(),
+      message: err.message,
+      helpMessage: err.helpMessage ?? null,
+      startLine: start.line,
+      startColumn: start.column,
+      endLine: end.line,
+      endColumn: end.column,
+    };
+  });
+
+  const seen = new Set<string>();
+  for (const rel of unresolvedImports) {
+    if (seen.has(rel.dstFilePath)) continue;
+    seen.add(rel.dstFilePath);
+
+    const outsideProject = rel.metaJson ? JSON.parse(rel.metaJson).outsideProject === true : false;
+    const span = findSpecifier(parsed.program, filePath, rel.dstFilePath);
+    const start = getLineColumn(offsets, span?.start ?? 0);
+    const end = getLineColumn(offsets, span?.end ?? 0);
+    rows.push({
+      project,
+      filePath,
+      severity: 'warning',
+      message: outsideProject
+        ? `Import '${rel.dstFilePath}' resolves outside the project root`
+        : `Cannot resolve import '${rel.dstFilePath}'`,
+      helpMessage: null,
+      startLine: start.line,
+      startColumn: start.column,
+      endLine: end.line,
+      endColumn: end.column,
+    });
+  }
+
+  diagnosticRepo.replaceFileDiagnostics(project, filePath, rows);
+  return rows.length;
+}
@@ -5,6 +5,8 @@ import type { FileChangeEvent } from '../watcher/types';
 const mockDetectChanges = mock(async (_opts: any) => ({ changed: [], unchanged: [], deleted: [] }));
 const mockIndexFileSymbols = mock((_opts: any) => {});
 const mockIndexFileRelations = mock((_opts: any) => 0);
+const mockResolveReExportChains = mock((_opts: any) => 0);
+const mockResolveOverrides = mock((_opts: any) => 0);
 const mockParseSource = mock((_filePath: string, _text: string) => ({
   filePath: _filePath,
   program: {},
@@ -13,9 +15,11 @@ const mockParseSource = mock((_filePath: string, _text: string) => ({
   sourceText: _text,
 }));
 const mockLoadTsconfigPaths = mock((_root: string) => null);
+const mockLoadTsconfigPathsForFile = mock(async (_filePath: string, _root: string): Promise<unknown> => null);
 const mockClearTsconfigPathsCache = mock((_root?: string) => {});
 const mockResolveFileProject = mock((_rel: string, _bounds: any[], _root?: string) => 'test-project');
 const mockDiscoverProjects = mock(async (_root: string) => [{ dir: '.', project: 'test-project' }]);
+const mockToWorkspacePackages = mock((_root: string, _bounds: any[]) => [] as any[]);
 
 import { IndexCoordinator } from './index-coordinator';
 
@@ -33,7 +37,6 @@ function makeSymbolRepo() {
   return {
     replaceFileSymbols: mock((_p: any, _f: any, _h: any, _s: any) => {}),
     getFileSymbols: mock((_p: any, _f: any) => []),
-    getByFingerprint: mock((_p: any, _fp: any) => []),
     deleteFileSymbols: mock((_p: any, _f: any) => {}),
   };
 }
@@ -43,6 +46,10 @@ function makeRelationRepo() {
     replaceFileRelations: mock((_p: any, _f: any, _r: any) => {}),
     retargetRelations: mock((_p: any, _of: any, _os: any, _nf: any, _ns: any) => {}),
     deleteFileRelations: mock((_p: any, _f: any) => {}),
+    getByType: mock((_p: any, _t: any) => [] as any[]),
+    getOutgoing: mock((_p: any, _f: any) => [] as any[]),
+    getIncoming: mock((_p: any, _f: any) => [] as any[]),
+    getRoutedThrough: mock((_p: any, _f: any) => [] as any[]),
   };
 }
 
@@ -60,6 +67,41 @@ function makeParseCache() {
   };
 }
 
+function makeDiagnosticRepo() {
+  return {
+    replaceFileDiagnostics: mock((_p: any, _f: any, _rows: any[]) => {}),
+  };
+}
+
+/** parseSource result carrying one syntax error. */
+function withParseError(filePath: string, text: string) {
+  return {
+    filePath,
+    program: { body: [] },
+    errors: [{ severity: 'Error', message: 'Unexpected token', labels: [{ message: null, start: 0, end: 1 }], helpMessage: null, codeframe: null }],
+    comments: [],
+    sourceText: text,
+  };
+}
+
+/** Symbol repo backed by a map; `indexFileSymbols` writes `next[filePath]`. */
+function makeStatefulSymbolRepo(stored: Record<string, any[]>, next: Record<string, any[]>) {
+  const symbolRepo = makeSymbolRepo();
+  symbolRepo.getFileSymbols.mockImplementation(((_p: string, f: string) => stored[f] ?? []) as any);
+  symbolRepo.deleteFileSymbols.mockImplementation((_p: any, f: any) => {
+    delete stored[f];
+  });
+  mockIndexFileSymbols.mockImplementation((opts: any) => {
+    stored[opts.filePath] = next[opts.filePath] ?? [];
+  });
+  return symbolRepo;
+}
+
+/** Stored symbol row with the columns the symbol diff compares. */
+function snap(name: string, bodyHash = `body-${name}`, fingerprint = `fp-${name}`, structuralFingerprint = `shape-${name}`) {
+  return { name, kind: 'function', fingerprint, bodyHash, structuralFingerprint };
+}
+
 function makeFakeFile(filePath: string) {
   return { filePath, contentHash: 'hash-' + filePath, mtimeMs: 1000, size: 100 };
 }
@@ -72,18 +114,23 @@ const IGNORE_PATTERNS: string[] = [];
 
 function makeCoordinator(overrides: Partial<{
   fileRepo: any; symbolRepo: any; relationRepo: any;
-  dbConnection: any; parseCache: any;
+  dbConnection: any; parseCache: any; assetExtensions: string[];
+  diagnosticRepo: any; keepLastGoodSymbols: boolean; historyRepo: any;
 }> = {}) {
   return new IndexCoordinator({
     projectRoot: PROJECT_ROOT,
     boundaries: BOUNDARIES,
     extensions: EXTENSIONS,
+    assetExtensions: overrides.assetExtensions,
     ignorePatterns: IGNORE_PATTERNS,
     dbConnection: overrides.dbConnection ?? makeDbConnection(),
     parseCache: overrides.parseCache ?? makeParseCache(),
     fileRepo: overrides.fileRepo ?? makeFileRepo(),
     symbolRepo: overrides.symbolRepo ?? makeSymbolRepo(),
     relationRepo: overrides.relationRepo ?? makeRelationRepo(),
+    diagnosticRepo: overrides.diagnosticRepo,
+    keepLastGoodSymbols: overrides.keepLastGoodSymbols,
+    historyRepo: overrides.historyRepo,
     // Inject the mock directly — avoids mock.module pollution of parse-source.spec.ts
     parseSourceFn: mockParseSource as any,
   });
@@ -93,25 +140,39 @@ beforeEach(() => {
   mock.module('./file-indexer', () => ({ detectChanges: mockDetectChanges }));
   mock.module('./symbol-indexer', () => ({ indexFileSymbols: mockIndexFileSymbols }));
   mock.module('./relation-indexer', () => ({ indexFileRelations: mockIndexFileRelations }));
-  mock.module('../common/tsconfig-resolver', () => ({ loadTsconfigPaths: mockLoadTsconfigPaths, clearTsconfigPathsCache: mockClearTsconfigPathsCache }));
-  mock.module('../common/project-discovery', () => ({ resolveFileProject: mockResolveFileProject, discoverProjects: mockDiscoverProjects }));
+  mock.module('./reexport-resolver', () => ({ resolveReExportChains: mockResolveReExportChains }));
+  mock.module('./override-resolver', () => ({ resolveOverrides: mockResolveOverrides }));
+  mock.module('../common/tsconfig-resolver', () => ({
+    loadTsconfigPaths: mockLoadTsconfigPaths,
+    loadTsconfigPathsForFile: mockLoadTsconfigPathsForFile,
+    clearTsconfigPathsCache: mockClearTsconfigPathsCache,
+  }));
+  mock.module('../common/project-discovery', () => ({ resolveFileProject: mockResolveFileProject, discoverProjects: mockDiscoverProjects, toWorkspacePackages: mockToWorkspacePackages }));
 
   mockDetectChanges.mockReset();
   mockDetectChanges.mockResolvedValue({ changed: [], unchanged: [], deleted: [] });
   mockIndexFileSymbols.mockReset();
   mockIndexFileRelations.mockReset();
   mockIndexFileRelations.mockReturnValue(0);
+  mockResolveReExportChains.mockReset();
+  mockResolveReExportChains.mockReturnValue(0);
+  mockResolveOverrides.mockReset();
+  mockResolveOverrides.mockReturnValue(0);
   mockParseSource.mockReset();
   mockParseSource.mockImplementation((_fp: string, text: string) => ({
     filePath: _fp, program: { body: [] }, errors: [], comments: [], sourceText: text,
   }));
   mockLoadTsconfigPaths.mockReset();
   mockLoadTsconfigPaths.mockReturnValue(null);
+  mockLoadTsconfigPathsForFile.mockReset();
+  mockLoadTsconfigPathsForFile.mockResolvedValue(null);
   mockClearTsconfigPathsCache.mockReset();
   mockResolveFileProject.mockReset();
   mockResolveFileProject.mockReturnValue('test-project');
   mockDiscoverProjects.mockReset();
   mockDiscoverProjects.mockResolvedValue([{ dir: '.', project: 'test-project' }]);
+  mockToWorkspacePackages.mockReset();
+  mockToWorkspacePackages.mockReturnValue([]);
 
   spyOn(Bun, 'file').mockReturnValue({
     text: async () => 'mock source',
@@ -219,12 +280,10 @@ describe('IndexCoordinator', () => {
     spyConsoleError.mockRestore();
   });
 
-  // [HP] move tracking: 1 deleted + 1 new same fingerprint → retargetRelations called
-  it('should call retargetRelations when deleted and new symbol share the same fingerprint', async () => {
+  // [HP] move tracking: 1 deleted + 1 new with the same structure → retargetRelations called
+  it('should call retargetRelations when a deleted symbol reappears in a new file with the same structure', async () => {
     const relationRepo = makeRelationRepo();
-    const symbolRepo = makeSymbolRepo();
-    symbolRepo.getByFingerprint.mockReturnValue([{ filePath: 'src/new.ts', name: 'movedFn', kind: 'function' }]);
-    symbolRepo.getFileSymbols.mockReturnValue([{ filePath: 'src/old.ts', name: 'movedFn', fingerprint: 'fp-move', kind: 'function' }]);
+    const symbolRepo = makeStatefulSymbolRepo({ 'src/old.ts': [snap('movedFn')] }, { 'src/new.ts': [snap('movedFn')] });
 
     const coordinator = makeCoordinator({ symbolRepo, relationRepo });
     mockDetectChanges.mockResolvedValue({
@@ -236,20 +295,16 @@ describe('IndexCoordinator', () => {
 
     await coordinator.incrementalIndex();
 
-    expect(relationRepo.retargetRelations).toHaveBeenCalled();
+    expect(relationRepo.retargetRelations).toHaveBeenCalledWith('test-project', 'src/old.ts', 'movedFn', 'src/new.ts', 'movedFn');
   });
 
-  // [CO] move tracking ambiguous (2 deleted + 2 new same fingerprint) → no retarget
-  it('should not retarget relations when fingerprint match is ambiguous (multiple matches)', async () => {
+  // [CO] move tracking ambiguous (1 deleted + 2 new with the same structure) → no retarget
+  it('should not retarget relations when the structural match is ambiguous (multiple matches)', async () => {
     const relationRepo = makeRelationRepo();
-    const symbolRepo = makeSymbolRepo();
-    symbolRepo.getByFingerprint.mockReturnValue([
-      { filePath: 'src/new1.ts', name: 'fn', kind: 'function' },
-      { filePath: 'src/new2.ts', name: 'fn', kind: 'function' },
-    ]);
-    symbolRepo.getFileSymbols.mockReturnValue([
-      { filePath: 'src/old.ts', name: 'fn', fingerprint: 'fp-dup', kind: 'function' },
-    ]);
+    const symbolRepo = makeStatefulSymbolRepo(
+      { 'src/old.ts': [snap('fn', 'body', 'fp', 'shape')] },
+      { 'src/new1.ts': [snap('fn', 'body', 'fp', 'shape')], 'src/new2.ts': [snap('fn', 'body', 'fp', 'shape')] },
+    );
 
     const coordinator = makeCoordinator({ symbolRepo, relationRepo });
     mockDetectChanges.mockResolvedValue({
@@ -264,6 +319,47 @@ describe('IndexCoordinator', () => {
     expect(relationRepo.retargetRelations).not.toHaveBeenCalled();
   });
 
+  // [HP] rename tracking: same file, same structure, new name → retargetRelations to the new name
+  it('should retarget relations to the new name when a symbol is renamed without structural changes', async () => {
+    const relationRepo = makeRelationRepo();
+    const symbolRepo = makeStatefulSymbolRepo(
+      { 'src/a.ts': [snap('load', 'body-load', 'fp-load', 'shape-load')] },
+      { 'src/a.ts': [snap('fetchFile', 'body-fetch', 'fp-fetch', 'shape-load')] },
+    );
+    const coordinator = makeCoordinator({ symbolRepo, relationRepo });
+
+    const result = await coordinator.incrementalIndex([{ eventType: 'change', filePath: 'src/a.ts' }]);
+
+    expect(relationRepo.retargetRelations).toHaveBeenCalledWith('test-project', 'src/a.ts', 'load', 'src/a.ts', 'fetchFile');
+    expect(result.symbolChanges).toEqual([
+      {
+        filePath: 'src/a.ts',
+        added: [],
+        removed: [],
+        modified: [],
+        renamed: [{ name: 'fetchFile', kind: 'function', previousName: 'load' }],
+        moved: [],
+      },
+    ]);
+  });
+
+  // [HP] rename + move across files → retarget old file / old name to new file / new name
+  it('should retarget relations to the new file and name when a symbol is renamed while moving', async () => {
+    const relationRepo = makeRelationRepo();
+    const symbolRepo = makeStatefulSymbolRepo(
+      { 'src/old.ts': [snap('load', 'body-load', 'fp-load', 'shape-load')] },
+      { 'src/new.ts': [snap('fetchFile', 'body-fetch', 'fp-fetch', 'shape-load')] },
+    );
+    const coordinator = makeCoordinator({ symbolRepo, relationRepo });
+
+    await coordinator.incrementalIndex([
+      { eventType: 'delete', filePath: 'src/old.ts' },
+      { eventType: 'create', filePath: 'src/new.ts' },
+    ]);
+
+    expect(relationRepo.retargetRelations).toHaveBeenCalledWith('test-project', 'src/old.ts', 'load', 'src/new.ts', 'fetchFile');
+  });
+
   // [CR] handleWatcherEvent with indexingLock=true → queued, not executed immediately
   it('should queue watcher event without starting indexing when indexingLock is active', async () => {
     let resolveIndex!: () => void;
@@ -474,9 +570,9 @@ describe('IndexCoordinator', () => {
   });
 
   // [HP] tsconfigPaths passed to RelationIndexer
-  it('should load tsconfigPaths on construction and pass it to indexFileRelations', async () => {
+  it('should pass the tsconfig paths governing each file to indexFileRelations during fullIndex', async () => {
     const fakePaths = { baseUrl: '/project', paths: new Map() };
-    mockLoadTsconfigPaths.mockReturnValue(fakePaths);
+    mockLoadTsconfigPathsForFile.mockResolvedValue(fakePaths);
     const files = [makeFakeFile('src/index.ts')];
     mockDetectChanges.mockResolvedValue({ changed: files, unchanged: [], deleted: [] });
     spyOn(Bun, 'file').mockReturnValue({ text: async () => '' } as any);
@@ -484,11 +580,111 @@ describe('IndexCoordinator', () => {
     const coordinator = makeCoordinator();
     await coordinator.fullIndex();
 
+    expect(mockLoadTsconfigPathsForFile).toHaveBeenCalledWith(`${PROJECT_ROOT}/src/index.ts`, PROJECT_ROOT);
     expect(mockIndexFileRelations).toHaveBeenCalledWith(
       expect.objectContaining({ tsconfigPaths: fakePaths }),
     );
   });
 
+  it('should pass the tsconfig paths governing each file to indexFileRelations during incremental index', async () => {
+    const packagePaths = { baseUrl: '/project/packages/core', paths: new Map() };
+    mockLoadTsconfigPathsForFile.mockResolvedValue(packagePaths);
+    spyOn(Bun, 'file').mockReturnValue({ text: async () => '' } as any);
+
+    const coordinator = makeCoordinator();
+    await coordinator.incrementalIndex([{ eventType: 'change', filePath: 'packages/core/src/a.ts' }]);
+
+    expect(mockLoadTsconfigPathsForFile).toHaveBeenCalledWith(`${PROJECT_ROOT}/packages/core/src/a.ts`, PROJECT_ROOT);
+    expect(mockIndexFileRelations).toHaveBeenCalledWith(
+      expect.objectContaining({ tsconfigPaths: packagePaths }),
+    );
+  });
+
+  // [HP] workspace packages derived from boundaries passed to RelationIndexer
+  it('should pass workspace packages built from boundaries to indexFileRelations', async () => {
+    const packages = [{ name: '@acme/core', dir: '/project/packages/core', manifest: { name: '@acme/core' } }];
+    mockToWorkspacePackages.mockReturnValue(packages);
+    mockDetectChanges.mockResolvedValue({ changed: [makeFakeFile('src/index.ts')], unchanged: [], deleted: [] });
+    spyOn(Bun, 'file').mockReturnValue({ text: async () => '' } as any);
+
+    const coordinator = makeCoordinator();
+    await coordinator.fullIndex();
+
+    expect(mockToWorkspacePackages).toHaveBeenCalledWith(PROJECT_ROOT, BOUNDARIES);
+    expect(mockIndexFileRelations).toHaveBeenCalledWith(
+      expect.objectContaining({ workspacePackages: packages }),
+    );
+  });
+
+  it('should pass workspace packages to indexFileRelations when indexing incremental events', async () => {
+    const packages = [{ name: '@acme/core', dir: '/project/packages/core', manifest: { name: '@acme/core' } }];
+    mockToWorkspacePackages.mockReturnValue(packages);
+    spyOn(Bun, 'file').mockReturnValue({ text: async () => '' } as any);
+
+    const coordinator = makeCoordinator();
+    await coordinator.incrementalIndex([{ eventType: 'change', filePath: 'src/a.ts' }]);
+
+    expect(mockIndexFileRelations).toHaveBeenCalledWith(
+      expect.objectContaining({ workspacePackages: packages }),
+    );
+  });
+
+  // [HP] re-export chains resolved after files are indexed
+  it('should resolve re-export chains with boundaries and repos after indexing changed files', async () => {
+    mockDetectChanges.mockResolvedValue({ changed: [makeFakeFile('src/index.ts')], unchanged: [], deleted: [] });
+    spyOn(Bun, 'file').mockReturnValue({ text: async () => '' } as any);
+    const relationRepo = makeRelationRepo();
+    const symbolRepo = makeSymbolRepo();
+
+    const coordinator = makeCoordinator({ relationRepo, symbolRepo });
+    await coordinator.fullIndex();
+
+    expect(mockResolveReExportChains).toHaveBeenCalledWith({ boundaries: BOUNDARIES, relationRepo, symbolRepo });
+  });
+
+  // [HP] overrides derived after re-export chains are resolved
+  it('should resolve member overrides after re-export chains when files changed', async () => {
+    mockDetectChanges.mockResolvedValue({ changed: [makeFakeFile('src/index.ts')], unchanged: [], deleted: [] });
+    spyOn(Bun, 'file').mockReturnValue({ text: async () => '' } as any);
+    const order: string[] = [];
+    mockResolveReExportChains.mockImplementation(() => { order.push('reexports'); return 0; });
+    mockResolveOverrides.mockImplementation(() => { order.push('overrides'); return 0; });
+    const relationRepo = makeRelationRepo();
+    const symbolRepo = makeSymbolRepo();
+
+    const coordinator = makeCoordinator({ relationRepo, symbolRepo });
+    await coordinator.fullIndex();
+
+    expect(mockResolveOverrides).toHaveBeenCalledWith({ boundaries: BOUNDARIES, relationRepo, symbolRepo });
+    expect(order).toEqual(['reexports', 'overrides']);
+  });
+
+  // [HP] incremental runs scope both passes to the touched files
+  it('should pass changed and deleted files to the post-index passes when indexing incrementally', async () => {
+    spyOn(Bun, 'file').mockReturnValue({ text: async () => '' } as any);
+    const relationRepo = makeRelationRepo();
+    const symbolRepo = makeSymbolRepo();
+
+    const coordinator = makeCoordinator({ relationRepo, symbolRepo });
+    await coordinator.incrementalIndex([
+      { eventType: 'change', filePath: 'src/a.ts' },
+      { eventType: 'delete', filePath: 'src/b.ts' },
+    ]);
+
+    const changedFiles = ['src/a.ts', 'src/b.ts'];
+    expect(mockResolveReExportChains).toHaveBeenCalledWith({ boundaries: BOUNDARIES, relationRepo, symbolRepo, changedFiles });
+    expect(mockResolveOverrides).toHaveBeenCalledWith({ boundaries: BOUNDARIES, relationRepo, symbolRepo, changedFiles });
+  });
+
+  // [ED] nothing changed → re-export pass skipped
+  it('should skip re-export chain resolution when no files changed or were deleted', async () => {
+    const coordinator = makeCoordinator();
+    await coordinator.fullIndex();
+
+    expect(mockResolveReExportChains).not.toHaveBeenCalled();
+    expect(mockResolveOverrides).not.toHaveBeenCalled();
+  });
+
   // [HP] resolveFileProject used to assign project per file
   it('should call resolveFileProject to determine project for each indexed file', async () => {
     const files = [makeFakeFile('apps/web/src/index.ts')];
@@ -584,6 +780,24 @@ describe('IndexCoordinator', () => {
     expect(callOrder).toEqual(['clear', 'load']);
   });
 
+  // [HP] 변경된 tsconfig 파일만 무효화해야 한다
+  it('should invalidate only the changed config when a package tsconfig changes', () => {
+    const coordinator = makeCoordinator();
+
+    coordinator.handleWatcherEvent({ eventType: 'change', filePath: 'packages/core/tsconfig.json' });
+
+    expect(mockClearTsconfigPathsCache).toHaveBeenCalledWith(`${PROJECT_ROOT}/packages/core/tsconfig.json`);
+  });
+
+  // [HP] tsconfig.base.json 등 extends 대상 변경도 처리해야 한다
+  it('should invalidate the config when a tsconfig variant such as tsconfig.base.json changes', () => {
+    const coordinator = makeCoordinator();
+
+    coordinator.handleWatcherEvent({ eventType: 'change', filePath: 'tsconfig.base.json' });
+
+    expect(mockClearTsconfigPathsCache).toHaveBeenCalledWith(`${PROJECT_ROOT}/tsconfig.base.json`);
+  });
+
   // [OR] tsconfig.json 이벤트에서 clear → load → fullIndex 순서 보장
   it('should trigger fullIndex after clearTsconfigPathsCache and loadTsconfigPaths on tsconfig.json change', async () => {
     const coordinator = makeCoordinator();
@@ -912,4 +1126,237 @@ describe('IndexCoordinator', () => {
 
     expect((result as any).failedFiles).toEqual(['src/a.ts', 'src/b.ts']);
   });
+  // [HP] asset files are file nodes only
+  it('should upsert asset files without parsing them when incrementalIndex receives an asset change', async () => {
+    const fileRepo = makeFileRepo();
+    const coordinator = makeCoordinator({ fileRepo, assetExtensions: ['.json', '.css'] });
+
+    const result = await coordinator.incrementalIndex([{ eventType: 'change', filePath: 'src/fixture.json' }]);
+
+    expect(fileRepo.upsertFile).toHaveBeenCalledWith(expect.objectContaining({ filePath: 'src/fixture.json' }));
+    expect(mockParseSource).not.toHaveBeenCalled();
+    expect(mockIndexFileSymbols).not.toHaveBeenCalled();
+    expect(mockIndexFileRelations).not.toHaveBeenCalled();
+    expect(result.changedFiles).toEqual(['src/fixture.json']);
+  });
+
+  it('should scan asset extensions and skip parsing assets when fullIndex runs', async () => {
+    mockDetectChanges.mockResolvedValue({
+      changed: [makeFakeFile('src/a.ts'), makeFakeFile('src/styles.css')] as any,
+      unchanged: [],
+      deleted: [],
+    });
+    const fileRepo = makeFileRepo();
+    const coordinator = makeCoordinator({ fileRepo, assetExtensions: ['.json', '.css'] });
+
+    await coordinator.fullIndex();
+
+    expect(mockDetectChanges.mock.calls[0]![0].extensions).toEqual(['.ts', '.json', '.css']);
+    expect(fileRepo.upsertFile).toHaveBeenCalledTimes(2);
+    expect(mockParseSource).toHaveBeenCalledTimes(1);
+    expect(mockParseSource.mock.calls[0]![0]).toBe('/project/src/a.ts');
+  });
+
+  // ── Parse diagnostics ────────────────────────────────────────────────────
+
+  it('should store diagnostics and report the file in parseErrorFiles when the file fails to parse', async () => {
+    mockParseSource.mockImplementation(withParseError as any);
+    const diagnosticRepo = makeDiagnosticRepo();
+    const coordinator = makeCoordinator({ diagnosticRepo });
+
+    const result = await coordinator.incrementalIndex([{ eventType: 'change', filePath: 'src/broken.ts' }]);
+
+    const [project, filePath, rows] = diagnosticRepo.replaceFileDiagnostics.mock.calls[0]!;
+    expect([project, filePath]).toEqual(['test-project', 'src/broken.ts']);
+    expect(rows).toEqual([expect.objectContaining({ severity: 'error', message: 'Unexpected token', startLine: 1, startColumn: 0 })]);
+    expect(result.parseErrorFiles).toEqual(['src/broken.ts']);
+    // Without keepLastGoodSymbols the partial AST is indexed.
+    expect(mockIndexFileSymbols).toHaveBeenCalledTimes(1);
+  });
+
+  it('should clear diagnostics and report no parse errors when the file parses cleanly', async () => {
+    const diagnosticRepo = makeDiagnosticRepo();
+    const coordinator = makeCoordinator({ diagnosticRepo });
+
+    const result = await coordinator.incrementalIndex([{ eventType: 'change', filePath: 'src/a.ts' }]);
+
+    expect(diagnosticRepo.replaceFileDiagnostics).toHaveBeenCalledWith('test-project', 'src/a.ts', []);
+    expect(result.parseErrorFiles).toEqual([]);
+  });
+
+  it('should store a warning for each unresolved import when the file relations are indexed', async () => {
+    const relationRepo = makeRelationRepo();
+    relationRepo.getOutgoing.mockImplementation(() =>
+      mockIndexFileRelations.mock.calls.length > 0
+        ? [{ type: 'unresolved', dstFilePath: './missing', metaJson: null }, { type: 'imports', dstFilePath: 'src/b.ts', metaJson: null }]
+        : [],
+    );
+    const diagnosticRepo = makeDiagnosticRepo();
+    const coordinator = makeCoordinator({ relationRepo, diagnosticRepo });
+
+    await coordinator.incrementalIndex([{ eventType: 'change', filePath: 'src/a.ts' }]);
+
+    expect(diagnosticRepo.replaceFileDiagnostics).toHaveBeenCalledWith('test-project', 'src/a.ts', [
+      expect.objectContaining({ severity: 'warning', message: "Cannot resolve import './missing'" }),
+    ]);
+  });
+
+  it('should keep stored symbols and relations when keepLastGoodSymbols is set and a previously indexed file fails to parse', async () => {
+    mockParseSource.mockImplementation(withParseError as any);
+    const symbolRepo = makeSymbolRepo();
+    symbolRepo.getFileSymbols.mockReturnValue([{ name: 'foo' }] as any);
+    const diagnosticRepo = makeDiagnosticRepo();
+    const coordinator = makeCoordinator({ symbolRepo, diagnosticRepo, keepLastGoodSymbols: true });
+
+    const result = await coordinator.incrementalIndex([{ eventType: 'change', filePath: 'src/broken.ts' }]);
+
+    expect(mockIndexFileSymbols).not.toHaveBeenCalled();
+    expect(mockIndexFileRelations).not.toHaveBeenCalled();
+    expect(diagnosticRepo.replaceFileDiagnostics).toHaveBeenCalledTimes(1);
+    expect(result.totalSymbols).toBe(1);
+    expect(result.parseErrorFiles).toEqual(['src/broken.ts']);
+  });
+
+  it('should index the partial AST when keepLastGoodSymbols is set but the file has no stored symbols', async () => {
+    mockParseSource.mockImplementation(withParseError as any);
+    const coordinator = makeCoordinator({ keepLastGoodSymbols: true });
+
+    await coordinator.incrementalIndex([{ eventType: 'create', filePath: 'src/new.ts' }]);
+
+    expect(mockIndexFileSymbols).toHaveBeenCalledTimes(1);
+    expect(mockIndexFileRelations).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not delete a kept file during fullIndex when keepLastGoodSymbols is set and the file fails to parse', async () => {
+    mockDetectChanges.mockResolvedValue({
+      changed: [makeFakeFile('src/a.ts'), makeFakeFile('src/broken.ts')] as any,
+      unchanged: [],
+      deleted: [],
+    });
+    mockParseSource.mockImplementation(((fp: string, text: string) =>
+      fp.endsWith('broken.ts')
+        ? withParseError(fp, text)
+        : { filePath: fp, program: { body: [] }, errors: [], comments: [], sourceText: text }) as any);
+    const fileRepo = makeFileRepo();
+    fileRepo.getAllFiles.mockReturnValue([
+      { project: 'test-project', filePath: 'src/a.ts' },
+      { project: 'test-project', filePath: 'src/broken.ts' },
+    ] as any);
+    const symbolRepo = makeSymbolRepo();
+    symbolRepo.getFileSymbols.mockReturnValue([{ name: 'foo' }] as any);
+    const diagnosticRepo = makeDiagnosticRepo();
+    const coordinator = makeCoordinator({ fileRepo, symbolRepo, diagnosticRepo, keepLastGoodSymbols: true });
+
+    const result = await coordinator.fullIndex();
+
+    expect(fileRepo.deleteFile).toHaveBeenCalledTimes(1);
+    expect(fileRepo.deleteFile).toHaveBeenCalledWith('test-project', 'src/a.ts');
+    expect(mockIndexFileSymbols).toHaveBeenCalledTimes(1);
+    expect(mockIndexFileSymbols.mock.calls[0]![0].filePath).toBe('src/a.ts');
+    expect(diagnosticRepo.replaceFileDiagnostics).toHaveBeenCalledTimes(2);
+    expect(result.parseErrorFiles).toEqual(['src/broken.ts']);
+  });
+
+  // ── Symbol change sets ───────────────────────────────────────────────────
+
+  it('should report added, removed and modified symbols when incrementalIndex re-indexes a changed file', async () => {
+    const symbolRepo = makeStatefulSymbolRepo(
+      { 'src/a.ts': [snap('keep'), snap('edit'), snap('gone')] },
+      { 'src/a.ts': [snap('keep'), snap('edit', 'body-edit-2'), snap('fresh')] },
+    );
+    const coordinator = makeCoordinator({ symbolRepo });
+
+    const result = await coordinator.incrementalIndex([{ eventType: 'change', filePath: 'src/a.ts' }]);
+
+    expect(result.symbolChanges).toEqual([
+      {
+        filePath: 'src/a.ts',
+        added: [{ name: 'fresh', kind: 'function' }],
+        removed: [{ name: 'gone', kind: 'function' }],
+        modified: [{ name: 'edit', kind: 'function', bodyChanged: true, signatureChanged: false }],
+        renamed: [],
+        moved: [],
+      },
+    ]);
+  });
+
+  it('should report a moved symbol when incrementalIndex deletes one file and creates another holding the same symbol', async () => {
+    const symbolRepo = makeStatefulSymbolRepo({ 'src/old.ts': [snap('helper')] }, { 'src/new.ts': [snap('helper')] });
+    const coordinator = makeCoordinator({ symbolRepo });
+    const received: any[] = [];
+    coordinator.onIndexed((r) => received.push(r));
+
+    const result = await coordinator.incrementalIndex([
+      { eventType: 'delete', filePath: 'src/old.ts' },
+      { eventType: 'create', filePath: 'src/new.ts' },
+    ]);
+
+    expect(result.symbolChanges).toEqual([
+      {
+        filePath: 'src/new.ts',
+        added: [],
+        removed: [],
+        modified: [],
+        renamed: [],
+        moved: [{ name: 'helper', kind: 'function', fromFilePath: 'src/old.ts' }],
+      },
+    ]);
+    expect(received[0].symbolChanges).toEqual(result.symbolChanges);
+  });
+
+  it('should compare against symbols stored before the wipe when fullIndex re-indexes a file', async () => {
+    mockDetectChanges.mockResolvedValue({ changed: [makeFakeFile('src/a.ts')] as any, unchanged: [], deleted: [] });
+    const stored: Record<string, any[]> = { 'src/a.ts': [snap('run')] };
+    const symbolRepo = makeStatefulSymbolRepo(stored, { 'src/a.ts': [snap('run', 'body-run', 'fp-run-2')] });
+    const fileRepo = makeFileRepo();
+    fileRepo.getAllFiles.mockReturnValue([{ project: 'test-project', filePath: 'src/a.ts' }] as any);
+    fileRepo.deleteFile.mockImplementation((_p: any, f: any) => {
+      delete stored[f];
+    });
+    const coordinator = makeCoordinator({ fileRepo, symbolRepo });
+
+    const result = await coordinator.fullIndex();
+
+    expect(result.symbolChanges).toEqual([
+      {
+        filePath: 'src/a.ts',
+        added: [],
+        removed: [],
+        modified: [{ name: 'run', kind: 'function', bodyChanged: false, signatureChanged: true }],
+        renamed: [],
+        moved: [],
+      },
+    ]);
+  });
+
+  // ── Symbol history ───────────────────────────────────────────────────────
+
+  it('should append one history row per symbol change when historyRepo is provided', async () => {
+    const symbolRepo = makeStatefulSymbolRepo(
+      { 'src/a.ts': [snap('edit'), snap('load')] },
+      { 'src/a.ts': [snap('edit', 'body-edit-2'), snap('fetchFile', 'body-fetch', 'fp-fetch', 'shape-load')] },
+    );
+    const historyRepo = { appendHistory: mock((_rows: any[]) => {}) };
+    const coordinator = makeCoordinator({ symbolRepo, historyRepo });
+
+    await coordinator.incrementalIndex([{ eventType: 'change', filePath: 'src/a.ts' }]);
+
+    expect(historyRepo.appendHistory).toHaveBeenCalledTimes(1);
+    const rows = historyRepo.appendHistory.mock.calls[0]![0];
+    expect(rows.map((r: any) => [r.project, r.filePath, r.event, r.name, r.previousName])).toEqual([
+      ['test-project', 'src/a.ts', 'modified', 'edit', null],
+      ['test-project', 'src/a.ts', 'renamed', 'fetchFile', 'load'],
+    ]);
+    expect(new Set(rows.map((r: any) => r.recordedAt)).size).toBe(1);
+  });
+
+  it('should not append history when no symbol changed', async () => {
+    const symbolRepo = makeStatefulSymbolRepo({ 'src/a.ts': [snap('run')] }, { 'src/a.ts': [snap('run')] });
+    const historyRepo = { appendHistory: mock((_rows: any[]) => {}) };
+    const coordinator = makeCoordinator({ symbolRepo, historyRepo });
+
+    await coordinator.incrementalIndex([{ eventType: 'change', filePath: 'src/a.ts' }]);
+
+    expect(historyRepo.appendHistory).not.toHaveBeenCalled();
+  });
 });
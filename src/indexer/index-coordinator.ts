@@ -1,18 +1,29 @@
 import type { FileChangeEvent } from '../watcher/types';
 import type { ProjectBoundary } from '../common/project-discovery';
-import { resolveFileProject, discoverProjects } from '../common/project-discovery';
-import { loadTsconfigPaths, clearTsconfigPathsCache } from '../common/tsconfig-resolver';
+import { resolveFileProject, discoverProjects, toWorkspacePackages } from '../common/project-discovery';
+import type { WorkspacePackage } from '../common/package-resolver';
+import { loadTsconfigPaths, loadTsconfigPathsForFile, clearTsconfigPathsCache } from '../common/tsconfig-resolver';
 import { toAbsolutePath } from '../common/path-utils';
 import { hashString } from '../common/hasher';
+import type { ParsedFile } from '../parser/types';
 import { parseSource } from '../parser/parse-source';
 import { detectChanges } from './file-indexer';
 import { indexFileSymbols } from './symbol-indexer';
 import { indexFileRelations } from './relation-indexer';
+import { indexFileDiagnostics, hasParseErrors } from './diagnostic-indexer';
+import { diffSymbols } from './symbol-diff';
+import { recordSymbolHistory } from './symbol-history';
+import type { FileSymbolChanges, FileSymbolSnapshots } from './symbol-diff';
+import { resolveReExportChains } from './reexport-resolver';
+import { resolveOverrides } from './override-resolver';
 
 // ── Constants ─────────────────────────────────────────────────────────────
 
 export const WATCHER_DEBOUNCE_MS = 100;
 
+/** Matches `tsconfig.json` and variants such as `tsconfig.base.json`. */
+const TSCONFIG_FILE_RE = /(^|\/)tsconfig(\.[^/]+)?\.json$/;
+
 // ── Result type ────────────────────────────────────────────────────────────
 
 export interface IndexResult {
@@ -24,6 +35,10 @@ export interface IndexResult {
   changedFiles: string[];
   deletedFiles: string[];
   failedFiles: string[];
+  /** Files whose latest version has parse errors: indexed from a partial AST, or kept at their last good symbols. */
+  parseErrorFiles: string[];
+  /** Added, removed, modified, renamed and moved symbols of the changed and deleted files. */
+  symbolChanges: FileSymbolChanges[];
 }
 
 // ── Options ────────────────────────────────────────────────────────────────
@@ -32,6 +47,8 @@ export interface IndexCoordinatorOptions {
   projectRoot: string;
   boundaries: ProjectBoundary[];
   extensions: string[];
+  /** Non-code files (JSON, stylesheets, images, …) tracked as file nodes: hashed, never parsed. */
+  assetExtensions?: string[];
   ignorePatterns: string[];
   dbConnection: { transaction<T>(fn: (tx?: any) => T): T };
   parseCache: {
@@ -48,14 +65,30 @@ export interface IndexCoordinatorOptions {
   symbolRepo: {
     replaceFileSymbols(p: string, f: string, h: string, s: any[]): void;
     getFileSymbols(p: string, f: string): any[];
-    getByFingerprint(p: string, fp: string): any[];
     deleteFileSymbols(p: string, f: string): void;
   };
   relationRepo: {
     replaceFileRelations(p: string, f: string, r: any[]): void;
+    getByType(p: string, t: string): any[];
+    getOutgoing(p: string, f: string): any[];
+    getIncoming(p: string, f: string): any[];
+    getRoutedThrough(p: string, f: string): any[];
     retargetRelations(p: string, of: string, os: string | null, nf: string, ns: string | null): void;
     deleteFileRelations(p: string, f: string): void;
   };
+  /** Stores parse errors per file; diagnostics are not recorded when omitted. */
+  diagnosticRepo?: {
+    replaceFileDiagnostics(p: string, f: string, rows: any[]): void;
+  };
+  /** Appends each run's symbol changes to the history ledger; nothing is recorded when omitted. */
+  historyRepo?: {
+    appendHistory(rows: any[]): void;
+  };
+  /**
+   * When a file that already has symbols fails to parse, keep its stored symbols and relations
+   * instead of re-indexing from the partial AST. Its diagnostics are still recorded.
+   */
+  keepLastGoodSymbols?: boolean;
   /** DI seam for parseSource — defaults to the real implementation. */
   parseSourceFn?: typeof parseSource;
   /** DI seam for discoverProjects — defaults to the real implementation. */
@@ -85,7 +118,7 @@ export class IndexCoordinator {
   /** Set to true when fullIndex() is called while the lock is active (queued). */
   private _pendingFullIndex = false;
 
-  /** Resolved tsconfig path mappings (may be a Promise during async load). */
+  /** Root tsconfig path mappings (may be a Promise during async load). Files use their nearest config. */
   private tsconfigPathsRaw: unknown;
 
   /** Pending boundaries refresh (resolved async). */
@@ -99,7 +132,7 @@ export class IndexCoordinator {
 
   // ── Public API ───────────────────────────────────────────────────────────
 
-  /** Exposes current tsconfig paths (used by CodeLedger.extractRelations). */
+  /** Exposes the root tsconfig paths (used by CodeLedger.extractRelations). */
   get tsconfigPaths(): unknown {
     return this.tsconfigPathsRaw;
   }
@@ -126,9 +159,9 @@ export class IndexCoordinator {
 
   /** Handles a raw watcher event with debouncing. */
   handleWatcherEvent(event: FileChangeEvent): void {
-    // tsconfig.json change → reload paths and trigger full re-index.
-    if (event.filePath.endsWith('tsconfig.json')) {
-      clearTsconfigPathsCache(this.opts.projectRoot);
+    // tsconfig change → reload the affected configs and trigger full re-index.
+    if (TSCONFIG_FILE_RE.test(event.filePath)) {
+      clearTsconfigPathsCache(toAbsolutePath(this.opts.projectRoot, event.filePath));
       this.tsconfigPathsRaw = loadTsconfigPaths(this.opts.projectRoot);
       this.fullIndex();
       return;
@@ -235,7 +268,7 @@ export class IndexCoordinator {
       }
       const result = await detectChanges({
         projectRoot: this.opts.projectRoot,
-        extensions: this.opts.extensions,
+        extensions: [...this.opts.extensions, ...(this.opts.assetExtensions ?? [])],
         ignorePatterns: this.opts.ignorePatterns,
         fileRepo: { getFilesMap: () => existingMap },
       });
@@ -243,10 +276,9 @@ export class IndexCoordinator {
       deleted = result.deleted;
     }
 
-    // Resolve tsconfig paths after the detect step.
-    const tsconfigPaths = await Promise.resolve(this.tsconfigPathsRaw);
+    const workspacePackages = toWorkspacePackages(this.opts.projectRoot, this.opts.boundaries);
 
-    // ── Move detection: collect fingerprints of deleted symbols BEFORE deletion ──
+    // ── Move detection: collect symbols of deleted files BEFORE deletion ──
     const deletedSymbols = new Map<string, any[]>();
     for (const filePath of deleted) {
       const project = resolveFileProject(filePath, this.opts.boundaries);
@@ -271,9 +303,11 @@ export class IndexCoordinator {
       const failedFiles: string[] = [];
       for (const file of changed) {
         try {
-          const r = await this._processFile(file.filePath, file.contentHash || undefined, tsconfigPaths);
+          const r = await this._processFile(file.filePath, file.contentHash || undefined, workspacePackages);
           symbols += r.symbolCount;
           relations += r.relCount;
+          if (r.hasParseErrors) parseErrorFiles.push(file.filePath);
+          if (r.symbols) snapshots.push(r.symbols);
         } catch (err) {
           console.error(`[IndexCoordinator] Failed to index ${file.filePath}:`, err);
           failedFiles.push(file.filePath);
@@ -285,6 +319,8 @@ export class IndexCoordinator {
     let totalSymbols = 0;
     let totalRelations = 0;
     let allFailedFiles: string[] = [];
+    const parseErrorFiles: string[] = [];
+    const snapshots: FileSymbolSnapshots[] = [...deletedSymbols].map(([filePath, before]) => ({ filePath, before, after: [] }));
 
     if (useTransaction) {
       // CRIT-2: Pre-read files async BEFORE the transaction (bun:sqlite tx must be sync).
@@ -296,23 +332,42 @@ export class IndexCoordinator {
           const bunFile = Bun.file(absPath);
           const text = await bunFile.text();
           const contentHash = file.contentHash || hashString(text);
-          return { filePath: file.filePath, text, contentHash, mtimeMs: bunFile.lastModified, size: bunFile.size };
+          const tsconfigPaths = await loadTsconfigPathsForFile(absPath, projectRoot);
+          return { filePath: file.filePath, text, contentHash, mtimeMs: bunFile.lastModified, size: bunFile.size, tsconfigPaths };
         }),
       );
 
       // Atomic: delete all existing + re-index all changed in ONE transaction.
       dbConnection.transaction(() => {
+        const parseFn = this.opts.parseSourceFn ?? parseSource;
+        const parsedFiles = new Map<string, ParsedFile>();
+        for (const fd of preread) {
+          if (this._isAsset(fd.filePath)) continue;
+          parsedFiles.set(fd.filePath, parseFn(toAbsolutePath(projectRoot, fd.filePath), fd.text));
+        }
+
+        // Files kept at their last good symbols survive the wipe below (deleting cascades to symbols).
+        const kept = new Set<string>();
+        for (const [filePath, parsed] of parsedFiles) {
+          if (this._keepsLastGoodSymbols(resolveFileProject(filePath, boundaries), filePath, parsed)) kept.add(filePath);
+        }
+
+        // Symbols before the wipe, for the change set.
+        const before = new Map<string, any[]>();
+        for (const filePath of parsedFiles.keys()) {
+          if (kept.has(filePath)) continue;
+          before.set(filePath, symbolRepo.getFileSymbols(resolveFileProject(filePath, boundaries), filePath));
+        }
+
         for (const boundary of boundaries) {
           const projectFiles = fileRepo.getAllFiles(boundary.project);
           for (const f of projectFiles) {
+            if (kept.has(f.filePath)) continue;
             fileRepo.deleteFile(f.project ?? boundary.project, f.filePath);
           }
         }
-        const parseFn = this.opts.parseSourceFn ?? parseSource;
         for (const fd of preread) {
           const project = resolveFileProject(fd.filePath, boundaries);
-          const parsed = parseFn(toAbsolutePath(projectRoot, fd.filePath), fd.text);
-          parseCache.set(fd.filePath, parsed);
           fileRepo.upsertFile({
             project,
             filePath: fd.filePath,
@@ -321,16 +376,32 @@ export class IndexCoordinator {
             contentHash: fd.contentHash,
             updatedAt: new Date().toISOString(),
           });
+          const parsed = parsedFiles.get(fd.filePath);
+          if (!parsed) continue;
+
+          parseCache.set(fd.filePath, parsed);
+          if (hasParseErrors(parsed)) parseErrorFiles.push(fd.filePath);
+          if (kept.has(fd.filePath)) {
+            this._indexDiagnostics(parsed, project, fd.filePath);
+            totalSymbols += symbolRepo.getFileSymbols(project, fd.filePath).length;
+            continue;
+          }
+
           indexFileSymbols({ parsed, project, filePath: fd.filePath, contentHash: fd.contentHash, symbolRepo });
           totalRelations += indexFileRelations({
             ast: parsed.program as any,
+            sourceText: parsed.sourceText,
             project,
             filePath: fd.filePath,
             relationRepo,
             projectRoot,
-            tsconfigPaths,
+            tsconfigPaths: fd.tsconfigPaths,
+            workspacePackages,
           });
-          totalSymbols += symbolRepo.getFileSymbols(project, fd.filePath).length;
+          this._indexDiagnostics(parsed, project, fd.filePath);
+          const after = symbolRepo.getFileSymbols(project, fd.filePath);
+          totalSymbols += after.length;
+          snapshots.push({ filePath: fd.filePath, before: before.get(fd.filePath) ?? [], after });
         }
       });
     } else {
@@ -341,25 +412,36 @@ export class IndexCoordinator {
       allFailedFiles = counts.failedFiles;
     }
 
-    // ── Move detection: retarget relations ────────────────────────────────
-    for (const [oldFile, syms] of deletedSymbols) {
-      for (const sym of syms) {
-        if (!sym.fingerprint) continue;
-        const oldProject = resolveFileProject(oldFile, this.opts.boundaries);
-        const matches = symbolRepo.getByFingerprint(oldProject, sym.fingerprint);
-        if (matches.length === 1) {
-          const newSym = matches[0];
-          relationRepo.retargetRelations(
-            oldProject,
-            oldFile,
-            sym.name,
-            newSym.filePath,
-            newSym.name,
-          );
-        }
+    // ── Move / rename detection: retarget relations ───────────────────────
+    const symbolChanges = diffSymbols(snapshots);
+    for (const file of symbolChanges) {
+      for (const sym of file.renamed) {
+        const project = resolveFileProject(file.filePath, this.opts.boundaries);
+        relationRepo.retargetRelations(project, file.filePath, sym.previousName, file.filePath, sym.name);
+      }
+      for (const sym of file.moved) {
+        const oldProject = resolveFileProject(sym.fromFilePath, this.opts.boundaries);
+        relationRepo.retargetRelations(oldProject, sym.fromFilePath, sym.previousName ?? sym.name, file.filePath, sym.name);
       }
     }
 
+    // ── Symbol history: append this run's changes ─────────────────────────
+    const { historyRepo } = this.opts;
+    if (historyRepo && symbolChanges.length > 0) {
+      dbConnection.transaction(() => {
+        recordSymbolHistory({ changes: symbolChanges, snapshots, boundaries: this.opts.boundaries, historyRepo });
+      });
+    }
+
+    // ── Re-export chains: point barrel-targeted relations at declaring files ──
+    if (changed.length > 0 || deleted.length > 0) {
+      // A full index rewrites every file; incremental runs only revisit what the touched files reach.
+      const changedFiles = useTransaction ? undefined : [...changed.map((f) => f.filePath), ...deleted];
+      resolveReExportChains({ boundaries: this.opts.boundaries, relationRepo, symbolRepo, changedFiles });
+      // Runs after barrel resolution so heritage relations point at declaring files.
+      resolveOverrides({ boundaries: this.opts.boundaries, relationRepo, symbolRepo, changedFiles });
+    }
+
     return {
       indexedFiles: changed.length,
       removedFiles: deleted.length,
@@ -369,15 +451,20 @@ export class IndexCoordinator {
       changedFiles: changed.map((f) => f.filePath),
       deletedFiles: [...deleted],
       failedFiles: allFailedFiles,
+      parseErrorFiles,
+      symbolChanges,
     };
   }
 
-  /** Reads, parses, and indexes a single file. Returns symbol and relation counts. */
+  /**
+   * Reads, parses, and indexes a single file. Returns symbol and relation counts, and the
+   * file's symbols before and after when they were re-indexed.
+   */
   private async _processFile(
     filePath: string,
     knownHash: string | undefined,
-    tsconfigPaths: unknown,
-  ): Promise<{ symbolCount: number; relCount: number }> {
+    workspacePackages: WorkspacePackage[],
+  ): Promise<{ symbolCount: number; relCount: number; hasParseErrors: boolean; symbols?: FileSymbolSnapshots }> {
     const { projectRoot, boundaries } = this.opts;
     const { fileRepo, symbolRepo, relationRepo, parseCache } = this.opts;
 
@@ -388,6 +475,19 @@ export class IndexCoordinator {
 
     const project = resolveFileProject(filePath, boundaries);
 
+    // ── Asset files: file node only ────────────────────────────────────────
+    if (this._isAsset(filePath)) {
+      fileRepo.upsertFile({
+        project,
+        filePath,
+        mtimeMs: bunFile.lastModified,
+        size: bunFile.size,
+        contentHash,
+        updatedAt: new Date().toISOString(),
+      });
+      return { symbolCount: 0, relCount: 0, hasParseErrors: false };
+    }
+
     // ── Parse ──────────────────────────────────────────────────────────────
     const parseFn = this.opts.parseSourceFn ?? parseSource;
     const parsed = parseFn(absPath, text);
@@ -403,21 +503,60 @@ export class IndexCoordinator {
       updatedAt: new Date().toISOString(),
     });
 
+    if (this._keepsLastGoodSymbols(project, filePath, parsed)) {
+      this._indexDiagnostics(parsed, project, filePath);
+      return { symbolCount: symbolRepo.getFileSymbols(project, filePath).length, relCount: 0, hasParseErrors: true };
+    }
+
     // ── Index symbols ──────────────────────────────────────────────────────
+    const before = symbolRepo.getFileSymbols(project, filePath);
     indexFileSymbols({ parsed, project, filePath, contentHash, symbolRepo });
 
     // ── Index relations ────────────────────────────────────────────────────
+    const tsconfigPaths = await loadTsconfigPathsForFile(absPath, projectRoot);
     const relCount = indexFileRelations({
       ast: parsed.program,
+      sourceText: parsed.sourceText,
       project,
       filePath,
       relationRepo,
       projectRoot,
       tsconfigPaths,
+      workspacePackages,
     });
 
-    const symbolCount = symbolRepo.getFileSymbols(project, filePath).length;
-    return { symbolCount, relCount };
+    // ── Record diagnostics ─────────────────────────────────────────────────
+    this._indexDiagnostics(parsed, project, filePath);
+
+    const after = symbolRepo.getFileSymbols(project, filePath);
+    return {
+      symbolCount: after.length,
+      relCount,
+      hasParseErrors: hasParseErrors(parsed),
+      symbols: { filePath, before, after },
+    };
+  }
+
+  /**
+   * Replaces the stored parse and unresolved-import diagnostics of a file, after its relations
+   * are written (no-op without a diagnostic repository).
+   */
+  private _indexDiagnostics(parsed: ParsedFile, project: string, filePath: string): void {
+    const { diagnosticRepo, relationRepo } = this.opts;
+    if (!diagnosticRepo) return;
+    const unresolvedImports = relationRepo.getOutgoing(project, filePath).filter((rel) => rel.type === 'unresolved');
+    indexFileDiagnostics({ parsed, project, filePath, diagnosticRepo, unresolvedImports });
+  }
+
+  /** Whether a failed parse should leave the file's previously indexed symbols in place. */
+  private _keepsLastGoodSymbols(project: string, filePath: string, parsed: ParsedFile): boolean {
+    if (!this.opts.keepLastGoodSymbols || !hasParseErrors(parsed)) return false;
+    return this.opts.symbolRepo.getFileSymbols(project, filePath).length > 0;
+  }
+
+  /** Whether `filePath` is a tracked asset (hashed file node, not parsed). */
+  private _isAsset(filePath: string): boolean {
+    return (this.opts.assetExtensions ?? []).some((ext) => filePath.endsWith(ext));
   }
 
   /** Fires all registered callbacks, logging but not propagating errors. */
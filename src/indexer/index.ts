@@ -4,5 +4,28 @@ export { indexFileSymbols } from './symbol-indexer';
 export type { IndexFileSymbolsOptions, SymbolDbRow } from './symbol-indexer';
 export { indexFileRelations } from './relation-indexer';
 export type { IndexFileRelationsOptions, RelationDbRow } from './relation-indexer';
+export { indexFileDiagnostics, hasParseErrors } from './diagnostic-indexer';
+export type { IndexFileDiagnosticsOptions, DiagnosticDbRow } from './diagnostic-indexer';
+export { diffSymbols } from './symbol-diff';
+export { structuralFingerprint } from './structural-fingerprint';
+export { recordSymbolHistory } from './symbol-history';
+export type { RecordSymbolHistoryOptions, HistoryDbRow } from './symbol-history';
+export type {
+  SymbolSnapshot,
+  SymbolChange,
+  ModifiedSymbol,
+  RenamedSymbol,
+  MovedSymbol,
+  FileSymbolChanges,
+  FileSymbolSnapshots,
+} from './symbol-diff';
+export { indexSnapshot } from './snapshot-indexer';
+export type { IndexSnapshotOptions, SnapshotIndexResult } from './snapshot-indexer';
+export { diffSnapshots } from './snapshot-diff';
+export type { SnapshotDiff, SnapshotSymbol, SnapshotRelation } from './snapshot-diff';
+export { resolveReExportChains } from './reexport-resolver';
+export type { ResolveReExportChainsOptions } from './reexport-resolver';
+export { resolveOverrides } from './override-resolver';
+export type { ResolveOverridesOptions } from './override-resolver';
 export { IndexCoordinator, WATCHER_DEBOUNCE_MS } from './index-coordinator';
 export type { IndexCoordinatorOptions, IndexResult } from './index-coordinator';
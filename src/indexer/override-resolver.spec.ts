@@ -0,0 +1,214 @@
+import { describe, it, expect, mock } from 'bun:test';
+import type { RelationDbRow } from './relation-indexer';
+import { resolveOverrides } from './override-resolver';
+
+// ── Fixtures ───────────────────────────────────────────────────────────────
+
+const PROJECT = 'test-project';
+const BOUNDARIES = [{ dir: '.', project: PROJECT }];
+
+function heritage(type: 'extends' | 'implements', srcFilePath: string, src: string, dstFilePath: string, dst: string): RelationDbRow {
+  return { project: PROJECT, type, srcFilePath, srcSymbolName: src, dstFilePath, dstSymbolName: dst, metaJson: null };
+}
+
+type Sym = { name: string; kind: string; detailJson: string | null };
+
+function sym(name: string, kind: string, modifiers?: string[]): Sym {
+  return { name, kind, detailJson: modifiers ? JSON.stringify({ modifiers }) : null };
+}
+
+function makeRepos(relations: RelationDbRow[], symbolsByFile: Record<string, Sym[]>) {
+  let rows = [...relations];
+  const relationRepo = {
+    getByType: mock((project: string, type: string) => rows.filter((r) => r.project === project && r.type === type)),
+    getOutgoing: mock((project: string, file: string) => rows.filter((r) => r.project === project && r.srcFilePath === file)),
+    getIncoming: mock((project: string, file: string) => rows.filter((r) => r.project === project && r.dstFilePath === file)),
+    replaceFileRelations: mock((project: string, file: string, next: RelationDbRow[]) => {
+      rows = [...rows.filter((r) => !(r.project === project && r.srcFilePath === file)), ...next];
+    }),
+  };
+  const symbolRepo = {
+    getFileSymbols: mock((_project: string, file: string) => symbolsByFile[file] ?? []),
+  };
+  return { relationRepo, symbolRepo, rows: () => rows };
+}
+
+function overrides(rows: RelationDbRow[]): Array<[string | null, string, string | null, string | null]> {
+  return rows
+    .filter((r) => r.type === 'overrides')
+    .map((r): [string | null, string, string | null, string | null] => [r.srcSymbolName, r.dstFilePath, r.dstSymbolName, r.metaJson])
+    .sort();
+}
+
+const BASE_SYMBOLS = {
+  'src/base.ts': [sym('Base', 'class'), sym('Base.run', 'method'), sym('Base.stop', 'method')],
+  'src/repo.ts': [sym('Repo', 'interface'), sym('Repo.find', 'method'), sym('Repo.count', 'property')],
+};
+
+// ── Tests ──────────────────────────────────────────────────────────────────
+
+describe('resolveOverrides', () => {
+  it('should link a derived method to the base method it overrides when the class extends a base', () => {
+    const repos = makeRepos(
+      [heritage('extends', 'src/derived.ts', 'Derived', 'src/base.ts', 'Base')],
+      { ...BASE_SYMBOLS, 'src/derived.ts': [sym('Derived', 'class'), sym('Derived.run', 'method'), sym('Derived.extra', 'method')] },
+    );
+
+    const changed = resolveOverrides({ boundaries: BOUNDARIES, ...repos });
+
+    expect(changed).toBe(1);
+    expect(overrides(repos.rows())).toEqual([['Derived.run', 'src/base.ts', 'Base.run', null]]);
+  });
+
+  it('should mark interface members as implemented when the class implements an interface', () => {
+    const repos = makeRepos(
+      [heritage('implements', 'src/impl.ts', 'SqlRepo', 'src/repo.ts', 'Repo')],
+      { ...BASE_SYMBOLS, 'src/impl.ts': [sym('SqlRepo', 'class'), sym('SqlRepo.find', 'method'), sym('SqlRepo.count', 'property')] },
+    );
+
+    resolveOverrides({ boundaries: BOUNDARIES, ...repos });
+
+    expect(overrides(repos.rows())).toEqual([
+      ['SqlRepo.count', 'src/repo.ts', 'Repo.count', '{"isImplementation":true}'],
+      ['SqlRepo.find', 'src/repo.ts', 'Repo.find', '{"isImplementation":true}'],
+    ]);
+  });
+
+  it('should link to the nearest declaring ancestor when an intermediate class does not declare the member', () => {
+    const repos = makeRepos(
+      [
+        heritage('extends', 'src/mid.ts', 'Mid', 'src/base.ts', 'Base'),
+        heritage('extends', 'src/leaf.ts', 'Leaf', 'src/mid.ts', 'Mid'),
+      ],
+      {
+        ...BASE_SYMBOLS,
+        'src/mid.ts': [sym('Mid', 'class'), sym('Mid.stop', 'method')],
+        'src/leaf.ts': [sym('Leaf', 'class'), sym('Leaf.run', 'method'), sym('Leaf.stop', 'method')],
+      },
+    );
+
+    resolveOverrides({ boundaries: BOUNDARIES, ...repos });
+
+    expect(overrides(repos.rows())).toEqual([
+      ['Leaf.run', 'src/base.ts', 'Base.run', null],
+      ['Leaf.stop', 'src/mid.ts', 'Mid.stop', null],
+      ['Mid.stop', 'src/base.ts', 'Base.stop', null],
+    ]);
+  });
+
+  it('should skip constructors and static members when linking overrides', () => {
+    const repos = makeRepos(
+      [heritage('extends', 'src/derived.ts', 'Derived', 'src/base.ts', 'Base')],
+      {
+        'src/base.ts': [sym('Base', 'class'), sym('Base.constructor', 'method'), sym('Base.create', 'method', ['static'])],
+        'src/derived.ts': [sym('Derived', 'class'), sym('Derived.constructor', 'method'), sym('Derived.create', 'method', ['static'])],
+      },
+    );
+
+    expect(resolveOverrides({ boundaries: BOUNDARIES, ...repos })).toBe(0);
+    expect(repos.relationRepo.replaceFileRelations).not.toHaveBeenCalled();
+  });
+
+  it('should keep other relations of the file when overrides are rewritten', () => {
+    const extendsRow = heritage('extends', 'src/derived.ts', 'Derived', 'src/base.ts', 'Base');
+    const repos = makeRepos([extendsRow], { ...BASE_SYMBOLS, 'src/derived.ts': [sym('Derived.run', 'method')] });
+
+    resolveOverrides({ boundaries: BOUNDARIES, ...repos });
+
+    expect(repos.rows().filter((r) => r.srcFilePath === 'src/derived.ts').map((r) => r.type).sort()).toEqual(['extends', 'overrides']);
+  });
+
+  it('should remove stale overrides when the base no longer declares the member', () => {
+    const stale: RelationDbRow = {
+      project: PROJECT,
+      type: 'overrides',
+      srcFilePath: 'src/derived.ts',
+      srcSymbolName: 'Derived.gone',
+      dstFilePath: 'src/base.ts',
+      dstSymbolName: 'Base.gone',
+      metaJson: null,
+    };
+    const repos = makeRepos([heritage('extends', 'src/derived.ts', 'Derived', 'src/base.ts', 'Base'), stale], {
+      ...BASE_SYMBOLS,
+      'src/derived.ts': [sym('Derived.gone', 'method')],
+    });
+
+    const changed = resolveOverrides({ boundaries: BOUNDARIES, ...repos });
+
+    expect(changed).toBe(1);
+    expect(overrides(repos.rows())).toEqual([]);
+  });
+
+  it('should not rewrite files when stored overrides are already up to date', () => {
+    const repos = makeRepos(
+      [heritage('extends', 'src/derived.ts', 'Derived', 'src/base.ts', 'Base')],
+      { ...BASE_SYMBOLS, 'src/derived.ts': [sym('Derived.run', 'method')] },
+    );
+    resolveOverrides({ boundaries: BOUNDARIES, ...repos });
+    repos.relationRepo.replaceFileRelations.mockClear();
+
+    expect(resolveOverrides({ boundaries: BOUNDARIES, ...repos })).toBe(0);
+    expect(repos.relationRepo.replaceFileRelations).not.toHaveBeenCalled();
+  });
+
+  it('should stop without hanging when heritage relations form a cycle', () => {
+    const repos = makeRepos(
+      [heritage('extends', 'src/a.ts', 'A', 'src/b.ts', 'B'), heritage('extends', 'src/b.ts', 'B', 'src/a.ts', 'A')],
+      { 'src/a.ts': [sym('A.x', 'method')], 'src/b.ts': [] },
+    );
+
+    expect(resolveOverrides({ boundaries: BOUNDARIES, ...repos })).toBe(0);
+  });
+
+  it('should link members by their qualified names when base and subclass are declared in a namespace', () => {
+    const repos = makeRepos(
+      [heritage('extends', 'src/shapes.ts', 'NS.Square', 'src/shapes.ts', 'NS.Shape')],
+      {
+        'src/shapes.ts': [
+          sym('NS.Shape', 'class'),
+          sym('NS.Shape.area', 'method'),
+          sym('NS.Square', 'class'),
+          sym('NS.Square.area', 'method'),
+        ],
+      },
+    );
+
+    expect(resolveOverrides({ boundaries: BOUNDARIES, ...repos })).toBe(1);
+    expect(overrides(repos.rows())).toEqual([['NS.Square.area', 'src/shapes.ts', 'NS.Shape.area', null]]);
+  });
+
+  // ── changedFiles ──────────────────────────────────────────────────────────
+
+  it('should recompute the subtypes of a changed base and leave unrelated files alone when changedFiles is given', () => {
+    const stale: RelationDbRow = {
+      project: PROJECT,
+      type: 'overrides',
+      srcFilePath: 'src/other.ts',
+      srcSymbolName: 'Other.gone',
+      dstFilePath: 'src/base.ts',
+      dstSymbolName: 'Base.gone',
+      metaJson: null,
+    };
+    const repos = makeRepos(
+      [
+        heritage('extends', 'src/derived.ts', 'Derived', 'src/base.ts', 'Base'),
+        heritage('extends', 'src/leaf.ts', 'Leaf', 'src/derived.ts', 'Derived'),
+        stale,
+      ],
+      {
+        ...BASE_SYMBOLS,
+        'src/derived.ts': [sym('Derived', 'class')],
+        'src/leaf.ts': [sym('Leaf', 'class'), sym('Leaf.stop', 'method')],
+      },
+    );
+
+    const changed = resolveOverrides({ boundaries: BOUNDARIES, ...repos, changedFiles: ['src/base.ts'] });
+
+    expect(changed).toBe(1);
+    expect(overrides(repos.rows())).toEqual([
+      ['Leaf.stop', 'src/base.ts', 'Base.stop', null],
+      ['Other.gone', 'src/base.ts', 'Base.gone', null],
+    ]);
+    expect(repos.relationRepo.getByType).not.toHaveBeenCalled();
+  });
+});
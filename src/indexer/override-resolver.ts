@@ -0,0 +1,208 @@
+import type { ProjectBoundary } from '../common/project-discovery';
+import { resolveFileProject } from '../common/project-discovery';
+import type { RelationDbRow } from './relation-indexer';
+
+// ── Types ─────────────────────────────────────────────────────────────────
+
+interface RelationRepoPart {
+  getByType(project: string, type: string): RelationDbRow[];
+  getOutgoing(project: string, srcFilePath: string): RelationDbRow[];
+  getIncoming(project: string, dstFilePath: string): RelationDbRow[];
+  replaceFileRelations(project: string, srcFilePath: string, relations: RelationDbRow[]): void;
+}
+
+interface SymbolRepoPart {
+  getFileSymbols(
+    project: string,
+    filePath: string,
+  ): Array<{ name: string; kind: string; detailJson: string | null }>;
+}
+
+export interface ResolveOverridesOptions {
+  boundaries: ProjectBoundary[];
+  relationRepo: RelationRepoPart;
+  symbolRepo: SymbolRepoPart;
+  /**
+   * Files indexed or deleted by this run. When set, only files declaring these types'
+   * (transitive) subtypes are recomputed. Omit to recompute every file.
+   */
+  changedFiles?: ReadonlyArray<string>;
+}
+
+interface TypeRef {
+  project: string;
+  filePath: string;
+  symbolName: string;
+}
+
+const HERITAGE_TYPES = ['extends', 'implements'] as const;
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function keyOf(ref: { filePath: string; symbolName: string }): string {
+  return `${ref.filePath}#${ref.symbolName}`;
+}
+
+function isHeritage(row: RelationDbRow): boolean {
+  return (HERITAGE_TYPES as readonly string[]).includes(row.type);
+}
+
+function rowKey(row: RelationDbRow): string {
+  return `${row.srcSymbolName}\0${row.dstFilePath}\0${row.dstSymbolName}\0${row.metaJson ?? ''}`;
+}
+
+function isStatic(detailJson: string | null): boolean {
+  if (!detailJson?.includes('"static"')) return false;
+  try {
+    const modifiers = JSON.parse(detailJson).modifiers;
+    return Array.isArray(modifiers) && modifiers.includes('static');
+  } catch {
+    return false;
+  }
+}
+
+// ── Implementation ─────────────────────────────────────────────────────────
+
+/**
+ * Post-index pass: links class / interface members to the members they override or implement.
+ *
+ * For every `Derived.member` (instance members only, constructors excluded) the supertypes of
+ * `Derived` are searched breadth-first along stored `extends` / `implements` relations; the
+ * nearest supertype on each path that declares `member` yields an `overrides` relation
+ * `Derived.member → Base.member`. Targets owned by an interface carry `metaJson.isImplementation`.
+ *
+ * Overrides depend on other files' symbols: a changed file affects its own classes and every
+ * class extending them, directly or not. Only source files whose `overrides` rows differ are
+ * rewritten.
+ *
+ * @returns Number of `overrides` relations added or removed.
+ */
+export function resolveOverrides(opts: ResolveOverridesOptions): number {
+  const { boundaries, relationRepo, symbolRepo, changedFiles } = opts;
+  const projects = [...new Set(boundaries.map((b) => b.project))];
+
+  const symbolCache = new Map<string, Map<string, { kind: string; detailJson: string | null }>>();
+  function symbolsOf(filePath: string): Map<string, { kind: string; detailJson: string | null }> {
+    let symbols = symbolCache.get(filePath);
+    if (symbols) return symbols;
+
+    symbols = new Map();
+    for (const sym of symbolRepo.getFileSymbols(resolveFileProject(filePath, boundaries), filePath)) {
+      symbols.set(sym.name, { kind: sym.kind, detailJson: sym.detailJson });
+    }
+    symbolCache.set(filePath, symbols);
+    return symbols;
+  }
+
+  const heritageCache = new Map<string, RelationDbRow[]>();
+  /** Stored `extends` / `implements` rows declared in `filePath`. */
+  function heritageOf(filePath: string): RelationDbRow[] {
+    let rows = heritageCache.get(filePath);
+    if (rows) return rows;
+
+    rows = relationRepo
+      .getOutgoing(resolveFileProject(filePath, boundaries), filePath)
+      .filter((rel) => isHeritage(rel) && rel.srcSymbolName !== null && rel.dstSymbolName !== null);
+    heritageCache.set(filePath, rows);
+    return rows;
+  }
+
+  /** Direct supertypes of `sub`. */
+  function basesOf(sub: TypeRef): TypeRef[] {
+    return heritageOf(sub.filePath)
+      .filter((rel) => rel.srcSymbolName === sub.symbolName)
+      .map((rel) => ({ project: rel.project, filePath: rel.dstFilePath, symbolName: rel.dstSymbolName! }));
+  }
+
+  /** Nearest supertypes of `sub` that declare `member`, one per inheritance path. */
+  function findOverridden(sub: TypeRef, member: string): TypeRef[] {
+    const found: TypeRef[] = [];
+    const seen = new Set<string>([keyOf(sub)]);
+    const queue = basesOf(sub);
+
+    while (queue.length > 0) {
+      const base = queue.shift()!;
+      if (seen.has(keyOf(base))) continue;
+      seen.add(keyOf(base));
+
+      if (symbolsOf(base.filePath).has(`${base.symbolName}.${member}`)) {
+        found.push(base);
+        continue;
+      }
+      queue.push(...basesOf(base));
+    }
+
+    return found;
+  }
+
+  /** `overrides` rows `filePath` should hold. */
+  function desiredRows(project: string, filePath: string): RelationDbRow[] {
+    const rows: RelationDbRow[] = [];
+    for (const symbolName of new Set(heritageOf(filePath).map((rel) => rel.srcSymbolName!))) {
+      const sub = { project, filePath, symbolName };
+      const prefix = `${symbolName}.`;
+      for (const [name, sym] of symbolsOf(filePath)) {
+        if (!name.startsWith(prefix)) continue;
+        const member = name.slice(prefix.length);
+        if (member.includes('.') || member === 'constructor' || isStatic(sym.detailJson)) continue;
+
+        for (const base of findOverridden(sub, member)) {
+          const isImplementation = symbolsOf(base.filePath).get(base.symbolName)?.kind === 'interface';
+          rows.push({
+            project,
+            type: 'overrides',
+            srcFilePath: filePath,
+            srcSymbolName: name,
+            dstFilePath: base.filePath,
+            dstSymbolName: `${base.symbolName}.${member}`,
+            metaJson: isImplementation ? JSON.stringify({ isImplementation: true }) : null,
+          });
+        }
+      }
+    }
+    return rows;
+  }
+
+  // Files to recompute: every file with heritage or overrides rows, or the changed files and
+  // the files declaring their (transitive) subtypes.
+  const files = new Set<string>();
+  if (!changedFiles) {
+    for (const project of projects) {
+      for (const type of [...HERITAGE_TYPES, 'overrides']) {
+        for (const rel of relationRepo.getByType(project, type)) files.add(rel.srcFilePath);
+      }
+    }
+  } else {
+    const queue = [...changedFiles];
+    for (const filePath of queue) files.add(filePath);
+    while (queue.length > 0) {
+      const filePath = queue.shift()!;
+      for (const project of projects) {
+        for (const rel of relationRepo.getIncoming(project, filePath)) {
+          if (!isHeritage(rel) || files.has(rel.srcFilePath)) continue;
+          files.add(rel.srcFilePath);
+          queue.push(rel.srcFilePath);
+        }
+      }
+    }
+  }
+
+  let changed = 0;
+  for (const filePath of files) {
+    const project = resolveFileProject(filePath, boundaries);
+    const stored = relationRepo.getOutgoing(project, filePath);
+    const target = desiredRows(project, filePath);
+
+    const targetKeys = new Set(target.map(rowKey));
+    const currentKeys = new Set(stored.filter((row) => row.type === 'overrides').map(rowKey));
+    const added = [...targetKeys].filter((key) => !currentKeys.has(key)).length;
+    const removed = [...currentKeys].filter((key) => !targetKeys.has(key)).length;
+    if (added === 0 && removed === 0) continue;
+
+    const others = stored.filter((row) => row.type !== 'overrides');
+    relationRepo.replaceFileRelations(project, filePath, [...others, ...target]);
+    changed += added + removed;
+  }
+
+  return changed;
+}
@@ -0,0 +1,269 @@
+import { describe, it, expect, mock } from 'bun:test';
+import type { RelationDbRow } from './relation-indexer';
+import { resolveReExportChains } from './reexport-resolver';
+
+// ── Fixtures ───────────────────────────────────────────────────────────────
+
+const PROJECT = 'test-project';
+const BOUNDARIES = [{ dir: '.', project: PROJECT }];
+
+function rel(overrides: Partial<RelationDbRow>): RelationDbRow {
+  return {
+    project: PROJECT,
+    type: 'calls',
+    srcFilePath: 'src/app.ts',
+    srcSymbolName: 'main',
+    dstFilePath: 'src/store/index.ts',
+    dstSymbolName: 'SymbolRepository',
+    metaJson: null,
+    ...overrides,
+  };
+}
+
+function reExport(srcFilePath: string, dstFilePath: string, dstSymbolName: string | null, meta: Record<string, unknown> = {}): RelationDbRow {
+  return rel({
+    type: 'imports',
+    srcFilePath,
+    srcSymbolName: null,
+    dstFilePath,
+    dstSymbolName,
+    metaJson: JSON.stringify({ isReExport: true, ...meta }),
+  });
+}
+
+type Sym = { name: string; isExported: number; detailJson: string | null };
+
+function exported(name: string, exportedNames?: string[]): Sym {
+  return { name, isExported: 1, detailJson: exportedNames ? JSON.stringify({ exportedNames }) : null };
+}
+
+function makeRepos(relations: RelationDbRow[], symbolsByFile: Record<string, Sym[]>) {
+  let rows = [...relations];
+  const relationRepo = {
+    getByType: mock((project: string, type: string) => rows.filter((r) => r.project === project && r.type === type)),
+    getOutgoing: mock((project: string, file: string) => rows.filter((r) => r.project === project && r.srcFilePath === file)),
+    getIncoming: mock((project: string, file: string) => rows.filter((r) => r.project === project && r.dstFilePath === file)),
+    getRoutedThrough: mock((project: string, file: string) =>
+      rows.filter((r) => r.project === project && (JSON.parse(r.metaJson ?? '{}').via ?? []).includes(file)),
+    ),
+    replaceFileRelations: mock((project: string, file: string, next: RelationDbRow[]) => {
+      rows = [...rows.filter((r) => !(r.project === project && r.srcFilePath === file)), ...next];
+    }),
+  };
+  const symbolRepo = {
+    getFileSymbols: mock((_project: string, file: string) => symbolsByFile[file] ?? []),
+  };
+  return { relationRepo, symbolRepo, rows: () => rows };
+}
+
+function find(rows: RelationDbRow[], srcFilePath: string, type = 'calls'): RelationDbRow | undefined {
+  return rows.find((r) => r.srcFilePath === srcFilePath && r.type === type);
+}
+
+// ── Tests ──────────────────────────────────────────────────────────────────
+
+describe('resolveReExportChains', () => {
+  it('should retarget a call to the declaring file when the barrel uses export *', () => {
+    const repos = makeRepos(
+      [rel({}), reExport('src/store/index.ts', 'src/store/symbol.repository.ts', null)],
+      { 'src/store/symbol.repository.ts': [exported('SymbolRepository')] },
+    );
+
+    const changed = resolveReExportChains({ boundaries: BOUNDARIES, ...repos });
+
+    const call = find(repos.rows(), 'src/app.ts')!;
+    expect(changed).toBe(1);
+    expect(call.dstFilePath).toBe('src/store/symbol.repository.ts');
+    expect(call.dstSymbolName).toBe('SymbolRepository');
+    expect(JSON.parse(call.metaJson!)).toEqual({ via: ['src/store/index.ts'] });
+  });
+
+  it('should follow aliases and record the imported name when the barrel renames on re-export', () => {
+    const repos = makeRepos(
+      [
+        rel({ type: 'extends', dstSymbolName: 'Service', metaJson: JSON.stringify({ isType: false }) }),
+        reExport('src/store/index.ts', 'src/impl.ts', 'Impl', { exportedName: 'Service' }),
+      ],
+      { 'src/impl.ts': [exported('Impl')] },
+    );
+
+    resolveReExportChains({ boundaries: BOUNDARIES, ...repos });
+
+    const heritage = find(repos.rows(), 'src/app.ts', 'extends')!;
+    expect(heritage.dstFilePath).toBe('src/impl.ts');
+    expect(heritage.dstSymbolName).toBe('Impl');
+    expect(JSON.parse(heritage.metaJson!)).toEqual({ isType: false, via: ['src/store/index.ts'], originalSymbolName: 'Service' });
+  });
+
+  it('should record every hop when the chain spans several barrels', () => {
+    const repos = makeRepos(
+      [
+        rel({}),
+        reExport('src/store/index.ts', 'src/store/repositories/index.ts', null),
+        reExport('src/store/repositories/index.ts', 'src/store/repositories/symbol.ts', 'SymbolRepository'),
+      ],
+      { 'src/store/repositories/symbol.ts': [exported('SymbolRepository')] },
+    );
+
+    resolveReExportChains({ boundaries: BOUNDARIES, ...repos });
+
+    const call = find(repos.rows(), 'src/app.ts')!;
+    expect(call.dstFilePath).toBe('src/store/repositories/symbol.ts');
+    expect(JSON.parse(call.metaJson!).via).toEqual(['src/store/index.ts', 'src/store/repositories/index.ts']);
+  });
+
+  it('should keep the member suffix when the relation targets a qualified name', () => {
+    const repos = makeRepos(
+      [rel({ dstSymbolName: 'SymbolRepository.search' }), reExport('src/store/index.ts', 'src/store/symbol.ts', null)],
+      { 'src/store/symbol.ts': [exported('SymbolRepository'), exported('SymbolRepository.search')] },
+    );
+
+    resolveReExportChains({ boundaries: BOUNDARIES, ...repos });
+
+    expect(find(repos.rows(), 'src/app.ts')!.dstSymbolName).toBe('SymbolRepository.search');
+  });
+
+  it('should resolve through export * as ns when the relation targets a namespace member', () => {
+    const repos = makeRepos(
+      [rel({ dstSymbolName: 'utils.hash' }), reExport('src/store/index.ts', 'src/utils.ts', null, { namespace: 'utils' })],
+      { 'src/utils.ts': [exported('hash')] },
+    );
+
+    resolveReExportChains({ boundaries: BOUNDARIES, ...repos });
+
+    const call = find(repos.rows(), 'src/app.ts')!;
+    expect(call.dstFilePath).toBe('src/utils.ts');
+    expect(call.dstSymbolName).toBe('hash');
+  });
+
+  it('should resolve per-specifier imports but leave re-export rows untouched', () => {
+    const repos = makeRepos(
+      [
+        rel({ type: 'imports', srcSymbolName: null, metaJson: JSON.stringify({ localName: 'SymbolRepository' }) }),
+        reExport('src/store/index.ts', 'src/store/symbol.ts', null),
+      ],
+      { 'src/store/symbol.ts': [exported('SymbolRepository')] },
+    );
+
+    resolveReExportChains({ boundaries: BOUNDARIES, ...repos });
+
+    expect(find(repos.rows(), 'src/app.ts', 'imports')!.dstFilePath).toBe('src/store/symbol.ts');
+    expect(find(repos.rows(), 'src/store/index.ts', 'imports')!.dstFilePath).toBe('src/store/symbol.ts');
+  });
+
+  it('should not follow export * when the relation targets the default export', () => {
+    const repos = makeRepos(
+      [rel({ dstSymbolName: 'default' }), reExport('src/store/index.ts', 'src/store/symbol.ts', null)],
+      { 'src/store/symbol.ts': [exported('SymbolRepository', ['default'])] },
+    );
+
+    const changed = resolveReExportChains({ boundaries: BOUNDARIES, ...repos });
+
+    expect(changed).toBe(0);
+    expect(repos.relationRepo.replaceFileRelations).not.toHaveBeenCalled();
+  });
+
+  it('should map default to the declared class name when a member call targets a default export', () => {
+    const repos = makeRepos(
+      [rel({ dstFilePath: 'src/store/symbol.ts', dstSymbolName: 'default.search' })],
+      { 'src/store/symbol.ts': [exported('SymbolRepository', ['default'])] },
+    );
+
+    resolveReExportChains({ boundaries: BOUNDARIES, ...repos });
+
+    const call = find(repos.rows(), 'src/app.ts')!;
+    expect(call.dstFilePath).toBe('src/store/symbol.ts');
+    expect(call.dstSymbolName).toBe('SymbolRepository.search');
+    expect(JSON.parse(call.metaJson!)).toEqual({ originalSymbolName: 'default.search' });
+  });
+
+  it('should leave relations unchanged when the barrel does not re-export the symbol', () => {
+    const repos = makeRepos([rel({}), reExport('src/store/index.ts', 'src/store/other.ts', 'Other')], {});
+
+    expect(resolveReExportChains({ boundaries: BOUNDARIES, ...repos })).toBe(0);
+    expect(find(repos.rows(), 'src/app.ts')!.dstFilePath).toBe('src/store/index.ts');
+  });
+
+  it('should restore the original barrel target when a previously resolved chain no longer resolves', () => {
+    const repos = makeRepos(
+      [
+        rel({
+          dstFilePath: 'src/store/symbol.ts',
+          dstSymbolName: 'Impl',
+          metaJson: JSON.stringify({ via: ['src/store/index.ts'], originalSymbolName: 'SymbolRepository' }),
+        }),
+      ],
+      {},
+    );
+
+    resolveReExportChains({ boundaries: BOUNDARIES, ...repos });
+
+    const call = find(repos.rows(), 'src/app.ts')!;
+    expect(call.dstFilePath).toBe('src/store/index.ts');
+    expect(call.dstSymbolName).toBe('SymbolRepository');
+    expect(call.metaJson).toBeNull();
+  });
+
+  it('should stop without hanging when barrels re-export each other in a cycle', () => {
+    const repos = makeRepos(
+      [rel({}), reExport('src/store/index.ts', 'src/a.ts', null), reExport('src/a.ts', 'src/store/index.ts', null)],
+      {},
+    );
+
+    expect(resolveReExportChains({ boundaries: BOUNDARIES, ...repos })).toBe(0);
+  });
+
+  // ── changedFiles ──────────────────────────────────────────────────────────
+
+  it('should only re-resolve relations of the changed files when changedFiles is given', () => {
+    const repos = makeRepos(
+      [
+        rel({}),
+        rel({ srcFilePath: 'src/other.ts', dstFilePath: 'src/lib/index.ts', dstSymbolName: 'Lib' }),
+        reExport('src/store/index.ts', 'src/store/symbol.repository.ts', null),
+        reExport('src/lib/index.ts', 'src/lib/lib.ts', null),
+      ],
+      { 'src/store/symbol.repository.ts': [exported('SymbolRepository')], 'src/lib/lib.ts': [exported('Lib')] },
+    );
+
+    const changed = resolveReExportChains({ boundaries: BOUNDARIES, ...repos, changedFiles: ['src/app.ts'] });
+
+    expect(changed).toBe(1);
+    expect(find(repos.rows(), 'src/app.ts')!.dstFilePath).toBe('src/store/symbol.repository.ts');
+    expect(find(repos.rows(), 'src/other.ts')!.dstFilePath).toBe('src/lib/index.ts');
+    expect(repos.relationRepo.getByType).not.toHaveBeenCalled();
+  });
+
+  it('should retarget relations aimed at a barrel that re-exports from a changed file', () => {
+    const repos = makeRepos(
+      [
+        rel({}),
+        reExport('src/store/index.ts', 'src/store/repos.ts', null),
+        reExport('src/store/repos.ts', 'src/store/symbol.repository.ts', null),
+      ],
+      { 'src/store/symbol.repository.ts': [exported('SymbolRepository')] },
+    );
+
+    resolveReExportChains({ boundaries: BOUNDARIES, ...repos, changedFiles: ['src/store/symbol.repository.ts'] });
+
+    expect(find(repos.rows(), 'src/app.ts')!.dstFilePath).toBe('src/store/symbol.repository.ts');
+  });
+
+  it('should restore relations routed through a changed barrel when the barrel drops the re-export', () => {
+    const repos = makeRepos(
+      [
+        rel({
+          dstFilePath: 'src/store/symbol.repository.ts',
+          metaJson: JSON.stringify({ via: ['src/store/index.ts'] }),
+        }),
+      ],
+      { 'src/store/symbol.repository.ts': [exported('SymbolRepository')] },
+    );
+
+    resolveReExportChains({ boundaries: BOUNDARIES, ...repos, changedFiles: ['src/store/index.ts'] });
+
+    const call = find(repos.rows(), 'src/app.ts')!;
+    expect(call.dstFilePath).toBe('src/store/index.ts');
+    expect(call.metaJson).toBeNull();
+  });
+});
@@ -0,0 +1,238 @@
+import type { ProjectBoundary } from '../common/project-discovery';
+import { resolveFileProject } from '../common/project-discovery';
+import type { RelationDbRow } from './relation-indexer';
+
+// ── Types ─────────────────────────────────────────────────────────────────
+
+interface RelationRepoPart {
+  getByType(project: string, type: string): RelationDbRow[];
+  getOutgoing(project: string, srcFilePath: string): RelationDbRow[];
+  getIncoming(project: string, dstFilePath: string): RelationDbRow[];
+  getRoutedThrough(project: string, filePath: string): RelationDbRow[];
+  replaceFileRelations(project: string, srcFilePath: string, relations: RelationDbRow[]): void;
+}
+
+interface SymbolRepoPart {
+  getFileSymbols(
+    project: string,
+    filePath: string,
+  ): Array<{ name: string; isExported: number; detailJson: string | null }>;
+}
+
+export interface ResolveReExportChainsOptions {
+  boundaries: ProjectBoundary[];
+  relationRepo: RelationRepoPart;
+  symbolRepo: SymbolRepoPart;
+  /**
+   * Files indexed or deleted by this run. When set, only relations that start in these files,
+   * or point at or route through them or a barrel re-exporting from them, are re-resolved.
+   * Omit to re-resolve every relation.
+   */
+  changedFiles?: ReadonlyArray<string>;
+}
+
+interface ChainTarget {
+  filePath: string;
+  symbolName: string | null;
+  /** Barrel files traversed, starting with the originally imported file. */
+  via: string[];
+}
+
+/** Relation types whose destination may point at a barrel. */
+const RESOLVABLE_TYPES = ['imports', 'calls', 'extends', 'implements', 'references', 'renders'] as const;
+
+/** Guards against pathological re-export chains. */
+const MAX_CHAIN_DEPTH = 32;
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function parseMeta(metaJson: string | null): Record<string, unknown> {
+  if (!metaJson) return {};
+  try {
+    const parsed = JSON.parse(metaJson);
+    return typeof parsed === 'object' && parsed !== null ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// ── Implementation ─────────────────────────────────────────────────────────
+
+/**
+ * Post-index pass: follows `export *` / `export { x } from` chains so that relations
+ * aimed at a barrel point at the file that actually declares the symbol.
+ *
+ * Retargeted relations keep the hops in `metaJson.via` (first entry = the file that
+ * was imported) and, when an alias or `default` was crossed, the imported name in
+ * `metaJson.originalSymbolName`. Already-resolved relations are re-resolved from
+ * their original target, so chain edits are picked up on the next run that touches them.
+ *
+ * @returns Number of relations whose target changed.
+ */
+export function resolveReExportChains(opts: ResolveReExportChainsOptions): number {
+  const { boundaries, relationRepo, symbolRepo, changedFiles } = opts;
+  const projects = [...new Set(boundaries.map((b) => b.project))];
+
+  const exportIndexCache = new Map<string, Map<string, string>>();
+  const reExportCache = new Map<string, RelationDbRow[]>();
+
+  /** Public name → declared symbol name, for top-level exported symbols of `filePath`. */
+  function exportIndex(filePath: string): Map<string, string> {
+    let index = exportIndexCache.get(filePath);
+    if (index) return index;
+
+    index = new Map();
+    const project = resolveFileProject(filePath, boundaries);
+    for (const sym of symbolRepo.getFileSymbols(project, filePath)) {
+      if (!sym.isExported || sym.name.includes('.')) continue;
+      const exportedNames = parseMeta(sym.detailJson).exportedNames;
+      const names = Array.isArray(exportedNames) ? (exportedNames as string[]) : [sym.name];
+      for (const name of names) index.set(name, sym.name);
+    }
+    exportIndexCache.set(filePath, index);
+    return index;
+  }
+
+  function reExports(filePath: string): RelationDbRow[] {
+    let rows = reExportCache.get(filePath);
+    if (rows) return rows;
+
+    const project = resolveFileProject(filePath, boundaries);
+    rows = relationRepo
+      .getOutgoing(project, filePath)
+      .filter((r) => r.type === 'imports' && parseMeta(r.metaJson).isReExport === true);
+    reExportCache.set(filePath, rows);
+    return rows;
+  }
+
+  function follow(filePath: string, parts: string[], via: string[], seen: Set<string>): ChainTarget | null {
+    const [head, ...rest] = parts;
+    if (head === undefined) return null;
+
+    const key = `${filePath}#${head}`;
+    if (seen.has(key) || via.length >= MAX_CHAIN_DEPTH) return null;
+    seen.add(key);
+
+    const declared = exportIndex(filePath).get(head);
+    if (declared !== undefined) {
+      return { filePath, symbolName: [declared, ...rest].join('.'), via };
+    }
+
+    const hops = reExports(filePath);
+    const nextVia = [...via, filePath];
+
+    // `export { a as b } from './x'`
+    for (const row of hops) {
+      if (row.dstSymbolName === null) continue;
+      const exportedName = parseMeta(row.metaJson).exportedName ?? row.dstSymbolName;
+      if (exportedName === head) {
+        return follow(row.dstFilePath, [row.dstSymbolName, ...rest], nextVia, seen);
+      }
+    }
+
+    // `export * as ns from './x'`
+    for (const row of hops) {
+      if (parseMeta(row.metaJson).namespace !== head) continue;
+      if (rest.length === 0) return { filePath: row.dstFilePath, symbolName: null, via: nextVia };
+      return follow(row.dstFilePath, rest, nextVia, seen);
+    }
+
+    // `export * from './x'` — never re-exports `default`.
+    if (head === 'default') return null;
+    for (const row of hops) {
+      const meta = parseMeta(row.metaJson);
+      if (row.dstSymbolName !== null || meta.namespace !== undefined) continue;
+      const found = follow(row.dstFilePath, parts, nextVia, seen);
+      if (found) return found;
+    }
+
+    return null;
+  }
+
+  /** Returns the row re-resolved through barrels (or restored to its original target). */
+  function resolveRow(row: RelationDbRow): RelationDbRow {
+    if (row.srcFilePath === row.dstFilePath) return row;
+
+    const meta = parseMeta(row.metaJson);
+    if (meta.isReExport === true || meta.isNamespace === true) return row;
+
+    const via = Array.isArray(meta.via) ? (meta.via as string[]) : [];
+    const resolvedBefore = via.length > 0 || typeof meta.originalSymbolName === 'string';
+    const startFile = via[0] ?? row.dstFilePath;
+    const startName = typeof meta.originalSymbolName === 'string' ? meta.originalSymbolName : row.dstSymbolName;
+    if (startName === null) return row;
+
+    const target = follow(startFile, startName.split('.'), [], new Set());
+    const { via: _via, originalSymbolName: _original, ...rest } = meta;
+
+    let next: RelationDbRow;
+    if (target && (target.via.length > 0 || target.symbolName !== startName)) {
+      const nextMeta: Record<string, unknown> = { ...rest };
+      if (target.via.length > 0) nextMeta.via = target.via;
+      if (target.symbolName !== startName) nextMeta.originalSymbolName = startName;
+      next = { ...row, dstFilePath: target.filePath, dstSymbolName: target.symbolName, metaJson: JSON.stringify(nextMeta) };
+    } else {
+      const restored = Object.keys(rest).length > 0 ? JSON.stringify(rest) : null;
+      next = { ...row, dstFilePath: startFile, dstSymbolName: startName, metaJson: resolvedBefore ? restored : row.metaJson };
+    }
+
+    return next;
+  }
+
+  function isSame(a: RelationDbRow, b: RelationDbRow): boolean {
+    return a.dstFilePath === b.dstFilePath && a.dstSymbolName === b.dstSymbolName && a.metaJson === b.metaJson;
+  }
+
+  /** Relations whose resolution may differ after this run. */
+  function candidates(): RelationDbRow[] {
+    if (!changedFiles) {
+      return projects.flatMap((project) => RESOLVABLE_TYPES.flatMap((type) => relationRepo.getByType(project, type)));
+    }
+
+    // Changed files plus every barrel that (transitively) re-exports from one of them.
+    const affected = new Set(changedFiles);
+    const queue = [...affected];
+    while (queue.length > 0) {
+      const filePath = queue.shift()!;
+      for (const project of projects) {
+        for (const row of relationRepo.getIncoming(project, filePath)) {
+          if (row.type !== 'imports' || parseMeta(row.metaJson).isReExport !== true || affected.has(row.srcFilePath)) continue;
+          affected.add(row.srcFilePath);
+          queue.push(row.srcFilePath);
+        }
+      }
+    }
+
+    const rows = changedFiles.flatMap((filePath) => relationRepo.getOutgoing(resolveFileProject(filePath, boundaries), filePath));
+    for (const filePath of affected) {
+      for (const project of projects) {
+        rows.push(...relationRepo.getIncoming(project, filePath), ...relationRepo.getRoutedThrough(project, filePath));
+      }
+    }
+    return rows.filter((row) => (RESOLVABLE_TYPES as readonly string[]).includes(row.type));
+  }
+
+  // Collect source files with at least one relation that needs retargeting.
+  const dirty = new Map<string, { project: string; filePath: string }>();
+  for (const row of candidates()) {
+    const key = `${row.project}\0${row.srcFilePath}`;
+    if (dirty.has(key)) continue;
+    if (row.dstSymbolName === null && !row.metaJson?.includes('"originalSymbolName"')) continue;
+    if (!isSame(row, resolveRow(row))) {
+      dirty.set(key, { project: row.project, filePath: row.srcFilePath });
+    }
+  }
+
+  let changed = 0;
+  for (const { project, filePath } of dirty.values()) {
+    const rows = relationRepo.getOutgoing(project, filePath);
+    const next = rows.map((row) => {
+      const resolved = (RESOLVABLE_TYPES as readonly string[]).includes(row.type) ? resolveRow(row) : row;
+      if (!isSame(row, resolved)) changed += 1;
+      return resolved;
+    });
+    relationRepo.replaceFileRelations(project, filePath, next);
+  }
+
+  return changed;
+}
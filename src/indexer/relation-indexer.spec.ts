@@ -68,7 +68,7 @@ describe('indexFileRelations', () => {
 
   // [NE] out-of-project dst ('../other/file.ts') → filtered out
   it('should filter out relation when dst normalizes to path starting with ..', () => {
-    mockExtractRelations.mockReturnValue([makeRelation({ dstFilePath: '/other/project/file.ts' })]);
+    mockExtractRelations.mockReturnValue([makeRelation({ type: 'calls', dstFilePath: '/other/project/file.ts' })]);
     mockToRelativePath.mockImplementation((_root: string, abs: string) =>
       abs.startsWith('/project') ? abs.replace('/project/', '') : `../other/project/${abs.split('/').pop()}`,
     );
@@ -87,7 +87,7 @@ describe('indexFileRelations', () => {
 
     indexFileRelations({ ast: {} as any, project: PROJECT, filePath: REL_FILE, relationRepo: relationRepo as any, projectRoot: PROJECT_ROOT });
 
-    expect(mockExtractRelations).toHaveBeenCalledWith(expect.anything(), ABS_FILE, undefined);
+    expect(mockExtractRelations).toHaveBeenCalledWith(expect.anything(), ABS_FILE, undefined, undefined, undefined, undefined);
   });
 
   // [HP] replaceFileRelations called with relative filePath
@@ -123,11 +123,37 @@ describe('indexFileRelations', () => {
     expect(rels).toEqual([]);
   });
 
+  // [HP] out-of-project import → unresolved, flagged outsideProject
+  it('should store an unresolved relation flagged outsideProject when an import targets a file outside the root', () => {
+    mockExtractRelations.mockReturnValue([
+      makeRelation({ dstFilePath: '/shared/util.ts', dstSymbolName: 'fmt', metaJson: '{"localName":"fmt"}' }),
+    ]);
+    mockToRelativePath.mockImplementation((_root: string, abs: string) =>
+      abs.startsWith('/project') ? abs.replace('/project/', '') : '../shared/util.ts',
+    );
+    const relationRepo = makeRelationRepo();
+
+    indexFileRelations({ ast: {} as any, project: PROJECT, filePath: REL_FILE, relationRepo: relationRepo as any, projectRoot: PROJECT_ROOT });
+
+    const [, , rels] = relationRepo.replaceFileRelations.mock.calls[0]!;
+    expect(rels).toEqual([
+      {
+        project: PROJECT,
+        type: 'unresolved',
+        srcFilePath: REL_FILE,
+        srcSymbolName: null,
+        dstFilePath: '../shared/util.ts',
+        dstSymbolName: 'fmt',
+        metaJson: '{"localName":"fmt","outsideProject":true}',
+      },
+    ]);
+  });
+
   // [CO] mix: in-project + out-of-project → only in-project survive
   it('should retain only in-project relations when mix of in/out-project are returned', () => {
     mockExtractRelations.mockReturnValue([
       makeRelation({ dstFilePath: '/project/src/utils.ts' }),
-      makeRelation({ dstFilePath: '/external/lib.ts' }),
+      makeRelation({ type: 'calls', dstFilePath: '/external/lib.ts' }),
     ]);
     mockToRelativePath.mockImplementation((_root: string, abs: string) =>
       abs.startsWith('/project') ? 'src/utils.ts' : '../external/lib.ts',
@@ -141,6 +167,24 @@ describe('indexFileRelations', () => {
     expect(rels[0].dstFilePath).toBe('src/utils.ts');
   });
 
+  // [HP] external / unresolved imports keep their destination as extracted
+  it('should store external and unresolved imports without path normalisation when their destination is not a file', () => {
+    mockExtractRelations.mockReturnValue([
+      makeRelation({ type: 'external', dstFilePath: 'react', metaJson: '{"subpath":"."}' }),
+      makeRelation({ type: 'unresolved', dstFilePath: '../missing' }),
+    ]);
+    const relationRepo = makeRelationRepo();
+
+    indexFileRelations({ ast: {} as any, project: PROJECT, filePath: REL_FILE, relationRepo: relationRepo as any, projectRoot: PROJECT_ROOT });
+
+    const [, , rels] = relationRepo.replaceFileRelations.mock.calls[0]!;
+    expect(rels.map((r: any) => [r.type, r.dstFilePath])).toEqual([
+      ['external', 'react'],
+      ['unresolved', '../missing'],
+    ]);
+    expect(mockToRelativePath).not.toHaveBeenCalledWith(PROJECT_ROOT, 'react');
+  });
+
   // [HP] tsconfigPaths passed through to extractRelations
   it('should pass tsconfigPaths to extractRelations when provided', () => {
     const tsconfigPaths = { baseUrl: '/project', paths: new Map() };
@@ -148,14 +192,43 @@ describe('indexFileRelations', () => {
 
     indexFileRelations({ ast: {} as any, project: PROJECT, filePath: REL_FILE, relationRepo: relationRepo as any, projectRoot: PROJECT_ROOT, tsconfigPaths });
 
-    expect(mockExtractRelations).toHaveBeenCalledWith(expect.anything(), expect.anything(), tsconfigPaths);
+    expect(mockExtractRelations).toHaveBeenCalledWith(expect.anything(), expect.anything(), tsconfigPaths, undefined, undefined, undefined);
+  });
+
+  // [HP] workspacePackages passed through to extractRelations
+  it('should pass workspacePackages to extractRelations when provided', () => {
+    const workspacePackages = [{ name: '@acme/core', dir: '/project/packages/core', manifest: {} }];
+    const relationRepo = makeRelationRepo();
+
+    indexFileRelations({ ast: {} as any, project: PROJECT, filePath: REL_FILE, relationRepo: relationRepo as any, projectRoot: PROJECT_ROOT, workspacePackages });
+
+    expect(mockExtractRelations).toHaveBeenCalledWith(expect.anything(), expect.anything(), undefined, workspacePackages, undefined, undefined);
+  });
+
+  // [HP] fileExistsFn passed through to extractRelations
+  it('should pass fileExistsFn to extractRelations when provided', () => {
+    const fileExistsFn = (_p: string) => false;
+    const relationRepo = makeRelationRepo();
+
+    indexFileRelations({ ast: {} as any, project: PROJECT, filePath: REL_FILE, relationRepo: relationRepo as any, projectRoot: PROJECT_ROOT, fileExistsFn });
+
+    expect(mockExtractRelations).toHaveBeenCalledWith(expect.anything(), expect.anything(), undefined, undefined, fileExistsFn, undefined);
+  });
+
+  // [HP] sourceText passed through to extractRelations
+  it('should pass sourceText to extractRelations when provided', () => {
+    const relationRepo = makeRelationRepo();
+
+    indexFileRelations({ ast: {} as any, project: PROJECT, filePath: REL_FILE, relationRepo: relationRepo as any, projectRoot: PROJECT_ROOT, sourceText: 'class C {}' });
+
+    expect(mockExtractRelations).toHaveBeenCalledWith(expect.anything(), expect.anything(), undefined, undefined, undefined, 'class C {}');
   });
 
   // [NE] all relations filtered → empty array to replaceFileRelations
   it('should pass empty array to replaceFileRelations when all relations are filtered', () => {
     mockExtractRelations.mockReturnValue([
-      makeRelation({ dstFilePath: '/other1/file.ts' }),
-      makeRelation({ dstFilePath: '/other2/file.ts' }),
+      makeRelation({ type: 'calls', dstFilePath: '/other1/file.ts' }),
+      makeRelation({ type: 'references', dstFilePath: '/other2/file.ts' }),
     ]);
     mockToRelativePath.mockReturnValue('../other/file.ts');
     const relationRepo = makeRelationRepo();
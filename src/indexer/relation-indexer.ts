@@ -1,4 +1,5 @@
 import type { Program } from 'oxc-parser';
+import type { WorkspacePackage } from '../common/package-resolver';
 import { extractRelations } from '../extractor/relation-extractor';
 import { toAbsolutePath, toRelativePath } from '../common/path-utils';
 
@@ -32,41 +33,60 @@ export interface IndexFileRelationsOptions {
   projectRoot: string;
   /** Optional tsconfig path mappings to pass to the extractor. */
   tsconfigPaths?: any;
+  /** Optional workspace packages so cross-package imports resolve to their sources. */
+  workspacePackages?: readonly WorkspacePackage[];
+  /** Existence check used to resolve imports; defaults to the disk. */
+  fileExistsFn?: (absPath: string) => boolean;
+  /** Source text of `ast`, used to name methods with computed keys. */
+  sourceText?: string;
 }
 
+/** Import relations whose destination is not a project file. */
+const NON_FILE_TYPES = new Set(['external', 'unresolved']);
+
 // ── Implementation ─────────────────────────────────────────────────────────
 
 /**
  * Extracts code relations for a single file and writes them to the store.
  *
- * - Only relations whose destination is within the project root (relative path
- *   does NOT start with `..`) are stored.
+ * - Imports of files outside the project root (relative path starts with `..`) are stored
+ *   as `unresolved` relations flagged `metaJson.outsideProject`; other relations to such
+ *   files are dropped.
  * - All absolute paths are normalised to project-root-relative paths.
+ * - `external` / `unresolved` imports are stored as extracted: their destination is a
+ *   package name or a specifier, not a file path.
  */
 export function indexFileRelations(opts: IndexFileRelationsOptions): number {
-  const { ast, project, filePath, relationRepo, projectRoot, tsconfigPaths } = opts;
+  const { ast, project, filePath, relationRepo, projectRoot, tsconfigPaths, workspacePackages, fileExistsFn, sourceText } = opts;
 
   const absFilePath = toAbsolutePath(projectRoot, filePath);
-  const rawRelations = extractRelations(ast, absFilePath, tsconfigPaths);
+  const rawRelations = extractRelations(ast, absFilePath, tsconfigPaths, workspacePackages, fileExistsFn, sourceText);
 
   const rows: RelationDbRow[] = [];
 
   for (const rel of rawRelations) {
-    const relDst = toRelativePath(projectRoot, rel.dstFilePath);
+    const isFileTarget = !NON_FILE_TYPES.has(rel.type);
+    const relDst = isFileTarget ? toRelativePath(projectRoot, rel.dstFilePath) : rel.dstFilePath;
 
-    // Filter out-of-project destinations (path escapes the root).
-    if (relDst.startsWith('..')) continue;
+    let type: string = rel.type;
+    let metaJson = rel.metaJson ?? null;
+    // Out-of-project destinations (path escapes the root).
+    if (isFileTarget && relDst.startsWith('..')) {
+      if (rel.type !== 'imports') continue;
+      type = 'unresolved';
+      metaJson = JSON.stringify({ ...(metaJson ? JSON.parse(metaJson) : {}), outsideProject: true });
+    }
 
     const relSrc = toRelativePath(projectRoot, rel.srcFilePath);
 
     rows.push({
       project,
-      type: rel.type,
+      type,
       srcFilePath: relSrc,
       srcSymbolName: rel.srcSymbolName ?? null,
       dstFilePath: relDst,
       dstSymbolName: rel.dstSymbolName ?? null,
-      metaJson: rel.metaJson ?? null,
+      metaJson,
     });
   }
 
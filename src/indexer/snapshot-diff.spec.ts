@@ -0,0 +1,141 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { diffSnapshots } from './snapshot-diff';
+
+function sym(blobId: number, name: string, overrides: Record<string, unknown> = {}) {
+  return {
+    blobId,
+    kind: 'function',
+    name,
+    startLine: 1,
+    startColumn: 0,
+    endLine: 3,
+    endColumn: 1,
+    isExported: 1,
+    signature: 'params:0|async:0',
+    fingerprint: `fp-${name}`,
+    ...overrides,
+  };
+}
+
+function rel(blobId: number, dstFilePath: string, overrides: Record<string, unknown> = {}) {
+  return { blobId, type: 'imports', srcSymbolName: null, dstFilePath, dstSymbolName: null, metaJson: null, ...overrides };
+}
+
+/** Reader over two snapshots `a` and `b`; `files` maps snapshot → filePath → blobId. */
+function makeReader(files: Record<string, Record<string, number>>, symbols: any[] = [], relations: any[] = []) {
+  return {
+    getSnapshotFiles: mock((name: string) =>
+      Object.entries(files[name] ?? {}).map(([filePath, blobId]) => ({ project: 'test-project', filePath, blobId })),
+    ),
+    getBlobSymbols: mock((ids: readonly number[]) => symbols.filter((s) => ids.includes(s.blobId))),
+    getBlobRelations: mock((ids: readonly number[]) => relations.filter((r) => ids.includes(r.blobId))),
+  };
+}
+
+describe('diffSnapshots', () => {
+  it('should report symbols added and removed when a file changes between snapshots', () => {
+    const reader = makeReader(
+      { a: { 'src/a.ts': 1 }, b: { 'src/a.ts': 2 } },
+      [sym(1, 'keep'), sym(1, 'gone'), sym(2, 'keep'), sym(2, 'fresh', { startLine: 5, endLine: 6 })],
+    );
+
+    const diff = diffSnapshots(reader, 'a', 'b');
+
+    expect(diff.from).toBe('a');
+    expect(diff.to).toBe('b');
+    expect(diff.symbols.added).toEqual([
+      {
+        project: 'test-project',
+        filePath: 'src/a.ts',
+        kind: 'function',
+        name: 'fresh',
+        isExported: true,
+        signature: 'params:0|async:0',
+        span: { start: { line: 5, column: 0 }, end: { line: 6, column: 1 } },
+      },
+    ]);
+    expect(diff.symbols.removed.map((s) => s.name)).toEqual(['gone']);
+  });
+
+  it('should report a symbol as removed and added when its signature or export status changes', () => {
+    const reader = makeReader(
+      { a: { 'src/a.ts': 1 }, b: { 'src/a.ts': 2 } },
+      [sym(1, 'run'), sym(1, 'helper'), sym(2, 'run', { fingerprint: 'fp-run-2' }), sym(2, 'helper', { isExported: 0 })],
+    );
+
+    const diff = diffSnapshots(reader, 'a', 'b');
+
+    expect(diff.symbols.added.map((s) => [s.name, s.isExported])).toEqual([
+      ['run', true],
+      ['helper', false],
+    ]);
+    expect(diff.symbols.removed.map((s) => s.name)).toEqual(['run', 'helper']);
+  });
+
+  it('should not report a symbol whose body or position changed when the signature is the same', () => {
+    const reader = makeReader(
+      { a: { 'src/a.ts': 1 }, b: { 'src/a.ts': 2 } },
+      [sym(1, 'run'), sym(2, 'run', { startLine: 10, endLine: 20 })],
+    );
+
+    const diff = diffSnapshots(reader, 'a', 'b');
+
+    expect(diff.symbols).toEqual({ added: [], removed: [] });
+  });
+
+  it('should report relations added and removed with the file as source', () => {
+    const reader = makeReader(
+      { a: { 'src/a.ts': 1 }, b: { 'src/a.ts': 2 } },
+      [],
+      [rel(1, 'src/old.ts'), rel(1, 'lodash', { type: 'external' }), rel(2, 'lodash', { type: 'external' }), rel(2, 'src/new.ts')],
+    );
+
+    const diff = diffSnapshots(reader, 'a', 'b');
+
+    expect(diff.relations.added).toEqual([
+      {
+        project: 'test-project',
+        type: 'imports',
+        srcFilePath: 'src/a.ts',
+        srcSymbolName: null,
+        dstFilePath: 'src/new.ts',
+        dstSymbolName: null,
+        metaJson: null,
+      },
+    ]);
+    expect(diff.relations.removed.map((r) => r.dstFilePath)).toEqual(['src/old.ts']);
+  });
+
+  it('should report every symbol and relation of a file when the file exists in only one snapshot', () => {
+    const reader = makeReader(
+      { a: { 'src/gone.ts': 1 }, b: { 'src/new.ts': 2 } },
+      [sym(1, 'old'), sym(2, 'fresh')],
+      [rel(2, 'src/dep.ts')],
+    );
+
+    const diff = diffSnapshots(reader, 'a', 'b');
+
+    expect(diff.symbols.added.map((s) => [s.filePath, s.name])).toEqual([['src/new.ts', 'fresh']]);
+    expect(diff.symbols.removed.map((s) => [s.filePath, s.name])).toEqual([['src/gone.ts', 'old']]);
+    expect(diff.relations.added.map((r) => r.srcFilePath)).toEqual(['src/new.ts']);
+  });
+
+  it('should report a repeated relation once when it is new', () => {
+    const reader = makeReader(
+      { a: { 'src/a.ts': 1 }, b: { 'src/a.ts': 2 } },
+      [],
+      [rel(2, 'src/b.ts', { type: 'calls', dstSymbolName: 'run' }), rel(2, 'src/b.ts', { type: 'calls', dstSymbolName: 'run' })],
+    );
+
+    expect(diffSnapshots(reader, 'a', 'b').relations.added).toHaveLength(1);
+  });
+
+  it('should skip loading rows of files whose blob is shared by both snapshots', () => {
+    const reader = makeReader({ a: { 'src/same.ts': 7, 'src/a.ts': 1 }, b: { 'src/same.ts': 7, 'src/a.ts': 2 } });
+
+    diffSnapshots(reader, 'a', 'b');
+
+    expect(reader.getBlobSymbols).toHaveBeenCalledWith([1, 2]);
+    expect(reader.getBlobRelations).toHaveBeenCalledWith([1, 2]);
+  });
+});
@@ -0,0 +1,165 @@
+import type { SourceSpan } from '../parser/types';
+
+// ── Types ─────────────────────────────────────────────────────────────────
+
+export interface SnapshotSymbol {
+  project: string;
+  filePath: string;
+  kind: string;
+  name: string;
+  isExported: boolean;
+  signature: string | null;
+  span: SourceSpan;
+}
+
+export interface SnapshotRelation {
+  project: string;
+  type: string;
+  srcFilePath: string;
+  srcSymbolName: string | null;
+  dstFilePath: string;
+  dstSymbolName: string | null;
+  metaJson: string | null;
+}
+
+/** Differences between two snapshots, from `from` to `to`. */
+export interface SnapshotDiff {
+  from: string;
+  to: string;
+  symbols: { added: SnapshotSymbol[]; removed: SnapshotSymbol[] };
+  relations: { added: SnapshotRelation[]; removed: SnapshotRelation[] };
+}
+
+interface SnapshotReaderPart {
+  getSnapshotFiles(name: string): Array<{ project: string; filePath: string; blobId: number }>;
+  getBlobSymbols(blobIds: readonly number[]): Array<{
+    blobId: number;
+    kind: string;
+    name: string;
+    startLine: number;
+    startColumn: number;
+    endLine: number;
+    endColumn: number;
+    isExported: number;
+    signature: string | null;
+    fingerprint: string | null;
+  }>;
+  getBlobRelations(blobIds: readonly number[]): Array<{
+    blobId: number;
+    type: string;
+    srcSymbolName: string | null;
+    dstFilePath: string;
+    dstSymbolName: string | null;
+    metaJson: string | null;
+  }>;
+}
+
+type BlobSymbol = ReturnType<SnapshotReaderPart['getBlobSymbols']>[number];
+type BlobRelation = ReturnType<SnapshotReaderPart['getBlobRelations']>[number];
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+/** A symbol is the same across snapshots when its kind, name, export and signature fingerprint match. */
+function symbolKey(sym: BlobSymbol): string {
+  return `${sym.kind}\0${sym.name}\0${sym.isExported}\0${sym.fingerprint ?? ''}`;
+}
+
+function relationKey(rel: BlobRelation): string {
+  return `${rel.type}\0${rel.srcSymbolName ?? ''}\0${rel.dstFilePath}\0${rel.dstSymbolName ?? ''}\0${rel.metaJson ?? ''}`;
+}
+
+function groupByBlob<T extends { blobId: number }>(rows: T[]): Map<number, T[]> {
+  const groups = new Map<number, T[]>();
+  for (const row of rows) {
+    const group = groups.get(row.blobId);
+    if (group) group.push(row);
+    else groups.set(row.blobId, [row]);
+  }
+  return groups;
+}
+
+/** Rows of `rows` whose key is missing from `other`, once per key. */
+function missingFrom<T>(rows: T[], other: T[], key: (row: T) => string): T[] {
+  const otherKeys = new Set(other.map(key));
+  const seen = new Set<string>();
+  return rows.filter((row) => {
+    const k = key(row);
+    if (otherKeys.has(k) || seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+// ── Main ───────────────────────────────────────────────────────────────────
+
+/**
+ * Symbols and relations present in one snapshot but not the other. Only files whose blob
+ * differs are compared. A symbol whose signature or export status changed is reported as
+ * removed and added; repeated identical relations (e.g. two calls) count once.
+ */
+export function diffSnapshots(snapshotRepo: SnapshotReaderPart, from: string, to: string): SnapshotDiff {
+  const fromFiles = new Map(snapshotRepo.getSnapshotFiles(from).map((f) => [f.filePath, f]));
+  const toFiles = new Map(snapshotRepo.getSnapshotFiles(to).map((f) => [f.filePath, f]));
+
+  const changedPaths = [...new Set([...fromFiles.keys(), ...toFiles.keys()])]
+    .filter((filePath) => fromFiles.get(filePath)?.blobId !== toFiles.get(filePath)?.blobId)
+    .sort();
+  const blobIds = new Set<number>();
+  for (const filePath of changedPaths) {
+    const a = fromFiles.get(filePath);
+    const b = toFiles.get(filePath);
+    if (a) blobIds.add(a.blobId);
+    if (b) blobIds.add(b.blobId);
+  }
+  const symbolsByBlob = groupByBlob(snapshotRepo.getBlobSymbols([...blobIds]));
+  const relationsByBlob = groupByBlob(snapshotRepo.getBlobRelations([...blobIds]));
+
+  const diff: SnapshotDiff = {
+    from,
+    to,
+    symbols: { added: [], removed: [] },
+    relations: { added: [], removed: [] },
+  };
+
+  for (const filePath of changedPaths) {
+    const a = fromFiles.get(filePath);
+    const b = toFiles.get(filePath);
+    const symsA = a ? (symbolsByBlob.get(a.blobId) ?? []) : [];
+    const symsB = b ? (symbolsByBlob.get(b.blobId) ?? []) : [];
+    const relsA = a ? (relationsByBlob.get(a.blobId) ?? []) : [];
+    const relsB = b ? (relationsByBlob.get(b.blobId) ?? []) : [];
+
+    const toSymbol = (project: string) => (sym: BlobSymbol): SnapshotSymbol => ({
+      project,
+      filePath,
+      kind: sym.kind,
+      name: sym.name,
+      isExported: sym.isExported === 1,
+      signature: sym.signature,
+      span: {
+        start: { line: sym.startLine, column: sym.startColumn },
+        end: { line: sym.endLine, column: sym.endColumn },
+      },
+    });
+    const toRelation = (project: string) => (rel: BlobRelation): SnapshotRelation => ({
+      project,
+      type: rel.type,
+      srcFilePath: filePath,
+      srcSymbolName: rel.srcSymbolName,
+      dstFilePath: rel.dstFilePath,
+      dstSymbolName: rel.dstSymbolName,
+      metaJson: rel.metaJson,
+    });
+
+    if (b) {
+      diff.symbols.added.push(...missingFrom(symsB, symsA, symbolKey).map(toSymbol(b.project)));
+      diff.relations.added.push(...missingFrom(relsB, relsA, relationKey).map(toRelation(b.project)));
+    }
+    if (a) {
+      diff.symbols.removed.push(...missingFrom(symsA, symsB, symbolKey).map(toSymbol(a.project)));
+      diff.relations.removed.push(...missingFrom(relsA, relsB, relationKey).map(toRelation(a.project)));
+    }
+  }
+
+  return diff;
+}
@@ -0,0 +1,198 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { GitError } from '../errors';
+import { parseSource } from '../parser/parse-source';
+import { indexSnapshot } from './snapshot-indexer';
+
+const PROJECT_ROOT = '/project';
+const PACKAGE_JSON = JSON.stringify({ name: 'test-project' });
+
+// ── Fixtures ───────────────────────────────────────────────────────────────
+
+/** Fake git over `files` (path → content) plus a root `package.json`; blob ids are derived from the content. */
+function makeGit(files: Record<string, string>, commit = 'c0ffee') {
+  const blobId = (content: string) => `blob:${content}`;
+  return {
+    resolveCommit: mock(async (_cwd: string, _ref: string) => commit),
+    listTreeFiles: mock(async (_cwd: string, _commit: string) =>
+      Object.entries({ 'package.json': PACKAGE_JSON, ...files }).map(([path, content]) => ({ path, blobId: blobId(content) })),
+    ),
+    readBlobs: mock(async (_cwd: string, ids: readonly string[]) => new Map(ids.map((id) => [id, id.slice('blob:'.length)]))),
+  };
+}
+
+/** In-memory snapshot repository. */
+function makeSnapshotRepo() {
+  const blobs: Array<{ id: number; filePath: string; contentHash: string; resolutionJson: string; syms: any[]; rels: any[] }> = [];
+  return {
+    blobs,
+    findBlobs: mock((filePath: string, contentHash: string) =>
+      blobs.filter((b) => b.filePath === filePath && b.contentHash === contentHash),
+    ),
+    insertBlob: mock((blob: any, syms: any[], rels: any[]) => {
+      const id = blobs.length + 1;
+      blobs.push({ id, ...blob, syms, rels });
+      return id;
+    }),
+    replaceSnapshot: mock((_snapshot: any, _files: any[]) => {}),
+    pruneBlobs: mock(() => {}),
+  };
+}
+
+function makeOptions(git: ReturnType<typeof makeGit>, snapshotRepo = makeSnapshotRepo(), overrides: Record<string, unknown> = {}) {
+  return {
+    name: 'main',
+    ref: 'main',
+    projectRoot: PROJECT_ROOT,
+    extensions: ['.ts'],
+    ignorePatterns: [],
+    snapshotRepo,
+    dbConnection: { transaction: <T>(fn: () => T): T => fn() },
+    git,
+    ...overrides,
+  };
+}
+
+describe('indexSnapshot', () => {
+  it('should store the symbols and relations of each source file of the commit', async () => {
+    const git = makeGit({
+      'src/a.ts': "import { b } from './b';\nexport function run() { return b(); }\n",
+      'src/b.ts': 'export function b() { return 1; }\n',
+    });
+    const snapshotRepo = makeSnapshotRepo();
+
+    const result = await indexSnapshot(makeOptions(git, snapshotRepo));
+
+    expect(result).toMatchObject({ name: 'main', ref: 'main', commit: 'c0ffee', totalFiles: 2, indexedFiles: 2, reusedFiles: 0, failedFiles: [] });
+    const a = snapshotRepo.blobs.find((b) => b.filePath === 'src/a.ts')!;
+    expect(a.syms.map((s) => [s.kind, s.name, s.isExported])).toEqual([['function', 'run', 1]]);
+    expect(a.rels).toContainEqual({ type: 'imports', srcSymbolName: null, dstFilePath: 'src/b.ts', dstSymbolName: 'b', metaJson: '{"localName":"b"}' });
+    expect(a.rels).toContainEqual({ type: 'calls', srcSymbolName: 'run', dstFilePath: 'src/b.ts', dstSymbolName: 'b', metaJson: null });
+    const [snapshot, files] = snapshotRepo.replaceSnapshot.mock.calls[0]!;
+    expect(snapshot).toMatchObject({ name: 'main', ref: 'main', commit: 'c0ffee' });
+    expect(files).toEqual([
+      { project: 'test-project', filePath: 'src/a.ts', blobId: 1 },
+      { project: 'test-project', filePath: 'src/b.ts', blobId: 2 },
+    ]);
+    expect(snapshotRepo.pruneBlobs).toHaveBeenCalled();
+  });
+
+  it('should resolve imports against the commit tree when the files do not exist on disk', async () => {
+    const git = makeGit({ 'src/a.ts': "import './gone';\nimport './styles.css';\n", 'src/styles.css': 'a {}' });
+    const snapshotRepo = makeSnapshotRepo();
+
+    await indexSnapshot(makeOptions(git, snapshotRepo));
+
+    expect(snapshotRepo.blobs[0]!.rels.map((r) => [r.type, r.dstFilePath])).toEqual([
+      ['unresolved', './gone'],
+      ['imports', 'src/styles.css'],
+    ]);
+  });
+
+  it('should take project boundaries and workspace packages from the package.json files of the commit', async () => {
+    const git = makeGit({
+      'packages/lib/package.json': JSON.stringify({ name: '@ws/lib', main: 'src/index.ts' }),
+      'packages/lib/src/index.ts': 'export const lib = 1;\n',
+      'node_modules/dep/package.json': JSON.stringify({ name: 'dep' }),
+      'src/a.ts': "import { lib } from '@ws/lib';\n",
+    });
+    const snapshotRepo = makeSnapshotRepo();
+
+    await indexSnapshot(makeOptions(git, snapshotRepo, { ignorePatterns: ['node_modules/**'] }));
+
+    const [, files] = snapshotRepo.replaceSnapshot.mock.calls[0]!;
+    expect(files.map((f: any) => [f.project, f.filePath])).toEqual([
+      ['@ws/lib', 'packages/lib/src/index.ts'],
+      ['test-project', 'src/a.ts'],
+    ]);
+    const a = snapshotRepo.blobs.find((b) => b.filePath === 'src/a.ts')!;
+    expect(a.rels.map((r) => [r.type, r.dstFilePath])).toEqual([['imports', 'packages/lib/src/index.ts']]);
+  });
+
+  it('should resolve path aliases with the tsconfig of the commit when the config does not exist on disk', async () => {
+    const git = makeGit({
+      'tsconfig.json': JSON.stringify({ compilerOptions: { paths: { '@/*': ['src/*'] } } }),
+      'src/a.ts': "import { b } from '@/b';\n",
+      'src/b.ts': 'export const b = 1;\n',
+    });
+    const snapshotRepo = makeSnapshotRepo();
+
+    await indexSnapshot(makeOptions(git, snapshotRepo));
+
+    const a = snapshotRepo.blobs.find((b) => b.filePath === 'src/a.ts')!;
+    expect(a.rels.map((r) => [r.type, r.dstFilePath])).toEqual([['imports', 'src/b.ts']]);
+  });
+
+  it('should resolve path aliases without failing files when the tsconfig of the commit has comments and trailing commas', async () => {
+    const git = makeGit({
+      'tsconfig.json': '{\n  // aliases\n  "compilerOptions": { "paths": { "@/*": ["src/*"], }, },\n}\n',
+      'src/a.ts': "import { b } from '@/b';\n",
+      'src/b.ts': 'export const b = 1;\n',
+    });
+    const snapshotRepo = makeSnapshotRepo();
+
+    const result = await indexSnapshot(makeOptions(git, snapshotRepo));
+
+    expect(result.failedFiles).toEqual([]);
+    const a = snapshotRepo.blobs.find((b) => b.filePath === 'src/a.ts')!;
+    expect(a.rels.map((r) => [r.type, r.dstFilePath])).toEqual([['imports', 'src/b.ts']]);
+  });
+
+  it('should index only files matching the extensions and not the ignore patterns', async () => {
+    const git = makeGit({ 'src/a.ts': 'export const a = 1;\n', 'src/a.css': 'a {}', 'dist/a.ts': 'export const d = 1;\n' });
+    const snapshotRepo = makeSnapshotRepo();
+
+    const result = await indexSnapshot(makeOptions(git, snapshotRepo, { ignorePatterns: ['dist/**'] }));
+
+    expect(result.totalFiles).toBe(1);
+    expect(git.readBlobs.mock.calls[0]![1]).toEqual(['blob:export const a = 1;\n']);
+  });
+
+  it('should reuse a stored blob without parsing when content and import resolution are unchanged', async () => {
+    const files = { 'src/a.ts': "import { b } from './b';\n", 'src/b.ts': 'export const b = 1;\n' };
+    const snapshotRepo = makeSnapshotRepo();
+    await indexSnapshot(makeOptions(makeGit(files), snapshotRepo));
+    const parseSourceFn = mock(parseSource);
+
+    const result = await indexSnapshot(makeOptions(makeGit({ ...files, 'src/c.ts': 'export {};\n' }), snapshotRepo, { name: 'next', parseSourceFn }));
+
+    expect(result).toMatchObject({ totalFiles: 3, indexedFiles: 1, reusedFiles: 2 });
+    expect(parseSourceFn.mock.calls.map((c) => c[0])).toEqual(['/project/src/c.ts']);
+    const [, rows] = snapshotRepo.replaceSnapshot.mock.calls[1]!;
+    expect(rows.map((r: any) => [r.filePath, r.blobId])).toEqual([
+      ['src/a.ts', 1],
+      ['src/b.ts', 2],
+      ['src/c.ts', 3],
+    ]);
+  });
+
+  it('should re-index an unchanged file when a file its imports resolved against disappears', async () => {
+    const snapshotRepo = makeSnapshotRepo();
+    await indexSnapshot(makeOptions(makeGit({ 'src/a.ts': "import './b';\n", 'src/b.ts': '' }), snapshotRepo));
+
+    const result = await indexSnapshot(makeOptions(makeGit({ 'src/a.ts': "import './b';\n" }), snapshotRepo, { name: 'next' }));
+
+    expect(result.reusedFiles).toBe(0);
+    const latest = snapshotRepo.blobs.at(-1)!;
+    expect(latest.filePath).toBe('src/a.ts');
+    expect(latest.rels.map((r) => r.type)).toEqual(['unresolved']);
+  });
+
+  it('should report a file as failed when its blob cannot be read', async () => {
+    const git = makeGit({ 'src/a.ts': 'export const a = 1;\n' });
+    git.readBlobs.mockResolvedValue(new Map());
+
+    const result = await indexSnapshot(makeOptions(git));
+
+    expect(result.failedFiles).toEqual(['src/a.ts']);
+    expect(result.totalFiles).toBe(0);
+  });
+
+  it('should propagate GitError without writing a snapshot when the ref does not resolve', async () => {
+    const git = makeGit({});
+    git.resolveCommit.mockRejectedValue(new GitError('Unknown git ref: "nope"'));
+    const snapshotRepo = makeSnapshotRepo();
+
+    await expect(indexSnapshot(makeOptions(git, snapshotRepo, { ref: 'nope' }))).rejects.toBeInstanceOf(GitError);
+    expect(snapshotRepo.replaceSnapshot).not.toHaveBeenCalled();
+  });
+});
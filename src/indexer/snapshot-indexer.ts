@@ -0,0 +1,278 @@
+import path from 'node:path';
+import type { ProjectBoundary } from '../common/project-discovery';
+import { isDiscoveryExcluded, resolveFileProject, toProjectBoundaries, toWorkspacePackages } from '../common/project-discovery';
+import type { TsconfigPaths, TsconfigSource } from '../common/tsconfig-resolver';
+import { createTsconfigSource, loadTsconfigPathsForFile, parseTsconfigText } from '../common/tsconfig-resolver';
+import { hashString } from '../common/hasher';
+import { toAbsolutePath, toRelativePath } from '../common/path-utils';
+import { listTreeFiles, readBlobs, resolveCommit } from '../common/git';
+import { parseSource } from '../parser/parse-source';
+import { indexFileSymbols } from './symbol-indexer';
+import type { SymbolDbRow } from './symbol-indexer';
+import { indexFileRelations } from './relation-indexer';
+import type { RelationDbRow } from './relation-indexer';
+
+// ── Types ─────────────────────────────────────────────────────────────────
+
+export interface SnapshotIndexResult {
+  name: string;
+  ref: string;
+  /** Commit id `ref` resolved to. */
+  commit: string;
+  /** Source files in the snapshot. */
+  totalFiles: number;
+  /** Files parsed for this snapshot. */
+  indexedFiles: number;
+  /** Files whose symbols and relations were reused from an earlier snapshot. */
+  reusedFiles: number;
+  /** Files left out because they could not be indexed. */
+  failedFiles: string[];
+  durationMs: number;
+}
+
+type SnapshotSymbolRow = Pick<
+  SymbolDbRow,
+  'kind' | 'name' | 'startLine' | 'startColumn' | 'endLine' | 'endColumn' | 'isExported' | 'signature' | 'fingerprint' | 'bodyHash' | 'detailJson'
+>;
+type SnapshotRelationRow = Pick<RelationDbRow, 'type' | 'srcSymbolName' | 'dstFilePath' | 'dstSymbolName' | 'metaJson'>;
+
+interface SnapshotRepoPart {
+  findBlobs(filePath: string, contentHash: string): Array<{ id: number; resolutionJson: string }>;
+  insertBlob(
+    blob: { filePath: string; contentHash: string; resolutionJson: string },
+    syms: SnapshotSymbolRow[],
+    rels: SnapshotRelationRow[],
+  ): number;
+  replaceSnapshot(
+    snapshot: { name: string; ref: string; commit: string; createdAt: string },
+    files: Array<{ project: string; filePath: string; blobId: number }>,
+  ): void;
+  pruneBlobs(): void;
+}
+
+export interface IndexSnapshotOptions {
+  /** Snapshot name; an existing snapshot of that name is replaced. */
+  name: string;
+  /** Git ref to index (branch, tag, sha, ...). */
+  ref: string;
+  /** Project root inside the repository's working tree; the snapshot covers the same subtree. */
+  projectRoot: string;
+  extensions: string[];
+  ignorePatterns: string[];
+  snapshotRepo: SnapshotRepoPart;
+  dbConnection: { transaction<T>(fn: () => T): T };
+  parseSourceFn?: typeof parseSource;
+  /** Git access (DI seam, defaults to the local `git` CLI). */
+  git?: {
+    resolveCommit: typeof resolveCommit;
+    listTreeFiles: typeof listTreeFiles;
+    readBlobs: typeof readBlobs;
+  };
+}
+
+/** Import candidates probed while extracting a blob's relations, and whether each existed. */
+interface BlobResolution {
+  /** Hash of the tsconfig paths and workspace packages the imports were resolved with. */
+  context: string;
+  probes: Record<string, boolean>;
+}
+
+/** A blob extracted for this run, written to the store once every file is processed. */
+interface PendingBlob {
+  contentHash: string;
+  resolutionJson: string;
+  syms: SnapshotSymbolRow[];
+  rels: SnapshotRelationRow[];
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function resolutionContext(tsconfigPaths: TsconfigPaths | null, workspacePackages: unknown): string {
+  const paths = tsconfigPaths
+    ? { baseUrl: tsconfigPaths.baseUrl, paths: [...tsconfigPaths.paths], moduleResolution: tsconfigPaths.moduleResolution }
+    : null;
+  return hashString(JSON.stringify({ paths, workspacePackages }));
+}
+
+/** Whether a stored blob's imports resolve the same way against `treePaths`. */
+function resolvesAlike(resolutionJson: string, context: string, projectRoot: string, treePaths: Set<string>): boolean {
+  const resolution = JSON.parse(resolutionJson) as BlobResolution;
+  if (resolution.context !== context) return false;
+  return Object.entries(resolution.probes).every(
+    ([probe, existed]) => treePaths.has(toAbsolutePath(projectRoot, probe)) === existed,
+  );
+}
+
+function toSnapshotSymbol(row: SymbolDbRow): SnapshotSymbolRow {
+  const { kind, name, startLine, startColumn, endLine, endColumn, isExported, signature, fingerprint, bodyHash, detailJson } = row;
+  return { kind, name, startLine, startColumn, endLine, endColumn, isExported, signature, fingerprint, bodyHash, detailJson };
+}
+
+function toSnapshotRelation(row: RelationDbRow): SnapshotRelationRow {
+  const { type, srcSymbolName, dstFilePath, dstSymbolName, metaJson } = row;
+  return { type, srcSymbolName, dstFilePath, dstSymbolName, metaJson };
+}
+
+type TreeEntry = { path: string; blobId: string };
+type SnapshotGit = NonNullable<IndexSnapshotOptions['git']>;
+
+/** Project boundaries of the commit, from the `package.json` files in its tree. Unparsable manifests are skipped. */
+async function readSnapshotBoundaries(git: SnapshotGit, projectRoot: string, tree: TreeEntry[]): Promise<ProjectBoundary[]> {
+  const entries = tree.filter((entry) => path.posix.basename(entry.path) === 'package.json' && !isDiscoveryExcluded(entry.path));
+  if (entries.length === 0) return [];
+
+  const contents = await git.readBlobs(projectRoot, entries.map((entry) => entry.blobId));
+  const manifests: Array<{ path: string; content: unknown }> = [];
+  for (const entry of entries) {
+    const text = contents.get(entry.blobId);
+    if (text === undefined) continue;
+    try {
+      manifests.push({ path: entry.path, content: JSON.parse(text) });
+    } catch {
+      // A broken manifest at this commit leaves its files to the enclosing project.
+    }
+  }
+  return toProjectBoundaries(projectRoot, manifests);
+}
+
+/**
+ * Config source reading tsconfig files from the commit's tree. Configs outside the tree
+ * (above the project root, or in `node_modules`, which is not committed) are read from disk.
+ */
+function snapshotTsconfigSource(git: SnapshotGit, projectRoot: string, tree: TreeEntry[]): TsconfigSource {
+  const blobIds = new Map(tree.map((entry) => [entry.path, entry.blobId]));
+  return createTsconfigSource(async (configPath) => {
+    const relative = toRelativePath(projectRoot, configPath);
+    if (relative.startsWith('..') || relative.split('/').includes('node_modules')) {
+      const file = Bun.file(configPath);
+      return (await file.exists()) ? parseTsconfigText(await file.text()) : null;
+    }
+
+    const blobId = blobIds.get(relative);
+    if (blobId === undefined) return null;
+    const text = (await git.readBlobs(projectRoot, [blobId])).get(blobId);
+    return text === undefined ? null : parseTsconfigText(text);
+  });
+}
+
+// ── Main ───────────────────────────────────────────────────────────────────
+
+/**
+ * Indexes the tree of a git commit into the snapshot `name` without checking it out.
+ * Files are read from git objects; imports resolve against the commit's tree instead of the
+ * disk. A file whose content and import resolution match a blob stored by an earlier snapshot
+ * reuses that blob's symbols and relations instead of being parsed again.
+ *
+ * Project boundaries, workspace packages and tsconfig path aliases come from the
+ * `package.json` and tsconfig files of the commit.
+ *
+ * @throws GitError when `ref` does not resolve or git cannot be run.
+ */
+export async function indexSnapshot(opts: IndexSnapshotOptions): Promise<SnapshotIndexResult> {
+  const start = Date.now();
+  const { name, ref, projectRoot, extensions, ignorePatterns, snapshotRepo, dbConnection } = opts;
+  const git = opts.git ?? { resolveCommit, listTreeFiles, readBlobs };
+  const parseFn = opts.parseSourceFn ?? parseSource;
+
+  const commit = await git.resolveCommit(projectRoot, ref);
+  const tree = await git.listTreeFiles(projectRoot, commit);
+  // Every file of the commit counts for import resolution, indexed or not.
+  const treePaths = new Set(tree.map((entry) => toAbsolutePath(projectRoot, entry.path)));
+
+  const ignoreGlobs = ignorePatterns.map((p) => new Bun.Glob(p));
+  const sources = tree.filter(
+    (entry) => extensions.some((ext) => entry.path.endsWith(ext)) && !ignoreGlobs.some((g) => g.match(entry.path)),
+  );
+  const contents = await git.readBlobs(projectRoot, sources.map((entry) => entry.blobId));
+  const boundaries = await readSnapshotBoundaries(git, projectRoot, tree);
+  const workspacePackages = toWorkspacePackages(projectRoot, boundaries);
+  const tsconfigSource = snapshotTsconfigSource(git, projectRoot, tree);
+
+  /** `blob` is the id of a reused blob or a blob extracted in this run. */
+  const files: Array<{ project: string; filePath: string; blob: number | PendingBlob }> = [];
+  const failedFiles: string[] = [];
+  let indexedFiles = 0;
+
+  for (const { path: filePath, blobId } of sources) {
+    const text = contents.get(blobId);
+    if (text === undefined) {
+      failedFiles.push(filePath);
+      continue;
+    }
+
+    try {
+      const absPath = toAbsolutePath(projectRoot, filePath);
+      const contentHash = hashString(text);
+      const tsconfigPaths = await loadTsconfigPathsForFile(absPath, projectRoot, tsconfigSource);
+      const context = resolutionContext(tsconfigPaths, workspacePackages);
+      const project = resolveFileProject(filePath, boundaries);
+
+      const stored = snapshotRepo
+        .findBlobs(filePath, contentHash)
+        .find((blob) => resolvesAlike(blob.resolutionJson, context, projectRoot, treePaths));
+      if (stored) {
+        files.push({ project, filePath, blob: stored.id });
+        continue;
+      }
+
+      const parsed = parseFn(absPath, text);
+      let syms: SnapshotSymbolRow[] = [];
+      let rels: SnapshotRelationRow[] = [];
+      const probes: Record<string, boolean> = {};
+
+      indexFileSymbols({
+        parsed,
+        project,
+        filePath,
+        contentHash,
+        symbolRepo: { replaceFileSymbols: (_p, _f, _h, rows) => { syms = rows.map(toSnapshotSymbol); } },
+      });
+      indexFileRelations({
+        ast: parsed.program,
+        sourceText: parsed.sourceText,
+        project,
+        filePath,
+        projectRoot,
+        tsconfigPaths,
+        workspacePackages,
+        relationRepo: { replaceFileRelations: (_p, _f, rows) => { rels = rows.map(toSnapshotRelation); } },
+        fileExistsFn: (candidate) => {
+          const exists = treePaths.has(candidate);
+          probes[toRelativePath(projectRoot, candidate)] = exists;
+          return exists;
+        },
+      });
+
+      const resolution: BlobResolution = { context, probes };
+      files.push({ project, filePath, blob: { contentHash, resolutionJson: JSON.stringify(resolution), syms, rels } });
+      indexedFiles++;
+    } catch (err) {
+      console.error(`[indexSnapshot] Failed to index ${filePath}:`, err);
+      failedFiles.push(filePath);
+    }
+  }
+
+  dbConnection.transaction(() => {
+    const rows = files.map(({ project, filePath, blob }) => ({
+      project,
+      filePath,
+      blobId:
+        typeof blob === 'number'
+          ? blob
+          : snapshotRepo.insertBlob({ filePath, contentHash: blob.contentHash, resolutionJson: blob.resolutionJson }, blob.syms, blob.rels),
+    }));
+    snapshotRepo.replaceSnapshot({ name, ref, commit, createdAt: new Date().toISOString() }, rows);
+    snapshotRepo.pruneBlobs();
+  });
+
+  return {
+    name,
+    ref,
+    commit,
+    totalFiles: files.length,
+    indexedFiles,
+    reusedFiles: files.length - indexedFiles,
+    failedFiles,
+    durationMs: Date.now() - start,
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'bun:test';
+import { parseSync } from 'oxc-parser';
+import { structuralFingerprint } from './structural-fingerprint';
+
+/** Fingerprint of the first top-level statement of `source`. */
+function fingerprintOf(source: string, kind = 'function'): string | null {
+  const { program } = parseSync('/project/src/a.ts', source);
+  const stmt = (program as any).body[0];
+  return structuralFingerprint(program, stmt.start, stmt.end, kind);
+}
+
+describe('structuralFingerprint', () => {
+  it('should return the same fingerprint when only the symbol and local names differ', () => {
+    const a = fingerprintOf('function load(path: string) { const text = read(path); return text.trim(); }');
+    const b = fingerprintOf('function fetchFile(p: string) { const t = readFile(p); return t.trim(); }');
+
+    expect(a).not.toBeNull();
+    expect(a).toBe(b);
+  });
+
+  it('should ignore whitespace and comments when the structure is equal', () => {
+    const a = fingerprintOf('function f(a) { return a + 1; }');
+    const b = fingerprintOf('function f(a) {\n  // increment\n  return a   +   1;\n}');
+
+    expect(a).toBe(b);
+  });
+
+  it('should differ when an operator or literal value changes', () => {
+    const base = fingerprintOf('function f(a) { return a + 1; }');
+
+    expect(fingerprintOf('function f(a) { return a - 1; }')).not.toBe(base);
+    expect(fingerprintOf('function f(a) { return a + 2; }')).not.toBe(base);
+  });
+
+  it('should differ when the statements of the body change', () => {
+    const a = fingerprintOf('function f(a) { return a; }');
+    const b = fingerprintOf('function f(a) { if (a) throw a; return a; }');
+
+    expect(a).not.toBe(b);
+  });
+
+  it('should differ by kind when the covered nodes are equal', () => {
+    expect(fingerprintOf('const x = 1;', 'variable')).not.toBe(fingerprintOf('const x = 1;', 'function'));
+  });
+
+  it('should cover only nodes inside the range when the range is part of a statement', () => {
+    const { program } = parseSync('/project/src/a.ts', 'class A { run() { return 1; } stop() { return 2; } }');
+    const [run, stop] = (program as any).body[0].body.body;
+    const renamed = parseSync('/project/src/b.ts', 'class B { go() { return 1; } }');
+    const go = (renamed.program as any).body[0].body.body[0];
+
+    const runFp = structuralFingerprint(program, run.start, run.end, 'method');
+    expect(runFp).toBe(structuralFingerprint(renamed.program, go.start, go.end, 'method'));
+    expect(runFp).not.toBe(structuralFingerprint(program, stop.start, stop.end, 'method'));
+  });
+
+  it('should return null when no node lies inside the range', () => {
+    const { program } = parseSync('/project/src/a.ts', 'const x = 1;');
+
+    expect(structuralFingerprint(program, 100, 120, 'variable')).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+import { hashString } from '../common/hasher';
+
+// ── Constants ─────────────────────────────────────────────────────────────
+
+/** Properties left out of the normalized form: positions, identifier names and raw source text. */
+const IGNORED_KEYS = new Set(['start', 'end', 'range', 'loc', 'name', 'raw']);
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function isNodeRecord(value: unknown): value is Record<string, unknown> & { start: number; end: number } {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    typeof (value as any).type === 'string' &&
+    typeof (value as any).start === 'number'
+  );
+}
+
+/** Serializes a subtree: node types, operators, flags and literal values; no names or positions. */
+function normalize(value: unknown): string {
+  if (value === null || value === undefined) return '_';
+  if (Array.isArray(value)) return `[${value.map(normalize).join(',')}]`;
+  if (typeof value !== 'object') return JSON.stringify(value);
+
+  const parts: string[] = [];
+  for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+    if (IGNORED_KEYS.has(key) || key === 'type') continue;
+    parts.push(`${key}:${normalize(child)}`);
+  }
+  return `${(value as any).type ?? ''}(${parts.join(';')})`;
+}
+
+/** Outermost nodes lying entirely inside `[start, end)`, in source order. */
+function collectCovered(node: unknown, start: number, end: number, out: unknown[]): void {
+  if (Array.isArray(node)) {
+    for (const item of node) collectCovered(item, start, end, out);
+    return;
+  }
+  if (!node || typeof node !== 'object') return;
+
+  if (isNodeRecord(node)) {
+    if (node.end <= start || node.start >= end) return;
+    if (node.start >= start && node.end <= end) {
+      out.push(node);
+      return;
+    }
+  }
+  for (const [key, child] of Object.entries(node as Record<string, unknown>)) {
+    if (IGNORED_KEYS.has(key)) continue;
+    if (child && typeof child === 'object') collectCovered(child, start, end, out);
+  }
+}
+
+// ── Main ───────────────────────────────────────────────────────────────────
+
+/**
+ * Hash of the AST covering `[start, end)` with identifier names, whitespace, comments and
+ * positions removed. Renaming a symbol (or its locals) or reformatting it keeps the
+ * fingerprint; changing its structure, operators or literal values does not.
+ *
+ * @param program - Parsed Program AST.
+ * @param start   - Start offset of the symbol.
+ * @param end     - End offset of the symbol.
+ * @param kind    - Symbol kind, so that a function and a class with equal shapes differ.
+ * @returns The fingerprint, or null when no node lies inside the range.
+ */
+export function structuralFingerprint(program: unknown, start: number, end: number, kind: string): string | null {
+  const nodes: unknown[] = [];
+  collectCovered(program, start, end, nodes);
+  if (nodes.length === 0) return null;
+  return hashString(`${kind}|${nodes.map(normalize).join('|')}`);
+}
@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'bun:test';
+import type { SymbolSnapshot } from './symbol-diff';
+import { diffSymbols } from './symbol-diff';
+
+function sym(name: string, overrides: Partial<SymbolSnapshot> = {}): SymbolSnapshot {
+  return {
+    name,
+    kind: 'function',
+    fingerprint: `fp-${name}`,
+    bodyHash: `body-${name}`,
+    structuralFingerprint: `shape-${name}`,
+    ...overrides,
+  };
+}
+
+describe('diffSymbols', () => {
+  it('should report added and removed symbols when names differ between before and after', () => {
+    const changes = diffSymbols([{ filePath: 'src/a.ts', before: [sym('keep'), sym('gone')], after: [sym('keep'), sym('fresh')] }]);
+
+    expect(changes).toEqual([
+      {
+        filePath: 'src/a.ts',
+        added: [{ name: 'fresh', kind: 'function' }],
+        removed: [{ name: 'gone', kind: 'function' }],
+        modified: [],
+        renamed: [],
+        moved: [],
+      },
+    ]);
+  });
+
+  it('should report a body-only modification when the body hash changes but the fingerprint does not', () => {
+    const changes = diffSymbols([
+      { filePath: 'src/a.ts', before: [sym('run')], after: [sym('run', { bodyHash: 'body-run-2' })] },
+    ]);
+
+    expect(changes[0]!.modified).toEqual([{ name: 'run', kind: 'function', bodyChanged: true, signatureChanged: false }]);
+  });
+
+  it('should report a signature change when the fingerprint changes', () => {
+    const changes = diffSymbols([
+      { filePath: 'src/a.ts', before: [sym('run')], after: [sym('run', { fingerprint: 'fp-run-2' })] },
+    ]);
+
+    expect(changes[0]!.modified).toEqual([{ name: 'run', kind: 'function', bodyChanged: false, signatureChanged: true }]);
+  });
+
+  it('should treat a symbol as modified when the stored row has no body hash', () => {
+    const changes = diffSymbols([{ filePath: 'src/a.ts', before: [sym('run', { bodyHash: null })], after: [sym('run')] }]);
+
+    expect(changes[0]!.modified).toEqual([{ name: 'run', kind: 'function', bodyChanged: true, signatureChanged: false }]);
+  });
+
+  it('should report a kind change as a removal and an addition', () => {
+    const changes = diffSymbols([
+      { filePath: 'src/a.ts', before: [sym('Config', { kind: 'interface' })], after: [sym('Config', { kind: 'type' })] },
+    ]);
+
+    expect(changes[0]!.added).toEqual([{ name: 'Config', kind: 'type' }]);
+    expect(changes[0]!.removed).toEqual([{ name: 'Config', kind: 'interface' }]);
+  });
+
+  it('should omit files whose symbols are unchanged', () => {
+    expect(diffSymbols([{ filePath: 'src/a.ts', before: [sym('run')], after: [sym('run')] }])).toEqual([]);
+  });
+
+  it('should report a move on the destination file when an identical symbol leaves one file and enters another', () => {
+    const changes = diffSymbols([
+      { filePath: 'src/old.ts', before: [sym('helper'), sym('other')], after: [sym('other')] },
+      { filePath: 'src/new.ts', before: [], after: [sym('helper')] },
+    ]);
+
+    expect(changes).toEqual([
+      {
+        filePath: 'src/new.ts',
+        added: [],
+        removed: [],
+        modified: [],
+        renamed: [],
+        moved: [{ name: 'helper', kind: 'function', fromFilePath: 'src/old.ts' }],
+      },
+    ]);
+  });
+
+  it('should not report a move when the structure changed on the way', () => {
+    const changes = diffSymbols([
+      { filePath: 'src/old.ts', before: [sym('helper')], after: [] },
+      { filePath: 'src/new.ts', before: [], after: [sym('helper', { bodyHash: 'body-helper-2', structuralFingerprint: 'shape-2' })] },
+    ]);
+
+    expect(changes.map((c) => [c.filePath, c.added.length, c.removed.length, c.moved.length])).toEqual([
+      ['src/old.ts', 0, 1, 0],
+      ['src/new.ts', 1, 0, 0],
+    ]);
+  });
+
+  it('should not report a move when several files receive an identical symbol', () => {
+    const changes = diffSymbols([
+      { filePath: 'src/old.ts', before: [sym('helper')], after: [] },
+      { filePath: 'src/a.ts', before: [], after: [sym('helper')] },
+      { filePath: 'src/b.ts', before: [], after: [sym('helper')] },
+    ]);
+
+    expect(changes.every((c) => c.moved.length === 0)).toBe(true);
+    expect(changes).toHaveLength(3);
+  });
+
+  it('should report a rename when a symbol is replaced by one with the same kind and structure in the same file', () => {
+    const changes = diffSymbols([
+      { filePath: 'src/a.ts', before: [sym('load')], after: [sym('fetchFile', { structuralFingerprint: 'shape-load' })] },
+    ]);
+
+    expect(changes).toEqual([
+      {
+        filePath: 'src/a.ts',
+        added: [],
+        removed: [],
+        modified: [],
+        renamed: [{ name: 'fetchFile', kind: 'function', previousName: 'load' }],
+        moved: [],
+      },
+    ]);
+  });
+
+  it('should report a move with the previous name when a symbol is renamed on its way to another file', () => {
+    const changes = diffSymbols([
+      { filePath: 'src/old.ts', before: [sym('load')], after: [] },
+      { filePath: 'src/new.ts', before: [], after: [sym('fetchFile', { structuralFingerprint: 'shape-load' })] },
+    ]);
+
+    expect(changes.map((c) => [c.filePath, c.moved])).toEqual([
+      ['src/new.ts', [{ name: 'fetchFile', kind: 'function', fromFilePath: 'src/old.ts', previousName: 'load' }]],
+    ]);
+  });
+
+  it('should not report a rename when the structural match is ambiguous', () => {
+    const changes = diffSymbols([
+      {
+        filePath: 'src/a.ts',
+        before: [sym('a', { structuralFingerprint: 'empty' }), sym('b', { structuralFingerprint: 'empty' })],
+        after: [sym('c', { structuralFingerprint: 'empty' })],
+      },
+    ]);
+
+    expect(changes[0]!.renamed).toEqual([]);
+    expect(changes[0]!.added).toHaveLength(1);
+    expect(changes[0]!.removed).toHaveLength(2);
+  });
+
+  it('should not report a rename when the kind differs', () => {
+    const changes = diffSymbols([
+      {
+        filePath: 'src/a.ts',
+        before: [sym('Box', { kind: 'class', structuralFingerprint: 'shape' })],
+        after: [sym('box', { kind: 'function', structuralFingerprint: 'shape' })],
+      },
+    ]);
+
+    expect(changes[0]!.renamed).toEqual([]);
+  });
+});
@@ -0,0 +1,177 @@
+// ── Types ─────────────────────────────────────────────────────────────────
+
+/** The stored columns a symbol diff compares. */
+export interface SymbolSnapshot {
+  name: string;
+  kind: string;
+  fingerprint: string | null;
+  bodyHash: string | null;
+  structuralFingerprint: string | null;
+}
+
+export interface SymbolChange {
+  /** Qualified name (`Class.method` for members). */
+  name: string;
+  kind: string;
+}
+
+export interface ModifiedSymbol extends SymbolChange {
+  /** Source text of the symbol changed. */
+  bodyChanged: boolean;
+  /** Parameter count / async-ness changed. */
+  signatureChanged: boolean;
+}
+
+export interface RenamedSymbol extends SymbolChange {
+  /** Name before the rename. */
+  previousName: string;
+}
+
+export interface MovedSymbol extends SymbolChange {
+  /** File the symbol was removed from in the same run. */
+  fromFilePath: string;
+  /** Name in `fromFilePath` when the symbol was also renamed. */
+  previousName?: string;
+}
+
+/** Symbol-level changes of one file in an indexing run. */
+export interface FileSymbolChanges {
+  filePath: string;
+  added: SymbolChange[];
+  removed: SymbolChange[];
+  modified: ModifiedSymbol[];
+  /** Symbols renamed within this file without structural changes. */
+  renamed: RenamedSymbol[];
+  /** Symbols moved into this file from another one, by identical body or identical structure. */
+  moved: MovedSymbol[];
+}
+
+export interface FileSymbolSnapshots {
+  filePath: string;
+  /** Symbols stored before the run (empty for new files). */
+  before: ReadonlyArray<SymbolSnapshot>;
+  /** Symbols stored after the run (empty for deleted files). */
+  after: ReadonlyArray<SymbolSnapshot>;
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function keyOf(sym: SymbolChange): string {
+  return `${sym.kind}\0${sym.name}`;
+}
+
+function isEmpty(changes: FileSymbolChanges): boolean {
+  return (
+    changes.added.length === 0 &&
+    changes.removed.length === 0 &&
+    changes.modified.length === 0 &&
+    changes.renamed.length === 0 &&
+    changes.moved.length === 0
+  );
+}
+
+type Candidates = Map<string, Array<{ file: FileSymbolChanges; sym: SymbolChange }>>;
+
+/** Indexes `sym` under `id` (skipped when the snapshot lacks the hashes `id` is built from). */
+function track(index: Candidates, id: string | null, file: FileSymbolChanges, sym: SymbolChange): void {
+  if (!id) return;
+  index.set(id, [...(index.get(id) ?? []), { file, sym }]);
+}
+
+/** Pairs of removed / added symbols that are the only candidate on both sides. */
+function uniquePairs(
+  removedBy: Candidates,
+  addedBy: Candidates,
+): Array<[{ file: FileSymbolChanges; sym: SymbolChange }, { file: FileSymbolChanges; sym: SymbolChange }]> {
+  const pairs: Array<[{ file: FileSymbolChanges; sym: SymbolChange }, { file: FileSymbolChanges; sym: SymbolChange }]> = [];
+  for (const [id, removed] of removedBy) {
+    const added = addedBy.get(id);
+    if (removed.length === 1 && added?.length === 1) pairs.push([removed[0]!, added[0]!]);
+  }
+  return pairs;
+}
+
+// ── Diff ───────────────────────────────────────────────────────────────────
+
+/**
+ * Compares the symbols stored for each file before and after an indexing run.
+ *
+ * Symbols are matched by kind and qualified name; a matched symbol is modified when its
+ * body hash or fingerprint (name, kind and signature) differs, so position changes alone
+ * are not reported. Removed and added symbols are then paired, each pair requiring a
+ * single candidate on both sides:
+ *  1. same name, fingerprint and body hash in another file → `moved`;
+ *  2. same kind and structural fingerprint → `renamed` within a file, `moved` (with
+ *     `previousName`) across files.
+ * Files without changes are omitted.
+ */
+export function diffSymbols(files: ReadonlyArray<FileSymbolSnapshots>): FileSymbolChanges[] {
+  const changes: FileSymbolChanges[] = [];
+  const exact = { removed: new Map() as Candidates, added: new Map() as Candidates };
+  const structural = { removed: new Map() as Candidates, added: new Map() as Candidates };
+  const exactId = (sym: SymbolSnapshot) =>
+    sym.fingerprint && sym.bodyHash ? `${keyOf(sym)}\0${sym.fingerprint}\0${sym.bodyHash}` : null;
+  const structuralId = (sym: SymbolSnapshot) =>
+    sym.structuralFingerprint ? `${sym.kind}\0${sym.structuralFingerprint}` : null;
+
+  for (const { filePath, before, after } of files) {
+    const old = new Map(before.map((sym) => [keyOf(sym), sym]));
+    const next = new Map(after.map((sym) => [keyOf(sym), sym]));
+    const file: FileSymbolChanges = { filePath, added: [], removed: [], modified: [], renamed: [], moved: [] };
+
+    for (const [key, sym] of next) {
+      const prev = old.get(key);
+      if (!prev) {
+        const change = { name: sym.name, kind: sym.kind };
+        file.added.push(change);
+        track(exact.added, exactId(sym), file, change);
+        track(structural.added, structuralId(sym), file, change);
+        continue;
+      }
+      // Rows indexed before body hashes existed cannot prove the body is unchanged.
+      const bodyChanged = prev.bodyHash === null || prev.bodyHash !== sym.bodyHash;
+      const signatureChanged = prev.fingerprint !== sym.fingerprint;
+      if (bodyChanged || signatureChanged) {
+        file.modified.push({ name: sym.name, kind: sym.kind, bodyChanged, signatureChanged });
+      }
+    }
+    for (const [key, sym] of old) {
+      if (next.has(key)) continue;
+      const change = { name: sym.name, kind: sym.kind };
+      file.removed.push(change);
+      track(exact.removed, exactId(sym), file, change);
+      track(structural.removed, structuralId(sym), file, change);
+    }
+    changes.push(file);
+  }
+
+  const paired = new Set<SymbolChange>();
+  const pair = (
+    from: { file: FileSymbolChanges; sym: SymbolChange },
+    to: { file: FileSymbolChanges; sym: SymbolChange },
+  ): void => {
+    paired.add(from.sym).add(to.sym);
+    from.file.removed = from.file.removed.filter((sym) => sym !== from.sym);
+    to.file.added = to.file.added.filter((sym) => sym !== to.sym);
+    if (from.file === to.file) {
+      to.file.renamed.push({ ...to.sym, previousName: from.sym.name });
+    } else if (from.sym.name === to.sym.name) {
+      to.file.moved.push({ ...to.sym, fromFilePath: from.file.filePath });
+    } else {
+      to.file.moved.push({ ...to.sym, fromFilePath: from.file.filePath, previousName: from.sym.name });
+    }
+  };
+
+  // ── 1. Moves with identical name and body ──────────────────────────────
+  for (const [from, to] of uniquePairs(exact.removed, exact.added)) {
+    if (from.file !== to.file) pair(from, to);
+  }
+
+  // ── 2. Renames and moves with identical structure ──────────────────────
+  for (const [from, to] of uniquePairs(structural.removed, structural.added)) {
+    if (paired.has(from.sym) || paired.has(to.sym)) continue;
+    pair(from, to);
+  }
+
+  return changes.filter((file) => !isEmpty(file));
+}
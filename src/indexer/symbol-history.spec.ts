@@ -0,0 +1,136 @@
+import { describe, expect, it, mock } from 'bun:test';
+import type { SymbolSnapshot } from './symbol-diff';
+import { recordSymbolHistory } from './symbol-history';
+
+const BOUNDARIES = [{ dir: '.', project: 'test-project' }];
+const NOW = '2026-01-01T00:00:00.000Z';
+
+function sym(name: string, overrides: Partial<SymbolSnapshot & { signature: string | null }> = {}) {
+  return {
+    name,
+    kind: 'function',
+    fingerprint: `fp-${name}`,
+    bodyHash: `body-${name}`,
+    structuralFingerprint: `shape-${name}`,
+    signature: `params:0|async:0`,
+    contentHash: 'file-hash',
+    ...overrides,
+  };
+}
+
+function emptyChanges(filePath: string) {
+  return { filePath, added: [], removed: [], modified: [], renamed: [], moved: [] };
+}
+
+describe('recordSymbolHistory', () => {
+  it('should append one row per change with the new state when a symbol is added', () => {
+    const appendHistory = mock(() => {});
+
+    const count = recordSymbolHistory({
+      changes: [{ ...emptyChanges('src/a.ts'), added: [{ name: 'run', kind: 'function' }] }],
+      snapshots: [{ filePath: 'src/a.ts', before: [], after: [sym('run')] }],
+      boundaries: BOUNDARIES,
+      historyRepo: { appendHistory },
+      recordedAt: NOW,
+    });
+
+    expect(count).toBe(1);
+    expect(appendHistory).toHaveBeenCalledWith([
+      {
+        project: 'test-project',
+        filePath: 'src/a.ts',
+        name: 'run',
+        kind: 'function',
+        event: 'added',
+        previousName: null,
+        previousFilePath: null,
+        signature: 'params:0|async:0',
+        fingerprint: 'fp-run',
+        bodyHash: 'body-run',
+        contentHash: 'file-hash',
+        metaJson: null,
+        recordedAt: NOW,
+      },
+    ]);
+  });
+
+  it('should record the last stored state when a symbol is removed', () => {
+    const appendHistory = mock((_rows: any[]) => {});
+
+    recordSymbolHistory({
+      changes: [{ ...emptyChanges('src/a.ts'), removed: [{ name: 'gone', kind: 'function' }] }],
+      snapshots: [{ filePath: 'src/a.ts', before: [sym('gone', { bodyHash: 'old-body' })], after: [] }],
+      boundaries: BOUNDARIES,
+      historyRepo: { appendHistory },
+      recordedAt: NOW,
+    });
+
+    const [row] = appendHistory.mock.calls[0]![0];
+    expect(row.event).toBe('removed');
+    expect(row.bodyHash).toBe('old-body');
+  });
+
+  it('should store what changed in metaJson when a symbol is modified', () => {
+    const appendHistory = mock((_rows: any[]) => {});
+
+    recordSymbolHistory({
+      changes: [{ ...emptyChanges('src/a.ts'), modified: [{ name: 'run', kind: 'function', bodyChanged: true, signatureChanged: false }] }],
+      snapshots: [{ filePath: 'src/a.ts', before: [sym('run')], after: [sym('run', { bodyHash: 'body-2' })] }],
+      boundaries: BOUNDARIES,
+      historyRepo: { appendHistory },
+      recordedAt: NOW,
+    });
+
+    const [row] = appendHistory.mock.calls[0]![0];
+    expect(row.event).toBe('modified');
+    expect(row.bodyHash).toBe('body-2');
+    expect(JSON.parse(row.metaJson)).toEqual({ bodyChanged: true, signatureChanged: false });
+  });
+
+  it('should record the previous name and file when a symbol is renamed or moved', () => {
+    const appendHistory = mock((_rows: any[]) => {});
+
+    recordSymbolHistory({
+      changes: [
+        { ...emptyChanges('src/a.ts'), renamed: [{ name: 'fetchFile', kind: 'function', previousName: 'load' }] },
+        { ...emptyChanges('src/b.ts'), moved: [{ name: 'helper', kind: 'function', fromFilePath: 'src/old.ts' }] },
+      ],
+      snapshots: [
+        { filePath: 'src/a.ts', before: [sym('load')], after: [sym('fetchFile')] },
+        { filePath: 'src/b.ts', before: [], after: [sym('helper')] },
+      ],
+      boundaries: BOUNDARIES,
+      historyRepo: { appendHistory },
+      recordedAt: NOW,
+    });
+
+    const rows = appendHistory.mock.calls[0]![0];
+    expect(rows.map((r: any) => [r.event, r.name, r.previousName, r.previousFilePath])).toEqual([
+      ['renamed', 'fetchFile', 'load', null],
+      ['moved', 'helper', null, 'src/old.ts'],
+    ]);
+  });
+
+  it('should resolve the project of each row from the boundaries when files belong to different projects', () => {
+    const appendHistory = mock((_rows: any[]) => {});
+
+    recordSymbolHistory({
+      changes: [{ ...emptyChanges('packages/web/src/a.ts'), added: [{ name: 'run', kind: 'function' }] }],
+      snapshots: [{ filePath: 'packages/web/src/a.ts', before: [], after: [sym('run')] }],
+      boundaries: [{ dir: 'packages/web', project: 'web' }, { dir: '.', project: 'root' }],
+      historyRepo: { appendHistory },
+      recordedAt: NOW,
+    });
+
+    expect(appendHistory.mock.calls[0]![0][0].project).toBe('web');
+  });
+
+  it('should not call appendHistory when there are no changes', () => {
+    const appendHistory = mock(() => {});
+
+    const count = recordSymbolHistory({ changes: [], snapshots: [], boundaries: BOUNDARIES, historyRepo: { appendHistory } });
+
+    expect(count).toBe(0);
+    expect(appendHistory).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,100 @@
+import type { ProjectBoundary } from '../common/project-discovery';
+import { resolveFileProject } from '../common/project-discovery';
+import type { FileSymbolChanges, SymbolChange, SymbolSnapshot } from './symbol-diff';
+
+// ── Types ─────────────────────────────────────────────────────────────────
+
+export interface HistoryDbRow {
+  project: string;
+  filePath: string;
+  name: string;
+  kind: string;
+  event: 'added' | 'removed' | 'modified' | 'renamed' | 'moved';
+  previousName: string | null;
+  previousFilePath: string | null;
+  signature: string | null;
+  fingerprint: string | null;
+  bodyHash: string | null;
+  contentHash: string | null;
+  metaJson: string | null;
+  recordedAt: string;
+}
+
+/** A stored symbol row; `signature` / `contentHash` are recorded when present. */
+type StoredSymbol = SymbolSnapshot & { signature?: string | null; contentHash?: string | null };
+
+interface HistoryRepoPart {
+  appendHistory(rows: HistoryDbRow[]): void;
+}
+
+export interface RecordSymbolHistoryOptions {
+  /** Change sets of the run (from `diffSymbols`). */
+  changes: ReadonlyArray<FileSymbolChanges>;
+  /** The before / after rows the change sets were computed from. */
+  snapshots: ReadonlyArray<{ filePath: string; before: ReadonlyArray<StoredSymbol>; after: ReadonlyArray<StoredSymbol> }>;
+  boundaries: ProjectBoundary[];
+  historyRepo: HistoryRepoPart;
+  /** Timestamp shared by every row of the run. Defaults to now. */
+  recordedAt?: string;
+}
+
+// ── Main ───────────────────────────────────────────────────────────────────
+
+/**
+ * Appends one `symbol_history` row per changed symbol of an indexing run.
+ * Removed symbols are recorded with their last stored state, every other event with the
+ * new state (signature, fingerprint, body hash and the file's content hash).
+ *
+ * @returns Number of rows appended.
+ */
+export function recordSymbolHistory(opts: RecordSymbolHistoryOptions): number {
+  const { changes, snapshots, boundaries, historyRepo } = opts;
+  const recordedAt = opts.recordedAt ?? new Date().toISOString();
+
+  const before = new Map<string, StoredSymbol>();
+  const after = new Map<string, StoredSymbol>();
+  for (const snapshot of snapshots) {
+    for (const sym of snapshot.before) before.set(`${snapshot.filePath}\0${sym.kind}\0${sym.name}`, sym);
+    for (const sym of snapshot.after) after.set(`${snapshot.filePath}\0${sym.kind}\0${sym.name}`, sym);
+  }
+
+  const rows: HistoryDbRow[] = [];
+  for (const file of changes) {
+    const project = resolveFileProject(file.filePath, boundaries);
+    const push = (
+      event: HistoryDbRow['event'],
+      sym: SymbolChange,
+      extra: Partial<Pick<HistoryDbRow, 'previousName' | 'previousFilePath' | 'metaJson'>> = {},
+    ): void => {
+      const state = (event === 'removed' ? before : after).get(`${file.filePath}\0${sym.kind}\0${sym.name}`);
+      rows.push({
+        project,
+        filePath: file.filePath,
+        name: sym.name,
+        kind: sym.kind,
+        event,
+        previousName: extra.previousName ?? null,
+        previousFilePath: extra.previousFilePath ?? null,
+        signature: state?.signature ?? null,
+        fingerprint: state?.fingerprint ?? null,
+        bodyHash: state?.bodyHash ?? null,
+        contentHash: state?.contentHash ?? null,
+        metaJson: extra.metaJson ?? null,
+        recordedAt,
+      });
+    };
+
+    for (const sym of file.added) push('added', sym);
+    for (const sym of file.removed) push('removed', sym);
+    for (const { bodyChanged, signatureChanged, ...sym } of file.modified) {
+      push('modified', sym, { metaJson: JSON.stringify({ bodyChanged, signatureChanged }) });
+    }
+    for (const { previousName, ...sym } of file.renamed) push('renamed', sym, { previousName });
+    for (const { fromFilePath, previousName, ...sym } of file.moved) {
+      push('moved', sym, { previousName, previousFilePath: fromFilePath });
+    }
+  }
+
+  if (rows.length > 0) historyRepo.appendHistory(rows);
+  return rows.length;
+}
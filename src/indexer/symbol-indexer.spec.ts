@@ -14,15 +14,17 @@ const PROJECT = 'test-project';
 const FILE_PATH = 'src/index.ts';
 const CONTENT_HASH = 'abc123';
 
-function makeParsedFile(): ParsedFile {
-  return { filePath: '/project/src/index.ts', program: {} as any, errors: [], comments: [], sourceText: '' };
+function makeParsedFile(sourceText = ''): ParsedFile {
+  return { filePath: '/project/src/index.ts', program: {} as any, errors: [], comments: [], sourceText };
 }
 
 function makeSymbol(overrides: Partial<{
   kind: string; name: string; isExported: boolean;
   parameters: any[]; returnType: string; modifiers: string[];
   heritage: any[]; decorators: any[]; members: any[];
-  jsDoc: any; methodKind: string; typeParameters: string[];
+  jsDoc: any; methodKind: string; typeParameters: any[];
+  exportedNames: string[]; parent: string; augments: string; overloads: any[];
+  type: string; initializerKind: string; value: string; isComponent: boolean;
 }> = {}) {
   return {
     kind: 'function',
@@ -119,6 +121,30 @@ describe('indexFileSymbols', () => {
     expect(detail.jsDoc).toBeUndefined();
   });
 
+  // [HP] exported aliases → detail_json.exportedNames present
+  it('should include exportedNames in detail_json when symbol is exported under another name', () => {
+    const sym = makeSymbol({ isExported: true, exportedNames: ['default'] });
+    mockExtractSymbols.mockReturnValue([sym]);
+    const symbolRepo = makeSymbolRepo();
+
+    indexFileSymbols({ parsed: makeParsedFile(), project: PROJECT, filePath: FILE_PATH, contentHash: CONTENT_HASH, symbolRepo: symbolRepo as any });
+
+    const [, , , symbols] = symbolRepo.replaceFileSymbols.mock.calls[0]!;
+    expect(symbols[0].isExported).toBe(1);
+    expect(JSON.parse(symbols[0].detailJson).exportedNames).toEqual(['default']);
+  });
+
+  it('should include augments in detail_json when symbol is declared in an ambient module', () => {
+    const sym = makeSymbol({ kind: 'interface', name: 'express.Request', parent: 'express', augments: 'express' });
+    mockExtractSymbols.mockReturnValue([sym]);
+    const symbolRepo = makeSymbolRepo();
+
+    indexFileSymbols({ parsed: makeParsedFile(), project: PROJECT, filePath: FILE_PATH, contentHash: CONTENT_HASH, symbolRepo: symbolRepo as any });
+
+    const [, , , symbols] = symbolRepo.replaceFileSymbols.mock.calls[0]!;
+    expect(JSON.parse(symbols[0].detailJson).augments).toBe('express');
+  });
+
   // [ED] function 0 params → signature='params:0|async:0'
   it('should set signature to params:0|async:0 when function has no params', () => {
     const sym = makeSymbol({ kind: 'function', parameters: [], modifiers: [] });
@@ -156,6 +182,45 @@ describe('indexFileSymbols', () => {
     expect(mockHashString).toHaveBeenCalledWith(expect.stringContaining('fn'));
   });
 
+  // [HP] bodyHash = hash(source text of the symbol span)
+  it('should compute bodyHash as hash of the source text covered by the symbol span', () => {
+    mockHashString.mockImplementation((input: string) => `hash(${input})`);
+    const sym = makeSymbol({
+      name: 'fn',
+      members: [{ kind: 'property', name: 'x', span: { start: { line: 2, column: 2 }, end: { line: 2, column: 4 } }, isExported: false, modifiers: [] }],
+    });
+    (sym as any).span = { start: { line: 2, column: 0 }, end: { line: 3, column: 1 } };
+    mockExtractSymbols.mockReturnValue([sym]);
+    const symbolRepo = makeSymbolRepo();
+
+    indexFileSymbols({ parsed: makeParsedFile('// x\n{ x;\n}\n'), project: PROJECT, filePath: FILE_PATH, contentHash: CONTENT_HASH, symbolRepo: symbolRepo as any });
+
+    const [, , , symbols] = symbolRepo.replaceFileSymbols.mock.calls[0]!;
+    expect(symbols[0].bodyHash).toBe('hash({ x;\n})');
+    expect(symbols[1].bodyHash).toBe('hash(x;)');
+  });
+
+  // [HP] structuralFingerprint = hash(kind + normalized AST inside the span)
+  it('should compute structuralFingerprint from the AST nodes inside the symbol span', () => {
+    mockHashString.mockImplementation((input: string) => `hash(${input})`);
+    const sym = makeSymbol({ kind: 'function', name: 'fn' });
+    (sym as any).span = { start: { line: 1, column: 0 }, end: { line: 1, column: 16 } };
+    mockExtractSymbols.mockReturnValue([sym]);
+    const symbolRepo = makeSymbolRepo();
+    const parsed = makeParsedFile('function fn() {}\nfn();');
+    parsed.program = {
+      type: 'Program',
+      start: 0,
+      end: 22,
+      body: [{ type: 'FunctionDeclaration', start: 0, end: 16, id: { type: 'Identifier', start: 9, end: 11, name: 'fn' } }],
+    } as any;
+
+    indexFileSymbols({ parsed, project: PROJECT, filePath: FILE_PATH, contentHash: CONTENT_HASH, symbolRepo: symbolRepo as any });
+
+    const [, , , symbols] = symbolRepo.replaceFileSymbols.mock.calls[0]!;
+    expect(symbols[0].structuralFingerprint).toBe('hash(function|FunctionDeclaration(id:Identifier()))');
+  });
+
   // [HP] replaceFileSymbols called with correct contentHash
   it('should call replaceFileSymbols with the provided contentHash', () => {
     mockExtractSymbols.mockReturnValue([makeSymbol()]);
@@ -243,6 +308,40 @@ describe('indexFileSymbols', () => {
     }
   });
 
+  it('should include type, initializerKind and enum values in detail_json when present', () => {
+    const variable = makeSymbol({ kind: 'variable', name: 'limit', type: 'number', initializerKind: 'literal' });
+    const enm = makeSymbol({ kind: 'enum', name: 'Level', members: [makeSymbol({ kind: 'property', name: 'Low', value: '1' })] });
+    mockExtractSymbols.mockReturnValue([variable, enm]);
+    const symbolRepo = makeSymbolRepo();
+
+    indexFileSymbols({ parsed: makeParsedFile(), project: PROJECT, filePath: FILE_PATH, contentHash: CONTENT_HASH, symbolRepo: symbolRepo as any });
+
+    const [, , , symbols] = symbolRepo.replaceFileSymbols.mock.calls[0]!;
+    expect(JSON.parse(symbols[0].detailJson)).toMatchObject({ type: 'number', initializerKind: 'literal' });
+    expect(JSON.parse(symbols.find((s: any) => s.name === 'Level.Low').detailJson).value).toBe('1');
+  });
+
+  it('should include isComponent in detail_json when the symbol is a component', () => {
+    mockExtractSymbols.mockReturnValue([makeSymbol({ name: 'App', isComponent: true })]);
+    const symbolRepo = makeSymbolRepo();
+
+    indexFileSymbols({ parsed: makeParsedFile(), project: PROJECT, filePath: FILE_PATH, contentHash: CONTENT_HASH, symbolRepo: symbolRepo as any });
+
+    const [, , , symbols] = symbolRepo.replaceFileSymbols.mock.calls[0]!;
+    expect(JSON.parse(symbols[0].detailJson).isComponent).toBe(true);
+  });
+
+  it('should include overloads in detail_json when a function is overloaded', () => {
+    const overloads = [{ parameters: [{ name: 'a', type: 'string', isOptional: false }], returnType: 'string' }];
+    mockExtractSymbols.mockReturnValue([makeSymbol({ overloads })]);
+    const symbolRepo = makeSymbolRepo();
+
+    indexFileSymbols({ parsed: makeParsedFile(), project: PROJECT, filePath: FILE_PATH, contentHash: CONTENT_HASH, symbolRepo: symbolRepo as any });
+
+    const [, , , symbols] = symbolRepo.replaceFileSymbols.mock.calls[0]!;
+    expect(JSON.parse(symbols[0].detailJson).overloads).toEqual(overloads);
+  });
+
   // [HP] detail_json includes parameters and returnType for functions
   it('should include parameters and returnType in detail_json for function symbols', () => {
     const sym = makeSymbol({
@@ -261,4 +360,20 @@ describe('indexFileSymbols', () => {
     expect(detail.parameters).toBeDefined();
     expect(detail.returnType).toBe('void');
   });
+
+  it('should set parentName to the class name on member rows and to sym.parent on nested rows', () => {
+    const cls = makeSymbol({ kind: 'class', name: 'Repo', members: [makeSymbol({ kind: 'method', name: 'find' })] });
+    const nested = makeSymbol({ name: 'outer.inner', parent: 'outer', isExported: false });
+    mockExtractSymbols.mockReturnValue([cls, nested]);
+    const symbolRepo = makeSymbolRepo();
+
+    indexFileSymbols({ parsed: makeParsedFile(), project: PROJECT, filePath: FILE_PATH, contentHash: CONTENT_HASH, symbolRepo: symbolRepo as any });
+
+    const [, , , symbols] = symbolRepo.replaceFileSymbols.mock.calls[0]!;
+    const parentOf = (name: string) => symbols.find((s: any) => s.name === name)?.parentName;
+    expect(parentOf('Repo')).toBeNull();
+    expect(parentOf('Repo.find')).toBe('Repo');
+    expect(parentOf('outer.inner')).toBe('outer');
+  });
 });
+
@@ -2,6 +2,8 @@ import type { ParsedFile } from '../parser/types';
 import type { ExtractedSymbol } from '../extractor/types';
 import { extractSymbols } from '../extractor/symbol-extractor';
 import { hashString } from '../common/hasher';
+import { buildLineOffsets } from '../parser/source-position';
+import { structuralFingerprint } from './structural-fingerprint';
 
 // ── Types ─────────────────────────────────────────────────────────────────
 
@@ -17,7 +19,13 @@ export interface SymbolDbRow {
   isExported: number;
   signature: string | null;
   fingerprint: string | null;
+  /** Hash of the symbol's source text (members included). */
+  bodyHash: string;
+  /** Hash of the symbol's normalized AST (identifiers and whitespace removed); survives renames. */
+  structuralFingerprint: string | null;
   detailJson: string | null;
+  /** Qualified name of the enclosing symbol; resolved to `parentId` by the repository. */
+  parentName: string | null;
   contentHash: string;
   indexedAt: string;
 }
@@ -56,17 +64,24 @@ function buildDetailJson(sym: ExtractedSymbol): string | null {
   const detail: Record<string, unknown> = {};
 
   if (sym.jsDoc) detail.jsDoc = sym.jsDoc;
+  if (sym.exportedNames?.length) detail.exportedNames = sym.exportedNames;
 
   if (sym.kind === 'function' || sym.kind === 'method') {
     if (sym.parameters !== undefined) detail.parameters = sym.parameters;
     if (sym.returnType !== undefined) detail.returnType = sym.returnType;
+    if (sym.overloads?.length) detail.overloads = sym.overloads;
   }
 
+  if (sym.type !== undefined) detail.type = sym.type;
+  if (sym.initializerKind) detail.initializerKind = sym.initializerKind;
+  if (sym.value !== undefined) detail.value = sym.value;
+  if (sym.isComponent) detail.isComponent = true;
   if (sym.heritage?.length) detail.heritage = sym.heritage;
   if (sym.decorators?.length) detail.decorators = sym.decorators;
   if (sym.typeParameters?.length) detail.typeParameters = sym.typeParameters;
   if (sym.modifiers?.length) detail.modifiers = sym.modifiers;
   if (sym.members?.length) detail.members = sym.members.map((m) => m.name);
+  if (sym.augments) detail.augments = sym.augments;
 
   return Object.keys(detail).length > 0 ? JSON.stringify(detail) : null;
 }
@@ -76,9 +91,11 @@ function buildDetailJson(sym: ExtractedSymbol): string | null {
 function buildRow(
   sym: ExtractedSymbol,
   name: string,
+  parentName: string | null,
   project: string,
   filePath: string,
   contentHash: string,
+  hashes: { bodyHash: string; structuralFingerprint: string | null },
 ): SymbolDbRow {
   const signature = buildSignature(sym);
   const fingerprint = hashString(`${name}|${sym.kind}|${signature ?? ''}`);
@@ -95,7 +112,9 @@ function buildRow(
     isExported: sym.isExported ? 1 : 0,
     signature,
     fingerprint,
+    ...hashes,
     detailJson: buildDetailJson(sym),
+    parentName,
     contentHash,
     indexedAt: new Date().toISOString(),
   };
@@ -106,6 +125,7 @@ function buildRow(
 /**
  * Extracts symbols from `parsed`, maps them to DB rows (flattening
  * class/interface/enum members), and writes them via `symbolRepo`.
+ * Members and nested declarations carry their parent's name so the store can link them.
  */
 export function indexFileSymbols(opts: IndexFileSymbolsOptions): void {
   const { parsed, project, filePath, contentHash, symbolRepo } = opts;
@@ -113,12 +133,24 @@ export function indexFileSymbols(opts: IndexFileSymbolsOptions): void {
   const extracted = extractSymbols(parsed);
   const rows: SymbolDbRow[] = [];
 
+  const offsets = buildLineOffsets(parsed.sourceText);
+  const hashesOf = (sym: ExtractedSymbol): { bodyHash: string; structuralFingerprint: string | null } => {
+    const start = (offsets[sym.span.start.line - 1] ?? 0) + sym.span.start.column;
+    const end = (offsets[sym.span.end.line - 1] ?? 0) + sym.span.end.column;
+    return {
+      bodyHash: hashString(parsed.sourceText.slice(start, end)),
+      structuralFingerprint: structuralFingerprint(parsed.program, start, end, sym.kind),
+    };
+  };
+
   for (const sym of extracted) {
-    rows.push(buildRow(sym, sym.name, project, filePath, contentHash));
+    rows.push(buildRow(sym, sym.name, sym.parent ?? null, project, filePath, contentHash, hashesOf(sym)));
 
     // Flatten members (class methods, interface props, enum values, …).
     for (const member of sym.members ?? []) {
-      rows.push(buildRow(member, `${sym.name}.${member.name}`, project, filePath, contentHash));
+      rows.push(
+        buildRow(member, `${sym.name}.${member.name}`, sym.name, project, filePath, contentHash, hashesOf(member)),
+      );
     }
   }
 
@@ -56,6 +56,37 @@ describe('DependencyGraph', () => {
     expect(graph.getDependents('src/b.ts')).toContain('src/a.ts');
   });
 
+  it('should merge imports from includeProjects when build() runs with extra projects', async () => {
+    // Arrange
+    mockGetByType = mock((project: string) =>
+      project === 'web' ? [makeImport('apps/web/a.ts', 'packages/core/b.ts')] : [],
+    );
+    mockRepo = { getByType: mockGetByType } as IDependencyGraphRepo;
+    graph = new DependencyGraph({
+      relationRepo: mockRepo,
+      project: 'test-project',
+      includeProjects: ['test-project', 'web'],
+    });
+    // Act
+    await graph.build();
+    // Assert
+    expect(mockGetByType).toHaveBeenCalledTimes(2);
+    expect(graph.getDependents('packages/core/b.ts')).toEqual(['apps/web/a.ts']);
+  });
+
+  it('should add edges to barrel hops when an import was resolved through re-exports', async () => {
+    // Arrange
+    const resolved = { ...makeImport('src/app.ts', 'src/store/symbol.ts'), metaJson: JSON.stringify({ via: ['src/store/index.ts'] }) };
+    mockGetByType = mock(() => [resolved]);
+    mockRepo = { getByType: mockGetByType } as IDependencyGraphRepo;
+    graph = new DependencyGraph({ relationRepo: mockRepo, project: 'test-project' });
+    // Act
+    await graph.build();
+    // Assert
+    expect(graph.getDependencies('src/app.ts').sort()).toEqual(['src/store/index.ts', 'src/store/symbol.ts']);
+    expect(graph.getDependents('src/store/index.ts')).toEqual(['src/app.ts']);
+  });
+
   it('should result in empty graph after build() when DB has no imports relations', async () => {
     // Arrange — default mock returns []
     // Act
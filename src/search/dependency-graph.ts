@@ -12,6 +12,8 @@ export class DependencyGraph {
     private readonly options: {
       relationRepo: IDependencyGraphRepo;
       project: string;
+      /** Other workspace projects whose imports are merged in, so edges cross package boundaries. */
+      includeProjects?: string[];
     },
   ) {}
 
@@ -19,23 +21,19 @@ export class DependencyGraph {
     this.adjacencyList = new Map();
     this.reverseAdjacencyList = new Map();
 
-    const relations = this.options.relationRepo.getByType(
-      this.options.project,
-      'imports',
+    const projects = new Set([this.options.project, ...(this.options.includeProjects ?? [])]);
+    const relations = [...projects].flatMap((project) =>
+      this.options.relationRepo.getByType(project, 'imports'),
     );
 
     for (const rel of relations) {
       const { srcFilePath, dstFilePath } = rel;
+      this.addEdge(srcFilePath, dstFilePath);
 
-      if (!this.adjacencyList.has(srcFilePath)) {
-        this.adjacencyList.set(srcFilePath, new Set());
+      // Imports resolved through barrels still depend on every barrel hop.
+      for (const hop of this.viaHops(rel.metaJson)) {
+        this.addEdge(srcFilePath, hop);
       }
-      this.adjacencyList.get(srcFilePath)!.add(dstFilePath);
-
-      if (!this.reverseAdjacencyList.has(dstFilePath)) {
-        this.reverseAdjacencyList.set(dstFilePath, new Set());
-      }
-      this.reverseAdjacencyList.get(dstFilePath)!.add(srcFilePath);
     }
   }
 
@@ -104,4 +102,26 @@ export class DependencyGraph {
 
     return Array.from(allAffected);
   }
+
+  private addEdge(srcFilePath: string, dstFilePath: string): void {
+    if (!this.adjacencyList.has(srcFilePath)) {
+      this.adjacencyList.set(srcFilePath, new Set());
+    }
+    this.adjacencyList.get(srcFilePath)!.add(dstFilePath);
+
+    if (!this.reverseAdjacencyList.has(dstFilePath)) {
+      this.reverseAdjacencyList.set(dstFilePath, new Set());
+    }
+    this.reverseAdjacencyList.get(dstFilePath)!.add(srcFilePath);
+  }
+
+  private viaHops(metaJson: string | null | undefined): string[] {
+    if (!metaJson?.includes('"via"')) return [];
+    try {
+      const via = JSON.parse(metaJson).via;
+      return Array.isArray(via) ? via.filter((hop): hop is string => typeof hop === 'string') : [];
+    } catch {
+      return [];
+    }
+  }
 }
@@ -6,3 +6,12 @@ export type { RelationSearchQuery, IRelationRepo } from './relation-search';
 
 export { DependencyGraph } from './dependency-graph';
 export type { IDependencyGraphRepo } from './dependency-graph';
+
+export { TypeHierarchy } from './type-hierarchy';
+export type {
+  ITypeHierarchyRepo,
+  TypeRef,
+  TypeRelationKind,
+  TypeHierarchyNode,
+  TypeHierarchyTree,
+} from './type-hierarchy';
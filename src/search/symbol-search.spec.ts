@@ -19,7 +19,10 @@ function makeSymbolRecord(overrides: Partial<SymbolRecord & { id: number }> = {}
     isExported: 1,
     signature: null,
     fingerprint: null,
+    bodyHash: null,
+    structuralFingerprint: null,
     detailJson: null,
+    parentId: null,
     contentHash: 'abc123',
     indexedAt: new Date().toISOString(),
     ...overrides,
@@ -103,6 +106,16 @@ describe('symbolSearch', () => {
     expect(opts.isExported).toBe(false);
   });
 
+  it('should pass augments to searchByQuery when augments is set', () => {
+    // Arrange
+    const query: SymbolSearchQuery = { augments: 'express' };
+    // Act
+    symbolSearch({ symbolRepo: mockRepo, query });
+    // Assert
+    const opts = mockSearchByQuery.mock.calls[0]![0] as Record<string, unknown>;
+    expect(opts.augments).toBe('express');
+  });
+
   // ── HP: project resolution ───────────────────────────────────────────────
 
   it('should use options.project as effectiveProject when query.project is absent', () => {
@@ -6,6 +6,8 @@ export interface SymbolSearchQuery {
   kind?: SymbolKind;
   filePath?: string;
   isExported?: boolean;
+  /** Only symbols declared in a `declare module` / `declare global` block for this specifier. */
+  augments?: string;
   project?: string;
   limit?: number;
 }
@@ -28,6 +30,7 @@ export interface ISymbolRepo {
     kind?: string;
     filePath?: string;
     isExported?: boolean;
+    augments?: string;
     project?: string;
     limit: number;
   }): (SymbolRecord & { id: number })[];
@@ -46,6 +49,7 @@ export function symbolSearch(options: {
     kind: query.kind,
     filePath: query.filePath,
     isExported: query.isExported,
+    augments: query.augments,
     project: effectiveProject,
     limit,
   };
@@ -0,0 +1,127 @@
+import { describe, expect, it, mock } from 'bun:test';
+import type { RelationRecord } from '../store/repositories/relation.repository';
+import { TypeHierarchy } from './type-hierarchy';
+
+// ── Fixtures ───────────────────────────────────────────────────────────────
+
+function heritage(
+  type: 'extends' | 'implements',
+  src: string,
+  dst: string,
+  project = 'test-project',
+): RelationRecord {
+  const [srcFilePath, srcSymbolName] = src.split('#') as [string, string];
+  const [dstFilePath, dstSymbolName] = dst.split('#') as [string, string];
+  return { project, type, srcFilePath, srcSymbolName, dstFilePath, dstSymbolName, metaJson: null };
+}
+
+async function buildHierarchy(relations: RelationRecord[], includeProjects?: string[]): Promise<TypeHierarchy> {
+  const relationRepo = {
+    getByType: mock((project: string, type: string) =>
+      relations.filter((r) => r.project === project && r.type === type),
+    ),
+  };
+  const h = new TypeHierarchy({ relationRepo, project: 'test-project', includeProjects });
+  await h.build();
+  return h;
+}
+
+function names(nodes: Array<{ symbolName: string }>): string[] {
+  return nodes.map((n) => n.symbolName).sort();
+}
+
+// a.ts: interface Reader; interface Repo extends Reader
+// b.ts: class SqlRepo implements Repo; class CachedRepo extends SqlRepo
+const RELATIONS = [
+  heritage('extends', 'src/a.ts#Repo', 'src/a.ts#Reader'),
+  heritage('implements', 'src/b.ts#SqlRepo', 'src/a.ts#Repo'),
+  heritage('extends', 'src/b.ts#CachedRepo', 'src/b.ts#SqlRepo'),
+];
+
+// ── Tests ──────────────────────────────────────────────────────────────────
+
+describe('TypeHierarchy', () => {
+  it('should return direct supertypes with their relation kind when transitive is not set', async () => {
+    const h = await buildHierarchy(RELATIONS);
+
+    expect(h.getSupertypes({ filePath: 'src/b.ts', symbolName: 'SqlRepo' })).toEqual([
+      { filePath: 'src/a.ts', symbolName: 'Repo', relation: 'implements' },
+    ]);
+  });
+
+  it('should return every ancestor across files when transitive is set', async () => {
+    const h = await buildHierarchy(RELATIONS);
+
+    expect(names(h.getSupertypes({ filePath: 'src/b.ts', symbolName: 'CachedRepo' }, true))).toEqual([
+      'Reader',
+      'Repo',
+      'SqlRepo',
+    ]);
+  });
+
+  it('should return direct subtypes when an interface is extended and implemented', async () => {
+    const h = await buildHierarchy(RELATIONS);
+
+    expect(names(h.getSubtypes({ filePath: 'src/a.ts', symbolName: 'Reader' }))).toEqual(['Repo']);
+    expect(names(h.getSubtypes({ filePath: 'src/a.ts', symbolName: 'Repo' }))).toEqual(['SqlRepo']);
+  });
+
+  it('should include implementors of sub-interfaces and subclasses of implementors when listing implementations', async () => {
+    const h = await buildHierarchy(RELATIONS);
+
+    const result = h.getImplementations({ filePath: 'src/a.ts', symbolName: 'Reader' });
+
+    expect(names(result)).toEqual(['CachedRepo', 'SqlRepo']);
+    expect(result.every((n) => n.relation === 'implements')).toBe(true);
+  });
+
+  it('should not report extending interfaces as implementations when no class implements them', async () => {
+    const h = await buildHierarchy([heritage('extends', 'src/a.ts#Repo', 'src/a.ts#Reader')]);
+
+    expect(h.getImplementations({ filePath: 'src/a.ts', symbolName: 'Reader' })).toEqual([]);
+  });
+
+  it('should build a nested subtype tree when getTree is called with subtypes', async () => {
+    const h = await buildHierarchy(RELATIONS);
+
+    expect(h.getTree({ filePath: 'src/a.ts', symbolName: 'Repo' }, 'subtypes')).toEqual({
+      filePath: 'src/a.ts',
+      symbolName: 'Repo',
+      children: [
+        {
+          filePath: 'src/b.ts',
+          symbolName: 'SqlRepo',
+          relation: 'implements',
+          children: [{ filePath: 'src/b.ts', symbolName: 'CachedRepo', relation: 'extends', children: [] }],
+        },
+      ],
+    });
+  });
+
+  it('should stop at the repeated node when the hierarchy contains a cycle', async () => {
+    const h = await buildHierarchy([
+      heritage('extends', 'src/a.ts#A', 'src/a.ts#B'),
+      heritage('extends', 'src/a.ts#B', 'src/a.ts#A'),
+    ]);
+
+    const tree = h.getTree({ filePath: 'src/a.ts', symbolName: 'A' }, 'supertypes');
+
+    expect(tree.children[0]!.children[0]).toEqual({ filePath: 'src/a.ts', symbolName: 'A', relation: 'extends', children: [] });
+    expect(names(h.getSupertypes({ filePath: 'src/a.ts', symbolName: 'A' }, true))).toEqual(['B']);
+  });
+
+  it('should merge heritage relations from includeProjects when types span packages', async () => {
+    const h = await buildHierarchy(
+      [heritage('implements', 'apps/web/src/repo.ts#WebRepo', 'packages/core/src/repo.ts#Repo', '@acme/web')],
+      ['@acme/web'],
+    );
+
+    expect(names(h.getImplementations({ filePath: 'packages/core/src/repo.ts', symbolName: 'Repo' }))).toEqual(['WebRepo']);
+  });
+
+  it('should ignore module-level relations when symbol names are missing', async () => {
+    const h = await buildHierarchy([{ ...heritage('extends', 'src/a.ts#A', 'src/a.ts#B'), srcSymbolName: null }]);
+
+    expect(h.getSubtypes({ filePath: 'src/a.ts', symbolName: 'B' })).toEqual([]);
+  });
+});
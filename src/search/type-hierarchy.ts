@@ -0,0 +1,162 @@
+import type { RelationRecord } from '../store/repositories/relation.repository';
+
+export interface ITypeHierarchyRepo {
+  getByType(project: string, type: string): RelationRecord[];
+}
+
+export type TypeRelationKind = 'extends' | 'implements';
+
+export interface TypeRef {
+  filePath: string;
+  symbolName: string;
+}
+
+/** A type reached from the queried symbol, with the kind of the edge that led to it. */
+export interface TypeHierarchyNode extends TypeRef {
+  relation: TypeRelationKind;
+}
+
+export interface TypeHierarchyTree extends TypeRef {
+  /** Edge kind between this node and its parent in the tree; absent on the root. */
+  relation?: TypeRelationKind;
+  children: TypeHierarchyTree[];
+}
+
+interface TypeEdge {
+  target: TypeRef;
+  relation: TypeRelationKind;
+}
+
+function keyOf(ref: TypeRef): string {
+  return `${ref.filePath}#${ref.symbolName}`;
+}
+
+/**
+ * Class / interface inheritance graph built from stored `extends` and `implements` relations.
+ * Nodes are `(filePath, symbolName)` pairs, so types are matched across files.
+ */
+export class TypeHierarchy {
+  private supertypes = new Map<string, TypeEdge[]>();
+  private subtypes = new Map<string, TypeEdge[]>();
+
+  constructor(
+    private readonly options: {
+      relationRepo: ITypeHierarchyRepo;
+      project: string;
+      /** Other workspace projects whose heritage relations are merged in. */
+      includeProjects?: string[];
+    },
+  ) {}
+
+  async build(): Promise<void> {
+    this.supertypes = new Map();
+    this.subtypes = new Map();
+
+    const projects = new Set([this.options.project, ...(this.options.includeProjects ?? [])]);
+    for (const project of projects) {
+      for (const relation of ['extends', 'implements'] as const) {
+        for (const rel of this.options.relationRepo.getByType(project, relation)) {
+          if (rel.srcSymbolName === null || rel.dstSymbolName === null) continue;
+          const sub = { filePath: rel.srcFilePath, symbolName: rel.srcSymbolName };
+          const sup = { filePath: rel.dstFilePath, symbolName: rel.dstSymbolName };
+          this.addEdge(this.supertypes, sub, { target: sup, relation });
+          this.addEdge(this.subtypes, sup, { target: sub, relation });
+        }
+      }
+    }
+  }
+
+  /** Direct supertypes, or all ancestors when `transitive` is set. */
+  getSupertypes(ref: TypeRef, transitive = false): TypeHierarchyNode[] {
+    return transitive ? this.collect(this.supertypes, ref) : this.direct(this.supertypes, ref);
+  }
+
+  /** Direct subtypes, or all descendants when `transitive` is set. */
+  getSubtypes(ref: TypeRef, transitive = false): TypeHierarchyNode[] {
+    return transitive ? this.collect(this.subtypes, ref) : this.direct(this.subtypes, ref);
+  }
+
+  /**
+   * Classes implementing `ref`, directly or transitively: implementors of interfaces
+   * extending it, and subclasses of implementing classes. Reported with `relation: 'implements'`.
+   */
+  getImplementations(ref: TypeRef): TypeHierarchyNode[] {
+    const result = new Map<string, TypeHierarchyNode>();
+    const visited = new Set<string>([`${keyOf(ref)}|false`]);
+    const queue: Array<{ ref: TypeRef; implemented: boolean }> = [{ ref, implemented: false }];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const edge of this.subtypes.get(keyOf(current.ref)) ?? []) {
+        const implemented = current.implemented || edge.relation === 'implements';
+        const key = keyOf(edge.target);
+        if (implemented && !result.has(key)) {
+          result.set(key, { ...edge.target, relation: 'implements' });
+        }
+        // Revisit nodes first reached only through interface extension once an implementation is on the path.
+        const visitKey = `${key}|${implemented}`;
+        if (visited.has(visitKey)) continue;
+        visited.add(visitKey);
+        queue.push({ ref: edge.target, implemented });
+      }
+    }
+
+    return [...result.values()];
+  }
+
+  /** Nested tree of supertypes or subtypes rooted at `ref`. Cycles are cut at the repeated node. */
+  getTree(ref: TypeRef, direction: 'supertypes' | 'subtypes'): TypeHierarchyTree {
+    const edges = direction === 'supertypes' ? this.supertypes : this.subtypes;
+
+    const build = (node: TypeRef, relation: TypeRelationKind | undefined, path: Set<string>): TypeHierarchyTree => {
+      const key = keyOf(node);
+      const tree: TypeHierarchyTree = { filePath: node.filePath, symbolName: node.symbolName, children: [] };
+      if (relation) tree.relation = relation;
+      if (path.has(key)) return tree;
+
+      path.add(key);
+      for (const edge of edges.get(key) ?? []) {
+        tree.children.push(build(edge.target, edge.relation, path));
+      }
+      path.delete(key);
+      return tree;
+    };
+
+    return build(ref, undefined, new Set());
+  }
+
+  private direct(edges: Map<string, TypeEdge[]>, ref: TypeRef): TypeHierarchyNode[] {
+    return (edges.get(keyOf(ref)) ?? []).map((edge) => ({ ...edge.target, relation: edge.relation }));
+  }
+
+  private collect(edges: Map<string, TypeEdge[]>, ref: TypeRef): TypeHierarchyNode[] {
+    const visited = new Set<string>([keyOf(ref)]);
+    const result: TypeHierarchyNode[] = [];
+    const queue: TypeRef[] = [ref];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const edge of edges.get(keyOf(current)) ?? []) {
+        const key = keyOf(edge.target);
+        if (visited.has(key)) continue;
+        visited.add(key);
+        result.push({ ...edge.target, relation: edge.relation });
+        queue.push(edge.target);
+      }
+    }
+
+    return result;
+  }
+
+  private addEdge(edges: Map<string, TypeEdge[]>, from: TypeRef, edge: TypeEdge): void {
+    const key = keyOf(from);
+    const list = edges.get(key);
+    if (!list) {
+      edges.set(key, [edge]);
+      return;
+    }
+    if (!list.some((existing) => keyOf(existing.target) === keyOf(edge.target) && existing.relation === edge.relation)) {
+      list.push(edge);
+    }
+  }
+}
@@ -6,5 +6,17 @@ export { SymbolRepository } from './repositories/symbol.repository';
 export type { SymbolRecord, SearchOptions, SymbolStats } from './repositories/symbol.repository';
 export { RelationRepository } from './repositories/relation.repository';
 export type { RelationRecord } from './repositories/relation.repository';
+export { DiagnosticRepository } from './repositories/diagnostic.repository';
+export type { DiagnosticRecord } from './repositories/diagnostic.repository';
+export { SymbolHistoryRepository } from './repositories/symbol-history.repository';
+export type { SymbolHistoryRecord } from './repositories/symbol-history.repository';
+export { SnapshotRepository } from './repositories/snapshot.repository';
+export type {
+  SnapshotRecord,
+  SnapshotBlobRecord,
+  SnapshotFileRecord,
+  SnapshotSymbolRecord,
+  SnapshotRelationRecord,
+} from './repositories/snapshot.repository';
 export * as schema from './schema';
 export { FTS_SETUP_SQL } from './schema';
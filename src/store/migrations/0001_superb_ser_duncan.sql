@@ -0,0 +1,2 @@
+ALTER TABLE `symbols` ADD `parent_id` integer;--> statement-breakpoint
+CREATE INDEX `idx_symbols_parent` ON `symbols` (`parent_id`);
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `parse_diagnostics` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`project` text NOT NULL,
+	`file_path` text NOT NULL,
+	`severity` text NOT NULL,
+	`message` text NOT NULL,
+	`help_message` text,
+	`start_line` integer NOT NULL,
+	`start_column` integer NOT NULL,
+	`end_line` integer NOT NULL,
+	`end_column` integer NOT NULL,
+	FOREIGN KEY (`project`,`file_path`) REFERENCES `files`(`project`,`file_path`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_parse_diagnostics_file` ON `parse_diagnostics` (`project`,`file_path`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `symbols` ADD `body_hash` text;
\ No newline at end of file
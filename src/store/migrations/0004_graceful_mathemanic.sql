@@ -0,0 +1 @@
+ALTER TABLE `symbols` ADD `structural_fingerprint` text;
\ No newline at end of file
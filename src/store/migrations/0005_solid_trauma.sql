@@ -0,0 +1,19 @@
+CREATE TABLE `symbol_history` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`project` text NOT NULL,
+	`file_path` text NOT NULL,
+	`name` text NOT NULL,
+	`kind` text NOT NULL,
+	`event` text NOT NULL,
+	`previous_name` text,
+	`previous_file_path` text,
+	`signature` text,
+	`fingerprint` text,
+	`body_hash` text,
+	`content_hash` text,
+	`meta_json` text,
+	`recorded_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `idx_symbol_history_name` ON `symbol_history` (`project`,`name`);--> statement-breakpoint
+CREATE INDEX `idx_symbol_history_recorded` ON `symbol_history` (`project`,`recorded_at`);
\ No newline at end of file
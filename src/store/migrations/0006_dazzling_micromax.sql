@@ -0,0 +1,55 @@
+CREATE TABLE `snapshot_blobs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`file_path` text NOT NULL,
+	`content_hash` text NOT NULL,
+	`resolution_json` text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `idx_snapshot_blobs_content` ON `snapshot_blobs` (`file_path`,`content_hash`);--> statement-breakpoint
+CREATE TABLE `snapshot_files` (
+	`snapshot` text NOT NULL,
+	`project` text NOT NULL,
+	`file_path` text NOT NULL,
+	`blob_id` integer NOT NULL,
+	PRIMARY KEY(`snapshot`, `file_path`),
+	FOREIGN KEY (`snapshot`) REFERENCES `snapshots`(`name`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`blob_id`) REFERENCES `snapshot_blobs`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_snapshot_files_blob` ON `snapshot_files` (`blob_id`);--> statement-breakpoint
+CREATE TABLE `snapshot_relations` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`blob_id` integer NOT NULL,
+	`type` text NOT NULL,
+	`src_symbol_name` text,
+	`dst_file_path` text NOT NULL,
+	`dst_symbol_name` text,
+	`meta_json` text,
+	FOREIGN KEY (`blob_id`) REFERENCES `snapshot_blobs`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_snapshot_relations_blob` ON `snapshot_relations` (`blob_id`);--> statement-breakpoint
+CREATE TABLE `snapshot_symbols` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`blob_id` integer NOT NULL,
+	`kind` text NOT NULL,
+	`name` text NOT NULL,
+	`start_line` integer NOT NULL,
+	`start_column` integer NOT NULL,
+	`end_line` integer NOT NULL,
+	`end_column` integer NOT NULL,
+	`is_exported` integer DEFAULT 0 NOT NULL,
+	`signature` text,
+	`fingerprint` text,
+	`body_hash` text,
+	`detail_json` text,
+	FOREIGN KEY (`blob_id`) REFERENCES `snapshot_blobs`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_snapshot_symbols_blob` ON `snapshot_symbols` (`blob_id`);--> statement-breakpoint
+CREATE TABLE `snapshots` (
+	`name` text PRIMARY KEY NOT NULL,
+	`ref` text NOT NULL,
+	`commit` text NOT NULL,
+	`created_at` text NOT NULL
+);
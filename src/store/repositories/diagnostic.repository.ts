@@ -0,0 +1,65 @@
+import { eq, and, asc } from 'drizzle-orm';
+import { parseDiagnostics } from '../schema';
+import type { DbConnection } from '../connection';
+
+export interface DiagnosticRecord {
+  project: string;
+  filePath: string;
+  severity: string;
+  message: string;
+  helpMessage: string | null;
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+}
+
+const COLUMNS = {
+  project: parseDiagnostics.project,
+  filePath: parseDiagnostics.filePath,
+  severity: parseDiagnostics.severity,
+  message: parseDiagnostics.message,
+  helpMessage: parseDiagnostics.helpMessage,
+  startLine: parseDiagnostics.startLine,
+  startColumn: parseDiagnostics.startColumn,
+  endLine: parseDiagnostics.endLine,
+  endColumn: parseDiagnostics.endColumn,
+};
+
+export class DiagnosticRepository {
+  constructor(private readonly db: DbConnection) {}
+
+  /**
+   * Replaces all diagnostics for `(project, filePath)`. An empty list clears them.
+   */
+  replaceFileDiagnostics(project: string, filePath: string, rows: ReadonlyArray<DiagnosticRecord>): void {
+    this.db.drizzleDb
+      .delete(parseDiagnostics)
+      .where(and(eq(parseDiagnostics.project, project), eq(parseDiagnostics.filePath, filePath)))
+      .run();
+
+    for (const row of rows) {
+      this.db.drizzleDb.insert(parseDiagnostics).values({ ...row, project, filePath }).run();
+    }
+  }
+
+  /** Diagnostics of one file, in source order. */
+  getFileDiagnostics(project: string, filePath: string): DiagnosticRecord[] {
+    return this.db.drizzleDb
+      .select(COLUMNS)
+      .from(parseDiagnostics)
+      .where(and(eq(parseDiagnostics.project, project), eq(parseDiagnostics.filePath, filePath)))
+      .orderBy(asc(parseDiagnostics.startLine), asc(parseDiagnostics.startColumn))
+      .all();
+  }
+
+  /** Diagnostics of every file in `project`, ordered by file then position. */
+  getAllDiagnostics(project: string): DiagnosticRecord[] {
+    return this.db.drizzleDb
+      .select(COLUMNS)
+      .from(parseDiagnostics)
+      .where(eq(parseDiagnostics.project, project))
+      .orderBy(asc(parseDiagnostics.filePath), asc(parseDiagnostics.startLine), asc(parseDiagnostics.startColumn))
+      .all();
+  }
+}
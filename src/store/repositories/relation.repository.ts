@@ -1,4 +1,4 @@
-import { eq, and, isNull, or, sql } from 'drizzle-orm';
+import { eq, and, isNull, or, like, sql } from 'drizzle-orm';
 import { relations as relationsTable } from '../schema';
 import type { DbConnection } from '../connection';
 
@@ -114,6 +114,31 @@ export class RelationRepository {
       .all();
   }
 
+  /**
+   * Returns relations resolved through `filePath` as a barrel, i.e. whose `metaJson.via`
+   * lists it. Matching is textual, so callers re-check the hops.
+   */
+  getRoutedThrough(project: string, filePath: string): RelationRecord[] {
+    return this.db.drizzleDb
+      .select({
+        project: relationsTable.project,
+        type: relationsTable.type,
+        srcFilePath: relationsTable.srcFilePath,
+        srcSymbolName: relationsTable.srcSymbolName,
+        dstFilePath: relationsTable.dstFilePath,
+        dstSymbolName: relationsTable.dstSymbolName,
+        metaJson: relationsTable.metaJson,
+      })
+      .from(relationsTable)
+      .where(
+        and(
+          eq(relationsTable.project, project),
+          like(relationsTable.metaJson, `%"via":%${JSON.stringify(filePath)}%`),
+        ),
+      )
+      .all();
+  }
+
   getByType(project: string, type: string): RelationRecord[] {
     return this.db.drizzleDb
       .select({
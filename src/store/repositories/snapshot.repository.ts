@@ -0,0 +1,180 @@
+import { eq, and, asc, count, inArray, notInArray } from 'drizzle-orm';
+import { snapshots, snapshotBlobs, snapshotFiles, snapshotSymbols, snapshotRelations } from '../schema';
+import type { DbConnection } from '../connection';
+
+export interface SnapshotRecord {
+  name: string;
+  ref: string;
+  commit: string;
+  createdAt: string;
+}
+
+export interface SnapshotBlobRecord {
+  id: number;
+  filePath: string;
+  contentHash: string;
+  resolutionJson: string;
+}
+
+export interface SnapshotFileRecord {
+  project: string;
+  filePath: string;
+  blobId: number;
+}
+
+export interface SnapshotSymbolRecord {
+  blobId: number;
+  kind: string;
+  name: string;
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+  isExported: number;
+  signature: string | null;
+  fingerprint: string | null;
+  bodyHash: string | null;
+  detailJson: string | null;
+}
+
+export interface SnapshotRelationRecord {
+  blobId: number;
+  type: string;
+  srcSymbolName: string | null;
+  dstFilePath: string;
+  dstSymbolName: string | null;
+  metaJson: string | null;
+}
+
+export class SnapshotRepository {
+  constructor(private readonly db: DbConnection) {}
+
+  // ── Blobs ────────────────────────────────────────────────────────────────
+
+  /** Stored blobs of `filePath` with `contentHash`; one per distinct import resolution. */
+  findBlobs(filePath: string, contentHash: string): SnapshotBlobRecord[] {
+    return this.db.drizzleDb
+      .select()
+      .from(snapshotBlobs)
+      .where(and(eq(snapshotBlobs.filePath, filePath), eq(snapshotBlobs.contentHash, contentHash)))
+      .orderBy(asc(snapshotBlobs.id))
+      .all();
+  }
+
+  /**
+   * Stores a blob with its symbols and relations.
+   *
+   * @returns The new blob id.
+   */
+  insertBlob(
+    blob: Omit<SnapshotBlobRecord, 'id'>,
+    syms: ReadonlyArray<Omit<SnapshotSymbolRecord, 'blobId'>>,
+    rels: ReadonlyArray<Omit<SnapshotRelationRecord, 'blobId'>>,
+  ): number {
+    const { id: blobId } = this.db.drizzleDb
+      .insert(snapshotBlobs)
+      .values(blob)
+      .returning({ id: snapshotBlobs.id })
+      .get();
+
+    for (const sym of syms) {
+      this.db.drizzleDb.insert(snapshotSymbols).values({ ...sym, blobId }).run();
+    }
+    for (const rel of rels) {
+      this.db.drizzleDb.insert(snapshotRelations).values({ ...rel, blobId }).run();
+    }
+    return blobId;
+  }
+
+  getBlobSymbols(blobIds: readonly number[]): SnapshotSymbolRecord[] {
+    if (blobIds.length === 0) return [];
+    return this.db.drizzleDb
+      .select({
+        blobId: snapshotSymbols.blobId,
+        kind: snapshotSymbols.kind,
+        name: snapshotSymbols.name,
+        startLine: snapshotSymbols.startLine,
+        startColumn: snapshotSymbols.startColumn,
+        endLine: snapshotSymbols.endLine,
+        endColumn: snapshotSymbols.endColumn,
+        isExported: snapshotSymbols.isExported,
+        signature: snapshotSymbols.signature,
+        fingerprint: snapshotSymbols.fingerprint,
+        bodyHash: snapshotSymbols.bodyHash,
+        detailJson: snapshotSymbols.detailJson,
+      })
+      .from(snapshotSymbols)
+      .where(inArray(snapshotSymbols.blobId, [...blobIds]))
+      .orderBy(asc(snapshotSymbols.id))
+      .all();
+  }
+
+  getBlobRelations(blobIds: readonly number[]): SnapshotRelationRecord[] {
+    if (blobIds.length === 0) return [];
+    return this.db.drizzleDb
+      .select({
+        blobId: snapshotRelations.blobId,
+        type: snapshotRelations.type,
+        srcSymbolName: snapshotRelations.srcSymbolName,
+        dstFilePath: snapshotRelations.dstFilePath,
+        dstSymbolName: snapshotRelations.dstSymbolName,
+        metaJson: snapshotRelations.metaJson,
+      })
+      .from(snapshotRelations)
+      .where(inArray(snapshotRelations.blobId, [...blobIds]))
+      .orderBy(asc(snapshotRelations.id))
+      .all();
+  }
+
+  /** Deletes blobs no snapshot refers to; their symbols and relations cascade. */
+  pruneBlobs(): void {
+    const referenced = this.db.drizzleDb.select({ id: snapshotFiles.blobId }).from(snapshotFiles);
+    this.db.drizzleDb.delete(snapshotBlobs).where(notInArray(snapshotBlobs.id, referenced)).run();
+  }
+
+  // ── Snapshots ────────────────────────────────────────────────────────────
+
+  /** Creates snapshot `snapshot.name`, replacing any snapshot of that name. */
+  replaceSnapshot(snapshot: SnapshotRecord, files: ReadonlyArray<SnapshotFileRecord>): void {
+    this.deleteSnapshot(snapshot.name);
+    this.db.drizzleDb.insert(snapshots).values(snapshot).run();
+    for (const file of files) {
+      this.db.drizzleDb.insert(snapshotFiles).values({ ...file, snapshot: snapshot.name }).run();
+    }
+  }
+
+  getSnapshot(name: string): SnapshotRecord | null {
+    return this.db.drizzleDb.select().from(snapshots).where(eq(snapshots.name, name)).get() ?? null;
+  }
+
+  /** All snapshots with their file counts, oldest first. */
+  listSnapshots(): Array<SnapshotRecord & { fileCount: number }> {
+    return this.db.drizzleDb
+      .select({
+        name: snapshots.name,
+        ref: snapshots.ref,
+        commit: snapshots.commit,
+        createdAt: snapshots.createdAt,
+        fileCount: count(snapshotFiles.filePath),
+      })
+      .from(snapshots)
+      .leftJoin(snapshotFiles, eq(snapshotFiles.snapshot, snapshots.name))
+      .groupBy(snapshots.name)
+      .orderBy(asc(snapshots.createdAt), asc(snapshots.name))
+      .all();
+  }
+
+  getSnapshotFiles(name: string): SnapshotFileRecord[] {
+    return this.db.drizzleDb
+      .select({ project: snapshotFiles.project, filePath: snapshotFiles.filePath, blobId: snapshotFiles.blobId })
+      .from(snapshotFiles)
+      .where(eq(snapshotFiles.snapshot, name))
+      .orderBy(asc(snapshotFiles.filePath))
+      .all();
+  }
+
+  /** Deletes a snapshot and its file list. Blobs stay until `pruneBlobs`. */
+  deleteSnapshot(name: string): void {
+    this.db.drizzleDb.delete(snapshots).where(eq(snapshots.name, name)).run();
+  }
+}
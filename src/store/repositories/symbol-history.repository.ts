@@ -0,0 +1,53 @@
+import { eq, and, gt, asc } from 'drizzle-orm';
+import { symbolHistory } from '../schema';
+import type { DbConnection } from '../connection';
+
+export interface SymbolHistoryRecord {
+  id: number;
+  project: string;
+  filePath: string;
+  name: string;
+  kind: string;
+  event: string;
+  previousName: string | null;
+  previousFilePath: string | null;
+  signature: string | null;
+  fingerprint: string | null;
+  bodyHash: string | null;
+  contentHash: string | null;
+  metaJson: string | null;
+  recordedAt: string;
+}
+
+export class SymbolHistoryRepository {
+  constructor(private readonly db: DbConnection) {}
+
+  /**
+   * Appends history rows. Existing rows are never updated or deleted.
+   */
+  appendHistory(rows: ReadonlyArray<Omit<SymbolHistoryRecord, 'id'>>): void {
+    for (const row of rows) {
+      this.db.drizzleDb.insert(symbolHistory).values(row).run();
+    }
+  }
+
+  /** Every recorded change of symbols named `name`, oldest first. */
+  getByName(project: string, name: string): SymbolHistoryRecord[] {
+    return this.db.drizzleDb
+      .select()
+      .from(symbolHistory)
+      .where(and(eq(symbolHistory.project, project), eq(symbolHistory.name, name)))
+      .orderBy(asc(symbolHistory.id))
+      .all();
+  }
+
+  /** Changes recorded strictly after `since` (ISO 8601), oldest first. */
+  getSince(project: string, since: string): SymbolHistoryRecord[] {
+    return this.db.drizzleDb
+      .select()
+      .from(symbolHistory)
+      .where(and(eq(symbolHistory.project, project), gt(symbolHistory.recordedAt, since)))
+      .orderBy(asc(symbolHistory.id))
+      .all();
+  }
+}
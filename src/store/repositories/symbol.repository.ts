@@ -14,7 +14,11 @@ export interface SymbolRecord {
   isExported: number;
   signature: string | null;
   fingerprint: string | null;
+  bodyHash: string | null;
+  structuralFingerprint: string | null;
   detailJson: string | null;
+  /** `id` of the enclosing symbol in the same file, or `null` for top-level symbols. */
+  parentId: number | null;
   contentHash: string;
   indexedAt: string;
 }
@@ -35,12 +39,15 @@ export class SymbolRepository {
   /**
    * Atomically replaces all symbols stored for `(project, filePath)`.
    * FTS5 is kept in sync via the `symbols_ai` / `symbols_ad` triggers.
+   *
+   * `parentName` is resolved to `parentId` against rows inserted earlier in the
+   * same call, so parents must precede their children.
    */
   replaceFileSymbols(
     project: string,
     filePath: string,
     contentHash: string,
-    syms: ReadonlyArray<Partial<SymbolRecord>>,
+    syms: ReadonlyArray<Partial<SymbolRecord> & { parentName?: string | null }>,
   ): void {
     // Remove existing symbols (cascade-triggers remove FTS5 rows).
     this.db.drizzleDb
@@ -51,8 +58,9 @@ export class SymbolRepository {
     if (!syms.length) return;
 
     const now = new Date().toISOString();
+    const idsByName = new Map<string, number>();
     for (const sym of syms) {
-      this.db.drizzleDb.insert(symbols).values({
+      const inserted = this.db.drizzleDb.insert(symbols).values({
         project,
         filePath,
         kind: sym.kind ?? 'unknown',
@@ -64,10 +72,15 @@ export class SymbolRepository {
         isExported: sym.isExported ?? 0,
         signature: sym.signature ?? null,
         fingerprint: sym.fingerprint ?? null,
+        bodyHash: sym.bodyHash ?? null,
+        structuralFingerprint: sym.structuralFingerprint ?? null,
         detailJson: sym.detailJson ?? null,
+        parentId: sym.parentName ? (idsByName.get(sym.parentName) ?? null) : null,
         contentHash,
         indexedAt: sym.indexedAt ?? now,
-      }).run();
+      }).returning({ id: symbols.id }).get();
+
+      if (inserted && sym.name && !idsByName.has(sym.name)) idsByName.set(sym.name, inserted.id);
     }
   }
 
@@ -151,6 +164,7 @@ export class SymbolRepository {
     kind?: string;
     filePath?: string;
     isExported?: boolean;
+    augments?: string;
     project?: string;
     limit: number;
   }): (SymbolRecord & { id: number })[] {
@@ -168,6 +182,9 @@ export class SymbolRepository {
           opts.isExported !== undefined
             ? eq(symbols.isExported, opts.isExported ? 1 : 0)
             : undefined,
+          opts.augments !== undefined
+            ? sql`json_extract(${symbols.detailJson}, '$.augments') = ${opts.augments}`
+            : undefined,
         ),
       )
       .orderBy(symbols.name)
@@ -40,12 +40,19 @@ export const symbols = sqliteTable(
     isExported: integer('is_exported').notNull().default(0),
     signature: text('signature'),
     fingerprint: text('fingerprint'),
+    /** Hash of the symbol's source text; differs when the body changes even if the signature does not. */
+    bodyHash: text('body_hash'),
+    /** Hash of the symbol's AST without names or whitespace; equal across renames. */
+    structuralFingerprint: text('structural_fingerprint'),
     detailJson: text('detail_json'),
+    /** `id` of the enclosing symbol in the same file (class for members, outer function for nested declarations). */
+    parentId: integer('parent_id'),
     contentHash: text('content_hash').notNull(),
     indexedAt: text('indexed_at').notNull(),
   },
   (table) => [
     index('idx_symbols_project_file').on(table.project, table.filePath),
+    index('idx_symbols_parent').on(table.parentId),
     index('idx_symbols_project_kind').on(table.project, table.kind),
     index('idx_symbols_project_name').on(table.project, table.name),
     index('idx_symbols_fingerprint').on(table.project, table.fingerprint),
@@ -79,6 +86,148 @@ export const relations = sqliteTable(
   ],
 );
 
+/** Parse errors of each file's latest version; a file with rows here is indexed from a partial AST. */
+export const parseDiagnostics = sqliteTable(
+  'parse_diagnostics',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    project: text('project').notNull(),
+    filePath: text('file_path').notNull(),
+    /** `error` | `warning` | `advice` */
+    severity: text('severity').notNull(),
+    message: text('message').notNull(),
+    helpMessage: text('help_message'),
+    startLine: integer('start_line').notNull(),
+    startColumn: integer('start_column').notNull(),
+    endLine: integer('end_line').notNull(),
+    endColumn: integer('end_column').notNull(),
+  },
+  (table) => [
+    index('idx_parse_diagnostics_file').on(table.project, table.filePath),
+    foreignKey({
+      columns: [table.project, table.filePath],
+      foreignColumns: [files.project, files.filePath],
+    }).onDelete('cascade'),
+  ],
+);
+
+/**
+ * Append-only ledger of symbol changes, one row per symbol per indexing run that changed it.
+ * Rows are never updated and outlive the files they describe (no foreign key).
+ */
+export const symbolHistory = sqliteTable(
+  'symbol_history',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    project: text('project').notNull(),
+    filePath: text('file_path').notNull(),
+    name: text('name').notNull(),
+    kind: text('kind').notNull(),
+    /** `added` | `removed` | `modified` | `renamed` | `moved` */
+    event: text('event').notNull(),
+    /** Name before a rename (`renamed`, or `moved` with a new name). */
+    previousName: text('previous_name'),
+    /** File the symbol left (`moved`). */
+    previousFilePath: text('previous_file_path'),
+    signature: text('signature'),
+    fingerprint: text('fingerprint'),
+    bodyHash: text('body_hash'),
+    /** Hash of the whole file the row's symbol state was read from. */
+    contentHash: text('content_hash'),
+    metaJson: text('meta_json'),
+    recordedAt: text('recorded_at').notNull(),
+  },
+  (table) => [
+    index('idx_symbol_history_name').on(table.project, table.name),
+    index('idx_symbol_history_recorded').on(table.project, table.recordedAt),
+  ],
+);
+
+// ── Git snapshots ──────────────────────────────────────────────────────────
+
+/** A named index of the tree of one git commit. */
+export const snapshots = sqliteTable('snapshots', {
+  name: text('name').primaryKey(),
+  /** Ref as given when the snapshot was taken (branch, tag, sha, ...). */
+  ref: text('ref').notNull(),
+  /** Commit id `ref` resolved to. */
+  commit: text('commit').notNull(),
+  createdAt: text('created_at').notNull(),
+});
+
+/**
+ * Indexed content of one file version, shared by every snapshot containing it.
+ * `resolution_json` records the import candidates probed while extracting relations and
+ * whether each existed; the blob is reused only by trees where every probe answers the same.
+ */
+export const snapshotBlobs = sqliteTable(
+  'snapshot_blobs',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    filePath: text('file_path').notNull(),
+    contentHash: text('content_hash').notNull(),
+    resolutionJson: text('resolution_json').notNull(),
+  },
+  (table) => [index('idx_snapshot_blobs_content').on(table.filePath, table.contentHash)],
+);
+
+export const snapshotFiles = sqliteTable(
+  'snapshot_files',
+  {
+    snapshot: text('snapshot')
+      .notNull()
+      .references(() => snapshots.name, { onDelete: 'cascade' }),
+    project: text('project').notNull(),
+    filePath: text('file_path').notNull(),
+    blobId: integer('blob_id')
+      .notNull()
+      .references(() => snapshotBlobs.id),
+  },
+  (table) => [
+    primaryKey({ columns: [table.snapshot, table.filePath] }),
+    index('idx_snapshot_files_blob').on(table.blobId),
+  ],
+);
+
+export const snapshotSymbols = sqliteTable(
+  'snapshot_symbols',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    blobId: integer('blob_id')
+      .notNull()
+      .references(() => snapshotBlobs.id, { onDelete: 'cascade' }),
+    kind: text('kind').notNull(),
+    name: text('name').notNull(),
+    startLine: integer('start_line').notNull(),
+    startColumn: integer('start_column').notNull(),
+    endLine: integer('end_line').notNull(),
+    endColumn: integer('end_column').notNull(),
+    isExported: integer('is_exported').notNull().default(0),
+    signature: text('signature'),
+    fingerprint: text('fingerprint'),
+    bodyHash: text('body_hash'),
+    detailJson: text('detail_json'),
+  },
+  (table) => [index('idx_snapshot_symbols_blob').on(table.blobId)],
+);
+
+/** Relations extracted from a blob; the source file is the blob's `file_path`. */
+export const snapshotRelations = sqliteTable(
+  'snapshot_relations',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    blobId: integer('blob_id')
+      .notNull()
+      .references(() => snapshotBlobs.id, { onDelete: 'cascade' }),
+    type: text('type').notNull(),
+    srcSymbolName: text('src_symbol_name'),
+    dstFilePath: text('dst_file_path').notNull(),
+    dstSymbolName: text('dst_symbol_name'),
+    metaJson: text('meta_json'),
+  },
+  (table) => [index('idx_snapshot_relations_blob').on(table.blobId)],
+);
+
 export const watcherOwner = sqliteTable(
   'watcher_owner',
   {
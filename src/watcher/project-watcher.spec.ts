@@ -282,6 +282,23 @@ describe("ProjectWatcher", () => {
     expect(events).toEqual([{ eventType: "change", filePath: "tsconfig.json" }]);
   });
 
+  it("should pass tsconfig variants as config files when callback receives an extended base config", async () => {
+    const events: Array<{ eventType: string; filePath: string }> = [];
+
+    let callback: SubscribeCallback | undefined;
+    const subscribe = async (_path: string, cb: SubscribeCallback): Promise<AsyncSubscription> => {
+      callback = cb;
+      return createFakeSubscription();
+    };
+
+    const watcher = new ProjectWatcher({ projectRoot: "/repo", extensions: [".ts"] }, subscribe);
+    await watcher.start((event) => events.push(event));
+
+    callback?.(undefined, [{ type: "update", path: "/repo/packages/core/tsconfig.base.json" }]);
+
+    expect(events).toEqual([{ eventType: "change", filePath: "packages/core/tsconfig.base.json" }]);
+  });
+
   it("should ignore jsconfig json since JSX/JS config is not supported", async () => {
     const events: Array<{ eventType: string; filePath: string }> = [];
 
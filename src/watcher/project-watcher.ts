@@ -24,6 +24,9 @@ const WATCHER_IGNORE_GLOBS: readonly string[] = [
 
 const CONFIG_FILE_NAMES = new Set(["package.json", "tsconfig.json"]);
 
+/** `tsconfig.base.json`, `tsconfig.app.json`, … — configs that may be extended or referenced. */
+const TSCONFIG_VARIANT_RE = /^tsconfig\..+\.json$/;
+
 function normalizePath(value: string): string {
   return value.replaceAll("\\", "/");
 }
@@ -51,7 +54,7 @@ export class ProjectWatcher {
     this.#rootPath = options.projectRoot;
     this.#ignoreGlobs = [...WATCHER_IGNORE_GLOBS, ...(options.ignorePatterns ?? [])];
     this.#extensions = new Set(
-      (options.extensions ?? [".ts", ".mts", ".cts"]).map((ext) =>
+      (options.extensions ?? [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"]).map((ext) =>
         ext.toLowerCase(),
       ),
     );
@@ -78,7 +81,7 @@ export class ProjectWatcher {
 
               const baseName = path.basename(relativePath);
               const extension = path.extname(relativePath).toLowerCase();
-              const isConfigFile = CONFIG_FILE_NAMES.has(baseName);
+              const isConfigFile = CONFIG_FILE_NAMES.has(baseName) || TSCONFIG_VARIANT_RE.test(baseName);
 
               if (!isConfigFile && !this.#extensions.has(extension)) {
                 continue;
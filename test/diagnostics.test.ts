@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { mkdir, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { CodeLedger } from "../src/code-ledger";
+
+const TEST_ROOT = join(process.cwd(), ".tmp-diagnostics-integration");
+
+afterEach(async () => {
+  await rm(TEST_ROOT, { recursive: true, force: true });
+});
+
+describe("diagnostics integration", () => {
+  it("should report unresolved and out-of-project imports when getDiagnostics is called after indexing", async () => {
+    const root = join(TEST_ROOT, "app");
+    await mkdir(join(root, "src"), { recursive: true });
+    await mkdir(join(TEST_ROOT, "shared"), { recursive: true });
+
+    await Bun.write(join(root, "package.json"), JSON.stringify({ name: "app" }));
+    await Bun.write(join(TEST_ROOT, "shared/util.ts"), "export const util = 1;\n");
+    await Bun.write(
+      join(root, "src/main.ts"),
+      "import { a } from './missing';\nimport { util } from '../../shared/util';\nexport const b = a + util;\n",
+    );
+
+    const ledger = await CodeLedger.open({ projectRoot: root });
+    try {
+      const diagnostics = ledger.getDiagnostics("src/main.ts");
+
+      expect(diagnostics.map((d) => [d.severity, d.message, d.span.start.line])).toEqual([
+        ["warning", "Cannot resolve import './missing'", 1],
+        ["warning", "Import '../shared/util.ts' resolves outside the project root", 2],
+      ]);
+    } finally {
+      await ledger.close();
+    }
+  });
+});
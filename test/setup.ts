@@ -27,6 +27,8 @@ import * as _realCallsExtractor from '../src/extractor/calls-extractor';
 import * as _realHeritageExtractor from '../src/extractor/heritage-extractor';
 import * as _realSymbolExtractor from '../src/extractor/symbol-extractor';
 import * as _realRelationExtractor from '../src/extractor/relation-extractor';
+import * as _realTypeReferencesExtractor from '../src/extractor/type-references-extractor';
+import * as _realRendersExtractor from '../src/extractor/renders-extractor';
 import * as _realHasher from '../src/common/hasher';
 import * as _realPathUtils from '../src/common/path-utils';
 import * as _realTsconfigResolver from '../src/common/tsconfig-resolver';
@@ -34,6 +36,8 @@ import * as _realProjectDiscovery from '../src/common/project-discovery';
 import * as _realFileIndexer from '../src/indexer/file-indexer';
 import * as _realSymbolIndexer from '../src/indexer/symbol-indexer';
 import * as _realRelationIndexer from '../src/indexer/relation-indexer';
+import * as _realReExportResolver from '../src/indexer/reexport-resolver';
+import * as _realOverrideResolver from '../src/indexer/override-resolver';
 import * as _realCommentParser from 'comment-parser';
 import * as _realNodePath from 'node:path';
 import * as _realNodeFs from 'node:fs';
@@ -47,6 +51,8 @@ const realCallsExtractor = { ..._realCallsExtractor };
 const realHeritageExtractor = { ..._realHeritageExtractor };
 const realSymbolExtractor = { ..._realSymbolExtractor };
 const realRelationExtractor = { ..._realRelationExtractor };
+const realTypeReferencesExtractor = { ..._realTypeReferencesExtractor };
+const realRendersExtractor = { ..._realRendersExtractor };
 const realHasher = { ..._realHasher };
 const realPathUtils = { ..._realPathUtils };
 const realTsconfigResolver = { ..._realTsconfigResolver };
@@ -54,6 +60,8 @@ const realProjectDiscovery = { ..._realProjectDiscovery };
 const realFileIndexer = { ..._realFileIndexer };
 const realSymbolIndexer = { ..._realSymbolIndexer };
 const realRelationIndexer = { ..._realRelationIndexer };
+const realReExportResolver = { ..._realReExportResolver };
+const realOverrideResolver = { ..._realOverrideResolver };
 const realCommentParser = { ..._realCommentParser };
 const realNodePath = { ..._realNodePath };
 const realNodeFs = { ..._realNodeFs };
@@ -70,6 +78,8 @@ afterEach(() => {
   mock.module('../src/extractor/heritage-extractor', () => realHeritageExtractor);
   mock.module('../src/extractor/symbol-extractor', () => realSymbolExtractor);
   mock.module('../src/extractor/relation-extractor', () => realRelationExtractor);
+  mock.module('../src/extractor/type-references-extractor', () => realTypeReferencesExtractor);
+  mock.module('../src/extractor/renders-extractor', () => realRendersExtractor);
   mock.module('../src/common/hasher', () => realHasher);
   mock.module('../src/common/path-utils', () => realPathUtils);
   mock.module('../src/common/tsconfig-resolver', () => realTsconfigResolver);
@@ -77,6 +87,8 @@ afterEach(() => {
   mock.module('../src/indexer/file-indexer', () => realFileIndexer);
   mock.module('../src/indexer/symbol-indexer', () => realSymbolIndexer);
   mock.module('../src/indexer/relation-indexer', () => realRelationIndexer);
+  mock.module('../src/indexer/reexport-resolver', () => realReExportResolver);
+  mock.module('../src/indexer/override-resolver', () => realOverrideResolver);
   mock.module('comment-parser', () => realCommentParser);
   mock.module('node:path', () => realNodePath);
   mock.module('node:fs', () => realNodeFs);
@@ -5,7 +5,12 @@ import { join } from 'node:path';
 import { DbConnection } from '../src/store/connection';
 import { FileRepository } from '../src/store/repositories/file.repository';
 import { SymbolRepository } from '../src/store/repositories/symbol.repository';
+import type { SymbolRecord } from '../src/store/repositories/symbol.repository';
 import { RelationRepository } from '../src/store/repositories/relation.repository';
+import { DiagnosticRepository } from '../src/store/repositories/diagnostic.repository';
+import { SymbolHistoryRepository } from '../src/store/repositories/symbol-history.repository';
+import type { SymbolHistoryRecord } from '../src/store/repositories/symbol-history.repository';
+import { SnapshotRepository } from '../src/store/repositories/snapshot.repository';
 
 // ── Fixtures ───────────────────────────────────────────────────────────────
 
@@ -66,6 +71,60 @@ function makeRelationRecord(overrides: Partial<{
   };
 }
 
+function makeDiagnosticRecord(overrides: Partial<{
+  project: string; filePath: string; severity: string; message: string; helpMessage: string | null;
+  startLine: number; startColumn: number; endLine: number; endColumn: number;
+}> = {}) {
+  return {
+    project: 'test-project',
+    filePath: 'src/index.ts',
+    severity: 'error',
+    message: 'Unexpected token',
+    helpMessage: null,
+    startLine: 1,
+    startColumn: 0,
+    endLine: 1,
+    endColumn: 1,
+    ...overrides,
+  };
+}
+
+function makeHistoryRecord(overrides: Partial<Omit<SymbolHistoryRecord, 'id'>> = {}): Omit<SymbolHistoryRecord, 'id'> {
+  return {
+    project: 'test-project',
+    filePath: 'src/index.ts',
+    name: 'run',
+    kind: 'function',
+    event: 'added',
+    previousName: null,
+    previousFilePath: null,
+    signature: null,
+    fingerprint: 'fp-run',
+    bodyHash: 'body-run',
+    contentHash: 'abc123',
+    metaJson: null,
+    recordedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function makeSnapshotSymbol(overrides: Partial<{ kind: string; name: string; isExported: number; fingerprint: string | null }> = {}) {
+  return {
+    kind: 'function',
+    name: 'run',
+    startLine: 1,
+    startColumn: 0,
+    endLine: 1,
+    endColumn: 10,
+    isExported: 1,
+    signature: null,
+    fingerprint: 'fp-run',
+    bodyHash: 'body-run',
+    detailJson: null,
+    ...overrides,
+  };
+}
+
 // ── Shared setup ───────────────────────────────────────────────────────────
 
 let tmpDir: string;
@@ -73,6 +132,9 @@ let db: DbConnection;
 let fileRepo: FileRepository;
 let symbolRepo: SymbolRepository;
 let relationRepo: RelationRepository;
+let diagnosticRepo: DiagnosticRepository;
+let historyRepo: SymbolHistoryRepository;
+let snapshotRepo: SnapshotRepository;
 
 beforeEach(async () => {
   tmpDir = await mkdtemp(join(tmpdir(), 'code-ledger-store-test-'));
@@ -81,6 +143,9 @@ beforeEach(async () => {
   fileRepo = new FileRepository(db);
   symbolRepo = new SymbolRepository(db);
   relationRepo = new RelationRepository(db);
+  diagnosticRepo = new DiagnosticRepository(db);
+  historyRepo = new SymbolHistoryRepository(db);
+  snapshotRepo = new SnapshotRepository(db);
 });
 
 afterEach(async () => {
@@ -265,6 +330,15 @@ describe('SymbolRepository', () => {
     expect(result[0]!.name).toBe('myFn');
   });
 
+  it('should store bodyHash and default it to null when omitted', () => {
+    symbolRepo.replaceFileSymbols('test-project', 'src/index.ts', 'abc123', [
+      { ...makeSymbolRecord({ name: 'hashed' }), bodyHash: 'body-1' },
+      makeSymbolRecord({ name: 'plain' }),
+    ]);
+    const result = symbolRepo.getFileSymbols('test-project', 'src/index.ts');
+    expect(result.map((s) => [s.name, s.bodyHash])).toEqual([['hashed', 'body-1'], ['plain', null]]);
+  });
+
   it('should replace all symbols for file on second call', () => {
     symbolRepo.replaceFileSymbols('test-project', 'src/index.ts', 'abc123', [
       makeSymbolRecord({ name: 'old' }),
@@ -277,6 +351,19 @@ describe('SymbolRepository', () => {
     expect(result[0]!.name).toBe('new');
   });
 
+  it('should resolve parentName to the id of the parent row when nested symbols are inserted', () => {
+    symbolRepo.replaceFileSymbols('test-project', 'src/index.ts', 'abc123', [
+      makeSymbolRecord({ name: 'outer' }),
+      { ...makeSymbolRecord({ name: 'outer.inner', fingerprint: 'fp002' }), parentName: 'outer' },
+      { ...makeSymbolRecord({ name: 'orphan', fingerprint: 'fp003' }), parentName: 'missing' },
+    ]);
+    const result = symbolRepo.getFileSymbols('test-project', 'src/index.ts') as Array<SymbolRecord & { id: number }>;
+    const outer = result.find((r) => r.name === 'outer')!;
+    expect(outer.parentId).toBeNull();
+    expect(result.find((r) => r.name === 'outer.inner')!.parentId).toBe(outer.id);
+    expect(result.find((r) => r.name === 'orphan')!.parentId).toBeNull();
+  });
+
   it('should clear all symbols when called with empty array', () => {
     symbolRepo.replaceFileSymbols('test-project', 'src/index.ts', 'abc123', [makeSymbolRecord()]);
     symbolRepo.replaceFileSymbols('test-project', 'src/index.ts', 'abc456', []);
@@ -349,6 +436,16 @@ describe('SymbolRepository', () => {
     expect(result.length).toBe(1);
   });
 
+  it('should filter searchByQuery by the augmented module when augments is given', () => {
+    symbolRepo.replaceFileSymbols('test-project', 'src/index.ts', 'abc123', [
+      makeSymbolRecord({ kind: 'interface', name: 'express.Request', fingerprint: 'fp-a', detailJson: '{"augments":"express"}' }),
+      makeSymbolRecord({ kind: 'interface', name: 'global.Window', fingerprint: 'fp-b', detailJson: '{"augments":"global"}' }),
+      makeSymbolRecord({ kind: 'interface', name: 'Request', fingerprint: 'fp-c' }),
+    ]);
+    const result = symbolRepo.searchByQuery({ project: 'test-project', augments: 'express', limit: 10 });
+    expect(result.map((r) => r.name)).toEqual(['express.Request']);
+  });
+
   it('should return empty array for unknown fingerprint', () => {
     expect(symbolRepo.getByFingerprint('test-project', 'no-such-fp')).toEqual([]);
   });
@@ -418,6 +515,16 @@ describe('RelationRepository', () => {
     expect(relationRepo.getIncoming('test-project', 'src/nothing.ts')).toEqual([]);
   });
 
+  it('should return relations whose via hops list the barrel via getRoutedThrough', () => {
+    relationRepo.replaceFileRelations('test-project', 'src/index.ts', [
+      makeRelationRecord({ dstSymbolName: 'a', metaJson: JSON.stringify({ via: ['src/barrel.ts'] }) }),
+      makeRelationRecord({ dstSymbolName: 'b', metaJson: JSON.stringify({ via: ['src/other.ts'] }) }),
+      makeRelationRecord({ dstSymbolName: 'c', metaJson: null }),
+    ]);
+    const result = relationRepo.getRoutedThrough('test-project', 'src/barrel.ts');
+    expect(result.map((r) => r.dstSymbolName)).toEqual(['a']);
+  });
+
   it('should return only matching type via getByType', () => {
     relationRepo.replaceFileRelations('test-project', 'src/index.ts', [
       makeRelationRecord({ type: 'imports' }),
@@ -481,6 +588,153 @@ describe('RelationRepository', () => {
   });
 });
 
+// ── DiagnosticRepository ───────────────────────────────────────────────────
+
+describe('DiagnosticRepository', () => {
+  beforeEach(() => {
+    fileRepo.upsertFile(makeFileRecord({ filePath: 'src/index.ts' }));
+    fileRepo.upsertFile(makeFileRecord({ filePath: 'src/utils.ts' }));
+  });
+
+  it('should return diagnostics in source order after replaceFileDiagnostics', () => {
+    diagnosticRepo.replaceFileDiagnostics('test-project', 'src/index.ts', [
+      makeDiagnosticRecord({ startLine: 3, message: 'second' }),
+      makeDiagnosticRecord({ startLine: 1, message: 'first' }),
+    ]);
+
+    const result = diagnosticRepo.getFileDiagnostics('test-project', 'src/index.ts');
+
+    expect(result.map((d) => d.message)).toEqual(['first', 'second']);
+  });
+
+  it('should clear diagnostics when replaceFileDiagnostics is called with an empty list', () => {
+    diagnosticRepo.replaceFileDiagnostics('test-project', 'src/index.ts', [makeDiagnosticRecord()]);
+    diagnosticRepo.replaceFileDiagnostics('test-project', 'src/index.ts', []);
+
+    expect(diagnosticRepo.getFileDiagnostics('test-project', 'src/index.ts')).toEqual([]);
+  });
+
+  it('should return diagnostics of every file in the project via getAllDiagnostics', () => {
+    diagnosticRepo.replaceFileDiagnostics('test-project', 'src/utils.ts', [makeDiagnosticRecord({ filePath: 'src/utils.ts' })]);
+    diagnosticRepo.replaceFileDiagnostics('test-project', 'src/index.ts', [makeDiagnosticRecord()]);
+
+    expect(diagnosticRepo.getAllDiagnostics('test-project').map((d) => d.filePath)).toEqual(['src/index.ts', 'src/utils.ts']);
+  });
+
+  it('should cascade delete diagnostics when the file is deleted', () => {
+    diagnosticRepo.replaceFileDiagnostics('test-project', 'src/index.ts', [makeDiagnosticRecord()]);
+
+    fileRepo.deleteFile('test-project', 'src/index.ts');
+
+    expect(diagnosticRepo.getFileDiagnostics('test-project', 'src/index.ts')).toEqual([]);
+  });
+});
+
+// ── SymbolHistoryRepository ────────────────────────────────────────────────
+
+describe('SymbolHistoryRepository', () => {
+  it('should return the rows of a name in insertion order after appendHistory', () => {
+    historyRepo.appendHistory([
+      makeHistoryRecord({ event: 'added' }),
+      makeHistoryRecord({ name: 'other' }),
+      makeHistoryRecord({ event: 'modified', metaJson: '{"bodyChanged":true,"signatureChanged":false}' }),
+    ]);
+
+    const result = historyRepo.getByName('test-project', 'run');
+
+    expect(result.map((r) => r.event)).toEqual(['added', 'modified']);
+    expect(result[1]!.metaJson).toBe('{"bodyChanged":true,"signatureChanged":false}');
+  });
+
+  it('should return only rows recorded after the given timestamp via getSince', () => {
+    historyRepo.appendHistory([
+      makeHistoryRecord({ name: 'old', recordedAt: '2026-01-01T00:00:00.000Z' }),
+      makeHistoryRecord({ name: 'new', recordedAt: '2026-02-01T00:00:00.000Z' }),
+      makeHistoryRecord({ name: 'elsewhere', project: 'other', recordedAt: '2026-02-01T00:00:00.000Z' }),
+    ]);
+
+    const result = historyRepo.getSince('test-project', '2026-01-01T00:00:00.000Z');
+
+    expect(result.map((r) => r.name)).toEqual(['new']);
+  });
+
+  it('should keep history rows when the file is deleted', () => {
+    fileRepo.upsertFile(makeFileRecord({ filePath: 'src/index.ts' }));
+    historyRepo.appendHistory([makeHistoryRecord()]);
+
+    fileRepo.deleteFile('test-project', 'src/index.ts');
+
+    expect(historyRepo.getByName('test-project', 'run')).toHaveLength(1);
+  });
+});
+
+// ── SnapshotRepository ─────────────────────────────────────────────────────
+
+describe('SnapshotRepository', () => {
+  const BLOB = { filePath: 'src/a.ts', contentHash: 'hash-a', resolutionJson: '{"context":"x","probes":{}}' };
+  const SNAPSHOT = { name: 'main', ref: 'main', commit: 'c0ffee', createdAt: '2026-01-01T00:00:00.000Z' };
+
+  it('should store a blob with its symbols and relations and find it by path and content hash', () => {
+    const blobId = snapshotRepo.insertBlob(
+      BLOB,
+      [makeSnapshotSymbol()],
+      [{ type: 'imports', srcSymbolName: null, dstFilePath: 'src/b.ts', dstSymbolName: null, metaJson: null }],
+    );
+
+    expect(snapshotRepo.findBlobs('src/a.ts', 'hash-a')).toEqual([{ id: blobId, ...BLOB }]);
+    expect(snapshotRepo.findBlobs('src/a.ts', 'other')).toEqual([]);
+    expect(snapshotRepo.getBlobSymbols([blobId])).toEqual([{ blobId, ...makeSnapshotSymbol() }]);
+    expect(snapshotRepo.getBlobRelations([blobId]).map((r) => r.dstFilePath)).toEqual(['src/b.ts']);
+  });
+
+  it('should replace the file list when a snapshot name is reused', () => {
+    const a = snapshotRepo.insertBlob(BLOB, [], []);
+    const b = snapshotRepo.insertBlob({ ...BLOB, filePath: 'src/b.ts' }, [], []);
+    snapshotRepo.replaceSnapshot(SNAPSHOT, [{ project: 'test-project', filePath: 'src/a.ts', blobId: a }]);
+
+    snapshotRepo.replaceSnapshot({ ...SNAPSHOT, commit: 'beef' }, [
+      { project: 'test-project', filePath: 'src/b.ts', blobId: b },
+    ]);
+
+    expect(snapshotRepo.getSnapshot('main')?.commit).toBe('beef');
+    expect(snapshotRepo.getSnapshotFiles('main')).toEqual([{ project: 'test-project', filePath: 'src/b.ts', blobId: b }]);
+  });
+
+  it('should list snapshots with their file counts', () => {
+    const a = snapshotRepo.insertBlob(BLOB, [], []);
+    snapshotRepo.replaceSnapshot(SNAPSHOT, [{ project: 'test-project', filePath: 'src/a.ts', blobId: a }]);
+    snapshotRepo.replaceSnapshot({ ...SNAPSHOT, name: 'empty', createdAt: '2026-01-02T00:00:00.000Z' }, []);
+
+    expect(snapshotRepo.listSnapshots()).toEqual([
+      { ...SNAPSHOT, fileCount: 1 },
+      { ...SNAPSHOT, name: 'empty', createdAt: '2026-01-02T00:00:00.000Z', fileCount: 0 },
+    ]);
+  });
+
+  it('should delete only blobs no snapshot refers to when pruneBlobs runs', () => {
+    const kept = snapshotRepo.insertBlob(BLOB, [makeSnapshotSymbol()], []);
+    const orphan = snapshotRepo.insertBlob({ ...BLOB, contentHash: 'hash-old' }, [makeSnapshotSymbol()], []);
+    snapshotRepo.replaceSnapshot(SNAPSHOT, [{ project: 'test-project', filePath: 'src/a.ts', blobId: kept }]);
+
+    snapshotRepo.pruneBlobs();
+
+    expect(snapshotRepo.findBlobs('src/a.ts', 'hash-old')).toEqual([]);
+    expect(snapshotRepo.getBlobSymbols([orphan])).toEqual([]);
+    expect(snapshotRepo.getBlobSymbols([kept])).toHaveLength(1);
+  });
+
+  it('should remove the file list but keep blobs when a snapshot is deleted', () => {
+    const a = snapshotRepo.insertBlob(BLOB, [], []);
+    snapshotRepo.replaceSnapshot(SNAPSHOT, [{ project: 'test-project', filePath: 'src/a.ts', blobId: a }]);
+
+    snapshotRepo.deleteSnapshot('main');
+
+    expect(snapshotRepo.getSnapshot('main')).toBeNull();
+    expect(snapshotRepo.getSnapshotFiles('main')).toEqual([]);
+    expect(snapshotRepo.findBlobs('src/a.ts', 'hash-a')).toHaveLength(1);
+  });
+});
+
 // ── DbConnection — WatcherOwnerStore 메서드 ────────────────────────────────
 
 describe('DbConnection WatcherOwnerStore', () => {